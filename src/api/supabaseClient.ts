@@ -5,7 +5,8 @@ import { createClient } from "@supabase/supabase-js";
  *
  * IMPORTANT: This client is configured for email/password authentication only.
  * No database operations or backend logic should be performed here.
- * All data persistence remains in localStorage (MVP-frozen).
+ * Local stores remain the source of truth; the opt-in household sync
+ * (state/syncService + api/syncRemote) reuses this client for its tables.
  *
  * API Key Strategy:
  * - Uses PUBLISHABLE key (not legacy anon key)
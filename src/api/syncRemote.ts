@@ -0,0 +1,186 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+/**
+ * Remote side of household cloud sync.
+ *
+ * Each synced store has its own table (see supabase/migrations), keyed by
+ * (household_id, id). Rows carry the record as JSON plus the client-side
+ * updated_at used for conflict resolution. synced_at is set by the server
+ * and is what pulls page on, so client clock skew cannot hide changes.
+ *
+ * The sync service only talks to the SyncRemote interface, so it can run
+ * against hosted Supabase, a local `supabase start` stack, or any stand-in.
+ */
+
+export type SyncCollection =
+  | "periodLocks"
+  | "periodSnapshots"
+  | "transactions"
+  | "income"
+  | "distributionPlans"
+  | "scheduledTemplates"
+  | "categoryRules"
+  | "assets"
+  | "liabilities"
+  | "netWorthHistory"
+  | "loans"
+  | "fxRates"
+  | "investmentAccounts"
+  | "holdings"
+  | "securityPrices"
+  | "savingsGoals"
+  | "categories"
+  | "accounts"
+  | "reconciliations"
+  | "importProfiles";
+
+export const SYNC_TABLES: Record<SyncCollection, string> = {
+  periodLocks: "period_locks",
+  periodSnapshots: "period_snapshots",
+  transactions: "transactions",
+  income: "income",
+  distributionPlans: "distribution_plans",
+  scheduledTemplates: "scheduled_templates",
+  categoryRules: "category_rules",
+  assets: "assets",
+  liabilities: "liabilities",
+  netWorthHistory: "net_worth_history",
+  loans: "loans",
+  fxRates: "fx_rates",
+  investmentAccounts: "investment_accounts",
+  holdings: "holdings",
+  securityPrices: "security_prices",
+  savingsGoals: "savings_goals",
+  categories: "categories",
+  accounts: "accounts",
+  reconciliations: "reconciliations",
+  importProfiles: "import_profiles",
+};
+
+export interface SyncRow {
+  household_id: string;
+  id: string;
+  data: unknown | null; // null when deleted
+  deleted: boolean;
+  updated_at: string; // ISO, stamped by the editing client
+  synced_at?: string; // ISO, stamped by the server
+}
+
+export interface SyncRemote {
+  /** Rows of one household changed on the server after `since` (synced_at) */
+  pull(collection: SyncCollection, householdId: string, since: string | null): Promise<SyncRow[]>;
+  /** Upsert rows by (household_id, id) */
+  push(collection: SyncCollection, rows: SyncRow[]): Promise<void>;
+  /** The signed-in user's role in a household (null if not a member) */
+  getRole(householdId: string): Promise<string | null>;
+  /**
+   * Become the owner of a household nobody has synced yet
+   * @returns The signed-in user's role (null if the household belongs to others)
+   */
+  claimHousehold(householdId: string): Promise<string | null>;
+}
+
+/**
+ * SyncRemote backed by Supabase tables
+ */
+export function createSupabaseRemote(client: SupabaseClient): SyncRemote {
+  return {
+    async pull(collection, householdId, since) {
+      let query = client
+        .from(SYNC_TABLES[collection])
+        .select("household_id, id, data, deleted, updated_at, synced_at")
+        .eq("household_id", householdId)
+        .order("synced_at", { ascending: true });
+      if (since) {
+        query = query.gt("synced_at", since);
+      }
+
+      const { data, error } = await query;
+      if (error) throw new Error(error.message);
+      return (data ?? []) as SyncRow[];
+    },
+
+    async push(collection, rows) {
+      if (rows.length === 0) return;
+      const { error } = await client
+        .from(SYNC_TABLES[collection])
+        .upsert(
+          rows.map(({ synced_at: _syncedAt, ...row }) => {
+            void _syncedAt;
+            return row;
+          }),
+          { onConflict: "household_id,id" }
+        );
+      if (error) throw new Error(error.message);
+    },
+
+    async getRole(householdId) {
+      const { data, error } = await client
+        .from("household_members")
+        .select("role")
+        .eq("household_id", householdId)
+        .maybeSingle();
+      if (error) throw new Error(error.message);
+      return (data as { role: string } | null)?.role ?? null;
+    },
+
+    async claimHousehold(householdId) {
+      const { data, error } = await client.rpc("stewardly_claim_household", {
+        p_household_id: householdId,
+      });
+      if (error) throw new Error(error.message);
+      return typeof data === "string" ? data : null;
+    },
+  };
+}
+
+/**
+ * In-memory SyncRemote: one shared "server" that several devices can sync
+ * through (pass it to setSyncRemote). Used by the release checks.
+ */
+export function createMemoryRemote(): SyncRemote & {
+  /** The signed-in user's role, by household */
+  members: Map<string, string>;
+  /** Make every call fail, as when the network drops */
+  offline: boolean;
+} {
+  const tables = new Map<SyncCollection, Map<string, SyncRow>>();
+  const start = Date.now();
+  let tick = 0;
+
+  const remote = {
+    members: new Map<string, string>(),
+    offline: false,
+
+    async pull(collection: SyncCollection, householdId: string, since: string | null) {
+      if (remote.offline) throw new Error("Network unavailable");
+      return [...(tables.get(collection)?.values() ?? [])]
+        .filter((row) => row.household_id === householdId && (!since || row.synced_at! > since))
+        .sort((a, b) => a.synced_at!.localeCompare(b.synced_at!))
+        .map((row) => structuredClone(row));
+    },
+
+    async push(collection: SyncCollection, rows: SyncRow[]) {
+      if (remote.offline) throw new Error("Network unavailable");
+      const table = tables.get(collection) ?? new Map<string, SyncRow>();
+      tables.set(collection, table);
+      for (const row of rows) {
+        // Server-stamped and strictly increasing, like synced_at's trigger
+        const synced_at = new Date(start + ++tick).toISOString();
+        table.set(`${row.household_id}/${row.id}`, { ...structuredClone(row), synced_at });
+      }
+    },
+
+    async getRole(householdId: string) {
+      if (remote.offline) throw new Error("Network unavailable");
+      return remote.members.get(householdId) ?? null;
+    },
+
+    async claimHousehold(householdId: string) {
+      if (remote.offline) throw new Error("Network unavailable");
+      if (!remote.members.has(householdId)) remote.members.set(householdId, "owner");
+      return remote.members.get(householdId) ?? null;
+    },
+  };
+  return remote;
+}
@@ -1,4 +1,5 @@
 import { Transactions } from "../pages/transactions/Transactions";
+import { ImportTransactions } from "../pages/transactions/ImportTransactions";
 import { createBrowserRouter, Navigate } from "react-router-dom";
 import { AppShell } from "../components/layout/AppShell";
 import { ProtectedRoute } from "./ProtectedRoute";
@@ -12,10 +13,18 @@ import { Plans } from "../pages/distribution/Plans";
 import { PlanEditor } from "../pages/distribution/PlanEditor";
 import { PeriodAllocation } from "../pages/distribution/PeriodAllocation";
 import { Assets } from "../pages/networth/Assets";
+import { Accounts } from "../pages/networth/Accounts";
 import { Liabilities } from "../pages/networth/Liabilities";
+import { Investments } from "../pages/networth/Investments";
 import { MonthlyReport } from "../pages/reports/MonthlyReport";
 import { ScheduledTransactions } from "../pages/operations/ScheduledTransactions";
+import { CategoryRules } from "../pages/operations/CategoryRules";
 import { ReleaseReadiness } from "../pages/settings/ReleaseReadiness";
+import { Backup } from "../pages/settings/Backup";
+import { Sync } from "../pages/settings/Sync";
+import { Households } from "../pages/settings/Households";
+import { FxRates } from "../pages/settings/FxRates";
+import { Categories } from "../pages/settings/Categories";
 
 function IndexRedirect() {
   const { accessToken } = getSession();
@@ -42,16 +51,25 @@ export const router = createBrowserRouter([
           { path: "/dashboard/distribution", element: <DistributionHealth /> },
           { path: "/dashboard/networth", element: <NetWorthDashboard /> },
           { path: "/dashboard/transactions", element: <Transactions /> },
+          { path: "/transactions/import", element: <ImportTransactions /> },
           { path: "/income", element: <IncomeList /> },
           { path: "/plans", element: <Plans /> },
           { path: "/plans/new", element: <PlanEditor /> },
           { path: "/plans/:id/edit", element: <PlanEditor /> },
           { path: "/distribution/period", element: <PeriodAllocation /> },
           { path: "/operations/scheduled", element: <ScheduledTransactions /> },
+          { path: "/operations/rules", element: <CategoryRules /> },
+          { path: "/networth/accounts", element: <Accounts /> },
           { path: "/networth/assets", element: <Assets /> },
           { path: "/networth/liabilities", element: <Liabilities /> },
+          { path: "/networth/investments", element: <Investments /> },
           { path: "/reports/monthly", element: <MonthlyReport /> },
           { path: "/settings/release", element: <ReleaseReadiness /> },
+          { path: "/settings/backup", element: <Backup /> },
+          { path: "/settings/sync", element: <Sync /> },
+          { path: "/settings/households", element: <Households /> },
+          { path: "/settings/fx-rates", element: <FxRates /> },
+          { path: "/settings/categories", element: <Categories /> },
         ],
       },
     ],
@@ -0,0 +1,72 @@
+import { useMemo } from "react";
+import type { Account } from "../../types/accounts";
+import type { MoneyTransaction } from "../../types/transactions";
+import { upcomingCardPayments } from "../../utils/cardCycles";
+
+interface UpcomingCardPaymentsProps {
+  accounts: Account[];
+  transactions: MoneyTransaction[];
+}
+
+function formatMoney(amount: number, currency = "SGD") {
+  try {
+    return new Intl.NumberFormat(undefined, { style: "currency", currency }).format(amount);
+  } catch {
+    return `${currency} ${amount.toFixed(2)}`;
+  }
+}
+
+function todayISO() {
+  const d = new Date();
+  const yyyy = d.getFullYear();
+  const mm = String(d.getMonth() + 1).padStart(2, "0");
+  const dd = String(d.getDate()).padStart(2, "0");
+  return `${yyyy}-${mm}-${dd}`;
+}
+
+/**
+ * Credit card statements still to be paid, soonest due first. Hidden until a
+ * card has a statement closing day and payment due day.
+ */
+export function UpcomingCardPayments({ accounts, transactions }: UpcomingCardPaymentsProps) {
+  const rows = useMemo(() => upcomingCardPayments(accounts, transactions, todayISO()), [accounts, transactions]);
+  const hasCycles = accounts.some((a) => !a.archived && a.type === "creditCard" && a.statementDay !== undefined);
+  if (!hasCycles) return null;
+
+  return (
+    <div className="rounded-lg border border-slate-200 bg-white p-6">
+      <h2 className="text-lg font-semibold">Upcoming Card Payments</h2>
+      <p className="mt-1 text-sm text-slate-600">
+        Closed credit card statements not yet paid off. Pay by transfer from a bank account, or record a Debt
+        expense that names the card.
+      </p>
+
+      {rows.length === 0 ? (
+        <div className="mt-4 text-sm text-slate-600">All card statements are paid.</div>
+      ) : (
+        <div className="mt-4 divide-y divide-slate-100 rounded-lg border border-slate-200">
+          {rows.map(({ account, statement, remaining }) => (
+            <div key={account.id} className="flex items-center justify-between gap-4 px-4 py-2 text-sm">
+              <div>
+                <div className="font-medium">{account.name}</div>
+                <div className="text-xs text-slate-500">
+                  Statement closed {statement.closingDate} · {formatMoney(statement.balance, account.currency)}
+                  {statement.paid > 0 && `, ${formatMoney(statement.paid, account.currency)} paid`}
+                </div>
+              </div>
+              <div className="flex items-center gap-3">
+                <span className="text-slate-600">Due {statement.dueDate}</span>
+                <span className="font-semibold">{formatMoney(remaining, account.currency)}</span>
+                {statement.status === "overdue" ? (
+                  <span className="rounded bg-red-100 px-1.5 py-0.5 text-xs text-red-800">Overdue</span>
+                ) : (
+                  <span className="rounded bg-amber-100 px-1.5 py-0.5 text-xs text-amber-800">Due</span>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,22 @@
+import { roleAllows, getRestrictedTitle, getRoleRestrictionMessage, type HouseholdAction } from "../../utils/roleGuard";
+import { useHouseholdRole } from "../../state/useHouseholdRole";
+
+type Props = {
+  action?: HouseholdAction; // Defaults to "edit"
+};
+
+/**
+ * Reusable role enforcement banner
+ * Shows when the current household role does not allow an action
+ */
+export function RoleBanner({ action = "edit" }: Props) {
+  const role = useHouseholdRole();
+  if (roleAllows(role, action)) return null;
+
+  return (
+    <div className="rounded-lg border border-amber-300 bg-amber-50 p-3 text-sm text-amber-900">
+      <div className="font-semibold">🔒 {getRestrictedTitle(action)}</div>
+      <div className="mt-1">{getRoleRestrictionMessage(action)} Ask a household owner if you need access.</div>
+    </div>
+  );
+}
@@ -0,0 +1,30 @@
+import { useEffect, useState } from "react";
+import { getStorageWriteErrors, subscribeStorageWriteErrors } from "../../state/storageAdapter";
+
+/**
+ * Shows when saving transactions or income to this device failed
+ * (e.g. storage full). The changes stay on screen and are saved again
+ * with the next change; the banner clears once a save succeeds.
+ */
+export function StorageErrorBanner() {
+  const [errors, setErrors] = useState<string[]>(() => getStorageWriteErrors());
+
+  useEffect(() => subscribeStorageWriteErrors(() => setErrors(getStorageWriteErrors())), []);
+
+  if (errors.length === 0) return null;
+
+  return (
+    <div className="mb-4 rounded-lg border border-red-300 bg-red-50 p-3 text-sm text-red-900">
+      <div className="font-semibold">Changes not saved on this device</div>
+      {errors.map((error) => (
+        <div key={error} className="mt-1">
+          {error}
+        </div>
+      ))}
+      <div className="mt-1">
+        They will be saved again with your next change. Free up browser storage or download a backup before closing
+        the app.
+      </div>
+    </div>
+  );
+}
@@ -1,4 +1,6 @@
 import type { DistributionPlan } from "../../types/distribution";
+import { useCategories } from "../../state/useCategories";
+import { categoryLabel } from "../../utils/categoryTree";
 
 type ActiveDistributionPlanCardProps = {
   plan: DistributionPlan;
@@ -30,6 +32,7 @@ export function ActiveDistributionPlanCard({
   onEdit,
   onDuplicate,
 }: ActiveDistributionPlanCardProps) {
+  const categories = useCategories();
   const total = getTotalPercentage(plan);
   const isComplete = total === 100;
 
@@ -140,7 +143,7 @@ export function ActiveDistributionPlanCard({
               >
                 <div className="col-span-8">
                   <span className="text-sm font-medium text-slate-900">
-                    {target.category}
+                    {categoryLabel(categories, target.category)}
                   </span>
                 </div>
                 <div className="col-span-4 text-right">
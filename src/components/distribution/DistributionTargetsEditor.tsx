@@ -1,5 +1,7 @@
 import { useMemo, useRef } from "react";
 import type { CategoryName } from "../../constants/categories";
+import { useCategories } from "../../state/useCategories";
+import { categoryLabel } from "../../utils/categoryTree";
 
 export type DistributionTarget = {
   category: CategoryName;
@@ -12,6 +14,7 @@ export type DistributionTargetsEditorError = {
 };
 
 interface DistributionTargetsEditorProps {
+  /** Top-level category ids that can be allocated */
   allCategories: readonly CategoryName[];
   value: DistributionTarget[];
   onChange: (nextVisibleTargets: DistributionTarget[]) => void;
@@ -36,6 +39,7 @@ export function DistributionTargetsEditor({
   onChange,
 }: DistributionTargetsEditorProps) {
   const focusInputRef = useRef<HTMLInputElement>(null);
+  const categoryList = useCategories();
 
   // Compute validation and total
   const computedState = useMemo((): ComputedState => {
@@ -57,7 +61,7 @@ export function DistributionTargetsEditor({
       if (!Number.isFinite(pct) || pct < 0 || pct > 100) {
         errors.push({
           type: "invalid_pct",
-          message: `${target.category}: percentage must be between 0 and 100`,
+          message: `${categoryLabel(categoryList, target.category)}: percentage must be between 0 and 100`,
         });
       }
     }
@@ -81,7 +85,7 @@ export function DistributionTargetsEditor({
       errors,
       isValid: errors.length === 0,
     };
-  }, [value]);
+  }, [value, categoryList]);
 
   // Get available categories (not in current value)
   const usedCategories = new Set(value.map((t) => t.category));
@@ -197,12 +201,12 @@ export function DistributionTargetsEditor({
                       className="w-full rounded-lg border border-slate-300 px-3 py-2 text-sm focus:border-slate-900 focus:ring-1 focus:ring-slate-900 outline-none transition-colors"
                     >
                       {/* Current category always available */}
-                      <option value={target.category}>{target.category}</option>
+                      <option value={target.category}>{categoryLabel(categoryList, target.category)}</option>
 
                       {/* Other available categories */}
                       {availableCategories.map((cat) => (
                         <option key={cat} value={cat}>
-                          {cat}
+                          {categoryLabel(categoryList, cat)}
                         </option>
                       ))}
                     </select>
@@ -1,6 +1,8 @@
 import { useState } from "react";
 import type { DistributionPlan } from "../../types/distribution";
 import { deletePlan } from "../../state/distributionPlansStore";
+import { useHouseholdRole } from "../../state/useHouseholdRole";
+import { roleAllows, getRoleRestrictionMessage } from "../../utils/roleGuard";
 
 type InactiveDistributionPlansProps = {
   plans: DistributionPlan[];
@@ -33,7 +35,8 @@ function PlanRow({
   onDuplicate?: (plan: DistributionPlan) => void;
   onActivate?: (plan: DistributionPlan) => void;
 }) {
-  const canDelete = !plan.hasSnapshots;
+  const canEdit = roleAllows(useHouseholdRole(), "edit");
+  const canDelete = !plan.hasSnapshots && canEdit;
 
   return (
     <div className="grid grid-cols-12 gap-4 items-center px-4 py-4 border-b border-slate-200 last:border-b-0 hover:bg-slate-50 transition-colors">
@@ -109,7 +112,7 @@ function PlanRow({
         {!canDelete && (
           <div
             className="px-3 py-1.5 text-xs font-medium rounded border border-slate-200 bg-slate-50 text-slate-400 cursor-not-allowed"
-            title="Cannot delete plan with locked period snapshots"
+            title={canEdit ? "Cannot delete plan with locked period snapshots" : getRoleRestrictionMessage("edit")}
           >
             Delete
           </div>
@@ -1,6 +1,8 @@
 import { useMemo, useState } from "react";
 import type { DistributionPlan } from "../../types/distribution";
 import { setDistributionPlan } from "../../state/distributionPlanStore";
+import { useCategories } from "../../state/useCategories";
+import { categoryLabel } from "../../utils/categoryTree";
 
 type Props = {
   plan: DistributionPlan;
@@ -14,6 +16,7 @@ function round2(n: number) {
 export function PlanEditor({ plan, readOnly = false }: Props) {
   const [draft, setDraft] = useState<DistributionPlan>(() => structuredClone(plan));
   const [isOpen, setIsOpen] = useState(true);
+  const categories = useCategories();
 
   // If the incoming plan changes (e.g., clear/reset), you may refresh manually by reloading page for now.
   // We keep it simple to avoid complexity in MVP.
@@ -130,7 +133,7 @@ export function PlanEditor({ plan, readOnly = false }: Props) {
             <div className="divide-y divide-slate-200">
               {draft.targets.map((t, idx) => (
                 <div key={t.category} className="grid grid-cols-12 items-center px-4 py-2">
-                  <div className="col-span-8 text-sm">{t.category}</div>
+                  <div className="col-span-8 text-sm">{categoryLabel(categories, t.category)}</div>
                   <div className="col-span-4 flex justify-end">
                     <input
                       type="number"
@@ -0,0 +1,217 @@
+import { useState } from "react";
+import type { CategoryName } from "../../constants/categories";
+import type { GoalProgressRow, GoalStatus } from "../../utils/goalsMath";
+import { addSavingsGoal, deleteSavingsGoal } from "../../state/savingsGoalsStore";
+import { useCategories } from "../../state/useCategories";
+import { categoryLabel, topLevelOptions } from "../../utils/categoryTree";
+import { getRestrictedTitle } from "../../utils/roleGuard";
+
+interface SavingsGoalsPanelProps {
+  rows: GoalProgressRow[];
+  currency: string;
+  /** Income the period's allocations were computed from */
+  income: number;
+  period: string;
+  isReadOnly: boolean;
+}
+
+const STATUS_LABELS: Record<GoalStatus, { label: string; className: string }> = {
+  reached: { label: "Reached", className: "bg-emerald-100 text-emerald-800" },
+  onTrack: { label: "On track", className: "bg-emerald-100 text-emerald-800" },
+  behind: { label: "Behind", className: "bg-amber-100 text-amber-800" },
+  overdue: { label: "Overdue", className: "bg-red-100 text-red-800" },
+};
+
+function formatMoney(amount: number, currency = "SGD") {
+  try {
+    return new Intl.NumberFormat(undefined, { style: "currency", currency }).format(amount);
+  } catch {
+    return `${currency} ${amount.toFixed(2)}`;
+  }
+}
+
+function todayISO() {
+  const d = new Date();
+  const yyyy = d.getFullYear();
+  const mm = String(d.getMonth() + 1).padStart(2, "0");
+  const dd = String(d.getDate()).padStart(2, "0");
+  return `${yyyy}-${mm}-${dd}`;
+}
+
+/**
+ * SavingsGoalsPanel
+ * Goals with progress from their funding category and the monthly
+ * contribution they need against the plan's allocation
+ */
+export function SavingsGoalsPanel({ rows, currency, income, period, isReadOnly }: SavingsGoalsPanelProps) {
+  const categories = useCategories();
+  const [name, setName] = useState("");
+  const [category, setCategory] = useState<CategoryName>("Savings");
+  const [targetAmount, setTargetAmount] = useState<number>(0);
+  const [targetDate, setTargetDate] = useState("");
+  const [startDate, setStartDate] = useState(todayISO());
+  const [error, setError] = useState<string | null>(null);
+
+  function handleAdd() {
+    const result = addSavingsGoal({ name, category, targetAmount, targetDate, startDate });
+    if (!result.ok) {
+      setError(result.reason);
+      return;
+    }
+    setError(null);
+    setName("");
+    setTargetAmount(0);
+    setTargetDate("");
+  }
+
+  function handleDelete(id: string) {
+    const result = deleteSavingsGoal(id);
+    setError(result.ok ? null : result.reason);
+  }
+
+  return (
+    <div className="rounded-lg border border-slate-200 bg-white p-6">
+      <h2 className="text-lg font-semibold">Savings Goals</h2>
+      <p className="mt-1 text-sm text-slate-600">
+        Progress counts the funding category&apos;s expenses (less refunds) since each goal&apos;s start date. The
+        monthly contribution needed for {period} is compared with the plan&apos;s allocation to that category from{" "}
+        {formatMoney(income, currency)} income; goals sharing a category split its savings by target and its allocation by need.
+      </p>
+
+      {error && (
+        <div className="mt-4 rounded-lg border border-red-300 bg-red-50 p-3 text-sm text-red-900">{error}</div>
+      )}
+
+      {rows.length > 0 && (
+        <div className="mt-6 overflow-hidden rounded-lg border border-slate-200">
+          <div className="grid grid-cols-12 gap-2 bg-slate-50 px-4 py-2 text-xs font-semibold uppercase tracking-wide text-slate-600">
+            <div className="col-span-3">Goal</div>
+            <div className="col-span-3">Progress</div>
+            <div className="col-span-2 text-right">Needed / month</div>
+            <div className="col-span-2 text-right">Allocated</div>
+            <div className="col-span-2 text-right">Status</div>
+          </div>
+
+          <div className="divide-y divide-slate-200">
+            {rows.map((row) => {
+              const status = STATUS_LABELS[row.status];
+              return (
+                <div key={row.goal.id} className="grid grid-cols-12 items-center gap-2 px-4 py-3 text-sm">
+                  <div className="col-span-3">
+                    <div className="font-medium">{row.goal.name}</div>
+                    <div className="text-xs text-slate-500">
+                      {categoryLabel(categories, row.goal.category)} · by {row.goal.targetDate}
+                      {!isReadOnly && (
+                        <button className="ml-2 text-red-700 underline" onClick={() => handleDelete(row.goal.id)}>
+                          Delete
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                  <div className="col-span-3">
+                    <div className="h-2 overflow-hidden rounded-full bg-slate-100">
+                      <div className="h-2 rounded-full bg-emerald-500" style={{ width: `${row.pct}%` }} />
+                    </div>
+                    <div className="mt-1 text-xs text-slate-600">
+                      {formatMoney(row.saved, currency)} of {formatMoney(row.goal.targetAmount, currency)} ({row.pct}%)
+                    </div>
+                  </div>
+                  <div className="col-span-2 text-right font-medium">
+                    {row.status === "reached" ? "—" : formatMoney(row.requiredMonthly, currency)}
+                    {row.status !== "reached" && row.monthsLeft > 0 && (
+                      <div className="text-xs font-normal text-slate-500">{row.monthsLeft} months left</div>
+                    )}
+                  </div>
+                  <div className="col-span-2 text-right">
+                    {row.inPlan ? (
+                      formatMoney(row.allocated, currency)
+                    ) : (
+                      <span className="text-xs text-amber-700">Not in plan</span>
+                    )}
+                  </div>
+                  <div className="col-span-2 text-right">
+                    <span className={`inline-flex items-center rounded-full px-2 py-0.5 text-xs font-semibold ${status.className}`}>
+                      {status.label}
+                    </span>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      {rows.length === 0 && <p className="mt-4 text-sm text-slate-600">No savings goals yet.</p>}
+
+      <div className="mt-6 grid grid-cols-1 gap-3 md:grid-cols-12 md:items-end">
+        <div className="md:col-span-3">
+          <label className="text-sm text-slate-600">Goal</label>
+          <input
+            className="mt-1 w-full rounded-md border border-slate-300 px-3 py-2 text-sm"
+            placeholder="e.g. Emergency fund"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            disabled={isReadOnly}
+          />
+        </div>
+        <div className="md:col-span-2">
+          <label className="text-sm text-slate-600">Funded from</label>
+          <select
+            className="mt-1 w-full rounded-md border border-slate-300 px-3 py-2 text-sm"
+            value={category}
+            onChange={(e) => setCategory(e.target.value as CategoryName)}
+            disabled={isReadOnly}
+          >
+            {topLevelOptions(categories, category).map((c) => (
+              <option key={c.id} value={c.id}>
+                {c.name}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="md:col-span-2">
+          <label className="text-sm text-slate-600">Target ({currency})</label>
+          <input
+            type="number"
+            min={0}
+            step="0.01"
+            className="mt-1 w-full rounded-md border border-slate-300 px-3 py-2 text-sm"
+            value={targetAmount}
+            onChange={(e) => setTargetAmount(Number(e.target.value))}
+            disabled={isReadOnly}
+          />
+        </div>
+        <div className="md:col-span-2">
+          <label className="text-sm text-slate-600">Counting from</label>
+          <input
+            type="date"
+            className="mt-1 w-full rounded-md border border-slate-300 px-3 py-2 text-sm"
+            value={startDate}
+            onChange={(e) => setStartDate(e.target.value)}
+            disabled={isReadOnly}
+          />
+        </div>
+        <div className="md:col-span-2">
+          <label className="text-sm text-slate-600">Target date</label>
+          <input
+            type="date"
+            className="mt-1 w-full rounded-md border border-slate-300 px-3 py-2 text-sm"
+            value={targetDate}
+            onChange={(e) => setTargetDate(e.target.value)}
+            disabled={isReadOnly}
+          />
+        </div>
+        <div className="md:col-span-1">
+          <button
+            className="w-full rounded-lg bg-slate-900 px-3 py-2 text-sm font-medium text-white disabled:cursor-not-allowed disabled:bg-slate-200 disabled:text-slate-500"
+            onClick={handleAdd}
+            disabled={isReadOnly || !name.trim() || !targetDate}
+            title={isReadOnly ? getRestrictedTitle() : undefined}
+          >
+            Add
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
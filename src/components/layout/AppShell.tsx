@@ -1,6 +1,7 @@
 import { Outlet } from "react-router-dom";
 import { SideNav } from "./SideNav";
 import { TopNav } from "./TopNav";
+import { StorageErrorBanner } from "../common/StorageErrorBanner";
 
 export function AppShell() {
   return (
@@ -18,6 +19,7 @@ export function AppShell() {
 
           {/* Main */}
           <main className="min-w-0 flex-1 p-6 print-avoid-break" data-print="page">
+            <StorageErrorBanner />
             <Outlet />
           </main>
         </div>
@@ -56,15 +56,19 @@ export function SideNav() {
           { label: "Plans", to: "/plans" },
           { label: "Period Allocation", to: "/distribution/period" },
           { label: "Scheduled Transactions", to: "/operations/scheduled" },
+          { label: "Category Rules", to: "/operations/rules" },
           { label: "Transactions", to: "/dashboard/transactions" },
+          { label: "Import Statement", to: "/transactions/import" },
         ]}
       />
 
       <NavSection
         title="Net Worth"
         items={[
+          { label: "Accounts", to: "/networth/accounts" },
           { label: "Assets", to: "/networth/assets" },
           { label: "Liabilities", to: "/networth/liabilities" },
+          { label: "Investments", to: "/networth/investments" },
         ]}
       />
 
@@ -72,6 +76,11 @@ export function SideNav() {
         title="Admin"
         items={[
           { label: "Release Readiness", to: "/settings/release" },
+          { label: "Backup & Restore", to: "/settings/backup" },
+          { label: "Cloud Sync", to: "/settings/sync" },
+          { label: "Households", to: "/settings/households" },
+          { label: "Exchange Rates", to: "/settings/fx-rates" },
+          { label: "Categories", to: "/settings/categories" },
         ]}
       />
     </nav>
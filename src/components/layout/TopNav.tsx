@@ -4,9 +4,12 @@ import { useAuth } from "../../hooks/useAuth";
 import {
   getHouseholdState,
   setSelectedHouseholdId,
+  subscribeHouseholds,
   type Household,
 } from "../../state/householdStore";
 
+const MANAGE_HOUSEHOLDS = "__manage__";
+
 export function TopNav() {
   const navigate = useNavigate();
   const { signOut } = useAuth();
@@ -14,15 +17,26 @@ export function TopNav() {
   const [selectedId, setSelectedId] = useState<string | null>(null);
 
   useEffect(() => {
-    const s = getHouseholdState();
-    setHouseholds(s.households);
-    setSelectedId(s.selectedHouseholdId);
+    const sync = () => {
+      const s = getHouseholdState();
+      setHouseholds(s.households);
+      setSelectedId(s.selectedHouseholdId);
+    };
+    sync();
+    return subscribeHouseholds(sync);
   }, []);
 
   function onChangeHousehold(id: string) {
+    if (id === MANAGE_HOUSEHOLDS) {
+      navigate("/settings/households");
+      return;
+    }
+    if (id === selectedId) return;
+
     setSelectedId(id);
     setSelectedHouseholdId(id);
-    // Later: we will invalidate React Query caches on household change.
+    // Reload so every store re-reads the new household's data
+    window.location.reload();
   }
 
   async function onLogout() {
@@ -59,6 +73,8 @@ export function TopNav() {
                 {h.name} ({h.base_currency})
               </option>
             ))}
+
+            <option value={MANAGE_HOUSEHOLDS}>Manage households…</option>
           </select>
 
           <button
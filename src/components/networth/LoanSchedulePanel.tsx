@@ -0,0 +1,304 @@
+import { useMemo, useState } from "react";
+import type { Liability } from "../../types/netWorth";
+import type { LoanTerms } from "../../types/loans";
+import type { MoneyTransaction } from "../../types/transactions";
+import type { ScheduledTransactionTemplate } from "../../types/scheduled";
+import { setLoanTerms, clearLoanTerms } from "../../state/loansStore";
+import { useHouseholdRole } from "../../state/useHouseholdRole";
+import {
+  amortisationSchedule,
+  expectedLoanPayment,
+  linkedLoanPayments,
+  loanPayment,
+  loanTotals,
+  projectLoan,
+} from "../../utils/loanMath";
+import { roleAllows, getRestrictedTitle } from "../../utils/roleGuard";
+
+function formatMoney(amount: number, currency = "SGD") {
+  try {
+    return new Intl.NumberFormat(undefined, { style: "currency", currency }).format(amount);
+  } catch {
+    return `${currency} ${amount.toFixed(2)}`;
+  }
+}
+
+function todayISO() {
+  const d = new Date();
+  const yyyy = d.getFullYear();
+  const mm = String(d.getMonth() + 1).padStart(2, "0");
+  const dd = String(d.getDate()).padStart(2, "0");
+  return `${yyyy}-${mm}-${dd}`;
+}
+
+interface LoanSchedulePanelProps {
+  /** Liabilities as stored (not loan-derived) */
+  liabilities: Liability[];
+  loans: LoanTerms[];
+  transactions: MoneyTransaction[];
+  templates: ScheduledTransactionTemplate[];
+}
+
+/**
+ * Loan terms, amortisation schedule and repayments linked from Debt transactions
+ */
+export function LoanSchedulePanel({ liabilities, loans, transactions, templates }: LoanSchedulePanelProps) {
+  const isReadOnly = !roleAllows(useHouseholdRole(), "edit");
+  const eligible = liabilities.filter((l) => l.type !== "creditCard");
+
+  // Form values for a liability: its saved terms, else its latest balance over 30 years from today
+  function formFor(id: string | undefined) {
+    const existing = loans.find((loan) => loan.liabilityId === id);
+    const item = eligible.find((l) => l.id === id);
+    return {
+      principal: existing?.principal ?? item?.valuations[item.valuations.length - 1]?.value ?? 0,
+      annualRate: existing?.annualRate ?? 0,
+      termMonths: existing?.termMonths ?? 360,
+      startDate: existing?.startDate ?? todayISO(),
+    };
+  }
+
+  const [selectedId, setSelectedId] = useState<string>(() => eligible[0]?.id ?? "");
+  const [principal, setPrincipal] = useState<number>(() => formFor(eligible[0]?.id).principal);
+  const [annualRate, setAnnualRate] = useState<number>(() => formFor(eligible[0]?.id).annualRate);
+  const [termMonths, setTermMonths] = useState<number>(() => formFor(eligible[0]?.id).termMonths);
+  const [startDate, setStartDate] = useState(() => formFor(eligible[0]?.id).startDate);
+  const [showContract, setShowContract] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const liability = eligible.find((l) => l.id === selectedId) ?? eligible[0] ?? null;
+  const terms = loans.find((loan) => loan.liabilityId === liability?.id) ?? null;
+
+  const detail = useMemo(() => {
+    if (!terms) return null;
+    const payments = linkedLoanPayments(terms.liabilityId, transactions);
+    const expectedPayment = expectedLoanPayment(terms, templates);
+    const rows = projectLoan(terms, payments, { expectedPayment });
+    return {
+      payments,
+      expectedPayment,
+      rows,
+      totals: loanTotals(rows),
+      contract: amortisationSchedule(terms),
+      linkedTemplates: templates.filter((t) => t.liabilityId === terms.liabilityId),
+    };
+  }, [terms, transactions, templates]);
+
+  function selectLiability(id: string) {
+    setSelectedId(id);
+    setError(null);
+    const form = formFor(id);
+    setPrincipal(form.principal);
+    setAnnualRate(form.annualRate);
+    setTermMonths(form.termMonths);
+    setStartDate(form.startDate);
+  }
+
+  function handleSave() {
+    if (!liability) return;
+    const result = setLoanTerms(liability.id, { principal, annualRate, termMonths, startDate });
+    setError(result.ok ? null : result.reason);
+  }
+
+  function handleClear() {
+    if (!liability) return;
+    const result = clearLoanTerms(liability.id);
+    setError(result.ok ? null : result.reason);
+  }
+
+  if (eligible.length === 0) return null;
+
+  const currency = liability?.currency ?? "SGD";
+  const actualRows = detail?.rows.filter((row) => row.kind === "actual") ?? [];
+  const currentBalance = actualRows.length > 0 ? actualRows[actualRows.length - 1].balance : terms?.principal ?? 0;
+  const visibleRows = showContract ? detail?.contract ?? [] : detail?.rows ?? [];
+
+  return (
+    <div className="rounded-lg border border-slate-200 bg-white p-6">
+      <h2 className="text-lg font-semibold">Loan schedules</h2>
+      <p className="mt-1 text-sm text-slate-600">
+        Give a loan or mortgage its terms and link repayments by recording them as Debt expenses (or a Debt
+        scheduled template) that repay this loan. Its balance then follows the repayments instead of the balances
+        entered above. For an existing loan, enter the amount outstanding and remaining term as of today.
+      </p>
+
+      {error && (
+        <div className="mt-4 rounded-lg border border-red-300 bg-red-50 p-3 text-sm text-red-900">{error}</div>
+      )}
+
+      <div className="mt-4 grid gap-3 md:grid-cols-12">
+        <div className="md:col-span-3">
+          <label className="text-sm font-medium text-slate-700">Liability</label>
+          <select
+            className="mt-1 w-full rounded-lg border border-slate-300 px-3 py-2 text-sm"
+            value={liability?.id ?? ""}
+            onChange={(e) => selectLiability(e.target.value)}
+          >
+            {eligible.map((l) => (
+              <option key={l.id} value={l.id}>
+                {l.name}
+                {loans.some((loan) => loan.liabilityId === l.id) ? " (loan)" : ""}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div className="md:col-span-2">
+          <label className="text-sm font-medium text-slate-700">Principal ({currency})</label>
+          <input
+            type="number"
+            min={0}
+            step="0.01"
+            className="mt-1 w-full rounded-lg border border-slate-300 px-3 py-2 text-sm"
+            value={principal}
+            onChange={(e) => setPrincipal(Number(e.target.value))}
+            disabled={isReadOnly}
+          />
+        </div>
+
+        <div className="md:col-span-2">
+          <label className="text-sm font-medium text-slate-700">Interest (% p.a.)</label>
+          <input
+            type="number"
+            min={0}
+            step="0.01"
+            className="mt-1 w-full rounded-lg border border-slate-300 px-3 py-2 text-sm"
+            value={annualRate}
+            onChange={(e) => setAnnualRate(Number(e.target.value))}
+            disabled={isReadOnly}
+          />
+        </div>
+
+        <div className="md:col-span-2">
+          <label className="text-sm font-medium text-slate-700">Term (months)</label>
+          <input
+            type="number"
+            min={1}
+            step="1"
+            className="mt-1 w-full rounded-lg border border-slate-300 px-3 py-2 text-sm"
+            value={termMonths}
+            onChange={(e) => setTermMonths(Number(e.target.value))}
+            disabled={isReadOnly}
+          />
+        </div>
+
+        <div className="md:col-span-2">
+          <label className="text-sm font-medium text-slate-700">Start date</label>
+          <input
+            type="date"
+            className="mt-1 w-full rounded-lg border border-slate-300 px-3 py-2 text-sm"
+            value={startDate}
+            onChange={(e) => setStartDate(e.target.value)}
+            disabled={isReadOnly}
+          />
+        </div>
+
+        <div className="md:col-span-1 flex items-end gap-2">
+          <button
+            className="w-full rounded-lg bg-slate-900 px-3 py-2 text-sm font-medium text-white disabled:cursor-not-allowed disabled:bg-slate-200 disabled:text-slate-500"
+            onClick={handleSave}
+            disabled={isReadOnly || !liability}
+            title={isReadOnly ? getRestrictedTitle() : undefined}
+          >
+            Save
+          </button>
+        </div>
+      </div>
+
+      {terms && detail && (
+        <div className="mt-6 space-y-4">
+          <div className="grid gap-4 md:grid-cols-4">
+            <div className="rounded-lg border border-slate-200 p-4">
+              <div className="text-xs text-slate-600">Outstanding now</div>
+              <div className="mt-1 text-xl font-bold text-red-700">{formatMoney(currentBalance, currency)}</div>
+              <div className="text-xs text-slate-500">of {formatMoney(terms.principal, currency)} borrowed</div>
+            </div>
+            <div className="rounded-lg border border-slate-200 p-4">
+              <div className="text-xs text-slate-600">Monthly repayment</div>
+              <div className="mt-1 text-xl font-bold">{formatMoney(loanPayment(terms), currency)}</div>
+              <div className="text-xs text-slate-500">
+                {detail.linkedTemplates.length > 0
+                  ? `Scheduled: ${formatMoney(detail.expectedPayment, currency)} (${detail.linkedTemplates
+                      .map((t) => t.name)
+                      .join(", ")})`
+                  : "No scheduled template linked"}
+              </div>
+            </div>
+            <div className="rounded-lg border border-slate-200 p-4">
+              <div className="text-xs text-slate-600">Paid so far</div>
+              <div className="mt-1 text-sm">
+                Principal <span className="font-semibold">{formatMoney(detail.totals.principalPaid, currency)}</span>
+              </div>
+              <div className="text-sm">
+                Interest <span className="font-semibold">{formatMoney(detail.totals.interestPaid, currency)}</span>
+              </div>
+              <div className="text-xs text-slate-500">{detail.payments.length} linked payments</div>
+            </div>
+            <div className="rounded-lg border border-slate-200 p-4">
+              <div className="text-xs text-slate-600">Projected payoff</div>
+              <div className="mt-1 text-xl font-bold">{detail.totals.payoffPeriod ?? "Not on track"}</div>
+              <div className="text-xs text-slate-500">
+                at {formatMoney(detail.expectedPayment, currency)} a month
+              </div>
+            </div>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <div className="flex gap-2">
+              <button
+                className={`rounded-lg px-3 py-1 text-sm ${!showContract ? "bg-slate-900 text-white" : "border border-slate-300"}`}
+                onClick={() => setShowContract(false)}
+              >
+                Actual &amp; projected
+              </button>
+              <button
+                className={`rounded-lg px-3 py-1 text-sm ${showContract ? "bg-slate-900 text-white" : "border border-slate-300"}`}
+                onClick={() => setShowContract(true)}
+              >
+                Contractual schedule
+              </button>
+            </div>
+            {!isReadOnly && (
+              <button className="text-sm text-red-700 underline" onClick={handleClear}>
+                Remove loan terms
+              </button>
+            )}
+          </div>
+
+          <div className="max-h-96 overflow-y-auto rounded-lg border border-slate-200">
+            <div className="sticky top-0 grid grid-cols-12 gap-2 bg-slate-50 px-4 py-2 text-xs font-semibold uppercase tracking-wide text-slate-600">
+              <div className="col-span-2">Period</div>
+              <div className="col-span-2 text-right">Payment</div>
+              <div className="col-span-2 text-right">Interest</div>
+              <div className="col-span-2 text-right">Principal</div>
+              <div className="col-span-3 text-right">Balance</div>
+              <div className="col-span-1" />
+            </div>
+            <div className="divide-y divide-slate-100">
+              {visibleRows.map((row) => (
+                <div
+                  key={row.period}
+                  className={`grid grid-cols-12 gap-2 px-4 py-1.5 text-sm ${
+                    row.kind === "projected" ? "text-slate-400" : "text-slate-700"
+                  }`}
+                >
+                  <div className="col-span-2">{row.period}</div>
+                  <div className="col-span-2 text-right">{formatMoney(row.payment, currency)}</div>
+                  <div className="col-span-2 text-right">{formatMoney(row.interest, currency)}</div>
+                  <div className={`col-span-2 text-right ${row.principal < 0 ? "text-red-700" : ""}`}>
+                    {formatMoney(row.principal, currency)}
+                  </div>
+                  <div className="col-span-3 text-right font-medium">{formatMoney(row.balance, currency)}</div>
+                  <div className="col-span-1 text-right text-xs">{row.kind === "projected" ? "proj." : ""}</div>
+                </div>
+              ))}
+              {visibleRows.length === 0 && (
+                <div className="px-4 py-4 text-sm text-slate-600">No repayments due yet.</div>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
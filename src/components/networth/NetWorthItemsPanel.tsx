@@ -0,0 +1,327 @@
+import { useMemo, useState, type ReactNode } from "react";
+import type { NetWorthItem, NetWorthItemInput } from "../../types/netWorth";
+import { NET_WORTH_TYPE_LABELS } from "../../constants/netWorth";
+import { getSelectedHousehold } from "../../state/householdStore";
+import { useFxRates } from "../../state/useFxRates";
+import { useHouseholdRole } from "../../state/useHouseholdRole";
+import { createFxConverter } from "../../utils/fxMath";
+import { totalValue, valuationAsOf } from "../../utils/netWorthMath";
+import { roleAllows, getRestrictedTitle } from "../../utils/roleGuard";
+import { RoleBanner } from "../common/RoleBanner";
+
+type Result = { ok: true } | { ok: false; reason: string };
+
+function formatMoney(amount: number, currency = "SGD") {
+  try {
+    return new Intl.NumberFormat(undefined, { style: "currency", currency }).format(amount);
+  } catch {
+    return `${currency} ${amount.toFixed(2)}`;
+  }
+}
+
+function todayISO() {
+  const d = new Date();
+  const yyyy = d.getFullYear();
+  const mm = String(d.getMonth() + 1).padStart(2, "0");
+  const dd = String(d.getDate()).padStart(2, "0");
+  return `${yyyy}-${mm}-${dd}`;
+}
+
+interface NetWorthItemsPanelProps<TType extends keyof typeof NET_WORTH_TYPE_LABELS> {
+  /** Plural heading, e.g. "Assets" */
+  title: string;
+  /** Singular noun, e.g. "Asset" */
+  noun: string;
+  /** Label for the valuation amount, e.g. "Value" or "Amount owed" */
+  valueLabel: string;
+  namePlaceholder: string;
+  tone: "emerald" | "red";
+  items: NetWorthItem<TType>[];
+  types: readonly TType[];
+  onAdd: (input: NetWorthItemInput<TType>) => Result;
+  onDelete: (id: string) => Result;
+  onAddValuation: (id: string, valuation: { date: string; value: number; note?: string }) => Result;
+  onDeleteValuation: (id: string, valuationId: string) => Result;
+  /** Explains why an item's history is computed rather than entered (hides revalue controls) */
+  derivedNote?: (item: NetWorthItem<TType>) => string | undefined;
+  /** Extra content below the list, e.g. loan schedules */
+  children?: ReactNode;
+}
+
+/**
+ * Add, revalue and delete assets or liabilities, with each item's valuation history
+ */
+export function NetWorthItemsPanel<TType extends keyof typeof NET_WORTH_TYPE_LABELS>({
+  title,
+  noun,
+  valueLabel,
+  namePlaceholder,
+  tone,
+  items,
+  types,
+  onAdd,
+  onDelete,
+  onAddValuation,
+  onDeleteValuation,
+  derivedNote,
+  children,
+}: NetWorthItemsPanelProps<TType>) {
+  const baseCurrency = getSelectedHousehold()?.base_currency ?? "SGD";
+  const fxRates = useFxRates();
+  const isReadOnly = !roleAllows(useHouseholdRole(), "edit");
+
+  const [name, setName] = useState("");
+  const [type, setType] = useState<TType>(types[0]);
+  const [currency, setCurrency] = useState(baseCurrency);
+  const [value, setValue] = useState<number>(0);
+  const [date, setDate] = useState(todayISO());
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [revalueDate, setRevalueDate] = useState(todayISO());
+  const [revalueValue, setRevalueValue] = useState<number>(0);
+  const [error, setError] = useState<string | null>(null);
+
+  const total = useMemo(
+    () => totalValue(items, createFxConverter(baseCurrency, fxRates)),
+    [items, baseCurrency, fxRates]
+  );
+
+  function report(result: Result): boolean {
+    setError(result.ok ? null : result.reason);
+    return result.ok;
+  }
+
+  function handleAdd() {
+    if (report(onAdd({ name, type, currency, value, date }))) {
+      setName("");
+      setValue(0);
+    }
+  }
+
+  function handleRevalue(id: string) {
+    if (report(onAddValuation(id, { date: revalueDate, value: revalueValue }))) {
+      setRevalueValue(0);
+    }
+  }
+
+  const totalColor = tone === "emerald" ? "text-emerald-700" : "text-red-700";
+
+  return (
+    <div className="space-y-6">
+      <h1 className="text-3xl font-bold">{title}</h1>
+
+      <RoleBanner />
+
+      {error && (
+        <div className="rounded-lg border border-red-300 bg-red-50 p-4 text-sm text-red-900">
+          <div className="font-semibold">Error</div>
+          <div className="mt-1">{error}</div>
+        </div>
+      )}
+
+      {/* Add Form */}
+      <div className="rounded-lg border border-slate-200 bg-white p-6">
+        <h2 className="text-lg font-semibold">Add {noun}</h2>
+
+        <div className="mt-4 grid gap-3 md:grid-cols-12">
+          <div className="md:col-span-4">
+            <label className="text-sm font-medium text-slate-700">{noun} Name</label>
+            <input
+              type="text"
+              className="mt-1 w-full rounded-lg border border-slate-300 px-3 py-2 text-sm"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder={namePlaceholder}
+              disabled={isReadOnly}
+            />
+          </div>
+
+          <div className="md:col-span-2">
+            <label className="text-sm font-medium text-slate-700">Type</label>
+            <select
+              className="mt-1 w-full rounded-lg border border-slate-300 px-3 py-2 text-sm"
+              value={type}
+              onChange={(e) => setType(e.target.value as TType)}
+              disabled={isReadOnly}
+            >
+              {types.map((t) => (
+                <option key={t} value={t}>
+                  {NET_WORTH_TYPE_LABELS[t]}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="md:col-span-1">
+            <label className="text-sm font-medium text-slate-700">Currency</label>
+            <input
+              className="mt-1 w-full rounded-lg border border-slate-300 px-3 py-2 text-sm uppercase"
+              value={currency}
+              maxLength={3}
+              onChange={(e) => setCurrency(e.target.value.toUpperCase())}
+              disabled={isReadOnly}
+            />
+          </div>
+
+          <div className="md:col-span-2">
+            <label className="text-sm font-medium text-slate-700">{valueLabel}</label>
+            <input
+              type="number"
+              min={0}
+              step="0.01"
+              className="mt-1 w-full rounded-lg border border-slate-300 px-3 py-2 text-sm"
+              value={value}
+              onChange={(e) => setValue(Number(e.target.value))}
+              disabled={isReadOnly}
+            />
+          </div>
+
+          <div className="md:col-span-2">
+            <label className="text-sm font-medium text-slate-700">As of</label>
+            <input
+              type="date"
+              className="mt-1 w-full rounded-lg border border-slate-300 px-3 py-2 text-sm"
+              value={date}
+              onChange={(e) => setDate(e.target.value)}
+              disabled={isReadOnly}
+            />
+          </div>
+
+          <div className="md:col-span-1 flex items-end">
+            <button
+              className={`w-full rounded-lg px-4 py-2 text-sm font-medium ${
+                name.trim() && value >= 0 && !isReadOnly
+                  ? "bg-slate-900 text-white"
+                  : "bg-slate-200 text-slate-500"
+              }`}
+              onClick={handleAdd}
+              disabled={!name.trim() || value < 0 || isReadOnly}
+              title={isReadOnly ? getRestrictedTitle() : undefined}
+            >
+              Add
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {/* List */}
+      <div className="rounded-lg border border-slate-200 bg-white p-6">
+        <div className="flex items-end justify-between gap-4">
+          <div>
+            <h2 className="text-lg font-semibold">{title}</h2>
+            <p className="mt-1 text-sm text-slate-600">{items.length} items</p>
+          </div>
+
+          <div className="text-right">
+            <div className="text-sm text-slate-600">Total {title}</div>
+            <div className={`text-2xl font-bold ${totalColor}`}>{formatMoney(total.total, baseCurrency)}</div>
+            {total.unconverted.length > 0 && (
+              <div className="text-xs text-amber-700">
+                No exchange rate for {total.unconverted.join(", ")}; counted unconverted
+              </div>
+            )}
+          </div>
+        </div>
+
+        <div className="mt-6 overflow-hidden rounded-lg border border-slate-200">
+          <div className="grid grid-cols-12 gap-2 bg-slate-50 px-4 py-2 text-xs font-semibold uppercase tracking-wide text-slate-600">
+            <div className="col-span-4">Name</div>
+            <div className="col-span-2">Type</div>
+            <div className="col-span-2">As of</div>
+            <div className="col-span-2 text-right">{valueLabel}</div>
+            <div className="col-span-2 text-right">Action</div>
+          </div>
+
+          <div className="divide-y divide-slate-200">
+            {items.map((item) => {
+              const latest = valuationAsOf(item);
+              const isExpanded = expandedId === item.id;
+              const derived = derivedNote?.(item);
+              return (
+                <div key={item.id}>
+                  <div className="grid grid-cols-12 gap-2 items-center px-4 py-3 text-sm">
+                    <div className="col-span-4 font-medium">{item.name}</div>
+                    <div className="col-span-2 text-slate-600">{NET_WORTH_TYPE_LABELS[item.type]}</div>
+                    <div className="col-span-2 text-slate-600">{latest?.date ?? "—"}</div>
+                    <div className="col-span-2 text-right text-slate-700">
+                      {latest ? formatMoney(latest.value, item.currency) : "—"}
+                    </div>
+                    <div className="col-span-2 flex justify-end gap-2">
+                      <button
+                        className="rounded-md border border-slate-300 bg-white px-2 py-1 text-xs hover:bg-slate-50"
+                        onClick={() => setExpandedId(isExpanded ? null : item.id)}
+                      >
+                        {isExpanded ? "Hide" : "History"}
+                      </button>
+                      <button
+                        className="rounded-md border border-slate-300 bg-white px-2 py-1 text-xs hover:bg-slate-50 disabled:cursor-not-allowed disabled:opacity-50"
+                        onClick={() => report(onDelete(item.id))}
+                        disabled={isReadOnly}
+                        title={isReadOnly ? getRestrictedTitle() : "Delete"}
+                      >
+                        Delete
+                      </button>
+                    </div>
+                  </div>
+
+                  {isExpanded && (
+                    <div className="space-y-3 bg-slate-50 px-4 py-3 text-sm">
+                      {[...item.valuations].reverse().map((v) => (
+                        <div key={v.id} className="flex items-center justify-between gap-4">
+                          <span className="text-slate-600">{v.date}</span>
+                          <span className="flex items-center gap-3">
+                            <span className="font-medium">{formatMoney(v.value, item.currency)}</span>
+                            {!isReadOnly && !derived && item.valuations.length > 1 && (
+                              <button
+                                className="text-xs text-red-700 underline"
+                                onClick={() => report(onDeleteValuation(item.id, v.id))}
+                              >
+                                Remove
+                              </button>
+                            )}
+                          </span>
+                        </div>
+                      ))}
+
+                      {derived && <div className="border-t border-slate-200 pt-3 text-xs text-slate-600">{derived}</div>}
+
+                      {!isReadOnly && !derived && (
+                        <div className="flex flex-wrap items-end gap-2 border-t border-slate-200 pt-3">
+                          <input
+                            type="date"
+                            className="rounded-lg border border-slate-300 px-3 py-1 text-sm"
+                            value={revalueDate}
+                            onChange={(e) => setRevalueDate(e.target.value)}
+                          />
+                          <input
+                            type="number"
+                            min={0}
+                            step="0.01"
+                            className="w-36 rounded-lg border border-slate-300 px-3 py-1 text-sm"
+                            value={revalueValue}
+                            onChange={(e) => setRevalueValue(Number(e.target.value))}
+                          />
+                          <button
+                            className="rounded-lg bg-slate-900 px-3 py-1 text-sm font-medium text-white"
+                            onClick={() => handleRevalue(item.id)}
+                          >
+                            Record {valueLabel.toLowerCase()}
+                          </button>
+                        </div>
+                      )}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+
+            {items.length === 0 && (
+              <div className="px-4 py-6 text-sm text-slate-600">No {title.toLowerCase()} yet.</div>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {children}
+    </div>
+  );
+}
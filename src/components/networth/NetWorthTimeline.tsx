@@ -0,0 +1,111 @@
+import type { NetWorthSnapshot } from "../../types/netWorth";
+
+type NetWorthTimelineProps = {
+  history: NetWorthSnapshot[]; // ascending by period
+  currency: string;
+};
+
+const WIDTH = 640;
+const HEIGHT = 220;
+const PAD = { top: 12, right: 12, bottom: 28, left: 64 };
+
+const SERIES = [
+  { key: "assets", label: "Assets", color: "#047857" },
+  { key: "liabilities", label: "Liabilities", color: "#b91c1c" },
+  { key: "netWorth", label: "Net worth", color: "#0f172a" },
+] as const;
+
+function formatMonth(periodKey: string): string {
+  const [year, month] = periodKey.split("-").map(Number);
+  if (!year || !month) return periodKey;
+
+  const date = new Date(year, month - 1, 1);
+  return new Intl.DateTimeFormat(undefined, {
+    month: "short",
+    year: "2-digit",
+  }).format(date);
+}
+
+function formatCompact(amount: number, currency: string): string {
+  try {
+    return new Intl.NumberFormat(undefined, { style: "currency", currency, notation: "compact" }).format(amount);
+  } catch {
+    return `${currency} ${Math.round(amount)}`;
+  }
+}
+
+/**
+ * Line chart of assets, liabilities and net worth per recorded period
+ */
+export function NetWorthTimeline({ history, currency }: NetWorthTimelineProps) {
+  if (history.length === 0) {
+    return (
+      <p className="text-sm text-slate-600">
+        No history yet. Net worth is recorded when a period is locked, or with “Capture now”.
+      </p>
+    );
+  }
+
+  const values = history.flatMap((s) => [s.assets, s.liabilities, s.netWorth]);
+  const max = Math.max(0, ...values);
+  const min = Math.min(0, ...values);
+  const range = max - min || 1;
+
+  const plotWidth = WIDTH - PAD.left - PAD.right;
+  const plotHeight = HEIGHT - PAD.top - PAD.bottom;
+  const x = (i: number) => PAD.left + (history.length === 1 ? plotWidth / 2 : (i / (history.length - 1)) * plotWidth);
+  const y = (v: number) => PAD.top + ((max - v) / range) * plotHeight;
+
+  // Label at most ~8 periods along the axis
+  const labelEvery = Math.max(1, Math.ceil(history.length / 8));
+
+  return (
+    <div>
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full" role="img" aria-label="Net worth over time">
+        {[max, (max + min) / 2, min].map((v) => (
+          <g key={v}>
+            <line x1={PAD.left} x2={WIDTH - PAD.right} y1={y(v)} y2={y(v)} stroke="#e2e8f0" />
+            <text x={PAD.left - 6} y={y(v) + 4} textAnchor="end" fontSize="10" fill="#64748b">
+              {formatCompact(v, currency)}
+            </text>
+          </g>
+        ))}
+
+        {history.map((s, i) =>
+          i % labelEvery === 0 || i === history.length - 1 ? (
+            <text key={s.period} x={x(i)} y={HEIGHT - 8} textAnchor="middle" fontSize="10" fill="#64748b">
+              {formatMonth(s.period)}
+            </text>
+          ) : null
+        )}
+
+        {SERIES.map((series) => (
+          <g key={series.key}>
+            <polyline
+              fill="none"
+              stroke={series.color}
+              strokeWidth={series.key === "netWorth" ? 2.5 : 1.5}
+              points={history.map((s, i) => `${x(i)},${y(s[series.key])}`).join(" ")}
+            />
+            {history.map((s, i) => (
+              <circle key={s.period} cx={x(i)} cy={y(s[series.key])} r={2.5} fill={series.color}>
+                <title>
+                  {formatMonth(s.period)} {series.label}: {formatCompact(s[series.key], currency)}
+                </title>
+              </circle>
+            ))}
+          </g>
+        ))}
+      </svg>
+
+      <div className="mt-2 flex gap-4 text-xs text-slate-600">
+        {SERIES.map((series) => (
+          <span key={series.key} className="flex items-center gap-1">
+            <span className="inline-block h-2 w-4 rounded" style={{ backgroundColor: series.color }} />
+            {series.label}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,103 @@
+import type { TransactionSplit } from "../../types/transactions";
+import type { CategoryName } from "../../constants/categories";
+import { useCategories } from "../../state/useCategories";
+import { subcategoryOptions, topLevelOptions } from "../../utils/categoryTree";
+
+function formatMoney(amount: number, currency = "SGD") {
+  try {
+    return new Intl.NumberFormat(undefined, { style: "currency", currency }).format(amount);
+  } catch {
+    return `${currency} ${amount.toFixed(2)}`;
+  }
+}
+
+interface SplitLinesEditorProps {
+  lines: TransactionSplit[];
+  onChange: (lines: TransactionSplit[]) => void;
+  /** Transaction amount the lines must add up to */
+  total: number;
+  currency: string;
+  disabled?: boolean;
+}
+
+/**
+ * SplitLinesEditor
+ * Category, optional subcategory and amount per line of a split transaction,
+ * with what is left to allocate against the transaction amount
+ */
+export function SplitLinesEditor({ lines, onChange, total, currency, disabled = false }: SplitLinesEditorProps) {
+  const categories = useCategories();
+  const remaining = Math.round((total - lines.reduce((sum, l) => sum + (l.amount || 0), 0)) * 100) / 100;
+
+  function updateLine(index: number, patch: Partial<TransactionSplit>) {
+    onChange(lines.map((line, i) => (i === index ? { ...line, ...patch } : line)));
+  }
+
+  return (
+    <div className="space-y-2">
+      {lines.map((line, index) => {
+        const subOptions = subcategoryOptions(categories, line.category, line.subcategory);
+        return (
+          <div key={index} className="flex items-center gap-2">
+            <select
+              className="w-40 rounded-md border border-slate-300 px-2 py-1 text-sm"
+              value={line.category}
+              onChange={(e) => updateLine(index, { category: e.target.value as CategoryName, subcategory: undefined })}
+              disabled={disabled}
+            >
+              {topLevelOptions(categories, line.category).map((c) => (
+                <option key={c.id} value={c.id}>
+                  {c.name}
+                </option>
+              ))}
+            </select>
+            <select
+              className="w-40 rounded-md border border-slate-300 px-2 py-1 text-sm disabled:bg-slate-50"
+              value={line.subcategory ?? ""}
+              onChange={(e) => updateLine(index, { subcategory: (e.target.value || undefined) as CategoryName | undefined })}
+              disabled={disabled || subOptions.length === 0}
+            >
+              <option value="">No subcategory</option>
+              {subOptions.map((c) => (
+                <option key={c.id} value={c.id}>
+                  {c.name}
+                </option>
+              ))}
+            </select>
+            <input
+              type="number"
+              min={0}
+              step="0.01"
+              className="w-28 rounded-md border border-slate-300 px-2 py-1 text-right text-sm"
+              value={line.amount || ""}
+              onChange={(e) => updateLine(index, { amount: Number(e.target.value) })}
+              disabled={disabled}
+            />
+            {lines.length > 2 && !disabled && (
+              <button
+                className="text-xs text-red-700 underline"
+                onClick={() => onChange(lines.filter((_, i) => i !== index))}
+              >
+                Remove
+              </button>
+            )}
+          </div>
+        );
+      })}
+
+      <div className="flex items-center justify-between text-xs">
+        {!disabled && (
+          <button
+            className="text-slate-700 underline"
+            onClick={() => onChange([...lines, { category: lines[lines.length - 1]?.category ?? "Living", amount: remaining > 0 ? remaining : 0 }])}
+          >
+            + Add line
+          </button>
+        )}
+        <span className={remaining === 0 ? "text-emerald-700" : "text-amber-700"}>
+          {remaining === 0 ? "Lines add up to the amount" : `${formatMoney(remaining, currency)} left to allocate`}
+        </span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,10 @@
+export const ACCOUNT_TYPES = ["current", "savings", "creditCard", "cash"] as const;
+
+export type AccountType = (typeof ACCOUNT_TYPES)[number];
+
+export const ACCOUNT_TYPE_LABELS: Record<AccountType, string> = {
+  current: "Current",
+  savings: "Savings",
+  creditCard: "Credit card",
+  cash: "Cash",
+};
@@ -1,3 +1,7 @@
+/**
+ * Built-in top-level categories. Their names double as their ids, so records
+ * keep pointing at them after a rename.
+ */
 export const CATEGORIES = [
   "Living",
   "Savings",
@@ -9,4 +13,23 @@ export const CATEGORIES = [
   "Education",
 ] as const;
 
-export type CategoryName = (typeof CATEGORIES)[number];
+export type BuiltInCategory = (typeof CATEGORIES)[number];
+
+/**
+ * Category carried by both legs of a transfer between the household's own
+ * accounts. It is not a plan category: transfers count as neither income nor spending.
+ */
+export const TRANSFER_CATEGORY = "Transfer" as const;
+
+/**
+ * Id of a custom category or subcategory (a UUID, see categoriesStore). Its
+ * shape keeps typos of built-in names (e.g. "Debtt") from type-checking.
+ */
+export type CustomCategoryId = `${string}-${string}-${string}-${string}-${string}`;
+
+/**
+ * Category id stored on records: a built-in name (e.g. "Living"), the
+ * transfer category or the id of a custom category or subcategory
+ */
+export type CategoryName = BuiltInCategory | typeof TRANSFER_CATEGORY | CustomCategoryId;
+
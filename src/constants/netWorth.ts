@@ -0,0 +1,18 @@
+export const ASSET_TYPES = ["cash", "property", "investment", "cpf", "vehicle"] as const;
+
+export type AssetType = (typeof ASSET_TYPES)[number];
+
+export const LIABILITY_TYPES = ["loan", "mortgage", "creditCard"] as const;
+
+export type LiabilityType = (typeof LIABILITY_TYPES)[number];
+
+export const NET_WORTH_TYPE_LABELS: Record<AssetType | LiabilityType, string> = {
+  cash: "Cash",
+  property: "Property",
+  investment: "Investment",
+  cpf: "CPF",
+  vehicle: "Vehicle",
+  loan: "Loan",
+  mortgage: "Mortgage",
+  creditCard: "Credit card",
+};
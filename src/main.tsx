@@ -3,11 +3,29 @@ import ReactDOM from "react-dom/client";
 import "./index.css";
 import { AppProviders } from "./app/providers";
 import { App } from "./app/App";
+import { runMigrations } from "./state/migrations";
+import { initStorage } from "./state/storageAdapter";
+import { startSync } from "./state/syncService";
+import { ensureDefaultHousehold } from "./state/householdStore";
+import { postDueScheduledTransactions } from "./state/scheduledPostingService";
 
-ReactDOM.createRoot(document.getElementById("root")!).render(
-  <React.StrictMode>
-    <AppProviders>
-      <App />
-    </AppProviders>
-  </React.StrictMode>
-);
+// Data stored before households existed belongs to the default household
+ensureDefaultHousehold();
+
+// Bring persisted stores up to the current schema before anything reads them
+// (every store, the adapter-backed collections included, reads on first use, not on import)
+runMigrations();
+
+// Load adapter-backed stores (IndexedDB when available) before the first render
+initStorage().then(() => {
+  startSync();
+  // Auto-post templates whose expected date has arrived since the app was last opened
+  postDueScheduledTransactions();
+  ReactDOM.createRoot(document.getElementById("root")!).render(
+    <React.StrictMode>
+      <AppProviders>
+        <App />
+      </AppProviders>
+    </React.StrictMode>
+  );
+});
@@ -3,6 +3,7 @@ import { useDistributionPlan } from "../../state/useDistributionPlan";
 import { computeAllocations, sumAllocations } from "../../utils/distributionMath";
 import { validateDistributionPlan } from "../../utils/planValidation";
 import { type DistributionPlan } from "../../types/distribution";
+import type { CategoryName } from "../../constants/categories";
 import { InfoTooltip } from "../../components/common/InfoTooltip";
 import { useTransactions } from "../../state/useTransactions";
 import { sumByCategory, sumTotals } from "../../utils/transactionsMath";
@@ -18,7 +19,16 @@ import {
 import { isPeriodLocked, subscribeLocks } from "../../state/periodLocksStore";
 import { useIncome } from "../../state/useIncome";
 import { filterIncomeByPeriod, sumIncome } from "../../utils/incomeMath";
+import { useFxRates } from "../../state/useFxRates";
+import { getFxRatesForPeriod } from "../../utils/snapshotHelper";
+import { createFxConverter, findUnconvertedCurrencies } from "../../utils/fxMath";
 import { updatePlan } from "../../state/distributionPlansStore";
+import { useHouseholdRole } from "../../state/useHouseholdRole";
+import { roleAllows } from "../../utils/roleGuard";
+import { useCategories } from "../../state/useCategories";
+import { useAccounts } from "../../state/useAccounts";
+import { UpcomingCardPayments } from "../../components/accounts/UpcomingCardPayments";
+import { categoryLabel } from "../../utils/categoryTree";
 
 function formatMoney(amount: number, currency = "SGD") {
   try {
@@ -65,6 +75,7 @@ function DistributionPlanEditor({
   onSave,
   onCancel,
 }: DistributionPlanEditorProps) {
+  const categories = useCategories();
   const total = useMemo(
     () => round2(draft.targets.reduce((acc, t) => acc + t.targetPct, 0)),
     [draft]
@@ -95,7 +106,7 @@ function DistributionPlanEditor({
         <div className="divide-y divide-slate-200">
           {draft.targets.map((t, idx) => (
             <div key={t.category} className="grid grid-cols-12 items-center px-4 py-2">
-              <div className="col-span-8 text-sm">{t.category}</div>
+              <div className="col-span-8 text-sm">{categoryLabel(categories, t.category)}</div>
               <div className="col-span-4 flex justify-end">
                 <input
                   type="number"
@@ -147,6 +158,9 @@ export function CashFlow() {
   const planCheck = validateDistributionPlan(plan);
   const transactions = useTransactions();
   const incomeItems = useIncome();
+  const liveFxRates = useFxRates();
+  const categories = useCategories();
+  const accounts = useAccounts();
   const [viewMode, setViewMode] = useState<"thisMonth" | "custom" | "allTime">("thisMonth");
   const [customMonth, setCustomMonth] = useState<string>(getCurrentPeriod());
   const [snapTick, setSnapTick] = useState(0);
@@ -155,6 +169,7 @@ export function CashFlow() {
   const [regenerateSuccess, setRegenerateSuccess] = useState<string | null>(null);
   const [isPlanOpen, setIsPlanOpen] = useState(false);
   const [isEditingPlan, setIsEditingPlan] = useState(false);
+  const canEditPlan = roleAllows(useHouseholdRole(), "edit");
   const [planDraft, setPlanDraft] = useState<DistributionPlan | null>(null);
   const [isComparisonOpen, setIsComparisonOpen] = useState(false);
 
@@ -187,18 +202,6 @@ export function CashFlow() {
     return getCurrentPeriod();
   }, [viewMode, customMonth]);
 
-  // Calculate income from records for selected period
-  const effectiveIncome = useMemo(() => {
-    return sumIncome(filterIncomeByPeriod(incomeItems, periodForIncome));
-  }, [incomeItems, periodForIncome]);
-
-  const actualByCategory = useMemo(
-    () => sumByCategory(filteredTransactions),
-    [filteredTransactions]
-  );
-
-  const cashFlowTotals = useMemo(() => sumTotals(filteredTransactions), [filteredTransactions]);
-
   // Determine which period we're viewing for snapshot logic
   const periodForView = useMemo(() => {
     if (viewMode === "allTime") return null;
@@ -222,6 +225,40 @@ export function CashFlow() {
     return plan;
   }, [plan, periodForView, snapshot, lockTick]);
 
+  // Locked periods show categories under the names they had at lock time
+  const frozenNames = planForView === snapshot ? snapshot?.categoryNames : undefined;
+  const labelFor = (category: CategoryName) => categoryLabel(categories, category, frozenNames);
+
+  // Convert into the plan's base currency (locked periods use their frozen rates)
+  const fx = useMemo(
+    () =>
+      createFxConverter(
+        planForView?.currency ?? plan?.currency ?? "SGD",
+        getFxRatesForPeriod(periodForView, liveFxRates)
+      ),
+    [planForView, plan, periodForView, liveFxRates]
+  );
+
+  const incomeForView = useMemo(
+    () => filterIncomeByPeriod(incomeItems, periodForIncome),
+    [incomeItems, periodForIncome]
+  );
+
+  const unconvertedCurrencies = useMemo(
+    () => findUnconvertedCurrencies([...filteredTransactions, ...incomeForView], fx),
+    [filteredTransactions, incomeForView, fx]
+  );
+
+  // Calculate income from records for selected period
+  const effectiveIncome = useMemo(() => sumIncome(incomeForView, fx), [incomeForView, fx]);
+
+  const actualByCategory = useMemo(
+    () => sumByCategory(filteredTransactions, fx),
+    [filteredTransactions, fx]
+  );
+
+  const cashFlowTotals = useMemo(() => sumTotals(filteredTransactions, fx), [filteredTransactions, fx]);
+
   const lines = useMemo(() => {
     if (!planForView) return [];
     
@@ -285,6 +322,16 @@ export function CashFlow() {
         </div>
       )}
 
+      {unconvertedCurrencies.length > 0 && (
+        <div className="rounded-lg border border-amber-300 bg-amber-50 p-4 text-sm text-amber-900">
+          <div className="font-semibold">Missing exchange rates</div>
+          <div className="mt-1">
+            No rate into {fx.base} for {unconvertedCurrencies.join(", ")} on some dates; those amounts are counted
+            unconverted. Add rates under Settings → Exchange Rates.
+          </div>
+        </div>
+      )}
+
       {snapshotMissing && (
         <div className="space-y-3 rounded-lg border border-red-300 bg-red-50 p-4">
           <div className="text-sm text-red-900">
@@ -346,7 +393,7 @@ export function CashFlow() {
               />
             </div>
             <div className="mt-2 text-2xl font-semibold text-emerald-700">
-              {formatMoney(cashFlowTotals.totalIn, currency)}
+              {formatMoney(cashFlowTotals.totalIn, currencyForView)}
             </div>
           </div>
 
@@ -366,7 +413,7 @@ export function CashFlow() {
               />
             </div>
             <div className="mt-2 text-2xl font-semibold text-red-700">
-              {formatMoney(cashFlowTotals.totalOut, currency)}
+              {formatMoney(cashFlowTotals.totalOut, currencyForView)}
             </div>
           </div>
 
@@ -391,12 +438,14 @@ export function CashFlow() {
                 cashFlowTotals.net >= 0 ? "text-emerald-700" : "text-red-700"
               }`}
             >
-              {formatMoney(cashFlowTotals.net, currency)}
+              {formatMoney(cashFlowTotals.net, currencyForView)}
             </div>
           </div>
         </div>
       </div>
 
+      <UpcomingCardPayments accounts={accounts} transactions={transactions} />
+
       {/* Merged Distribution Plan Card */}
       <div className="rounded-lg border border-slate-200 bg-white">
         <div
@@ -445,7 +494,7 @@ export function CashFlow() {
 
           {isPlanOpen && (
             <div className="flex gap-2">
-              {plan && (
+              {plan && canEditPlan && (
                 <button
                   type="button"
                   className="rounded-lg border border-slate-300 bg-white px-4 py-2 text-sm font-medium hover:bg-slate-50"
@@ -474,7 +523,7 @@ export function CashFlow() {
                 <ul className="space-y-2">
                   {plan.targets.map((t) => (
                     <li key={t.category} className="flex justify-between text-sm">
-                      <span>{t.category}</span>
+                      <span>{categoryLabel(categories, t.category)}</span>
                       <span className="font-medium">{t.targetPct}%</span>
                     </li>
                   ))}
@@ -633,7 +682,7 @@ export function CashFlow() {
                           }`}
                         >
                           <div className="col-span-3 font-medium flex items-center gap-2">
-                            <span>{target.category}</span>
+                            <span>{labelFor(target.category)}</span>
                           </div>
 
                           <div className="col-span-3 text-right text-slate-700">
@@ -747,7 +796,7 @@ export function CashFlow() {
                   <div className="mt-2 divide-y divide-slate-200 rounded-lg border border-slate-200">
                     {lines.map((l) => (
                       <div key={l.category} className="flex justify-between px-4 py-2 text-sm">
-                        <span>{l.category} ({l.targetPct}%)</span>
+                        <span>{labelFor(l.category)} ({l.targetPct}%)</span>
                         <span className="font-medium">
                           {planForView.currency} {l.amount.toLocaleString()}
                         </span>
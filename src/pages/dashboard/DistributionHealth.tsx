@@ -12,10 +12,28 @@ import {
   regenerateSnapshot,
 } from "../../state/periodLockService";
 import { isPeriodLocked, subscribeLocks } from "../../state/periodLocksStore";
+import { useFxRates } from "../../state/useFxRates";
+import { getFxRatesForPeriod } from "../../utils/snapshotHelper";
+import { createFxConverter, findUnconvertedCurrencies } from "../../utils/fxMath";
+import { useIncome } from "../../state/useIncome";
+import { filterIncomeByPeriod, sumIncome } from "../../utils/incomeMath";
+import { computeAllocations } from "../../utils/distributionMath";
+import { useSavingsGoals } from "../../state/useSavingsGoals";
+import { goalProgress } from "../../utils/goalsMath";
+import { useHouseholdRole } from "../../state/useHouseholdRole";
+import { roleAllows } from "../../utils/roleGuard";
+import { SavingsGoalsPanel } from "../../components/distribution/SavingsGoalsPanel";
+import { useCategories } from "../../state/useCategories";
+import { categoryLabel } from "../../utils/categoryTree";
 
 export function DistributionHealth() {
   const plan = useDistributionPlan();
   const transactions = useTransactions();
+  const liveFxRates = useFxRates();
+  const incomeItems = useIncome();
+  const goals = useSavingsGoals();
+  const categories = useCategories();
+  const isReadOnly = !roleAllows(useHouseholdRole(), "edit");
   const [timeFilter, setTimeFilter] = useState<"month" | "all">("month");
   const [snapTick, setSnapTick] = useState(0);
   const [lockTick, setLockTick] = useState(0);
@@ -43,16 +61,6 @@ export function DistributionHealth() {
     return transactions;
   }, [transactions, timeFilter]);
 
-  const actualByCategory = useMemo(() => sumByCategory(filteredTransactions), [filteredTransactions]);
-
-  const totalSpent = useMemo(() => {
-    let sum = 0;
-    for (const amount of actualByCategory.values()) {
-      sum += amount;
-    }
-    return sum;
-  }, [actualByCategory]);
-
   // Determine which period we're viewing for snapshot logic
   const periodForView = timeFilter === "month" ? getCurrentPeriod() : null;
   const snapshot = useMemo(
@@ -72,6 +80,30 @@ export function DistributionHealth() {
     return plan;
   }, [plan, periodForView, snapshot, lockTick]);
 
+  // Locked periods show categories under the names they had at lock time
+  const frozenNames = planForView === snapshot ? snapshot?.categoryNames : undefined;
+
+  // Convert into the plan's base currency (locked periods use their frozen rates)
+  const fx = useMemo(
+    () => createFxConverter(planForView?.currency ?? "SGD", getFxRatesForPeriod(periodForView, liveFxRates)),
+    [planForView, periodForView, liveFxRates]
+  );
+
+  const unconvertedCurrencies = useMemo(
+    () => findUnconvertedCurrencies(filteredTransactions, fx),
+    [filteredTransactions, fx]
+  );
+
+  const actualByCategory = useMemo(() => sumByCategory(filteredTransactions, fx), [filteredTransactions, fx]);
+
+  const totalSpent = useMemo(() => {
+    let sum = 0;
+    for (const amount of actualByCategory.values()) {
+      sum += amount;
+    }
+    return sum;
+  }, [actualByCategory]);
+
   const healthData = useMemo(() => {
     if (!planForView) return [];
 
@@ -111,6 +143,22 @@ export function DistributionHealth() {
     });
   }, [planForView, actualByCategory, totalSpent]);
 
+  // Goals are measured against this month's allocation, whatever the time filter
+  const goalPeriod = getCurrentPeriod();
+  const goalIncome = useMemo(
+    () => sumIncome(filterIncomeByPeriod(incomeItems, goalPeriod), fx),
+    [incomeItems, goalPeriod, fx]
+  );
+
+  const goalRows = useMemo(() => {
+    if (!planForView) return [];
+    const allocations = computeAllocations(
+      { id: "goals", name: "", currency: planForView.currency, targets: planForView.targets, updatedAt: "" },
+      goalIncome
+    );
+    return goalProgress(goals, transactions, allocations, goalPeriod, fx);
+  }, [planForView, goalIncome, goals, transactions, goalPeriod, fx]);
+
   if (!plan) {
     return (
       <div className="space-y-6">
@@ -195,11 +243,21 @@ export function DistributionHealth() {
         </div>
       )}
 
+      {unconvertedCurrencies.length > 0 && (
+        <div className="rounded-lg border border-amber-300 bg-amber-50 p-4 text-sm text-amber-900">
+          <div className="font-semibold">Missing exchange rates</div>
+          <div className="mt-1">
+            No rate into {fx.base} for {unconvertedCurrencies.join(", ")} on some transaction dates; those amounts
+            are counted unconverted. Add rates under Settings → Exchange Rates.
+          </div>
+        </div>
+      )}
+
       {/* Health Table */}
       <div className="rounded-lg border border-slate-200 bg-white p-6">
         <h2 className="text-lg font-semibold">Category Health</h2>
         <p className="mt-1 text-sm text-slate-600">
-          Compare your actual spending against planned allocation percentages.
+          Compare your actual spending against planned allocation percentages. Amounts are converted to {fx.base}.
         </p>
 
         <div className="mt-6 overflow-hidden rounded-lg border border-slate-200">
@@ -214,7 +272,7 @@ export function DistributionHealth() {
           <div className="divide-y divide-slate-200">
             {healthData.map((item) => (
               <div key={item.category} className="grid grid-cols-12 gap-2 items-center px-4 py-3 text-sm">
-                <div className="col-span-3 font-medium">{item.category}</div>
+                <div className="col-span-3 font-medium">{categoryLabel(categories, item.category, frozenNames)}</div>
                 <div className="col-span-2 text-right text-slate-700">{item.targetPct}%</div>
                 <div className="col-span-2 text-right font-medium">{item.actualPct}%</div>
                 <div
@@ -254,6 +312,14 @@ export function DistributionHealth() {
           Health status is based on variance from target. Categories with variance &gt; 5% are flagged.
         </p>
       </div>
+
+      <SavingsGoalsPanel
+        rows={goalRows}
+        currency={fx.base}
+        income={goalIncome}
+        period={goalPeriod}
+        isReadOnly={isReadOnly}
+      />
     </div>
   );
 }
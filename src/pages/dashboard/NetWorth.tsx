@@ -1,4 +1,27 @@
-import { useMemo, useState, useEffect } from "react";
+import { useEffect, useMemo, useState } from "react";
+import { NET_WORTH_TYPE_LABELS } from "../../constants/netWorth";
+import { getSelectedHousehold } from "../../state/householdStore";
+import { useAssets } from "../../state/useAssets";
+import { useInvestments } from "../../state/useInvestments";
+import { useSecurityPrices } from "../../state/useSecurityPrices";
+import { useLiabilities } from "../../state/useLiabilities";
+import { useLoans } from "../../state/useLoans";
+import { useAccounts } from "../../state/useAccounts";
+import { useTransactions } from "../../state/useTransactions";
+import { useFxRates } from "../../state/useFxRates";
+import { useNetWorthHistory } from "../../state/useNetWorthHistory";
+import { useHouseholdRole } from "../../state/useHouseholdRole";
+import { isPeriodLocked, subscribeLocks } from "../../state/periodLocksStore";
+import { captureNetWorth, deleteNetWorthSnapshot } from "../../state/netWorthHistoryStore";
+import { createFxConverter } from "../../utils/fxMath";
+import { withLoanBalances } from "../../utils/loanMath";
+import { investmentAccountsAsAssets } from "../../utils/investmentMath";
+import { accountsAsNetWorth } from "../../utils/accountMath";
+import { totalValue, valuationAsOf, withNetWorthChanges, type NetWorthChange } from "../../utils/netWorthMath";
+import { getCurrentPeriod } from "../../utils/periods";
+import { roleAllows, getRestrictedTitle } from "../../utils/roleGuard";
+import { RoleBanner } from "../../components/common/RoleBanner";
+import { NetWorthTimeline } from "../../components/networth/NetWorthTimeline";
 
 function formatMoney(amount: number, currency = "SGD") {
   try {
@@ -8,60 +31,126 @@ function formatMoney(amount: number, currency = "SGD") {
   }
 }
 
-function getAssets() {
-  try {
-    const raw = localStorage.getItem("stewardly_assets");
-    return JSON.parse(raw || "[]");
-  } catch {
-    return [];
-  }
-}
-
-function getLiabilities() {
-  try {
-    const raw = localStorage.getItem("stewardly_liabilities");
-    return JSON.parse(raw || "[]");
-  } catch {
-    return [];
-  }
+function formatChange(change: NetWorthChange | null, currency: string) {
+  if (!change) return <span className="text-slate-400">—</span>;
+  const sign = change.amount > 0 ? "+" : "";
+  return (
+    <span className={change.amount >= 0 ? "text-emerald-700" : "text-red-700"}>
+      {sign}
+      {formatMoney(change.amount, currency)}
+      {change.pct !== null && (
+        <span className="ml-1 text-xs">
+          ({sign}
+          {change.pct.toFixed(1)}%)
+        </span>
+      )}
+    </span>
+  );
 }
 
 export function NetWorthDashboard() {
-  const [assets, setAssets] = useState(getAssets());
-  const [liabilities, setLiabilities] = useState(getLiabilities());
+  const manualAssets = useAssets();
+  const investments = useInvestments();
+  const prices = useSecurityPrices();
+  const rawLiabilities = useLiabilities();
+  const loans = useLoans();
+  const transactions = useTransactions();
+  const fxRates = useFxRates();
+  const accounts = useAccounts();
 
-  // Poll for changes from other tabs (simple approach)
-  useEffect(() => {
-    const interval = setInterval(() => {
-      setAssets(getAssets());
-      setLiabilities(getLiabilities());
-    }, 1000);
+  // Bank and cash accounts count at their balance, credit cards at what is owed
+  const accountItems = useMemo(() => accountsAsNetWorth(accounts, transactions), [accounts, transactions]);
 
-    return () => clearInterval(interval);
-  }, []);
+  // Investment accounts count at market value
+  const assets = useMemo(
+    () => [
+      ...manualAssets,
+      ...investmentAccountsAsAssets(investments.accounts, investments.holdings, prices),
+      ...accountItems.assets,
+    ],
+    [manualAssets, investments, prices, accountItems]
+  );
 
-  const totalAssets = useMemo(() => assets.reduce((sum: number, a: any) => sum + a.value, 0), [assets]);
-  const totalLiabilities = useMemo(
-    () => liabilities.reduce((sum: number, l: any) => sum + l.value, 0),
-    [liabilities]
+  // Loans follow their linked repayments
+  const liabilities = useMemo(
+    () => [...withLoanBalances(rawLiabilities, loans, transactions), ...accountItems.liabilities],
+    [rawLiabilities, loans, transactions, accountItems]
   );
+  const history = useNetWorthHistory();
+  const isReadOnly = !roleAllows(useHouseholdRole(), "edit");
+  const baseCurrency = getSelectedHousehold()?.base_currency ?? "SGD";
+
+  const [capturePeriod, setCapturePeriod] = useState(getCurrentPeriod());
+  const [error, setError] = useState<string | null>(null);
+  const [, setLockTick] = useState(0);
+
+  // Subscribe to lock changes so capture/delete availability stays current
+  useEffect(() => {
+    const unsubscribe = subscribeLocks(() => {
+      setLockTick((x) => x + 1);
+    });
+    return () => {
+      unsubscribe();
+    };
+  }, []);
+
+  // Latest values, converted into the household base currency
+  const fx = useMemo(() => createFxConverter(baseCurrency, fxRates), [baseCurrency, fxRates]);
+  const assetTotals = useMemo(() => totalValue(assets, fx), [assets, fx]);
+  const liabilityTotals = useMemo(() => totalValue(liabilities, fx), [liabilities, fx]);
+  const unconverted = [...new Set([...assetTotals.unconverted, ...liabilityTotals.unconverted])];
+
+  const totalAssets = assetTotals.total;
+  const totalLiabilities = liabilityTotals.total;
   const netWorth = totalAssets - totalLiabilities;
 
+  // Newest first for the table; the chart reads oldest first
+  const historyRows = useMemo(() => withNetWorthChanges(history).reverse(), [history]);
+  const captureLocked = isPeriodLocked(capturePeriod);
+
+  function handleCapture() {
+    const result = captureNetWorth(capturePeriod);
+    setError(result.ok ? null : result.reason);
+  }
+
+  function handleDelete(period: string) {
+    const result = deleteNetWorthSnapshot(period);
+    setError(result.ok ? null : result.reason);
+  }
+
   return (
     <div className="space-y-6">
       <h1 className="text-3xl font-bold">Net Worth</h1>
 
+      <RoleBanner />
+
+      {error && (
+        <div className="rounded-lg border border-red-300 bg-red-50 p-4 text-sm text-red-900">
+          <div className="font-semibold">Error</div>
+          <div className="mt-1">{error}</div>
+        </div>
+      )}
+
+      {unconverted.length > 0 && (
+        <div className="rounded-lg border border-amber-300 bg-amber-50 p-4 text-sm text-amber-900">
+          <div className="font-semibold">Missing exchange rates</div>
+          <div className="mt-1">
+            No rate into {baseCurrency} for {unconverted.sort().join(", ")}; those values are counted unconverted.
+          </div>
+        </div>
+      )}
+
       {/* Summary Cards */}
       <div className="grid gap-4 md:grid-cols-3">
         <div className="rounded-lg border border-slate-200 bg-white p-6">
           <div className="text-sm text-slate-600">Total Assets</div>
-          <div className="mt-2 text-3xl font-bold text-emerald-700">{formatMoney(totalAssets)}</div>
+          <div className="mt-2 text-3xl font-bold text-emerald-700">{formatMoney(totalAssets, baseCurrency)}</div>
           <p className="mt-2 text-xs text-slate-500">{assets.length} items</p>
         </div>
 
         <div className="rounded-lg border border-slate-200 bg-white p-6">
           <div className="text-sm text-slate-600">Total Liabilities</div>
-          <div className="mt-2 text-3xl font-bold text-red-700">{formatMoney(totalLiabilities)}</div>
+          <div className="mt-2 text-3xl font-bold text-red-700">{formatMoney(totalLiabilities, baseCurrency)}</div>
           <p className="mt-2 text-xs text-slate-500">{liabilities.length} items</p>
         </div>
 
@@ -72,7 +161,7 @@ export function NetWorthDashboard() {
           <div className={`mt-2 text-3xl font-bold ${
             netWorth >= 0 ? "text-emerald-700" : "text-red-700"
           }`}>
-            {formatMoney(netWorth)}
+            {formatMoney(netWorth, baseCurrency)}
           </div>
           <p className="mt-2 text-xs text-slate-500">Assets - Liabilities</p>
         </div>
@@ -92,16 +181,20 @@ export function NetWorthDashboard() {
             {/* Assets section */}
             <div className="grid grid-cols-12 gap-2 items-center px-4 py-3 text-sm bg-emerald-50">
               <div className="col-span-6 font-semibold text-emerald-900">Assets</div>
-              <div className="col-span-6 text-right font-semibold text-emerald-700">{formatMoney(totalAssets)}</div>
+              <div className="col-span-6 text-right font-semibold text-emerald-700">{formatMoney(totalAssets, baseCurrency)}</div>
             </div>
 
             {assets.length === 0 ? (
               <div className="px-4 py-2 text-sm text-slate-600">No assets recorded.</div>
             ) : (
-              assets.map((asset: any) => (
+              assets.map((asset) => (
                 <div key={asset.id} className="grid grid-cols-12 gap-2 items-center px-4 py-2 text-sm">
-                  <div className="col-span-6 text-slate-700">— {asset.name}</div>
-                  <div className="col-span-6 text-right text-slate-700">{formatMoney(asset.value)}</div>
+                  <div className="col-span-6 text-slate-700">
+                    — {asset.name} <span className="text-xs text-slate-500">({NET_WORTH_TYPE_LABELS[asset.type]})</span>
+                  </div>
+                  <div className="col-span-6 text-right text-slate-700">
+                    {formatMoney(valuationAsOf(asset)?.value ?? 0, asset.currency)}
+                  </div>
                 </div>
               ))
             )}
@@ -109,16 +202,21 @@ export function NetWorthDashboard() {
             {/* Liabilities section */}
             <div className="grid grid-cols-12 gap-2 items-center px-4 py-3 text-sm bg-red-50">
               <div className="col-span-6 font-semibold text-red-900">Liabilities</div>
-              <div className="col-span-6 text-right font-semibold text-red-700">{formatMoney(totalLiabilities)}</div>
+              <div className="col-span-6 text-right font-semibold text-red-700">{formatMoney(totalLiabilities, baseCurrency)}</div>
             </div>
 
             {liabilities.length === 0 ? (
               <div className="px-4 py-2 text-sm text-slate-600">No liabilities recorded.</div>
             ) : (
-              liabilities.map((liability: any) => (
+              liabilities.map((liability) => (
                 <div key={liability.id} className="grid grid-cols-12 gap-2 items-center px-4 py-2 text-sm">
-                  <div className="col-span-6 text-slate-700">— {liability.name}</div>
-                  <div className="col-span-6 text-right text-slate-700">{formatMoney(liability.value)}</div>
+                  <div className="col-span-6 text-slate-700">
+                    — {liability.name}{" "}
+                    <span className="text-xs text-slate-500">({NET_WORTH_TYPE_LABELS[liability.type]})</span>
+                  </div>
+                  <div className="col-span-6 text-right text-slate-700">
+                    {formatMoney(valuationAsOf(liability)?.value ?? 0, liability.currency)}
+                  </div>
                 </div>
               ))
             )}
@@ -133,13 +231,106 @@ export function NetWorthDashboard() {
               <div className={`col-span-6 text-right ${
                 netWorth >= 0 ? "text-emerald-700" : "text-red-700"
               }`}>
-                {formatMoney(netWorth)}
+                {formatMoney(netWorth, baseCurrency)}
               </div>
             </div>
           </div>
         </div>
       </div>
+
+      {/* History */}
+      <div className="rounded-lg border border-slate-200 bg-white p-6">
+        <div className="flex flex-wrap items-end justify-between gap-4">
+          <div>
+            <h2 className="text-lg font-semibold">History</h2>
+            <p className="mt-1 text-sm text-slate-600">
+              Month-end values, recorded when a period is locked or captured on demand.
+            </p>
+          </div>
+
+          <div className="flex items-end gap-2">
+            <div>
+              <label className="text-sm font-medium text-slate-700">Period</label>
+              <input
+                type="month"
+                className="mt-1 block rounded-lg border border-slate-300 px-3 py-2 text-sm"
+                value={capturePeriod}
+                onChange={(e) => setCapturePeriod(e.target.value)}
+                disabled={isReadOnly}
+              />
+            </div>
+            <button
+              className="rounded-lg bg-slate-900 px-4 py-2 text-sm font-medium text-white disabled:cursor-not-allowed disabled:bg-slate-200 disabled:text-slate-500"
+              onClick={handleCapture}
+              disabled={isReadOnly || !capturePeriod || captureLocked}
+              title={
+                isReadOnly
+                  ? getRestrictedTitle()
+                  : captureLocked
+                    ? "Locked periods keep the net worth recorded when they were locked"
+                    : undefined
+              }
+            >
+              Capture now
+            </button>
+          </div>
+        </div>
+
+        <div className="mt-6">
+          <NetWorthTimeline history={history} currency={baseCurrency} />
+        </div>
+
+        {historyRows.length > 0 && (
+          <div className="mt-6 overflow-hidden rounded-lg border border-slate-200">
+            <div className="grid grid-cols-12 gap-2 bg-slate-50 px-4 py-2 text-xs font-semibold uppercase tracking-wide text-slate-600">
+              <div className="col-span-2">Period</div>
+              <div className="col-span-2 text-right">Assets</div>
+              <div className="col-span-2 text-right">Liabilities</div>
+              <div className="col-span-2 text-right">Net Worth</div>
+              <div className="col-span-2 text-right">vs last month</div>
+              <div className="col-span-2 text-right">vs last year</div>
+            </div>
+
+            <div className="divide-y divide-slate-200">
+              {historyRows.map((row) => (
+                <div key={row.period} className="grid grid-cols-12 gap-2 items-center px-4 py-2 text-sm">
+                  <div className="col-span-2">
+                    <div className="font-medium">{row.period}</div>
+                    <div className="flex items-center gap-2 text-xs text-slate-500">
+                      <span
+                        className={`rounded px-1.5 py-0.5 ${
+                          row.source === "lock" ? "bg-slate-900 text-white" : "bg-slate-100 text-slate-700"
+                        }`}
+                      >
+                        {row.source === "lock" ? "Locked" : "Manual"}
+                      </span>
+                      {!isReadOnly && !isPeriodLocked(row.period) && (
+                        <button className="text-red-700 underline" onClick={() => handleDelete(row.period)}>
+                          Delete
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                  <div className="col-span-2 text-right text-slate-700">{formatMoney(row.assets, row.currency)}</div>
+                  <div className="col-span-2 text-right text-slate-700">
+                    {formatMoney(row.liabilities, row.currency)}
+                  </div>
+                  <div className="col-span-2 text-right font-semibold">
+                    {formatMoney(row.netWorth, row.currency)}
+                    {row.unconverted.length > 0 && (
+                      <div className="text-xs font-normal text-amber-700">
+                        {row.unconverted.join(", ")} unconverted
+                      </div>
+                    )}
+                  </div>
+                  <div className="col-span-2 text-right">{formatChange(row.mom, row.currency)}</div>
+                  <div className="col-span-2 text-right">{formatChange(row.yoy, row.currency)}</div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
     </div>
   );
 }
-
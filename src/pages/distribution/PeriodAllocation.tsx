@@ -9,6 +9,23 @@ import {
   regenerateSnapshot,
 } from "../../state/periodLockService";
 import { isPeriodLocked, subscribeLocks } from "../../state/periodLocksStore";
+import { RoleBanner } from "../../components/common/RoleBanner";
+import { useHouseholdRole } from "../../state/useHouseholdRole";
+import { roleAllows, getRoleRestrictionMessage } from "../../utils/roleGuard";
+import { useTransactions } from "../../state/useTransactions";
+import { useIncome } from "../../state/useIncome";
+import { getEnvelopeLedger } from "../../state/envelopeService";
+import type { CategoryName } from "../../constants/categories";
+import { useCategories } from "../../state/useCategories";
+import { categoryLabel } from "../../utils/categoryTree";
+
+function formatMoney(amount: number, currency = "SGD") {
+  try {
+    return new Intl.NumberFormat(undefined, { style: "currency", currency }).format(amount);
+  } catch {
+    return `${currency} ${amount.toFixed(2)}`;
+  }
+}
 
 export function PeriodAllocation() {
   const plan = useDistributionPlan();
@@ -18,11 +35,18 @@ export function PeriodAllocation() {
   const [regenerateError, setRegenerateError] = useState<string | null>(null);
   const [regenerateSuccess, setRegenerateSuccess] = useState<string | null>(null);
   const [snapTick, setSnapTick] = useState(0);
+  const [, setLockTick] = useState(0);
+  const [ledgerCategory, setLedgerCategory] = useState<CategoryName | null>(null);
+  const role = useHouseholdRole();
+  const transactions = useTransactions();
+  const income = useIncome();
+  const categories = useCategories();
 
   // Subscribe to locks and snapshots for re-render
   useEffect(() => {
     const unsubscribeLocks = subscribeLocks(() => {
       setIsLocked(isPeriodLocked(monthISO));
+      setLockTick((x) => x + 1);
     });
     const unsubscribeSnapshots = subscribeSnapshots(() => {
       setSnapTick((x) => x + 1);
@@ -43,13 +67,25 @@ export function PeriodAllocation() {
 
   const snapshot = useMemo(() => getSnapshot(monthISO), [monthISO, snapTick]);
   const effectivePlan = isLocked && snapshot ? snapshot : plan;
+  // Locked periods show categories under the names they had at lock time
+  const frozenNames = isLocked ? snapshot?.categoryNames : undefined;
   const snapshotMissing = isLocked && !hasSnapshot(monthISO);
+  const toggleAction = isLocked ? "unlock" : "lock";
+  const canToggle = roleAllows(role, toggleAction);
 
   const totalPct = useMemo(() => {
     if (!effectivePlan) return 0;
     return effectivePlan.targets.reduce((sum, t) => sum + t.targetPct, 0);
   }, [effectivePlan]);
 
+  // Envelope balances from the start month through the selected month
+  // (recomputed each render, so lock and snapshot changes show immediately)
+  const envelopeLedger = plan?.envelopes ? getEnvelopeLedger(monthISO, transactions, income) : [];
+  const envelopes = envelopeLedger.find((p) => p.period === monthISO) ?? null;
+  const visibleEnvelopes = (envelopes?.balances ?? []).filter(
+    (b) => b.planned !== 0 || b.carriedIn !== 0 || b.spent !== 0
+  );
+
   function handleToggleLock() {
     setLockError(null);
     setRegenerateError(null);
@@ -114,12 +150,17 @@ export function PeriodAllocation() {
                 : "border border-slate-300 bg-white text-slate-700 hover:bg-slate-50 disabled:opacity-50 disabled:cursor-not-allowed"
             }`}
             onClick={handleToggleLock}
-            disabled={snapshotMissing}
+            disabled={snapshotMissing || !canToggle}
+            title={canToggle ? undefined : getRoleRestrictionMessage(toggleAction)}
           >
             {isLocked ? "🔓 Unlock" : "🔒 Lock"}
           </button>
         </div>
 
+        <div className="mt-3">
+          <RoleBanner action={toggleAction} />
+        </div>
+
         {lockError && (
           <div className="mt-3 rounded-lg border border-red-300 bg-red-50 p-3 text-sm text-red-900">
             {lockError}
@@ -138,12 +179,14 @@ export function PeriodAllocation() {
             <div className="rounded-lg border border-red-300 bg-red-50 p-3 text-sm text-red-900">
               This period is locked, but the plan snapshot is missing.
             </div>
-            <button
-              className="rounded-lg border border-red-300 bg-red-100 px-3 py-2 text-sm font-medium text-red-900 hover:bg-red-200"
-              onClick={handleRegenerateSnapshot}
-            >
-              Regenerate snapshot
-            </button>
+            {roleAllows(role, "lock") && (
+              <button
+                className="rounded-lg border border-red-300 bg-red-100 px-3 py-2 text-sm font-medium text-red-900 hover:bg-red-200"
+                onClick={handleRegenerateSnapshot}
+              >
+                Regenerate snapshot
+              </button>
+            )}
             {regenerateError && (
               <div className="rounded-lg border border-red-300 bg-red-50 p-3 text-sm text-red-900">
                 {regenerateError}
@@ -180,7 +223,7 @@ export function PeriodAllocation() {
                   key={target.category}
                   className="grid grid-cols-12 gap-2 items-center px-4 py-3 text-sm"
                 >
-                  <div className="col-span-8 font-medium">{target.category}</div>
+                  <div className="col-span-8 font-medium">{categoryLabel(categories, target.category, frozenNames)}</div>
                   <div className="col-span-4 text-right">
                     <span className={isLocked ? "text-slate-500" : "text-slate-900"}>
                       {target.targetPct}%
@@ -205,6 +248,105 @@ export function PeriodAllocation() {
         )}
       </div>
 
+      {/* Envelopes */}
+      {plan?.envelopes && (
+        <div className="rounded-lg border border-slate-200 bg-white p-6">
+          <div className="flex items-center gap-2">
+            <h2 className="text-lg font-semibold">Envelopes for {monthISO}</h2>
+            {envelopes?.frozen && (
+              <span className="rounded-full bg-amber-100 px-2 py-0.5 text-xs font-semibold text-amber-800">
+                Frozen at lock
+              </span>
+            )}
+          </div>
+          <p className="mt-1 text-sm text-slate-600">
+            Available = carried in + planned − spent. Unspent money beyond a category&apos;s cap is not carried.
+            Select a category to see how its balance was built.
+          </p>
+
+          {!envelopes ? (
+            <div className="mt-4 text-sm text-slate-600">
+              Envelope balances start in {plan.envelopes.startPeriod}.
+            </div>
+          ) : (
+            <div className="mt-6 overflow-hidden rounded-lg border border-slate-200">
+              <div className="grid grid-cols-12 gap-2 bg-slate-50 px-4 py-2 text-xs font-semibold uppercase tracking-wide text-slate-600">
+                <div className="col-span-4">Category</div>
+                <div className="col-span-2 text-right">Carried in</div>
+                <div className="col-span-2 text-right">Planned</div>
+                <div className="col-span-2 text-right">Spent</div>
+                <div className="col-span-2 text-right">Available</div>
+              </div>
+
+              <div className="divide-y divide-slate-200">
+                {visibleEnvelopes.map((b) => (
+                  <button
+                    key={b.category}
+                    className={`grid w-full grid-cols-12 gap-2 px-4 py-3 text-left text-sm hover:bg-slate-50 ${
+                      ledgerCategory === b.category ? "bg-slate-50" : ""
+                    }`}
+                    onClick={() => setLedgerCategory(ledgerCategory === b.category ? null : b.category)}
+                  >
+                    <div className="col-span-4 font-medium">{categoryLabel(categories, b.category, frozenNames)}</div>
+                    <div className="col-span-2 text-right text-slate-700">{formatMoney(b.carriedIn, envelopes.currency)}</div>
+                    <div className="col-span-2 text-right text-slate-700">{formatMoney(b.planned, envelopes.currency)}</div>
+                    <div className="col-span-2 text-right text-slate-700">{formatMoney(b.spent, envelopes.currency)}</div>
+                    <div className={`col-span-2 text-right font-semibold ${b.closing < 0 ? "text-red-700" : "text-emerald-700"}`}>
+                      {formatMoney(b.closing, envelopes.currency)}
+                      {b.capped > 0 && (
+                        <div className="text-xs font-normal text-slate-500">
+                          {formatMoney(b.capped, envelopes.currency)} over cap
+                        </div>
+                      )}
+                    </div>
+                  </button>
+                ))}
+
+                {visibleEnvelopes.length === 0 && (
+                  <div className="px-4 py-6 text-sm text-slate-600">No planned amounts or spending yet.</div>
+                )}
+              </div>
+            </div>
+          )}
+
+          {envelopes && ledgerCategory && (
+            <div className="mt-6">
+              <h3 className="text-sm font-semibold text-slate-900">{categoryLabel(categories, ledgerCategory)} ledger</h3>
+              <div className="mt-2 overflow-hidden rounded-lg border border-slate-200">
+                <div className="grid grid-cols-12 gap-2 bg-slate-50 px-4 py-2 text-xs font-semibold uppercase tracking-wide text-slate-600">
+                  <div className="col-span-2">Period</div>
+                  <div className="col-span-2 text-right">Carried in</div>
+                  <div className="col-span-2 text-right">+ Planned</div>
+                  <div className="col-span-2 text-right">− Spent</div>
+                  <div className="col-span-2 text-right">− Over cap</div>
+                  <div className="col-span-2 text-right">Closing</div>
+                </div>
+                <div className="divide-y divide-slate-200">
+                  {envelopeLedger.map((entry) => {
+                    const b = entry.balances.find((x) => x.category === ledgerCategory);
+                    if (!b) return null;
+                    return (
+                      <div key={entry.period} className="grid grid-cols-12 gap-2 px-4 py-2 text-sm">
+                        <div className="col-span-2 font-medium">
+                          {entry.period} {entry.frozen && <span title="Frozen at lock">🔒</span>}
+                        </div>
+                        <div className="col-span-2 text-right text-slate-700">{formatMoney(b.carriedIn, entry.currency)}</div>
+                        <div className="col-span-2 text-right text-slate-700">{formatMoney(b.planned, entry.currency)}</div>
+                        <div className="col-span-2 text-right text-slate-700">{formatMoney(b.spent, entry.currency)}</div>
+                        <div className="col-span-2 text-right text-slate-700">{formatMoney(b.capped, entry.currency)}</div>
+                        <div className={`col-span-2 text-right font-semibold ${b.closing < 0 ? "text-red-700" : "text-slate-900"}`}>
+                          {formatMoney(b.closing, entry.currency)}
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Info */}
       <div className="rounded-lg border border-slate-200 bg-white p-6">
         <h2 className="text-lg font-semibold">About Period Locks</h2>
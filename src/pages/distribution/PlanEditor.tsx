@@ -1,15 +1,23 @@
 import { useState, useMemo, useCallback, useEffect } from "react";
 import { useNavigate, useParams } from "react-router-dom";
-import type { DistributionPlan } from "../../types/distribution";
+import type { DistributionPlan, EnvelopeSettings } from "../../types/distribution";
 import { getPlan, createPlan, updatePlan, setActivePlan, duplicatePlan, deletePlan } from "../../state/distributionPlansStore";
-import { CATEGORIES } from "../../constants/categories";
+import type { CategoryName } from "../../constants/categories";
+import { listTopLevelCategoryIds } from "../../state/categoriesStore";
+import { useCategories } from "../../state/useCategories";
+import { categoryLabel, topLevelOptions } from "../../utils/categoryTree";
+import { getCurrentPeriod } from "../../utils/periods";
 import { ConfirmLeaveModal } from "../../components/common/ConfirmLeaveModal";
 import { DistributionTargetsEditor, type DistributionTarget, useDistributionTargetsValidation } from "../../components/distribution/DistributionTargetsEditor";
+import { RoleBanner } from "../../components/common/RoleBanner";
+import { useHouseholdRole } from "../../state/useHouseholdRole";
+import { roleAllows, getRestrictedTitle } from "../../utils/roleGuard";
 
 type FormData = {
   name: string;
   currency: string;
   targets: DistributionTarget[];
+  envelopes: EnvelopeSettings | null;
 };
 
 function createDefaultFormData(plan?: DistributionPlan): FormData {
@@ -18,6 +26,7 @@ function createDefaultFormData(plan?: DistributionPlan): FormData {
       name: "",
       currency: "SGD",
       targets: [],
+      envelopes: null,
     };
   }
 
@@ -28,6 +37,7 @@ function createDefaultFormData(plan?: DistributionPlan): FormData {
     name: plan.name,
     currency: plan.currency,
     targets: visibleTargets,
+    envelopes: plan.envelopes ?? null,
   };
 }
 
@@ -44,6 +54,10 @@ function isFormDirty(original: FormData, current: FormData): boolean {
     return true;
   }
 
+  if (JSON.stringify(original.envelopes) !== JSON.stringify(current.envelopes)) {
+    return true;
+  }
+
   return false;
 }
 
@@ -70,6 +84,8 @@ export function PlanEditor() {
   }, [initialFormData]);
 
   const [isSaving, setIsSaving] = useState(false);
+  const isReadOnly = !roleAllows(useHouseholdRole(), "edit");
+  const categories = useCategories();
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
   const [showOverflowMenu, setShowOverflowMenu] = useState(false);
   const [showConfirmLeave, setShowConfirmLeave] = useState(false);
@@ -143,14 +159,14 @@ export function PlanEditor() {
   }, [isDirty]);
 
   const handleSave = useCallback(async () => {
-    if (!isValid) return;
+    if (!isValid || isReadOnly) return;
 
     setIsSaving(true);
     try {
-      // Build complete targets array (all canonical categories)
+      // Build complete targets array (every top-level category)
       // Visible targets from formData, hidden categories get 0%
       const visibleTargetsMap = new Map(formData.targets.map((t) => [t.category, t.targetPct]));
-      const fullTargets = CATEGORIES.map((cat) => ({
+      const fullTargets = [...new Set([...listTopLevelCategoryIds(), ...visibleTargetsMap.keys()])].map((cat) => ({
         category: cat,
         targetPct: visibleTargetsMap.get(cat) ?? 0,
       }));
@@ -160,6 +176,7 @@ export function PlanEditor() {
         name: formData.name.trim(),
         currency: formData.currency,
         targets: fullTargets,
+        envelopes: formData.envelopes ?? undefined,
         updatedAt: new Date().toISOString(),
         isActive: existingPlan?.isActive ?? false,
         hasSnapshots: existingPlan?.hasSnapshots ?? false,
@@ -175,12 +192,30 @@ export function PlanEditor() {
     } finally {
       setIsSaving(false);
     }
-  }, [existingPlan, formData, isValid, navigate]);
+  }, [existingPlan, formData, isValid, isReadOnly, navigate]);
 
   const handleUpdateTargets = useCallback((newTargets: DistributionTarget[]) => {
     setFormData((prev) => ({ ...prev, targets: newTargets }));
   }, []);
 
+  const handleToggleEnvelopes = useCallback((enabled: boolean) => {
+    setFormData((prev) => ({
+      ...prev,
+      envelopes: enabled ? { startPeriod: getCurrentPeriod(), caps: {} } : null,
+    }));
+  }, []);
+
+  // An empty cap means unspent money carries over without limit
+  const handleCapChange = useCallback((category: CategoryName, value: string) => {
+    setFormData((prev) => {
+      if (!prev.envelopes) return prev;
+      const caps = { ...prev.envelopes.caps };
+      if (value === "") delete caps[category];
+      else caps[category] = Math.max(0, Number(value));
+      return { ...prev, envelopes: { ...prev.envelopes, caps } };
+    });
+  }, []);
+
   const handleDuplicate = useCallback(() => {
     if (!existingPlan) return;
     setShowOverflowMenu(false);
@@ -306,79 +341,83 @@ export function PlanEditor() {
 
                 <button
                   onClick={handleSave}
-                  disabled={!isValid || isSaving}
+                  disabled={!isValid || isSaving || isReadOnly}
                   className={`px-4 py-2 rounded-lg font-semibold transition-colors ${
-                    isValid && !isSaving
+                    isValid && !isSaving && !isReadOnly
                       ? "bg-slate-900 hover:bg-slate-800 text-white"
                       : "bg-slate-300 text-slate-500 cursor-not-allowed"
                   }`}
-                  title={isValid ? "Save this plan" : "Complete all fields to save"}
+                  title={
+                    isReadOnly ? getRestrictedTitle() : isValid ? "Save this plan" : "Complete all fields to save"
+                  }
                 >
                   {isSaving ? "Saving..." : "Save Plan"}
                 </button>
 
                 {/* Overflow Menu */}
-                <div className="relative">
-                  <button
-                    onClick={() => setShowOverflowMenu(!showOverflowMenu)}
-                    className="p-2 rounded-lg hover:bg-slate-100 transition-colors"
-                    title="More options"
-                  >
-                    <svg className="h-5 w-5 text-slate-600" fill="currentColor" viewBox="0 0 20 20">
-                      <path d="M10.5 1.5H9.5V3.5H10.5V1.5ZM10.5 8.5H9.5V10.5H10.5V8.5ZM10.5 15.5H9.5V17.5H10.5V15.5Z" />
-                    </svg>
-                  </button>
-
-                  {showOverflowMenu && (
-                    <div className="absolute right-0 mt-2 w-56 rounded-lg border border-slate-200 bg-white shadow-lg z-50">
-                      {!isNew && existingPlan && !existingPlan.isActive && (
-                        <button
-                          onClick={() => {
-                            setActivePlan(existingPlan.id);
-                            setShowOverflowMenu(false);
-                            navigate("/plans");
-                          }}
-                          className="block w-full text-left px-4 py-2 text-sm text-slate-700 hover:bg-slate-50 first:rounded-t-lg border-b border-slate-200"
-                        >
-                          Activate This Plan Now
-                        </button>
-                      )}
+                {!isReadOnly && (
+                  <div className="relative">
+                    <button
+                      onClick={() => setShowOverflowMenu(!showOverflowMenu)}
+                      className="p-2 rounded-lg hover:bg-slate-100 transition-colors"
+                      title="More options"
+                    >
+                      <svg className="h-5 w-5 text-slate-600" fill="currentColor" viewBox="0 0 20 20">
+                        <path d="M10.5 1.5H9.5V3.5H10.5V1.5ZM10.5 8.5H9.5V10.5H10.5V8.5ZM10.5 15.5H9.5V17.5H10.5V15.5Z" />
+                      </svg>
+                    </button>
+
+                    {showOverflowMenu && (
+                      <div className="absolute right-0 mt-2 w-56 rounded-lg border border-slate-200 bg-white shadow-lg z-50">
+                        {!isNew && existingPlan && !existingPlan.isActive && (
+                          <button
+                            onClick={() => {
+                              setActivePlan(existingPlan.id);
+                              setShowOverflowMenu(false);
+                              navigate("/plans");
+                            }}
+                            className="block w-full text-left px-4 py-2 text-sm text-slate-700 hover:bg-slate-50 first:rounded-t-lg border-b border-slate-200"
+                          >
+                            Activate This Plan Now
+                          </button>
+                        )}
 
-                      {!isNew && (
-                        <button
-                          onClick={() => {
-                            handleDuplicate();
-                            setShowOverflowMenu(false);
-                          }}
-                          className="block w-full text-left px-4 py-2 text-sm text-slate-700 hover:bg-slate-50 border-b border-slate-200"
-                        >
-                          Duplicate Plan
-                        </button>
-                      )}
+                        {!isNew && (
+                          <button
+                            onClick={() => {
+                              handleDuplicate();
+                              setShowOverflowMenu(false);
+                            }}
+                            className="block w-full text-left px-4 py-2 text-sm text-slate-700 hover:bg-slate-50 border-b border-slate-200"
+                          >
+                            Duplicate Plan
+                          </button>
+                        )}
 
-                      {!isNew && (
-                        <button
-                          onClick={() => {
-                            if (existingPlan?.hasSnapshots) {
-                              alert("Cannot delete plan with locked period snapshots.");
-                              return;
-                            }
-                            setShowDeleteConfirm(true);
-                            setShowOverflowMenu(false);
-                          }}
-                          className={`block w-full text-left px-4 py-2 text-sm last:rounded-b-lg transition-colors ${
-                            existingPlan?.hasSnapshots
-                              ? "text-slate-400 cursor-not-allowed hover:bg-transparent"
-                              : "text-red-600 hover:bg-red-50"
-                          }`}
-                          title={existingPlan?.hasSnapshots ? "Cannot delete plan with locked period snapshots" : "Delete this plan"}
-                        >
-                          Delete Plan
-                        </button>
-                      )}
-                    </div>
-                  )}
-                </div>
+                        {!isNew && (
+                          <button
+                            onClick={() => {
+                              if (existingPlan?.hasSnapshots) {
+                                alert("Cannot delete plan with locked period snapshots.");
+                                return;
+                              }
+                              setShowDeleteConfirm(true);
+                              setShowOverflowMenu(false);
+                            }}
+                            className={`block w-full text-left px-4 py-2 text-sm last:rounded-b-lg transition-colors ${
+                              existingPlan?.hasSnapshots
+                                ? "text-slate-400 cursor-not-allowed hover:bg-transparent"
+                                : "text-red-600 hover:bg-red-50"
+                            }`}
+                            title={existingPlan?.hasSnapshots ? "Cannot delete plan with locked period snapshots" : "Delete this plan"}
+                          >
+                            Delete Plan
+                          </button>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                )}
               </div>
             </div>
           </div>
@@ -388,6 +427,9 @@ export function PlanEditor() {
       {/* Main Content */}
       <main className="flex-1 overflow-auto">
         <div className="p-6 max-w-7xl mx-auto">
+          <div className="mb-6 empty:hidden">
+            <RoleBanner />
+          </div>
           <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
             {/* Left Column: Plan Details */}
             <div className="lg:col-span-1">
@@ -430,7 +472,63 @@ export function PlanEditor() {
                   </select>
                 </div>
 
+                {/* Envelope Mode */}
+                <div>
+                  <label className="flex items-center gap-2 text-sm font-semibold text-slate-900">
+                    <input
+                      type="checkbox"
+                      checked={formData.envelopes !== null}
+                      onChange={(e) => handleToggleEnvelopes(e.target.checked)}
+                    />
+                    Envelope mode
+                  </label>
+                  <p className="text-xs text-slate-500 mt-1">
+                    Unspent planned money carries into next month&apos;s balance, and overspending is carried as a
+                    shortfall. Balances are frozen when a period is locked.
+                  </p>
+
+                  {formData.envelopes && (
+                    <div className="mt-3 space-y-3">
+                      <div>
+                        <label className="block text-xs font-medium text-slate-700 mb-1">Start month</label>
+                        <input
+                          type="month"
+                          value={formData.envelopes.startPeriod}
+                          onChange={(e) =>
+                            setFormData((prev) =>
+                              prev.envelopes && e.target.value
+                                ? { ...prev, envelopes: { ...prev.envelopes, startPeriod: e.target.value } }
+                                : prev
+                            )
+                          }
+                          className="w-full rounded-lg border border-slate-300 px-3 py-2 text-sm"
+                        />
+                      </div>
 
+                      {formData.targets.length > 0 && (
+                        <div>
+                          <p className="text-xs font-medium text-slate-700 mb-1">Carry-over caps (optional)</p>
+                          <div className="space-y-2">
+                            {formData.targets.map((t) => (
+                              <div key={t.category} className="flex items-center justify-between gap-2 text-sm">
+                                <span className="text-slate-700">{categoryLabel(categories, t.category)}</span>
+                                <input
+                                  type="number"
+                                  min={0}
+                                  step="0.01"
+                                  placeholder="No cap"
+                                  value={formData.envelopes?.caps?.[t.category] ?? ""}
+                                  onChange={(e) => handleCapChange(t.category, e.target.value)}
+                                  className="w-28 rounded-lg border border-slate-300 px-2 py-1 text-sm"
+                                />
+                              </div>
+                            ))}
+                          </div>
+                        </div>
+                      )}
+                    </div>
+                  )}
+                </div>
 
                 {/* Metadata */}
                 {existingPlan && (
@@ -478,7 +576,7 @@ export function PlanEditor() {
                 <h2 className="text-lg font-semibold text-slate-900 mb-4">Allocation Targets</h2>
 
                 <DistributionTargetsEditor
-                  allCategories={CATEGORIES}
+                  allCategories={topLevelOptions(categories).map((c) => c.id)}
                   value={formData.targets}
                   onChange={handleUpdateTargets}
                 />
@@ -3,12 +3,16 @@ import { useNavigate } from "react-router-dom";
 import { EmptyDistributionPlans } from "../../components/distribution/EmptyDistributionPlans";
 import { ActiveDistributionPlanCard } from "../../components/distribution/ActiveDistributionPlanCard";
 import { InactiveDistributionPlans } from "../../components/distribution/InactiveDistributionPlans";
+import { RoleBanner } from "../../components/common/RoleBanner";
+import { useHouseholdRole } from "../../state/useHouseholdRole";
+import { roleAllows } from "../../utils/roleGuard";
 
 export function Plans() {
   const plans = useDistributionPlans();
   const navigate = useNavigate();
   const activePlan = plans.find((p) => p.isActive);
   const inactivePlans = plans.filter((p) => !p.isActive);
+  const canEdit = roleAllows(useHouseholdRole(), "edit");
 
   return (
     <div className="space-y-8">
@@ -20,15 +24,19 @@ export function Plans() {
             Create and manage distribution plans that define how your income is allocated across spending categories.
           </p>
         </div>
-        <button
-          onClick={() => navigate("/plans/new")}
-          className="flex items-center gap-2 bg-slate-900 hover:bg-slate-800 text-white px-4 py-2 rounded-lg font-semibold transition-colors"
-        >
-          <span>+</span>
-          <span>New Plan</span>
-        </button>
+        {canEdit && (
+          <button
+            onClick={() => navigate("/plans/new")}
+            className="flex items-center gap-2 bg-slate-900 hover:bg-slate-800 text-white px-4 py-2 rounded-lg font-semibold transition-colors"
+          >
+            <span>+</span>
+            <span>New Plan</span>
+          </button>
+        )}
       </div>
 
+      <RoleBanner />
+
       {/* Active Plan Card */}
       {activePlan ? (
         <div>
@@ -7,6 +7,9 @@ import { filterIncomeByPeriod, sumIncome } from "../../utils/incomeMath";
 import { isPeriodLocked, subscribeLocks } from "../../state/periodLocksStore";
 import type { IncomeRecord, IncomeInput } from "../../types/income";
 import { LockBanner } from "../../components/common/LockBanner";
+import { RoleBanner } from "../../components/common/RoleBanner";
+import { useHouseholdRole } from "../../state/useHouseholdRole";
+import { roleAllows, getRestrictedTitle } from "../../utils/roleGuard";
 import { getEffectiveIncomeForPeriod, type EffectiveIncome } from "../../utils/incomeRecurrence";
 
 function todayISO() {
@@ -82,6 +85,7 @@ export function IncomeList() {
   // Edit state
   const [editingId, setEditingId] = useState<string | null>(null);
   const [editDraft, setEditDraft] = useState<Partial<IncomeInput>>({});
+  const isReadOnly = !roleAllows(useHouseholdRole(), "edit");
 
   // Error state
   const [error, setError] = useState<string | null>(null);
@@ -141,7 +145,7 @@ export function IncomeList() {
 
   function handleAdd() {
     if (!canAdd) return;
-    if (isAddDateLocked) return; // Safeguard: prevent adding if date's period is locked
+    if (isAddDateLocked || isReadOnly) return; // Safeguard: prevent adding if date's period is locked or read-only
 
     // Normalize date for monthly frequency
     let normalizedDate = date;
@@ -297,6 +301,7 @@ export function IncomeList() {
       )}
 
       <LockBanner period={selectedPeriodKey} locked={isLockedView} />
+      <RoleBanner />
 
       {/* Add Income Card */}
       <div className="rounded-lg border border-slate-200 bg-white p-6">
@@ -313,7 +318,7 @@ export function IncomeList() {
               className="mt-1 w-full rounded-md border border-slate-300 px-3 py-2 text-sm disabled:bg-slate-50 disabled:text-slate-500"
               value={date}
               onChange={(e) => setDate(e.target.value)}
-              disabled={isLockedView}
+              disabled={isLockedView || isReadOnly}
             />
           </div>
 
@@ -325,7 +330,7 @@ export function IncomeList() {
               className="mt-1 w-full rounded-md border border-slate-300 px-3 py-2 text-sm disabled:bg-slate-50 disabled:text-slate-500"
               value={name}
               onChange={(e) => setName(e.target.value)}
-              disabled={isLockedView}
+              disabled={isLockedView || isReadOnly}
             />
           </div>
 
@@ -338,7 +343,7 @@ export function IncomeList() {
               className="mt-1 w-full rounded-md border border-slate-300 px-3 py-2 text-sm disabled:bg-slate-50 disabled:text-slate-500"
               value={amount || ""}
               onChange={(e) => setAmount(Number(e.target.value))}
-              disabled={isLockedView}
+              disabled={isLockedView || isReadOnly}
             />
           </div>
 
@@ -349,7 +354,7 @@ export function IncomeList() {
               className="mt-1 w-full rounded-md border border-slate-300 px-3 py-2 text-sm disabled:bg-slate-50 disabled:text-slate-500"
               value={frequency}
               onChange={(e) => setFrequency(e.target.value as "oneTime" | "monthly" | "yearly")}
-              disabled={isLockedView}
+              disabled={isLockedView || isReadOnly}
             >
               <option value="oneTime">One-time</option>
               <option value="monthly">Monthly</option>
@@ -368,7 +373,7 @@ export function IncomeList() {
                   className="mt-1 w-full rounded-md border border-slate-300 px-3 py-2 text-sm disabled:bg-slate-50 disabled:text-slate-500"
                   value={monthlyPayRule}
                   onChange={(e) => setMonthlyPayRule(e.target.value as "dayOfMonth" | "endOfMonth")}
-                  disabled={isLockedView}
+                  disabled={isLockedView || isReadOnly}
                 >
                   <option value="dayOfMonth">Day of month</option>
                   <option value="endOfMonth">End of month</option>
@@ -385,7 +390,7 @@ export function IncomeList() {
                     className="mt-1 w-full rounded-md border border-slate-300 px-3 py-2 text-sm disabled:bg-slate-50 disabled:text-slate-500"
                     value={monthlyPayDay}
                     onChange={(e) => setMonthlyPayDay(Math.max(1, Math.min(31, Number(e.target.value))))}
-                    disabled={isLockedView}
+                    disabled={isLockedView || isReadOnly}
                   />
                 </div>
               )}
@@ -398,7 +403,7 @@ export function IncomeList() {
               className="mt-1 w-full rounded-md border border-slate-300 px-3 py-2 text-sm disabled:bg-slate-50 disabled:text-slate-500"
               value={currency}
               onChange={(e) => setCurrency(e.target.value)}
-              disabled={isLockedView}
+              disabled={isLockedView || isReadOnly}
             >
               <option value="SGD">SGD</option>
               <option value="USD">USD</option>
@@ -419,7 +424,7 @@ export function IncomeList() {
               className="mt-1 w-full rounded-md border border-slate-300 px-3 py-2 text-sm disabled:bg-slate-50 disabled:text-slate-500"
               value={status}
               onChange={(e) => setStatus(e.target.value as "active" | "paused")}
-              disabled={isLockedView}
+              disabled={isLockedView || isReadOnly}
             >
               <option value="active">Active</option>
               <option value="paused">Paused</option>
@@ -434,7 +439,7 @@ export function IncomeList() {
               className="mt-1 w-full rounded-md border border-slate-300 px-3 py-2 text-sm disabled:bg-slate-50 disabled:text-slate-500"
               value={note}
               onChange={(e) => setNote(e.target.value)}
-              disabled={isLockedView}
+              disabled={isLockedView || isReadOnly}
             />
           </div>
 
@@ -442,7 +447,7 @@ export function IncomeList() {
             <button
               className="rounded-lg bg-emerald-600 px-4 py-2 text-sm font-medium text-white hover:bg-emerald-700 disabled:opacity-50 disabled:cursor-not-allowed"
               onClick={handleAdd}
-              disabled={!canAdd || isLockedView || isAddDateLocked}
+              disabled={!canAdd || isLockedView || isAddDateLocked || isReadOnly}
             >
               Add
             </button>
@@ -681,16 +686,28 @@ export function IncomeList() {
                         <button
                           className="rounded border border-slate-300 bg-white px-3 py-1 text-xs font-medium text-slate-700 hover:bg-slate-50 disabled:opacity-50 disabled:cursor-not-allowed"
                           onClick={() => handleStartEdit(record as EffectiveIncome)}
-                          disabled={isRowLocked(record) || (record as EffectiveIncome).isVirtual}
-                          title={(record as EffectiveIncome).isVirtual ? "Cannot edit recurring instances" : undefined}
+                          disabled={isRowLocked(record) || (record as EffectiveIncome).isVirtual || isReadOnly}
+                          title={
+                            (record as EffectiveIncome).isVirtual
+                              ? "Cannot edit recurring instances"
+                              : isReadOnly
+                                ? getRestrictedTitle()
+                                : undefined
+                          }
                         >
                           Edit
                         </button>
                         <button
                           className="rounded border border-red-300 bg-red-50 px-3 py-1 text-xs font-medium text-red-700 hover:bg-red-100 disabled:opacity-50 disabled:cursor-not-allowed"
                           onClick={() => handleDelete(record.id)}
-                          disabled={isRowLocked(record) || (record as EffectiveIncome).isVirtual}
-                          title={(record as EffectiveIncome).isVirtual ? "Cannot delete recurring instances" : undefined}
+                          disabled={isRowLocked(record) || (record as EffectiveIncome).isVirtual || isReadOnly}
+                          title={
+                            (record as EffectiveIncome).isVirtual
+                              ? "Cannot delete recurring instances"
+                              : isReadOnly
+                                ? getRestrictedTitle()
+                                : undefined
+                          }
                         >
                           Delete
                         </button>
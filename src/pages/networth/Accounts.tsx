@@ -0,0 +1,825 @@
+/**
+ * Accounts Page
+ * Bank, card and cash accounts with their balances, registers and statement
+ * reconciliations, and transfers between them. Transfers move money between
+ * accounts without counting as income or spending.
+ */
+
+import { useMemo, useState } from "react";
+import type { Account, CardStatement, Reconciliation } from "../../types/accounts";
+import type { MoneyTransaction } from "../../types/transactions";
+import { ACCOUNT_TYPES, ACCOUNT_TYPE_LABELS, type AccountType } from "../../constants/accounts";
+import { useAccounts } from "../../state/useAccounts";
+import { useTransactions } from "../../state/useTransactions";
+import { useReconciliations } from "../../state/useReconciliations";
+import { useCategories } from "../../state/useCategories";
+import { useHouseholdRole } from "../../state/useHouseholdRole";
+import { addAccount, updateAccount, setAccountArchived } from "../../state/accountsStore";
+import { addTransfer, updateTransfer, deleteTransaction } from "../../state/transactionsStore";
+import { reconcileAccount, undoReconciliation } from "../../state/reconciliationsStore";
+import { getSelectedHousehold } from "../../state/householdStore";
+import { accountBalance, reconciledBalance, runningBalances, signedAmount } from "../../utils/accountMath";
+import { transactionCategoryLabel } from "../../utils/categoryTree";
+import { cardStatements } from "../../utils/cardCycles";
+import { roleAllows, getRestrictedTitle } from "../../utils/roleGuard";
+import { RoleBanner } from "../../components/common/RoleBanner";
+
+type Result = { ok: true } | { ok: false; reason: string };
+
+function formatMoney(amount: number, currency = "SGD") {
+  try {
+    return new Intl.NumberFormat(undefined, { style: "currency", currency }).format(amount);
+  } catch {
+    return `${currency} ${amount.toFixed(2)}`;
+  }
+}
+
+function todayISO() {
+  const d = new Date();
+  const yyyy = d.getFullYear();
+  const mm = String(d.getMonth() + 1).padStart(2, "0");
+  const dd = String(d.getDate()).padStart(2, "0");
+  return `${yyyy}-${mm}-${dd}`;
+}
+
+interface TransferRow {
+  transferId: string;
+  date: string;
+  fromAccountId: string;
+  toAccountId: string;
+  amount: number;
+  currency: string;
+  note?: string;
+  /** Either leg; deleting it deletes the transfer */
+  legId: string;
+}
+
+const STATEMENT_STATUS_STYLES: Record<CardStatement["status"], { label: string; className: string }> = {
+  open: { label: "Open", className: "bg-slate-100 text-slate-700" },
+  paid: { label: "Paid", className: "bg-emerald-100 text-emerald-800" },
+  due: { label: "Due", className: "bg-amber-100 text-amber-800" },
+  overdue: { label: "Overdue", className: "bg-red-100 text-red-800" },
+};
+
+interface AccountDetailProps {
+  account: Account;
+  /** Every account, so card payments are matched to one card only */
+  accounts: Account[];
+  transactions: MoneyTransaction[];
+  reconciliations: Reconciliation[];
+  accountNames: Map<string, string>;
+  isReadOnly: boolean;
+  report: (result: Result) => boolean;
+}
+
+/**
+ * Register with running balance, statement reconciliation and past
+ * reconciliations for one account
+ */
+function AccountDetail({
+  account,
+  accounts,
+  transactions,
+  reconciliations,
+  accountNames,
+  isReadOnly,
+  report,
+}: AccountDetailProps) {
+  const categories = useCategories();
+  const [isReconciling, setIsReconciling] = useState(false);
+  const [statementDate, setStatementDate] = useState(todayISO());
+  const [closingBalance, setClosingBalance] = useState("");
+  const [ticked, setTicked] = useState<Set<string>>(new Set());
+
+  const register = useMemo(() => runningBalances(account, transactions).reverse(), [account, transactions]);
+  const statements = useMemo(
+    () => cardStatements(account, transactions, todayISO(), accounts).slice(-12).reverse(),
+    [account, accounts, transactions]
+  );
+  const startingBalance = reconciledBalance(account, transactions);
+  const candidates = register.filter(({ transaction: t }) => !t.reconciliationId && t.date <= statementDate);
+  const cleared = candidates
+    .filter(({ transaction: t }) => ticked.has(t.id))
+    .reduce((sum, { transaction: t }) => sum + signedAmount(t), startingBalance);
+  const difference = Math.round((Number(closingBalance) - cleared) * 100) / 100;
+  const latestId = reconciliations[0]?.id;
+
+  function describe(t: MoneyTransaction) {
+    if (!t.transferId) return transactionCategoryLabel(categories, t);
+    const other = transactions.find((leg) => leg.transferId === t.transferId && leg.id !== t.id);
+    const otherName = accountNames.get(other?.accountId ?? "") ?? "an unknown account";
+    return t.direction === "out" ? `Transfer to ${otherName}` : `Transfer from ${otherName}`;
+  }
+
+  function toggle(id: string) {
+    setTicked((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  }
+
+  function handleFinish() {
+    const result = reconcileAccount({
+      accountId: account.id,
+      statementDate,
+      closingBalance: Number(closingBalance),
+      transactionIds: candidates.filter(({ transaction: t }) => ticked.has(t.id)).map(({ transaction: t }) => t.id),
+    });
+    if (report(result)) {
+      setIsReconciling(false);
+      setClosingBalance("");
+      setTicked(new Set());
+    }
+  }
+
+  function handleUndo(reconciliation: Reconciliation) {
+    const message = `Undo the ${reconciliation.statementDate} reconciliation? Its transactions can be edited again.`;
+    if (!window.confirm(message)) return;
+    report(undoReconciliation(reconciliation.id));
+  }
+
+  return (
+    <div className="space-y-4 bg-slate-50 px-4 py-3 text-sm">
+      {isReconciling ? (
+        <div className="rounded-lg border border-slate-200 bg-white p-4">
+          <div className="flex flex-wrap items-end gap-3">
+            <label className="text-xs text-slate-600">
+              Statement date
+              <input
+                type="date"
+                className="mt-1 block rounded-lg border border-slate-300 px-3 py-1 text-sm"
+                value={statementDate}
+                onChange={(e) => setStatementDate(e.target.value)}
+              />
+            </label>
+            <label className="text-xs text-slate-600">
+              Closing balance
+              <input
+                type="number"
+                step="0.01"
+                className="mt-1 block w-36 rounded-lg border border-slate-300 px-3 py-1 text-sm"
+                placeholder={account.type === "creditCard" ? "Negative if owed" : undefined}
+                value={closingBalance}
+                onChange={(e) => setClosingBalance(e.target.value)}
+              />
+            </label>
+            <div className="text-xs text-slate-600">
+              Cleared balance
+              <div className="mt-1 text-sm font-medium text-slate-900">{formatMoney(cleared, account.currency)}</div>
+            </div>
+            <div className="text-xs text-slate-600">
+              Difference
+              <div className={`mt-1 text-sm font-medium ${difference === 0 ? "text-emerald-700" : "text-amber-700"}`}>
+                {closingBalance === "" ? "—" : formatMoney(difference, account.currency)}
+              </div>
+            </div>
+            <div className="ml-auto flex gap-2">
+              <button
+                className="rounded-lg bg-slate-900 px-3 py-1 text-sm font-medium text-white disabled:bg-slate-200 disabled:text-slate-500"
+                onClick={handleFinish}
+                disabled={closingBalance === "" || difference !== 0}
+                title={difference !== 0 ? "Tick cleared transactions until the difference is zero" : undefined}
+              >
+                Finish reconciliation
+              </button>
+              <button className="text-sm text-slate-600 underline" onClick={() => setIsReconciling(false)}>
+                Cancel
+              </button>
+            </div>
+          </div>
+          <p className="mt-2 text-xs text-slate-500">
+            Tick the transactions that appear on the statement. Reconciled transactions are protected from edits and
+            deletion until the reconciliation is undone.
+          </p>
+
+          <div className="mt-3 space-y-1">
+            {candidates.map(({ transaction: t }) => (
+              <label key={t.id} className="flex items-center gap-3">
+                <input type="checkbox" checked={ticked.has(t.id)} onChange={() => toggle(t.id)} />
+                <span className="w-24 text-slate-600">{t.date}</span>
+                <span className="flex-1">
+                  {describe(t)}
+                  {t.note && <span className="ml-2 text-xs text-slate-500">{t.note}</span>}
+                </span>
+                <span className={`w-28 text-right ${t.direction === "in" ? "text-emerald-700" : ""}`}>
+                  {formatMoney(signedAmount(t), account.currency)}
+                </span>
+              </label>
+            ))}
+            {candidates.length === 0 && (
+              <div className="text-slate-600">No unreconciled transactions on or before {statementDate}.</div>
+            )}
+          </div>
+        </div>
+      ) : (
+        !isReadOnly && (
+          <button
+            className="rounded-lg border border-slate-300 bg-white px-3 py-1 text-sm hover:bg-slate-50"
+            onClick={() => setIsReconciling(true)}
+          >
+            Reconcile statement
+          </button>
+        )
+      )}
+
+      {statements.length > 0 && (
+        <div>
+          <div className="text-xs font-semibold uppercase tracking-wide text-slate-600">Statements</div>
+          {statements.map((st) => (
+            <div key={st.closingDate} className="mt-1 grid grid-cols-12 items-center gap-2">
+              <span className="col-span-3 text-slate-600">
+                {st.periodStart} – {st.closingDate}
+              </span>
+              <span className="col-span-2 text-right">{formatMoney(st.charges, account.currency)} spent</span>
+              <span className="col-span-2 text-right font-medium">{formatMoney(st.balance, account.currency)} owed</span>
+              <span className="col-span-2 text-right text-slate-600">Due {st.dueDate}</span>
+              <span className="col-span-2 text-right text-slate-600">
+                {st.paid > 0 ? `${formatMoney(st.paid, account.currency)} paid` : ""}
+              </span>
+              <span className="col-span-1 text-right">
+                <span className={`rounded px-1.5 py-0.5 text-xs ${STATEMENT_STATUS_STYLES[st.status].className}`}>
+                  {STATEMENT_STATUS_STYLES[st.status].label}
+                </span>
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div>
+        <div className="text-xs font-semibold uppercase tracking-wide text-slate-600">Register</div>
+        {register.length === 0 && <div className="mt-1 text-slate-600">No transactions in this account yet.</div>}
+        {register.map(({ transaction: t, balance }) => (
+          <div key={t.id} className="mt-1 grid grid-cols-12 items-center gap-2">
+            <span className="col-span-2 text-slate-600">{t.date}</span>
+            <span className="col-span-5">
+              {describe(t)}
+              {t.note && <span className="ml-2 text-xs text-slate-500">{t.note}</span>}
+            </span>
+            <span className={`col-span-2 text-right ${t.direction === "in" ? "text-emerald-700" : ""}`}>
+              {formatMoney(signedAmount(t), account.currency)}
+            </span>
+            <span className={`col-span-2 text-right font-medium ${balance < 0 ? "text-red-700" : ""}`}>
+              {formatMoney(balance, account.currency)}
+            </span>
+            <span
+              className="col-span-1 text-right text-xs text-emerald-700"
+              title={t.reconciliationId ? "Reconciled" : undefined}
+            >
+              {t.reconciliationId ? "✓" : ""}
+            </span>
+          </div>
+        ))}
+        <div className="mt-1 grid grid-cols-12 gap-2 text-slate-500">
+          <span className="col-span-2">{account.openingDate}</span>
+          <span className="col-span-7">Opening balance</span>
+          <span className="col-span-2 text-right">{formatMoney(account.openingBalance, account.currency)}</span>
+        </div>
+      </div>
+
+      {reconciliations.length > 0 && (
+        <div>
+          <div className="text-xs font-semibold uppercase tracking-wide text-slate-600">Reconciliations</div>
+          {reconciliations.map((r) => (
+            <div key={r.id} className="mt-1 flex items-center justify-between gap-4">
+              <span className="text-slate-600">
+                Statement {r.statementDate} · closing {formatMoney(r.closingBalance, account.currency)} ·{" "}
+                {r.transactionIds.length} transaction(s) cleared
+              </span>
+              {!isReadOnly && r.id === latestId && (
+                <button className="text-xs text-red-700 underline" onClick={() => handleUndo(r)}>
+                  Undo
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function Accounts() {
+  const accounts = useAccounts();
+  const transactions = useTransactions();
+  const reconciliations = useReconciliations();
+  const isReadOnly = !roleAllows(useHouseholdRole(), "edit");
+  const baseCurrency = getSelectedHousehold()?.base_currency ?? "SGD";
+
+  const [name, setName] = useState("");
+  const [type, setType] = useState<AccountType>("current");
+  const [currency, setCurrency] = useState(baseCurrency);
+  const [openingBalance, setOpeningBalance] = useState("");
+  const [openingDate, setOpeningDate] = useState(todayISO());
+  const [statementDay, setStatementDay] = useState("");
+  const [dueDay, setDueDay] = useState("");
+
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editName, setEditName] = useState("");
+  const [editType, setEditType] = useState<AccountType>("current");
+  const [editStatementDay, setEditStatementDay] = useState("");
+  const [editDueDay, setEditDueDay] = useState("");
+
+  const [editingTransferId, setEditingTransferId] = useState<string | null>(null);
+  const [transferDate, setTransferDate] = useState(todayISO());
+  const [fromAccountId, setFromAccountId] = useState("");
+  const [toAccountId, setToAccountId] = useState("");
+  const [transferAmount, setTransferAmount] = useState("");
+  const [transferNote, setTransferNote] = useState("");
+
+  const [error, setError] = useState<string | null>(null);
+
+  const accountNames = useMemo(() => new Map(accounts.map((a) => [a.id, a.name])), [accounts]);
+  const openAccounts = accounts.filter((a) => !a.archived);
+
+  // Pair each transfer's legs into one row, newest first
+  const transfers = useMemo(() => {
+    const byId = new Map<string, TransferRow>();
+    for (const t of transactions) {
+      if (!t.transferId) continue;
+      const row = byId.get(t.transferId) ?? {
+        transferId: t.transferId,
+        date: t.date,
+        fromAccountId: "",
+        toAccountId: "",
+        amount: t.amount,
+        currency: t.currency ?? baseCurrency,
+        note: t.note,
+        legId: t.id,
+      };
+      if (t.direction === "out") row.fromAccountId = t.accountId ?? "";
+      else row.toAccountId = t.accountId ?? "";
+      byId.set(t.transferId, row);
+    }
+    return [...byId.values()].sort((a, b) => b.date.localeCompare(a.date));
+  }, [transactions, baseCurrency]);
+
+  function report(result: Result): boolean {
+    setError(result.ok ? null : result.reason);
+    return result.ok;
+  }
+
+  function handleAddAccount() {
+    const result = addAccount({
+      name,
+      type,
+      currency,
+      openingBalance: Number(openingBalance || 0),
+      openingDate,
+      statementDay: statementDay ? Number(statementDay) : undefined,
+      dueDay: dueDay ? Number(dueDay) : undefined,
+    });
+    if (report(result)) {
+      setName("");
+      setOpeningBalance("");
+      setStatementDay("");
+      setDueDay("");
+    }
+  }
+
+  function handleStartEdit(account: Account) {
+    setEditingId(account.id);
+    setEditName(account.name);
+    setEditType(account.type);
+    setEditStatementDay(account.statementDay !== undefined ? String(account.statementDay) : "");
+    setEditDueDay(account.dueDay !== undefined ? String(account.dueDay) : "");
+    setError(null);
+  }
+
+  function handleSaveEdit(id: string) {
+    const result = updateAccount(id, {
+      name: editName,
+      type: editType,
+      statementDay: editStatementDay ? Number(editStatementDay) : undefined,
+      dueDay: editDueDay ? Number(editDueDay) : undefined,
+    });
+    if (report(result)) {
+      setEditingId(null);
+    }
+  }
+
+  function resetTransferForm() {
+    setEditingTransferId(null);
+    setTransferAmount("");
+    setTransferNote("");
+  }
+
+  function handleStartEditTransfer(row: TransferRow) {
+    setEditingTransferId(row.transferId);
+    setTransferDate(row.date);
+    setFromAccountId(row.fromAccountId);
+    setToAccountId(row.toAccountId);
+    setTransferAmount(String(row.amount));
+    setTransferNote(row.note ?? "");
+    setError(null);
+  }
+
+  function handleSaveTransfer() {
+    const input = {
+      date: transferDate,
+      fromAccountId,
+      toAccountId,
+      amount: Number(transferAmount),
+      note: transferNote,
+    };
+    const result = editingTransferId ? updateTransfer(editingTransferId, input) : addTransfer(input);
+    if (report(result)) resetTransferForm();
+  }
+
+  function handleDeleteTransfer(row: TransferRow) {
+    if (!window.confirm("Delete this transfer? Both sides will be removed.")) return;
+    if (report(deleteTransaction(row.legId)) && editingTransferId === row.transferId) {
+      resetTransferForm();
+    }
+  }
+
+  const canSaveTransfer = !isReadOnly && fromAccountId && toAccountId && Number(transferAmount) > 0;
+
+  return (
+    <div className="space-y-6">
+      <h1 className="text-3xl font-bold">Accounts</h1>
+
+      <RoleBanner />
+
+      {error && (
+        <div className="rounded-lg border border-red-300 bg-red-50 p-4 text-sm text-red-900">
+          <div className="font-semibold">Error</div>
+          <div className="mt-1">{error}</div>
+        </div>
+      )}
+
+      <div className="rounded-lg border border-slate-200 bg-white p-6">
+        <h2 className="text-lg font-semibold">Add account</h2>
+        <p className="mt-1 text-sm text-slate-600">
+          Balances start from the opening balance on the opening date and follow the transactions and transfers in
+          the account. Savings, current and cash accounts count as assets in net worth; credit cards as liabilities.
+        </p>
+
+        <div className="mt-4 grid gap-3 md:grid-cols-12">
+          <div className="md:col-span-4">
+            <label className="text-sm text-slate-600">Name</label>
+            <input
+              className="mt-1 w-full rounded-md border border-slate-300 px-3 py-2 text-sm"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. DBS Multiplier"
+              disabled={isReadOnly}
+            />
+          </div>
+          <div className="md:col-span-2">
+            <label className="text-sm text-slate-600">Type</label>
+            <select
+              className="mt-1 w-full rounded-md border border-slate-300 px-3 py-2 text-sm"
+              value={type}
+              onChange={(e) => setType(e.target.value as AccountType)}
+              disabled={isReadOnly}
+            >
+              {ACCOUNT_TYPES.map((t) => (
+                <option key={t} value={t}>
+                  {ACCOUNT_TYPE_LABELS[t]}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="md:col-span-1">
+            <label className="text-sm text-slate-600">Currency</label>
+            <input
+              className="mt-1 w-full rounded-md border border-slate-300 px-3 py-2 text-sm uppercase"
+              value={currency}
+              maxLength={3}
+              onChange={(e) => setCurrency(e.target.value.toUpperCase())}
+              disabled={isReadOnly}
+            />
+          </div>
+          <div className="md:col-span-2">
+            <label className="text-sm text-slate-600">Opening balance</label>
+            <input
+              type="number"
+              step="0.01"
+              className="mt-1 w-full rounded-md border border-slate-300 px-3 py-2 text-sm"
+              value={openingBalance}
+              onChange={(e) => setOpeningBalance(e.target.value)}
+              placeholder="Negative if owed"
+              disabled={isReadOnly}
+            />
+          </div>
+          <div className="md:col-span-3">
+            <label className="text-sm text-slate-600">Opening date</label>
+            <input
+              type="date"
+              className="mt-1 w-full rounded-md border border-slate-300 px-3 py-2 text-sm"
+              value={openingDate}
+              onChange={(e) => setOpeningDate(e.target.value)}
+              disabled={isReadOnly}
+            />
+          </div>
+          {type === "creditCard" && (
+            <>
+              <div className="md:col-span-3">
+                <label className="text-sm text-slate-600">Statement closes on day</label>
+                <input
+                  type="number"
+                  min={1}
+                  max={31}
+                  className="mt-1 w-full rounded-md border border-slate-300 px-3 py-2 text-sm"
+                  value={statementDay}
+                  onChange={(e) => setStatementDay(e.target.value)}
+                  placeholder="e.g. 25"
+                  disabled={isReadOnly}
+                />
+              </div>
+              <div className="md:col-span-3">
+                <label className="text-sm text-slate-600">Payment due on day</label>
+                <input
+                  type="number"
+                  min={1}
+                  max={31}
+                  className="mt-1 w-full rounded-md border border-slate-300 px-3 py-2 text-sm"
+                  value={dueDay}
+                  onChange={(e) => setDueDay(e.target.value)}
+                  placeholder="e.g. 15"
+                  disabled={isReadOnly}
+                />
+              </div>
+              <p className="self-end text-xs text-slate-500 md:col-span-6">
+                Optional. With both days set, the card&apos;s spending is grouped into statements with a balance and
+                due date, and the payment is tracked.
+              </p>
+            </>
+          )}
+        </div>
+
+        <button
+          className={`mt-4 rounded-lg px-4 py-2 text-sm font-medium ${
+            name.trim() && !isReadOnly
+              ? "bg-slate-900 text-white"
+              : "bg-slate-200 text-slate-500 cursor-not-allowed opacity-50"
+          }`}
+          onClick={handleAddAccount}
+          disabled={!name.trim() || isReadOnly}
+          title={isReadOnly ? getRestrictedTitle() : undefined}
+        >
+          Add account
+        </button>
+      </div>
+
+      <div className="rounded-lg border border-slate-200 bg-white p-6">
+        <h2 className="text-lg font-semibold">All accounts</h2>
+        <p className="mt-1 text-sm text-slate-600">
+          Archived accounts are hidden from the transfer form but keep their transfers and still count in net worth.
+        </p>
+
+        <div className="mt-4 overflow-hidden rounded-lg border border-slate-200">
+          <div className="grid grid-cols-12 gap-2 bg-slate-50 px-4 py-2 text-xs font-semibold uppercase tracking-wide text-slate-600">
+            <div className="col-span-4">Account</div>
+            <div className="col-span-2">Type</div>
+            <div className="col-span-3 text-right">Balance</div>
+            <div className="col-span-3 text-right">Actions</div>
+          </div>
+
+          {accounts.map((account) => {
+            const balance = accountBalance(account, transactions);
+            const isEditing = editingId === account.id;
+            return (
+              <div key={account.id} className="border-t border-slate-100">
+                <div
+                  className={`grid grid-cols-12 items-center gap-2 px-4 py-2 text-sm ${
+                    account.archived ? "bg-slate-50 text-slate-500" : ""
+                  }`}
+                >
+                  <div className="col-span-4">
+                    {isEditing ? (
+                      <input
+                        className="w-full rounded border border-slate-300 px-2 py-1 text-sm"
+                        value={editName}
+                        onChange={(e) => setEditName(e.target.value)}
+                        autoFocus
+                      />
+                    ) : (
+                      <>
+                        <span className="font-medium">{account.name}</span>
+                        {account.archived && <span className="ml-2 text-xs text-amber-700">(archived)</span>}
+                        <div className="text-xs text-slate-500">
+                          Opened {account.openingDate} with {formatMoney(account.openingBalance, account.currency)}
+                        </div>
+                      </>
+                    )}
+                  </div>
+                  <div className="col-span-2">
+                    {isEditing ? (
+                      <select
+                        className="w-full rounded border border-slate-300 px-2 py-1 text-sm"
+                        value={editType}
+                        onChange={(e) => setEditType(e.target.value as AccountType)}
+                      >
+                        {ACCOUNT_TYPES.map((t) => (
+                          <option key={t} value={t}>
+                            {ACCOUNT_TYPE_LABELS[t]}
+                          </option>
+                        ))}
+                      </select>
+                    ) : (
+                      ACCOUNT_TYPE_LABELS[account.type]
+                    )}
+                    {isEditing && editType === "creditCard" && (
+                      <div className="mt-1 flex gap-1">
+                        <input
+                          type="number"
+                          min={1}
+                          max={31}
+                          className="w-1/2 rounded border border-slate-300 px-2 py-1 text-xs"
+                          placeholder="Closes"
+                          title="Statement closing day"
+                          value={editStatementDay}
+                          onChange={(e) => setEditStatementDay(e.target.value)}
+                        />
+                        <input
+                          type="number"
+                          min={1}
+                          max={31}
+                          className="w-1/2 rounded border border-slate-300 px-2 py-1 text-xs"
+                          placeholder="Due"
+                          title="Payment due day"
+                          value={editDueDay}
+                          onChange={(e) => setEditDueDay(e.target.value)}
+                        />
+                      </div>
+                    )}
+                    {!isEditing && account.statementDay !== undefined && (
+                      <div className="text-xs text-slate-500">
+                        Closes day {account.statementDay} · due day {account.dueDay}
+                      </div>
+                    )}
+                  </div>
+                  <div className={`col-span-3 text-right font-medium ${balance < 0 ? "text-red-700" : ""}`}>
+                    {formatMoney(balance, account.currency)}
+                  </div>
+                  <div className="col-span-3 flex justify-end gap-3">
+                    {isEditing ? (
+                      <>
+                        <button className="text-sm text-emerald-700 underline" onClick={() => handleSaveEdit(account.id)}>
+                          Save
+                        </button>
+                        <button className="text-sm text-slate-600 underline" onClick={() => setEditingId(null)}>
+                          Cancel
+                        </button>
+                      </>
+                    ) : (
+                      <>
+                        <button
+                          className="text-sm text-slate-700 underline"
+                          onClick={() => setExpandedId(expandedId === account.id ? null : account.id)}
+                        >
+                          {expandedId === account.id ? "Hide register" : "Register"}
+                        </button>
+                        {!isReadOnly && (
+                          <>
+                            <button className="text-sm text-slate-700 underline" onClick={() => handleStartEdit(account)}>
+                              Edit
+                            </button>
+                            <button
+                              className="text-sm text-slate-700 underline"
+                              onClick={() => report(setAccountArchived(account.id, !account.archived))}
+                            >
+                              {account.archived ? "Restore" : "Archive"}
+                            </button>
+                          </>
+                        )}
+                      </>
+                    )}
+                  </div>
+                </div>
+
+                {expandedId === account.id && (
+                  <AccountDetail
+                    account={account}
+                    accounts={accounts}
+                    transactions={transactions}
+                    reconciliations={reconciliations.filter((r) => r.accountId === account.id)}
+                    accountNames={accountNames}
+                    isReadOnly={isReadOnly}
+                    report={report}
+                  />
+                )}
+              </div>
+            );
+          })}
+
+          {accounts.length === 0 && <div className="px-4 py-6 text-sm text-slate-600">No accounts yet.</div>}
+        </div>
+      </div>
+
+      <div className="rounded-lg border border-slate-200 bg-white p-6">
+        <h2 className="text-lg font-semibold">{editingTransferId ? "Edit transfer" : "Transfer money"}</h2>
+        <p className="mt-1 text-sm text-slate-600">
+          Moving money between your own accounts, or paying off a card from a bank account, is not income or
+          spending: transfers are left out of cash flow and plan actuals.
+        </p>
+
+        <div className="mt-4 flex flex-wrap items-end gap-2">
+          <input
+            type="date"
+            className="rounded-lg border border-slate-300 px-3 py-2 text-sm"
+            value={transferDate}
+            onChange={(e) => setTransferDate(e.target.value)}
+            disabled={isReadOnly}
+          />
+          <select
+            className="rounded-lg border border-slate-300 px-3 py-2 text-sm"
+            value={fromAccountId}
+            onChange={(e) => setFromAccountId(e.target.value)}
+            disabled={isReadOnly}
+          >
+            <option value="">From account…</option>
+            {openAccounts.map((a) => (
+              <option key={a.id} value={a.id}>
+                {a.name} ({a.currency})
+              </option>
+            ))}
+          </select>
+          <select
+            className="rounded-lg border border-slate-300 px-3 py-2 text-sm"
+            value={toAccountId}
+            onChange={(e) => setToAccountId(e.target.value)}
+            disabled={isReadOnly}
+          >
+            <option value="">To account…</option>
+            {openAccounts.map((a) => (
+              <option key={a.id} value={a.id}>
+                {a.name} ({a.currency})
+              </option>
+            ))}
+          </select>
+          <input
+            type="number"
+            min={0}
+            step="0.01"
+            className="w-32 rounded-lg border border-slate-300 px-3 py-2 text-sm"
+            placeholder="Amount"
+            value={transferAmount}
+            onChange={(e) => setTransferAmount(e.target.value)}
+            disabled={isReadOnly}
+          />
+          <input
+            className="w-56 rounded-lg border border-slate-300 px-3 py-2 text-sm"
+            placeholder="Note (optional)"
+            value={transferNote}
+            onChange={(e) => setTransferNote(e.target.value)}
+            disabled={isReadOnly}
+          />
+          <button
+            className="rounded-lg bg-slate-900 px-4 py-2 text-sm font-medium text-white disabled:bg-slate-200 disabled:text-slate-500"
+            onClick={handleSaveTransfer}
+            disabled={!canSaveTransfer}
+            title={isReadOnly ? getRestrictedTitle() : undefined}
+          >
+            {editingTransferId ? "Save transfer" : "Record transfer"}
+          </button>
+          {editingTransferId && (
+            <button className="text-sm text-slate-600 underline" onClick={resetTransferForm}>
+              Cancel
+            </button>
+          )}
+        </div>
+
+        <div className="mt-6 overflow-hidden rounded-lg border border-slate-200">
+          <div className="grid grid-cols-12 gap-2 bg-slate-50 px-4 py-2 text-xs font-semibold uppercase tracking-wide text-slate-600">
+            <div className="col-span-2">Date</div>
+            <div className="col-span-5">From → To</div>
+            <div className="col-span-2 text-right">Amount</div>
+            <div className="col-span-3 text-right">Actions</div>
+          </div>
+
+          {transfers.map((row) => (
+            <div key={row.transferId} className="grid grid-cols-12 items-center gap-2 border-t border-slate-100 px-4 py-2 text-sm">
+              <div className="col-span-2">{row.date}</div>
+              <div className="col-span-5">
+                {accountNames.get(row.fromAccountId) ?? "Unknown account"} →{" "}
+                {accountNames.get(row.toAccountId) ?? "Unknown account"}
+                {row.note && <div className="text-xs text-slate-500">{row.note}</div>}
+              </div>
+              <div className="col-span-2 text-right font-medium">{formatMoney(row.amount, row.currency)}</div>
+              <div className="col-span-3 flex justify-end gap-3">
+                {!isReadOnly && (
+                  <>
+                    <button className="text-sm text-slate-700 underline" onClick={() => handleStartEditTransfer(row)}>
+                      Edit
+                    </button>
+                    <button className="text-sm text-red-700 underline" onClick={() => handleDeleteTransfer(row)}>
+                      Delete
+                    </button>
+                  </>
+                )}
+              </div>
+            </div>
+          ))}
+
+          {transfers.length === 0 && <div className="px-4 py-6 text-sm text-slate-600">No transfers yet.</div>}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,576 @@
+/**
+ * Investments Page
+ * Investment accounts, holdings with cost lots and sales, and security prices
+ */
+
+import { useMemo, useState } from "react";
+import type { Holding, InvestmentAccount, SecurityPrice } from "../../types/investments";
+import { useInvestments } from "../../state/useInvestments";
+import { useSecurityPrices } from "../../state/useSecurityPrices";
+import { useFxRates } from "../../state/useFxRates";
+import { useHouseholdRole } from "../../state/useHouseholdRole";
+import {
+  addInvestmentAccount,
+  deleteInvestmentAccount,
+  addHolding,
+  deleteHolding,
+  addLot,
+  deleteLot,
+  addSale,
+  deleteSale,
+} from "../../state/investmentsStore";
+import { addSecurityPrice, deleteSecurityPrice, importSecurityPricesCsv } from "../../state/securityPricesStore";
+import { getSelectedHousehold } from "../../state/householdStore";
+import { holdingPosition, investmentAccountsAsAssets, investmentTotals } from "../../utils/investmentMath";
+import { createFxConverter } from "../../utils/fxMath";
+import { totalValue } from "../../utils/netWorthMath";
+import { roleAllows, getRestrictedTitle } from "../../utils/roleGuard";
+import { RoleBanner } from "../../components/common/RoleBanner";
+
+type Result = { ok: true } | { ok: false; reason: string };
+
+function formatMoney(amount: number, currency = "SGD") {
+  try {
+    return new Intl.NumberFormat(undefined, { style: "currency", currency }).format(amount);
+  } catch {
+    return `${currency} ${amount.toFixed(2)}`;
+  }
+}
+
+function formatQuantity(quantity: number) {
+  return new Intl.NumberFormat(undefined, { maximumFractionDigits: 6 }).format(quantity);
+}
+
+function todayISO() {
+  const d = new Date();
+  const yyyy = d.getFullYear();
+  const mm = String(d.getMonth() + 1).padStart(2, "0");
+  const dd = String(d.getDate()).padStart(2, "0");
+  return `${yyyy}-${mm}-${dd}`;
+}
+
+function gainClass(amount: number) {
+  return amount >= 0 ? "text-emerald-700" : "text-red-700";
+}
+
+interface HoldingDetailProps {
+  holding: Holding;
+  currency: string;
+  prices: SecurityPrice[];
+  isReadOnly: boolean;
+  report: (result: Result) => boolean;
+}
+
+/**
+ * Lots, sales and buy/sell forms for one holding
+ */
+function HoldingDetail({ holding, currency, prices, isReadOnly, report }: HoldingDetailProps) {
+  const [kind, setKind] = useState<"buy" | "sell">("buy");
+  const [date, setDate] = useState(todayISO());
+  const [quantity, setQuantity] = useState<number>(0);
+  const [unitPrice, setUnitPrice] = useState<number>(0);
+  const [fees, setFees] = useState<number>(0);
+
+  const position = holdingPosition(holding, prices);
+  const remainingByLot = new Map(position.openLots.map((lot) => [lot.lotId, lot.quantity]));
+
+  function handleRecord() {
+    const result =
+      kind === "buy"
+        ? addLot(holding.id, { date, quantity, unitCost: unitPrice, fees })
+        : addSale(holding.id, { date, quantity, unitPrice, fees });
+    if (report(result)) {
+      setQuantity(0);
+      setFees(0);
+    }
+  }
+
+  return (
+    <div className="space-y-4 bg-slate-50 px-4 py-3 text-sm">
+      <div>
+        <div className="text-xs font-semibold uppercase tracking-wide text-slate-600">Lots</div>
+        {holding.lots.length === 0 && <div className="mt-1 text-slate-600">No lots recorded.</div>}
+        {holding.lots.map((lot) => (
+          <div key={lot.id} className="mt-1 flex items-center justify-between gap-4">
+            <span className="text-slate-600">
+              {lot.date} · bought {formatQuantity(lot.quantity)} @ {formatMoney(lot.unitCost, currency)}
+              {lot.fees > 0 && ` + ${formatMoney(lot.fees, currency)} fees`}
+              {lot.transactionId && <span className="ml-2 rounded bg-slate-200 px-1.5 py-0.5 text-xs">from transaction</span>}
+            </span>
+            <span className="flex items-center gap-3">
+              <span className="text-xs text-slate-500">{formatQuantity(remainingByLot.get(lot.id) ?? 0)} left</span>
+              {!isReadOnly && (
+                <button className="text-xs text-red-700 underline" onClick={() => report(deleteLot(holding.id, lot.id))}>
+                  Remove
+                </button>
+              )}
+            </span>
+          </div>
+        ))}
+      </div>
+
+      {holding.sales.length > 0 && (
+        <div>
+          <div className="text-xs font-semibold uppercase tracking-wide text-slate-600">Sales</div>
+          {holding.sales.map((sale) => (
+            <div key={sale.id} className="mt-1 flex items-center justify-between gap-4">
+              <span className="text-slate-600">
+                {sale.date} · sold {formatQuantity(sale.quantity)} @ {formatMoney(sale.unitPrice, currency)}
+                {sale.fees > 0 && ` − ${formatMoney(sale.fees, currency)} fees`}
+              </span>
+              {!isReadOnly && (
+                <button className="text-xs text-red-700 underline" onClick={() => report(deleteSale(holding.id, sale.id))}>
+                  Remove
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {!isReadOnly && (
+        <div className="flex flex-wrap items-end gap-2 border-t border-slate-200 pt-3">
+          <select
+            className="rounded-lg border border-slate-300 px-3 py-1 text-sm"
+            value={kind}
+            onChange={(e) => setKind(e.target.value as "buy" | "sell")}
+          >
+            <option value="buy">Buy</option>
+            <option value="sell">Sell</option>
+          </select>
+          <input
+            type="date"
+            className="rounded-lg border border-slate-300 px-3 py-1 text-sm"
+            value={date}
+            onChange={(e) => setDate(e.target.value)}
+          />
+          <label className="text-xs text-slate-600">
+            Qty
+            <input
+              type="number"
+              min={0}
+              step="any"
+              className="ml-1 w-24 rounded-lg border border-slate-300 px-2 py-1 text-sm"
+              value={quantity}
+              onChange={(e) => setQuantity(Number(e.target.value))}
+            />
+          </label>
+          <label className="text-xs text-slate-600">
+            {kind === "buy" ? "Unit cost" : "Unit price"}
+            <input
+              type="number"
+              min={0}
+              step="any"
+              className="ml-1 w-28 rounded-lg border border-slate-300 px-2 py-1 text-sm"
+              value={unitPrice}
+              onChange={(e) => setUnitPrice(Number(e.target.value))}
+            />
+          </label>
+          <label className="text-xs text-slate-600">
+            Fees
+            <input
+              type="number"
+              min={0}
+              step="0.01"
+              className="ml-1 w-20 rounded-lg border border-slate-300 px-2 py-1 text-sm"
+              value={fees}
+              onChange={(e) => setFees(Number(e.target.value))}
+            />
+          </label>
+          <button
+            className="rounded-lg bg-slate-900 px-3 py-1 text-sm font-medium text-white disabled:bg-slate-200 disabled:text-slate-500"
+            onClick={handleRecord}
+            disabled={quantity <= 0}
+          >
+            Record {kind}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface AccountCardProps {
+  account: InvestmentAccount;
+  holdings: Holding[];
+  prices: SecurityPrice[];
+  isReadOnly: boolean;
+  report: (result: Result) => boolean;
+}
+
+/**
+ * One account's holdings with positions and gains
+ */
+function AccountCard({ account, holdings, prices, isReadOnly, report }: AccountCardProps) {
+  const [symbol, setSymbol] = useState("");
+  const [name, setName] = useState("");
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const totals = investmentTotals(holdings, prices);
+
+  function handleAddHolding() {
+    if (report(addHolding({ accountId: account.id, symbol, name }))) {
+      setSymbol("");
+      setName("");
+    }
+  }
+
+  return (
+    <div className="rounded-lg border border-slate-200 bg-white p-6">
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <h2 className="text-lg font-semibold">{account.name}</h2>
+          <p className="mt-1 text-sm text-slate-600">
+            {holdings.length} holdings · {account.currency}
+          </p>
+        </div>
+        <div className="flex gap-6 text-right">
+          <div>
+            <div className="text-xs text-slate-600">Market value</div>
+            <div className="text-xl font-bold">{formatMoney(totals.marketValue, account.currency)}</div>
+          </div>
+          <div>
+            <div className="text-xs text-slate-600">Unrealised</div>
+            <div className={`text-xl font-bold ${gainClass(totals.unrealisedGain)}`}>
+              {formatMoney(totals.unrealisedGain, account.currency)}
+            </div>
+          </div>
+          <div>
+            <div className="text-xs text-slate-600">Realised</div>
+            <div className={`text-xl font-bold ${gainClass(totals.realisedGain)}`}>
+              {formatMoney(totals.realisedGain, account.currency)}
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {totals.unpriced.length > 0 && (
+        <div className="mt-2 text-xs text-amber-700">
+          No price for {totals.unpriced.join(", ")}; valued at cost
+        </div>
+      )}
+
+      <div className="mt-4 overflow-hidden rounded-lg border border-slate-200">
+        <div className="grid grid-cols-12 gap-2 bg-slate-50 px-4 py-2 text-xs font-semibold uppercase tracking-wide text-slate-600">
+          <div className="col-span-3">Holding</div>
+          <div className="col-span-1 text-right">Qty</div>
+          <div className="col-span-2 text-right">Cost basis</div>
+          <div className="col-span-2 text-right">Price</div>
+          <div className="col-span-2 text-right">Market value</div>
+          <div className="col-span-2 text-right">Unrealised</div>
+        </div>
+
+        <div className="divide-y divide-slate-200">
+          {holdings.map((holding) => {
+            const position = holdingPosition(holding, prices);
+            const isExpanded = expandedId === holding.id;
+            return (
+              <div key={holding.id}>
+                <div className="grid grid-cols-12 items-center gap-2 px-4 py-3 text-sm">
+                  <div className="col-span-3">
+                    <div className="font-medium">{holding.symbol}</div>
+                    <div className="flex items-center gap-2 text-xs text-slate-500">
+                      {holding.name !== holding.symbol && <span>{holding.name}</span>}
+                      <button className="underline" onClick={() => setExpandedId(isExpanded ? null : holding.id)}>
+                        {isExpanded ? "Hide" : "Lots"}
+                      </button>
+                      {!isReadOnly && (
+                        <button className="text-red-700 underline" onClick={() => report(deleteHolding(holding.id))}>
+                          Delete
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                  <div className="col-span-1 text-right">{formatQuantity(position.quantity)}</div>
+                  <div className="col-span-2 text-right">{formatMoney(position.costBasis, account.currency)}</div>
+                  <div className="col-span-2 text-right">
+                    {position.price ? (
+                      <>
+                        {formatMoney(position.price.price, account.currency)}
+                        <div className="text-xs text-slate-500">{position.price.date}</div>
+                      </>
+                    ) : (
+                      <span className="text-slate-400">—</span>
+                    )}
+                  </div>
+                  <div className="col-span-2 text-right font-medium">
+                    {formatMoney(position.marketValue, account.currency)}
+                  </div>
+                  <div className={`col-span-2 text-right ${gainClass(position.unrealisedGain)}`}>
+                    {formatMoney(position.unrealisedGain, account.currency)}
+                    {position.realisedGain !== 0 && (
+                      <div className={`text-xs ${gainClass(position.realisedGain)}`}>
+                        {formatMoney(position.realisedGain, account.currency)} realised
+                      </div>
+                    )}
+                  </div>
+                </div>
+
+                {isExpanded && (
+                  <HoldingDetail
+                    holding={holding}
+                    currency={account.currency}
+                    prices={prices}
+                    isReadOnly={isReadOnly}
+                    report={report}
+                  />
+                )}
+              </div>
+            );
+          })}
+
+          {holdings.length === 0 && <div className="px-4 py-6 text-sm text-slate-600">No holdings yet.</div>}
+        </div>
+      </div>
+
+      {!isReadOnly && (
+        <div className="mt-4 flex flex-wrap items-end gap-2">
+          <input
+            className="w-28 rounded-lg border border-slate-300 px-3 py-2 text-sm uppercase"
+            placeholder="Symbol"
+            value={symbol}
+            onChange={(e) => setSymbol(e.target.value.toUpperCase())}
+          />
+          <input
+            className="w-64 rounded-lg border border-slate-300 px-3 py-2 text-sm"
+            placeholder="Name (optional)"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+          />
+          <button
+            className="rounded-lg bg-slate-900 px-4 py-2 text-sm font-medium text-white disabled:bg-slate-200 disabled:text-slate-500"
+            onClick={handleAddHolding}
+            disabled={!symbol.trim()}
+          >
+            Add holding
+          </button>
+          {holdings.length === 0 && (
+            <button
+              className="ml-auto text-sm text-red-700 underline"
+              onClick={() => report(deleteInvestmentAccount(account.id))}
+            >
+              Delete account
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function Investments() {
+  const { accounts, holdings } = useInvestments();
+  const prices = useSecurityPrices();
+  const fxRates = useFxRates();
+  const isReadOnly = !roleAllows(useHouseholdRole(), "edit");
+  const baseCurrency = getSelectedHousehold()?.base_currency ?? "SGD";
+
+  const [accountName, setAccountName] = useState("");
+  const [accountCurrency, setAccountCurrency] = useState(baseCurrency);
+  const [priceDate, setPriceDate] = useState(todayISO());
+  const [priceSymbol, setPriceSymbol] = useState("");
+  const [priceValue, setPriceValue] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  // Market value of every account, converted into the household base currency
+  const total = useMemo(
+    () =>
+      totalValue(investmentAccountsAsAssets(accounts, holdings, prices), createFxConverter(baseCurrency, fxRates)),
+    [accounts, holdings, prices, baseCurrency, fxRates]
+  );
+  const symbols = useMemo(() => [...new Set(holdings.map((h) => h.symbol))].sort(), [holdings]);
+
+  function report(result: Result): boolean {
+    setSuccess(null);
+    setError(result.ok ? null : result.reason);
+    return result.ok;
+  }
+
+  function handleAddAccount() {
+    if (report(addInvestmentAccount({ name: accountName, currency: accountCurrency }))) {
+      setAccountName("");
+    }
+  }
+
+  function handleAddPrice() {
+    if (report(addSecurityPrice({ date: priceDate, symbol: priceSymbol, price: Number(priceValue), source: "manual" }))) {
+      setPriceValue("");
+    }
+  }
+
+  async function handleFile(file: File | undefined) {
+    setError(null);
+    setSuccess(null);
+    if (!file) return;
+
+    try {
+      const result = importSecurityPricesCsv(await file.text());
+      if (!result.ok) {
+        setError(result.reason);
+        return;
+      }
+      const skipped = result.errors.map((e) => `line ${e.line}: ${e.reason}`).join("; ");
+      setSuccess(
+        `Imported ${result.added} new and ${result.updated} updated price(s).` +
+          (skipped ? ` Skipped ${result.errors.length} row(s) — ${skipped}` : "")
+      );
+    } catch (err) {
+      setError(`Could not read file: ${(err as Error).message}`);
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <h1 className="text-3xl font-bold">Investments</h1>
+
+      <RoleBanner />
+
+      {error && (
+        <div className="rounded-lg border border-red-300 bg-red-50 p-4 text-sm text-red-900">
+          <div className="font-semibold">Error</div>
+          <div className="mt-1">{error}</div>
+        </div>
+      )}
+
+      {success && (
+        <div className="rounded-lg border border-emerald-300 bg-emerald-50 p-4 text-sm text-emerald-900">
+          {success}
+        </div>
+      )}
+
+      <div className="rounded-lg border border-slate-200 bg-white p-6">
+        <div className="flex flex-wrap items-end justify-between gap-4">
+          <div>
+            <div className="text-sm text-slate-600">Total market value</div>
+            <div className="mt-1 text-3xl font-bold text-emerald-700">{formatMoney(total.total, baseCurrency)}</div>
+            <p className="mt-1 text-xs text-slate-500">
+              Counted in net worth. Record buys here or from an Investments transaction.
+            </p>
+            {total.unconverted.length > 0 && (
+              <div className="text-xs text-amber-700">
+                No exchange rate for {total.unconverted.join(", ")}; counted unconverted
+              </div>
+            )}
+          </div>
+
+          <div className="flex items-end gap-2">
+            <div>
+              <label className="text-sm font-medium text-slate-700">New account</label>
+              <input
+                className="mt-1 block w-56 rounded-lg border border-slate-300 px-3 py-2 text-sm"
+                placeholder="e.g. Brokerage, CPF-IS"
+                value={accountName}
+                onChange={(e) => setAccountName(e.target.value)}
+                disabled={isReadOnly}
+              />
+            </div>
+            <input
+              className="w-20 rounded-lg border border-slate-300 px-3 py-2 text-sm uppercase"
+              value={accountCurrency}
+              maxLength={3}
+              onChange={(e) => setAccountCurrency(e.target.value.toUpperCase())}
+              disabled={isReadOnly}
+            />
+            <button
+              className="rounded-lg bg-slate-900 px-4 py-2 text-sm font-medium text-white disabled:cursor-not-allowed disabled:bg-slate-200 disabled:text-slate-500"
+              onClick={handleAddAccount}
+              disabled={isReadOnly || !accountName.trim()}
+              title={isReadOnly ? getRestrictedTitle() : undefined}
+            >
+              Add account
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {accounts.map((account) => (
+        <AccountCard
+          key={account.id}
+          account={account}
+          holdings={holdings.filter((h) => h.accountId === account.id)}
+          prices={prices}
+          isReadOnly={isReadOnly}
+          report={report}
+        />
+      ))}
+
+      <div className="rounded-lg border border-slate-200 bg-white p-6">
+        <h2 className="text-lg font-semibold">Prices</h2>
+        <p className="mt-1 text-sm text-slate-600">
+          Holdings are valued at the latest price on or before each date, in their account&apos;s currency. Import
+          a CSV with columns <code>date,symbol,price</code> (header optional); a price for an existing date and
+          symbol replaces it.
+        </p>
+
+        <div className="mt-4 flex flex-wrap items-end gap-2">
+          <input
+            type="date"
+            className="rounded-lg border border-slate-300 px-3 py-2 text-sm"
+            value={priceDate}
+            onChange={(e) => setPriceDate(e.target.value)}
+            disabled={isReadOnly}
+          />
+          <input
+            className="w-28 rounded-lg border border-slate-300 px-3 py-2 text-sm uppercase"
+            placeholder="Symbol"
+            list="investment-symbols"
+            value={priceSymbol}
+            onChange={(e) => setPriceSymbol(e.target.value.toUpperCase())}
+            disabled={isReadOnly}
+          />
+          <datalist id="investment-symbols">
+            {symbols.map((s) => (
+              <option key={s} value={s} />
+            ))}
+          </datalist>
+          <input
+            type="number"
+            min={0}
+            step="any"
+            className="w-32 rounded-lg border border-slate-300 px-3 py-2 text-sm"
+            placeholder="Price"
+            value={priceValue}
+            onChange={(e) => setPriceValue(e.target.value)}
+            disabled={isReadOnly}
+          />
+          <button
+            className="rounded-lg bg-slate-900 px-4 py-2 text-sm font-medium text-white disabled:cursor-not-allowed disabled:bg-slate-200 disabled:text-slate-500"
+            onClick={handleAddPrice}
+            disabled={isReadOnly || !priceSymbol.trim() || !priceValue}
+            title={isReadOnly ? getRestrictedTitle() : undefined}
+          >
+            Save price
+          </button>
+          <input
+            type="file"
+            accept=".csv,text/csv"
+            className="ml-auto text-sm"
+            onChange={(e) => handleFile(e.target.files?.[0])}
+            disabled={isReadOnly}
+          />
+        </div>
+
+        {prices.length > 0 && (
+          <div className="mt-4 max-h-72 overflow-y-auto rounded-lg border border-slate-200">
+            {prices.map((p) => (
+              <div key={p.id} className="grid grid-cols-12 gap-2 border-t border-slate-100 px-4 py-2 text-sm first:border-t-0">
+                <div className="col-span-3">{p.date}</div>
+                <div className="col-span-3 font-medium">{p.symbol}</div>
+                <div className="col-span-3 text-right">{formatQuantity(p.price)}</div>
+                <div className="col-span-1 capitalize text-slate-600">{p.source}</div>
+                <div className="col-span-2 text-right">
+                  {!isReadOnly && (
+                    <button className="text-sm text-red-700 underline" onClick={() => report(deleteSecurityPrice(p.id))}>
+                      Delete
+                    </button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
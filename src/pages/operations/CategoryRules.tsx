@@ -0,0 +1,486 @@
+import { useMemo, useState } from "react";
+import type { CategoryName } from "../../constants/categories";
+import type { CategoryRule, CategoryRuleInput, RuleNoteMatch } from "../../types/categoryRules";
+import { useCategoryRules } from "../../state/useCategoryRules";
+import { useCategories } from "../../state/useCategories";
+import { categoryLabel, topLevelOptions } from "../../utils/categoryTree";
+import {
+  addCategoryRule,
+  updateCategoryRule,
+  deleteCategoryRule,
+  moveCategoryRule,
+} from "../../state/categoryRulesStore";
+import { useTransactions } from "../../state/useTransactions";
+import { recategorizeTransactions } from "../../state/transactionsStore";
+import { isPeriodLocked } from "../../state/periodLocksStore";
+import { previewRuleChanges } from "../../utils/categoryRules";
+import { RoleBanner } from "../../components/common/RoleBanner";
+import { useHouseholdRole } from "../../state/useHouseholdRole";
+import { roleAllows } from "../../utils/roleGuard";
+
+function formatMoney(amount: number, currency = "SGD"): string {
+  try {
+    return new Intl.NumberFormat(undefined, { style: "currency", currency }).format(amount);
+  } catch {
+    return `${currency} ${amount.toFixed(2)}`;
+  }
+}
+
+const EMPTY_RULE: CategoryRuleInput = {
+  name: "",
+  active: true,
+  category: "Living",
+  conditions: { noteMatch: "contains" },
+};
+
+/**
+ * Parse an optional numeric input ("" = unset)
+ */
+function optionalNumber(value: string): number | undefined {
+  if (value.trim() === "") return undefined;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : undefined;
+}
+
+/**
+ * Human-readable summary of a rule's conditions
+ */
+function describeConditions(rule: CategoryRule): string {
+  const c = rule.conditions;
+  const parts: string[] = [];
+  if (c.notePattern) {
+    parts.push(c.noteMatch === "regex" ? `note ~ /${c.notePattern}/` : `note contains "${c.notePattern}"`);
+  }
+  if (c.direction) parts.push(c.direction === "out" ? "expense" : "income");
+  if (c.minAmount !== undefined && c.maxAmount !== undefined) {
+    parts.push(`amount ${c.minAmount}–${c.maxAmount}`);
+  } else if (c.minAmount !== undefined) {
+    parts.push(`amount ≥ ${c.minAmount}`);
+  } else if (c.maxAmount !== undefined) {
+    parts.push(`amount ≤ ${c.maxAmount}`);
+  }
+  if (c.dayFrom !== undefined || c.dayTo !== undefined) {
+    parts.push(`day ${c.dayFrom ?? 1}–${c.dayTo ?? 31}`);
+  }
+  return parts.join(" and ");
+}
+
+export function CategoryRules() {
+  const rules = useCategoryRules();
+  const transactions = useTransactions();
+  const categories = useCategories();
+
+  const [formMode, setFormMode] = useState<"add" | "edit" | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [formData, setFormData] = useState<CategoryRuleInput>(EMPTY_RULE);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [formSuccess, setFormSuccess] = useState<string | null>(null);
+  const isReadOnly = !roleAllows(useHouseholdRole(), "edit");
+
+  // Preview of the full rule list against history
+  const changes = useMemo(() => previewRuleChanges(rules, transactions), [rules, transactions]);
+
+  // Preview of the rule being edited on its own ("would change N transactions")
+  const draftChanges = useMemo(() => {
+    if (!formMode) return [];
+    const draft: CategoryRule = {
+      ...formData,
+      active: true,
+      id: editingId ?? "draft",
+      updatedAt: "",
+    };
+    return previewRuleChanges([draft], transactions);
+  }, [formMode, formData, editingId, transactions]);
+
+  const changeCountByRule = useMemo(() => {
+    const counts = new Map<string, number>();
+    for (const c of changes) counts.set(c.ruleId, (counts.get(c.ruleId) ?? 0) + 1);
+    return counts;
+  }, [changes]);
+
+  function setConditions(patch: Partial<CategoryRuleInput["conditions"]>) {
+    setFormData((prev) => ({ ...prev, conditions: { ...prev.conditions, ...patch } }));
+  }
+
+  function handleAddClick() {
+    setFormMode("add");
+    setEditingId(null);
+    setFormData(EMPTY_RULE);
+    setFormError(null);
+    setFormSuccess(null);
+  }
+
+  function handleEditClick(rule: CategoryRule) {
+    setFormMode("edit");
+    setEditingId(rule.id);
+    setFormData({
+      name: rule.name,
+      active: rule.active,
+      category: rule.category,
+      conditions: { ...rule.conditions },
+    });
+    setFormError(null);
+  }
+
+  function handleSave() {
+    setFormError(null);
+    setFormSuccess(null);
+
+    const result =
+      formMode === "edit" && editingId
+        ? updateCategoryRule(editingId, formData)
+        : addCategoryRule(formData);
+
+    if (!result.ok) {
+      setFormError(result.reason);
+      return;
+    }
+    setFormSuccess(formMode === "edit" ? "Rule updated" : "Rule added");
+    setFormMode(null);
+    setTimeout(() => setFormSuccess(null), 2000);
+  }
+
+  function handleDelete(id: string) {
+    if (!window.confirm("Delete this rule?")) return;
+    const result = deleteCategoryRule(id);
+    if (!result.ok) {
+      setFormError(result.reason);
+    }
+  }
+
+  function handleApplyToHistory() {
+    const unlocked = changes.filter((c) => !isPeriodLocked(c.transaction.date.slice(0, 7)));
+    if (unlocked.length === 0) return;
+    if (!window.confirm(`Re-categorise ${unlocked.length} transaction(s)?`)) return;
+
+    const result = recategorizeTransactions(
+      unlocked.map((c) => ({ id: c.transaction.id, category: c.to }))
+    );
+    setFormSuccess(
+      `Updated ${result.updated} transaction(s)` +
+        (result.skipped.length > 0 ? `, skipped ${result.skipped.length}` : "")
+    );
+    setTimeout(() => setFormSuccess(null), 3000);
+  }
+
+  const lockedChangeCount = changes.filter((c) => isPeriodLocked(c.transaction.date.slice(0, 7))).length;
+
+  return (
+    <div className="space-y-6">
+      <h1 className="text-3xl font-bold">Category Rules</h1>
+
+      <RoleBanner />
+
+      {formError && (
+        <div className="rounded-lg border border-red-300 bg-red-50 p-4 text-sm text-red-900">
+          <div className="flex items-start justify-between">
+            <div>
+              <div className="font-semibold">Error</div>
+              <div className="mt-1">{formError}</div>
+            </div>
+            <button className="ml-4 text-red-700 hover:text-red-900" onClick={() => setFormError(null)}>
+              ✕
+            </button>
+          </div>
+        </div>
+      )}
+
+      {formSuccess && (
+        <div className="rounded-lg border border-emerald-300 bg-emerald-50 p-4 text-sm text-emerald-900">
+          {formSuccess}
+        </div>
+      )}
+
+      {/* Rules list */}
+      <div className="rounded-lg border border-slate-200 bg-white p-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <h2 className="text-lg font-semibold">Rules</h2>
+            <p className="mt-1 text-sm text-slate-600">
+              Evaluated top to bottom; the first matching active rule sets the category. Rules apply when
+              adding a transaction and when importing a statement.
+            </p>
+          </div>
+          {!isReadOnly && (
+            <button
+              className="rounded-lg bg-slate-900 px-4 py-2 text-sm font-medium text-white hover:bg-slate-800"
+              onClick={handleAddClick}
+            >
+              Add rule
+            </button>
+          )}
+        </div>
+
+        <div className="mt-4 overflow-hidden rounded-lg border border-slate-200">
+          <div className="grid grid-cols-12 gap-2 bg-slate-50 px-4 py-2 text-xs font-semibold uppercase tracking-wide text-slate-600">
+            <div className="col-span-1">#</div>
+            <div className="col-span-3">Name</div>
+            <div className="col-span-4">When</div>
+            <div className="col-span-2">Category</div>
+            <div className="col-span-2 text-right">Actions</div>
+          </div>
+
+          <div className="divide-y divide-slate-200">
+            {rules.map((rule, index) => (
+              <div
+                key={rule.id}
+                className={`grid grid-cols-12 items-center gap-2 px-4 py-3 text-sm ${rule.active ? "" : "opacity-50"}`}
+              >
+                <div className="col-span-1 text-slate-500">{index + 1}</div>
+                <div className="col-span-3 font-medium">
+                  {rule.name}
+                  {!rule.active && <span className="ml-2 text-xs text-slate-500">(inactive)</span>}
+                </div>
+                <div className="col-span-4 text-slate-600">{describeConditions(rule)}</div>
+                <div className="col-span-2">
+                  {categoryLabel(categories, rule.category)}
+                  {(changeCountByRule.get(rule.id) ?? 0) > 0 && (
+                    <div className="text-xs text-amber-700">
+                      would change {changeCountByRule.get(rule.id)}
+                    </div>
+                  )}
+                </div>
+                {!isReadOnly && (
+                  <div className="col-span-2 flex justify-end gap-1">
+                    <button
+                      className="rounded border border-slate-300 bg-white px-2 py-1 text-xs hover:bg-slate-50 disabled:opacity-50"
+                      onClick={() => moveCategoryRule(rule.id, "up")}
+                      disabled={index === 0}
+                      title="Move up"
+                    >
+                      ↑
+                    </button>
+                    <button
+                      className="rounded border border-slate-300 bg-white px-2 py-1 text-xs hover:bg-slate-50 disabled:opacity-50"
+                      onClick={() => moveCategoryRule(rule.id, "down")}
+                      disabled={index === rules.length - 1}
+                      title="Move down"
+                    >
+                      ↓
+                    </button>
+                    <button
+                      className="rounded border border-slate-300 bg-white px-2 py-1 text-xs hover:bg-slate-50"
+                      onClick={() => handleEditClick(rule)}
+                    >
+                      Edit
+                    </button>
+                    <button
+                      className="rounded border border-red-300 bg-red-50 px-2 py-1 text-xs text-red-700 hover:bg-red-100"
+                      onClick={() => handleDelete(rule.id)}
+                    >
+                      Delete
+                    </button>
+                  </div>
+                )}
+              </div>
+            ))}
+
+            {rules.length === 0 && (
+              <div className="px-4 py-6 text-sm text-slate-600">No rules yet.</div>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {/* Add/Edit form */}
+      {formMode && (
+        <div className="rounded-lg border border-slate-200 bg-white p-6">
+          <h2 className="text-lg font-semibold">{formMode === "add" ? "Add rule" : "Edit rule"}</h2>
+
+          <div className="mt-4 grid gap-4 md:grid-cols-3">
+            <div>
+              <label className="block text-sm font-medium text-slate-700">Name</label>
+              <input
+                className="mt-1 w-full rounded-md border border-slate-300 px-3 py-2 text-sm"
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                placeholder="e.g. Supermarkets"
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-slate-700">Assign category</label>
+              <select
+                className="mt-1 w-full rounded-md border border-slate-300 px-3 py-2 text-sm"
+                value={formData.category}
+                onChange={(e) => setFormData({ ...formData, category: e.target.value as CategoryName })}
+              >
+                {topLevelOptions(categories, formData.category).map((c) => (
+                  <option key={c.id} value={c.id}>
+                    {c.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div className="flex items-end">
+              <label className="flex items-center gap-2 text-sm text-slate-700">
+                <input
+                  type="checkbox"
+                  checked={formData.active}
+                  onChange={(e) => setFormData({ ...formData, active: e.target.checked })}
+                />
+                Active
+              </label>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-slate-700">Note</label>
+              <div className="mt-1 flex gap-2">
+                <select
+                  className="rounded-md border border-slate-300 px-2 py-2 text-sm"
+                  value={formData.conditions.noteMatch ?? "contains"}
+                  onChange={(e) => setConditions({ noteMatch: e.target.value as RuleNoteMatch })}
+                >
+                  <option value="contains">contains</option>
+                  <option value="regex">regex</option>
+                </select>
+                <input
+                  className="w-full rounded-md border border-slate-300 px-3 py-2 text-sm"
+                  value={formData.conditions.notePattern ?? ""}
+                  onChange={(e) => setConditions({ notePattern: e.target.value || undefined })}
+                  placeholder={formData.conditions.noteMatch === "regex" ? "e.g. ^(ntuc|cold storage)" : "e.g. grab"}
+                />
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-slate-700">Type</label>
+              <select
+                className="mt-1 w-full rounded-md border border-slate-300 px-3 py-2 text-sm"
+                value={formData.conditions.direction ?? ""}
+                onChange={(e) =>
+                  setConditions({ direction: (e.target.value || undefined) as "in" | "out" | undefined })
+                }
+              >
+                <option value="">Any</option>
+                <option value="out">Expense</option>
+                <option value="in">Income / Refund</option>
+              </select>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-slate-700">Amount range</label>
+              <div className="mt-1 flex gap-2">
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  className="w-full rounded-md border border-slate-300 px-3 py-2 text-sm"
+                  value={formData.conditions.minAmount ?? ""}
+                  onChange={(e) => setConditions({ minAmount: optionalNumber(e.target.value) })}
+                  placeholder="Min"
+                />
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  className="w-full rounded-md border border-slate-300 px-3 py-2 text-sm"
+                  value={formData.conditions.maxAmount ?? ""}
+                  onChange={(e) => setConditions({ maxAmount: optionalNumber(e.target.value) })}
+                  placeholder="Max"
+                />
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-slate-700">Day of month</label>
+              <div className="mt-1 flex gap-2">
+                <input
+                  type="number"
+                  min="1"
+                  max="31"
+                  className="w-full rounded-md border border-slate-300 px-3 py-2 text-sm"
+                  value={formData.conditions.dayFrom ?? ""}
+                  onChange={(e) => setConditions({ dayFrom: optionalNumber(e.target.value) })}
+                  placeholder="From"
+                />
+                <input
+                  type="number"
+                  min="1"
+                  max="31"
+                  className="w-full rounded-md border border-slate-300 px-3 py-2 text-sm"
+                  value={formData.conditions.dayTo ?? ""}
+                  onChange={(e) => setConditions({ dayTo: optionalNumber(e.target.value) })}
+                  placeholder="To"
+                />
+              </div>
+            </div>
+          </div>
+
+          <div className="mt-4 rounded-lg border border-slate-200 bg-slate-50 p-3 text-sm text-slate-700">
+            On its own, this rule would change <strong>{draftChanges.length}</strong> existing transaction(s).
+          </div>
+
+          <div className="mt-4 flex gap-2">
+            <button
+              className="rounded-lg bg-slate-900 px-4 py-2 text-sm font-medium text-white hover:bg-slate-800"
+              onClick={handleSave}
+            >
+              Save
+            </button>
+            <button
+              className="rounded-lg border border-slate-300 bg-white px-4 py-2 text-sm font-medium text-slate-700 hover:bg-slate-50"
+              onClick={() => setFormMode(null)}
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* History preview */}
+      <div className="rounded-lg border border-slate-200 bg-white p-6">
+        <div className="flex items-end justify-between gap-4">
+          <div>
+            <h2 className="text-lg font-semibold">Test against history</h2>
+            <p className="mt-1 text-sm text-slate-600">
+              Running all rules would change {changes.length} transaction(s)
+              {lockedChangeCount > 0 && ` (${lockedChangeCount} in locked periods will be left as-is)`}.
+            </p>
+          </div>
+          <button
+            className={`rounded-lg px-4 py-2 text-sm font-medium ${
+              changes.length - lockedChangeCount > 0 && !isReadOnly
+                ? "bg-slate-900 text-white"
+                : "bg-slate-200 text-slate-500 cursor-not-allowed opacity-50"
+            }`}
+            onClick={handleApplyToHistory}
+            disabled={changes.length - lockedChangeCount === 0 || isReadOnly}
+          >
+            Apply to history
+          </button>
+        </div>
+
+        {changes.length > 0 && (
+          <div className="mt-4 overflow-hidden rounded-lg border border-slate-200">
+            <div className="grid grid-cols-12 gap-2 bg-slate-50 px-4 py-2 text-xs font-semibold uppercase tracking-wide text-slate-600">
+              <div className="col-span-2">Date</div>
+              <div className="col-span-4">Note</div>
+              <div className="col-span-2 text-right">Amount</div>
+              <div className="col-span-4">Change</div>
+            </div>
+            <div className="divide-y divide-slate-200">
+              {changes.slice(0, 50).map((c) => (
+                <div key={c.transaction.id} className="grid grid-cols-12 gap-2 px-4 py-2 text-sm">
+                  <div className="col-span-2">{c.transaction.date}</div>
+                  <div className="col-span-4 text-slate-600">{c.transaction.note ?? "—"}</div>
+                  <div className="col-span-2 text-right">{formatMoney(c.transaction.amount)}</div>
+                  <div className="col-span-4">
+                    {categoryLabel(categories, c.from)} → <span className="font-medium">{categoryLabel(categories, c.to)}</span>
+                    {isPeriodLocked(c.transaction.date.slice(0, 7)) && (
+                      <span className="ml-2 text-xs text-amber-700">🔒 Locked</span>
+                    )}
+                  </div>
+                </div>
+              ))}
+              {changes.length > 50 && (
+                <div className="px-4 py-2 text-xs text-slate-500">…and {changes.length - 50} more</div>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
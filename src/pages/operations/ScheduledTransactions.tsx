@@ -1,15 +1,34 @@
 import { useState, useMemo, useEffect } from "react";
 import type { CategoryName } from "../../constants/categories";
-import { CATEGORIES } from "../../constants/categories";
-import type { ScheduledTransactionTemplate, ScheduledFrequency, ScheduledRule, ScheduledMatchMode } from "../../types/scheduled";
+import { useCategories } from "../../state/useCategories";
+import { categoryLabel, topLevelOptions } from "../../utils/categoryTree";
+import type {
+  ScheduledTransactionTemplate,
+  ScheduledFrequency,
+  ScheduledRule,
+  ScheduledMatchMode,
+  ScheduledToleranceType,
+} from "../../types/scheduled";
 import { useScheduledTemplates } from "../../state/useScheduledTemplates";
 import { addScheduledTemplate, updateScheduledTemplate, deleteScheduledTemplate } from "../../state/scheduledTemplatesStore";
 import { useTransactions } from "../../state/useTransactions";
-import { addTransaction } from "../../state/transactionsStore";
+import { usePendingTransactions } from "../../state/usePendingTransactions";
+import { useLiabilities } from "../../state/useLiabilities";
+import { useLoans } from "../../state/useLoans";
+import { addTransaction, updateTransaction } from "../../state/transactionsStore";
+import {
+  confirmScheduledEntry,
+  postDueScheduledTransactions,
+  restoreScheduledOccurrence,
+  skipScheduledOccurrence,
+} from "../../state/scheduledPostingService";
 import { isPeriodLocked, subscribeLocks } from "../../state/periodLocksStore";
 import { getCurrentPeriod } from "../../utils/periods";
-import { projectScheduledTransactions, expectedTotal, matchedTotal, missingTotal } from "../../utils/scheduledMath";
+import { projectScheduledTransactions, expectedTotal, matchedTotal, missingTotal, pendingTotal } from "../../utils/scheduledMath";
 import { LockBanner } from "../../components/common/LockBanner";
+import { RoleBanner } from "../../components/common/RoleBanner";
+import { useHouseholdRole } from "../../state/useHouseholdRole";
+import { roleAllows } from "../../utils/roleGuard";
 import { Tooltip } from "../../components/common/Tooltip";
 
 function formatMoney(amount: number, currency = "SGD"): string {
@@ -20,9 +39,48 @@ function formatMoney(amount: number, currency = "SGD"): string {
   }
 }
 
+const FREQUENCY_LABELS: Record<ScheduledFrequency, string> = {
+  weekly: "Weekly",
+  fortnightly: "Fortnightly",
+  monthly: "Monthly",
+  quarterly: "Quarterly",
+  yearly: "Yearly",
+  everyNMonths: "Every N months",
+};
+
+/**
+ * Matched amount against the expected one, e.g. "+SGD 12.30 (+4.1%)"
+ */
+function formatVariance(variance: number, expected: number): string {
+  const sign = variance > 0 ? "+" : "−";
+  const percent = expected > 0 ? ` (${sign}${Math.abs((variance / expected) * 100).toFixed(1)}%)` : "";
+  return `${sign}${formatMoney(Math.abs(variance))}${percent}`;
+}
+
+/**
+ * Frequency and bounds of a template, e.g. "Every 6 months from 2026-01-15 until 2027-12-31"
+ */
+function describeSchedule(template: ScheduledTransactionTemplate): string {
+  const frequency =
+    template.frequency === "everyNMonths"
+      ? `Every ${template.intervalMonths} months`
+      : FREQUENCY_LABELS[template.frequency];
+  return [
+    frequency,
+    template.startDate ? `from ${template.startDate}` : "",
+    template.endDate ? `until ${template.endDate}` : "",
+  ]
+    .filter(Boolean)
+    .join(" ");
+}
+
 export function ScheduledTransactions() {
   const templates = useScheduledTemplates();
   const transactions = useTransactions();
+  const pendingTransactions = usePendingTransactions();
+  const liabilities = useLiabilities();
+  const loans = useLoans();
+  const categories = useCategories();
   const [lockTick, setLockTick] = useState(0);
 
   // Subscribe to lock changes
@@ -48,6 +106,13 @@ export function ScheduledTransactions() {
   });
   const [formError, setFormError] = useState<string | null>(null);
   const [formSuccess, setFormSuccess] = useState<string | null>(null);
+  const [editingEntry, setEditingEntry] = useState<{ id: string; date: string; amount: number } | null>(null);
+  const isReadOnly = !roleAllows(useHouseholdRole(), "edit");
+
+  // Post anything newly due when templates change (e.g. auto-post just turned on)
+  useEffect(() => {
+    if (!isReadOnly) postDueScheduledTransactions();
+  }, [templates, isReadOnly]);
 
   // Month selector
   const [selectedMonth, setSelectedMonth] = useState<string>(getCurrentPeriod());
@@ -56,15 +121,27 @@ export function ScheduledTransactions() {
     [selectedMonth, lockTick]
   );
 
+  // Liabilities with loan terms, for linking Debt payments
+  const loanOptions = useMemo(
+    () => liabilities.filter((l) => loans.some((loan) => loan.liabilityId === l.id)),
+    [liabilities, loans]
+  );
+
   // Project transactions for selected month
   const projectedRows = useMemo(() => {
-    return projectScheduledTransactions(templates, transactions as any, selectedMonth);
-  }, [templates, transactions, selectedMonth]);
+    return projectScheduledTransactions(templates, [...transactions, ...pendingTransactions], selectedMonth);
+  }, [templates, transactions, pendingTransactions, selectedMonth]);
+
+  const pendingById = useMemo(
+    () => new Map(pendingTransactions.map((t) => [t.id, t])),
+    [pendingTransactions]
+  );
 
   const totals = useMemo(
     () => ({
       expected: expectedTotal(projectedRows),
       matched: matchedTotal(projectedRows),
+      pending: pendingTotal(projectedRows),
       missing: missingTotal(projectedRows),
     }),
     [projectedRows]
@@ -100,12 +177,20 @@ export function ScheduledTransactions() {
       direction: template.direction,
       amount: template.amount,
       frequency: template.frequency,
+      intervalMonths: template.intervalMonths,
       rule: template.rule,
       day: template.day,
+      startDate: template.startDate,
+      endDate: template.endDate,
       active: template.active,
+      autoPost: template.autoPost,
       note: template.note,
       matchMode: template.matchMode,
       matchKeyword: template.matchKeyword,
+      amountTolerance: template.amountTolerance,
+      amountToleranceType: template.amountToleranceType,
+      matchWindowDays: template.matchWindowDays,
+      liabilityId: template.liabilityId,
     });
     setFormError(null);
   }
@@ -114,6 +199,12 @@ export function ScheduledTransactions() {
     setFormError(null);
     setFormSuccess(null);
 
+    // Yearly templates saved before start dates existed are expected every month; new ones need their month
+    if (formData.frequency === "yearly" && !formData.startDate) {
+      setFormError("Set a start date so Stewardly knows which month the yearly item falls in");
+      return;
+    }
+
     if (formMode === "add") {
       const result = addScheduledTemplate(formData);
       if (!result.ok) {
@@ -153,8 +244,12 @@ export function ScheduledTransactions() {
       date: expectedDateISO,
       category: template.category,
       amount: template.amount,
+      currency: template.currency,
       direction: template.direction,
       note: template.name,
+      liabilityId: template.liabilityId,
+      scheduledTemplateId: template.id,
+      scheduledDate: expectedDateISO,
     });
 
     if (!result.ok) {
@@ -166,10 +261,48 @@ export function ScheduledTransactions() {
     setTimeout(() => setFormSuccess(null), 2000);
   }
 
+  function handleConfirmEntry(id: string) {
+    const result = confirmScheduledEntry(id);
+    if (!result.ok) {
+      setFormError(result.reason);
+      return;
+    }
+    setFormSuccess("Entry confirmed");
+    setTimeout(() => setFormSuccess(null), 2000);
+  }
+
+  function handleSaveEntry() {
+    if (!editingEntry) return;
+    const result = updateTransaction(editingEntry.id, { date: editingEntry.date, amount: editingEntry.amount });
+    if (!result.ok) {
+      setFormError(result.reason);
+      return;
+    }
+    setEditingEntry(null);
+  }
+
+  function handleSkipOccurrence(templateId: string, expectedDateISO: string) {
+    const result = skipScheduledOccurrence(templateId, expectedDateISO);
+    if (!result.ok) {
+      setFormError(result.reason);
+      return;
+    }
+    if (editingEntry) setEditingEntry(null);
+  }
+
+  function handleRestoreOccurrence(templateId: string, expectedDateISO: string) {
+    const result = restoreScheduledOccurrence(templateId, expectedDateISO);
+    if (!result.ok) {
+      setFormError(result.reason);
+    }
+  }
+
   return (
     <div className="space-y-6">
       <h1 className="text-3xl font-bold">Scheduled Transactions</h1>
 
+      <RoleBanner />
+
       {formError && (
         <div className="rounded-lg border border-red-300 bg-red-50 p-4 text-sm text-red-900">
           <div className="flex items-start justify-between">
@@ -207,7 +340,7 @@ export function ScheduledTransactions() {
           <h2 className="text-lg font-semibold">
             {formMode === "add" ? "Add Template" : formMode === "edit" ? "Edit Template" : "Templates"}
           </h2>
-          {!formMode && (
+          {!formMode && !isReadOnly && (
             <button
               className="rounded-lg bg-slate-900 px-4 py-2 text-sm font-medium text-white hover:bg-slate-800"
               onClick={handleAddClick}
@@ -261,17 +394,40 @@ export function ScheduledTransactions() {
                     setFormData({
                       ...formData,
                       category: e.target.value as CategoryName,
+                      liabilityId: e.target.value === "Debt" ? formData.liabilityId : undefined,
                     })
                   }
                 >
-                  {CATEGORIES.map((c) => (
-                    <option key={c} value={c}>
-                      {c}
+                  {topLevelOptions(categories, formData.category).map((c) => (
+                    <option key={c.id} value={c.id}>
+                      {c.name}
                     </option>
                   ))}
                 </select>
               </div>
 
+              {formData.category === "Debt" && formData.direction === "out" && loanOptions.length > 0 && (
+                <div>
+                  <label className="block text-sm font-medium text-slate-700">
+                    Repays loan (optional)
+                  </label>
+                  <select
+                    className="mt-1 w-full rounded-md border border-slate-300 px-3 py-2 text-sm"
+                    value={formData.liabilityId ?? ""}
+                    onChange={(e) =>
+                      setFormData({ ...formData, liabilityId: e.target.value || undefined })
+                    }
+                  >
+                    <option value="">Not linked</option>
+                    {loanOptions.map((l) => (
+                      <option key={l.id} value={l.id}>
+                        {l.name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
+
               <div>
                 <div className="flex items-center">
                   <label className="block text-sm font-medium text-slate-700">
@@ -303,6 +459,7 @@ export function ScheduledTransactions() {
                     setFormData({
                       ...formData,
                       direction: e.target.value as "in" | "out",
+                      liabilityId: e.target.value === "out" ? formData.liabilityId : undefined,
                     })
                   }
                 >
@@ -341,34 +498,108 @@ export function ScheduledTransactions() {
                     setFormData({
                       ...formData,
                       frequency: e.target.value as ScheduledFrequency,
+                      intervalMonths: e.target.value === "everyNMonths" ? formData.intervalMonths ?? 2 : undefined,
                     })
                   }
                 >
-                  <option value="monthly">Monthly</option>
-                  <option value="yearly">Yearly</option>
+                  {(Object.keys(FREQUENCY_LABELS) as ScheduledFrequency[]).map((frequency) => (
+                    <option key={frequency} value={frequency}>
+                      {FREQUENCY_LABELS[frequency]}
+                    </option>
+                  ))}
                 </select>
               </div>
 
+              {formData.frequency === "everyNMonths" && (
+                <div>
+                  <label className="block text-sm font-medium text-slate-700">
+                    Repeat every (months)
+                  </label>
+                  <input
+                    type="number"
+                    min="1"
+                    max="120"
+                    className="mt-1 w-full rounded-md border border-slate-300 px-3 py-2 text-sm"
+                    value={formData.intervalMonths ?? ""}
+                    onChange={(e) =>
+                      setFormData({
+                        ...formData,
+                        intervalMonths: parseInt(e.target.value, 10) || undefined,
+                      })
+                    }
+                  />
+                </div>
+              )}
+
+              <div>
+                <div className="flex items-center">
+                  <label className="block text-sm font-medium text-slate-700">
+                    Start date{formData.frequency === "monthly" ? " (optional)" : ""}
+                  </label>
+                  <Tooltip
+                    title="Start and end dates"
+                    className="ml-1"
+                  >
+                    <div className="space-y-2">
+                      <p className="text-slate-700">
+                        Nothing is expected before the start date or after the end date.
+                        Weekly and fortnightly items repeat from the start date, and quarterly,
+                        yearly and every-N-months items fall in the start date's month and every
+                        interval after it.
+                      </p>
+                      <p className="text-xs text-slate-600">
+                        <strong>Example:</strong> A quarterly insurance premium starting 2026-02-10
+                        is expected in February, May, August and November.
+                      </p>
+                    </div>
+                  </Tooltip>
+                </div>
+                <input
+                  type="date"
+                  className="mt-1 w-full rounded-md border border-slate-300 px-3 py-2 text-sm"
+                  value={formData.startDate ?? ""}
+                  onChange={(e) =>
+                    setFormData({ ...formData, startDate: e.target.value || undefined })
+                  }
+                />
+              </div>
+
               <div>
                 <label className="block text-sm font-medium text-slate-700">
-                  Rule
+                  End date (optional)
                 </label>
-                <select
+                <input
+                  type="date"
                   className="mt-1 w-full rounded-md border border-slate-300 px-3 py-2 text-sm"
-                  value={formData.rule}
+                  value={formData.endDate ?? ""}
                   onChange={(e) =>
-                    setFormData({
-                      ...formData,
-                      rule: e.target.value as ScheduledRule,
-                    })
+                    setFormData({ ...formData, endDate: e.target.value || undefined })
                   }
-                >
-                  <option value="dayOfMonth">Day of Month</option>
-                  <option value="endOfMonth">End of Month</option>
-                </select>
+                />
               </div>
 
-              {formData.rule === "dayOfMonth" && (
+              {formData.frequency !== "weekly" && formData.frequency !== "fortnightly" && (
+                <div>
+                  <label className="block text-sm font-medium text-slate-700">
+                    Rule
+                  </label>
+                  <select
+                    className="mt-1 w-full rounded-md border border-slate-300 px-3 py-2 text-sm"
+                    value={formData.rule}
+                    onChange={(e) =>
+                      setFormData({
+                        ...formData,
+                        rule: e.target.value as ScheduledRule,
+                      })
+                    }
+                  >
+                    <option value="dayOfMonth">Day of Month</option>
+                    <option value="endOfMonth">End of Month</option>
+                  </select>
+                </div>
+              )}
+
+              {formData.frequency !== "weekly" && formData.frequency !== "fortnightly" && formData.rule === "dayOfMonth" && (
                 <div>
                   <label className="block text-sm font-medium text-slate-700">
                     Day (1-31)
@@ -406,7 +637,8 @@ export function ScheduledTransactions() {
                         <div>
                           <div className="font-medium text-slate-900">• Amount Only</div>
                           <p className="text-xs text-slate-600">
-                            Matches when a transaction with the same amount exists in the same month.
+                            Matches when a transaction with the same amount (or within the amount
+                            tolerance) exists in the same month, or within the match window if set.
                           </p>
                           <p className="text-xs text-slate-500 italic">
                             Example: Scheduled Rent = SGD 1,800; Transaction: Living – SGD 1,800 → Matched
@@ -473,6 +705,96 @@ export function ScheduledTransactions() {
                 </div>
               )}
 
+              {formData.matchMode !== "keyword" && (
+                <div>
+                  <div className="flex items-center">
+                    <label className="block text-sm font-medium text-slate-700">
+                      Amount tolerance (optional)
+                    </label>
+                    <Tooltip
+                      title="Amount tolerance"
+                      className="ml-1"
+                    >
+                      <div className="space-y-2">
+                        <p className="text-slate-700">
+                          For bills that vary, how far the actual amount may be from the expected
+                          amount and still match. Leave empty to require the exact amount.
+                        </p>
+                        <p className="text-xs text-slate-600">
+                          <strong>Example:</strong> Electricity expected at SGD 120 with a 15% tolerance
+                          matches anything from SGD 102 to SGD 138.
+                        </p>
+                      </div>
+                    </Tooltip>
+                  </div>
+                  <div className="mt-1 flex gap-2">
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      className="w-full rounded-md border border-slate-300 px-3 py-2 text-sm"
+                      value={formData.amountTolerance ?? ""}
+                      onChange={(e) =>
+                        setFormData({
+                          ...formData,
+                          amountTolerance: e.target.value === "" ? undefined : parseFloat(e.target.value) || 0,
+                        })
+                      }
+                    />
+                    <select
+                      className="rounded-md border border-slate-300 px-3 py-2 text-sm"
+                      value={formData.amountToleranceType ?? "absolute"}
+                      onChange={(e) =>
+                        setFormData({
+                          ...formData,
+                          amountToleranceType: e.target.value as ScheduledToleranceType,
+                        })
+                      }
+                    >
+                      <option value="absolute">Amount</option>
+                      <option value="percent">%</option>
+                    </select>
+                  </div>
+                </div>
+              )}
+
+              <div>
+                <div className="flex items-center">
+                  <label className="block text-sm font-medium text-slate-700">
+                    Match window (± days, optional)
+                  </label>
+                  <Tooltip
+                    title="Match window"
+                    className="ml-1"
+                  >
+                    <div className="space-y-2">
+                      <p className="text-slate-700">
+                        How many days before or after the expected date a payment can be and still
+                        match, even if that falls in another month. Leave empty to match anywhere in
+                        the same month.
+                      </p>
+                      <p className="text-xs text-slate-600">
+                        <strong>Example:</strong> A bill expected on the 28th with a 5-day window
+                        matches a payment made on the 2nd of the next month.
+                      </p>
+                    </div>
+                  </Tooltip>
+                </div>
+                <input
+                  type="number"
+                  min="0"
+                  max="31"
+                  className="mt-1 w-full rounded-md border border-slate-300 px-3 py-2 text-sm"
+                  value={formData.matchWindowDays ?? ""}
+                  onChange={(e) =>
+                    setFormData({
+                      ...formData,
+                      matchWindowDays: e.target.value === "" ? undefined : parseInt(e.target.value, 10) || 0,
+                    })
+                  }
+                />
+              </div>
+
               <div>
                 <label className="block text-sm font-medium text-slate-700">
                   Note (optional)
@@ -501,6 +823,17 @@ export function ScheduledTransactions() {
                 />
                 Active
               </label>
+              <label className="flex items-center gap-2 text-sm font-medium text-slate-700">
+                <input
+                  type="checkbox"
+                  className="rounded border-slate-300"
+                  checked={formData.autoPost ?? false}
+                  onChange={(e) =>
+                    setFormData({ ...formData, autoPost: e.target.checked || undefined })
+                  }
+                />
+                Post automatically as pending on the expected date
+              </label>
             </div>
 
             <div className="flex gap-3">
@@ -536,25 +869,28 @@ export function ScheduledTransactions() {
                     {template.name}
                   </div>
                   <div className="text-xs text-slate-600">
-                    {template.category} • {template.direction === "out" ? "Expense" : "Income"} •{" "}
-                    {formatMoney(template.amount)} • {template.frequency}{" "}
+                    {categoryLabel(categories, template.category)} • {template.direction === "out" ? "Expense" : "Income"} •{" "}
+                    {formatMoney(template.amount)} • {describeSchedule(template)}{" "}
+                    {template.autoPost && "• Auto-post "}
                     {!template.active && "• (Inactive)"}
                   </div>
                 </div>
-                <div className="flex gap-2">
-                  <button
-                    className="rounded-md border border-slate-300 bg-white px-2 py-1 text-xs hover:bg-slate-100"
-                    onClick={() => handleEditClick(template.id)}
-                  >
-                    Edit
-                  </button>
-                  <button
-                    className="rounded-md border border-red-300 bg-red-50 px-2 py-1 text-xs text-red-700 hover:bg-red-100"
-                    onClick={() => handleDeleteTemplate(template.id)}
-                  >
-                    Delete
-                  </button>
-                </div>
+                {!isReadOnly && (
+                  <div className="flex gap-2">
+                    <button
+                      className="rounded-md border border-slate-300 bg-white px-2 py-1 text-xs hover:bg-slate-100"
+                      onClick={() => handleEditClick(template.id)}
+                    >
+                      Edit
+                    </button>
+                    <button
+                      className="rounded-md border border-red-300 bg-red-50 px-2 py-1 text-xs text-red-700 hover:bg-red-100"
+                      onClick={() => handleDeleteTemplate(template.id)}
+                    >
+                      Delete
+                    </button>
+                  </div>
+                )}
               </div>
             ))}
           </div>
@@ -576,7 +912,7 @@ export function ScheduledTransactions() {
         <LockBanner period={selectedMonth} locked={isMonthLocked} />
 
         {/* Totals */}
-        <div className="mt-4 grid gap-4 md:grid-cols-3">
+        <div className="mt-4 grid gap-4 md:grid-cols-4">
           <div className="rounded-lg border border-slate-200 bg-slate-50 p-4">
             <div className="text-sm text-slate-600">Expected</div>
             <div className="mt-1 text-xl font-semibold text-slate-900">
@@ -589,6 +925,12 @@ export function ScheduledTransactions() {
               {formatMoney(totals.matched)}
             </div>
           </div>
+          <div className="rounded-lg border border-slate-200 bg-blue-50 p-4">
+            <div className="text-sm text-blue-700">Pending</div>
+            <div className="mt-1 text-xl font-semibold text-blue-700">
+              {formatMoney(totals.pending)}
+            </div>
+          </div>
           <div className="rounded-lg border border-slate-200 bg-amber-50 p-4">
             <div className="text-sm text-amber-700">Missing</div>
             <div className="mt-1 text-xl font-semibold text-amber-700">
@@ -611,7 +953,8 @@ export function ScheduledTransactions() {
                 <div className="space-y-2">
                   <p className="text-slate-700">
                     This is the date Stewardly expects this scheduled transaction to occur
-                    based on its schedule rule (day of month or end of month).
+                    based on its schedule rule (day of month or end of month). Weekly and
+                    fortnightly items appear once for each date in the month.
                   </p>
                   <p className="text-xs text-slate-600">
                     <span className="font-medium text-slate-900">Example:</span> If Rent is scheduled for 'End of Month',
@@ -633,12 +976,13 @@ export function ScheduledTransactions() {
                   <p className="text-xs text-slate-600">
                     <span className="font-medium text-slate-900">Example:</span> Rent expected = SGD 2,000.
                     If the actual transaction is SGD 2,000, it will be marked as matched.
+                    When a bill matches within its tolerance, the difference is shown below the amount.
                   </p>
                 </div>
               </Tooltip>
               <span>Expected</span>
             </div>
-            <div className="col-span-2 flex items-center justify-end">
+            <div className="col-span-3 flex items-center justify-end">
               <Tooltip
                 title="Status / Action"
                 className="ml-1"
@@ -652,12 +996,15 @@ export function ScheduledTransactions() {
                     <p className="font-medium text-slate-900">Statuses:</p>
                     <p>• Missing – No matching transaction found yet.</p>
                     <p>• Matched – A matching transaction already exists.</p>
+                    <p>• Pending – Posted automatically; counts as expected until you confirm it.</p>
+                    <p>• Skipped – Not happening this time; left out of the totals.</p>
                     <p>• Inactive – This scheduled item is turned off.</p>
                   </div>
                   <div className="text-xs text-slate-600">
                     <p className="font-medium text-slate-900">Action:</p>
                     <p>When missing and the month is unlocked, you can click 'Post'
-                    to create the actual transaction automatically.</p>
+                    to create the actual transaction automatically, or 'Skip' it.
+                    Pending entries can be confirmed, edited or skipped.</p>
                   </div>
                   <p className="text-xs text-slate-600 italic">
                     <span className="font-medium text-slate-900">Example:</span> Rent shows 'Matched' after you post or record the rent payment.
@@ -671,32 +1018,68 @@ export function ScheduledTransactions() {
             <div className="divide-y divide-slate-200">
             {projectedRows.length === 0 ? (
               <div className="px-4 py-6 text-sm text-slate-600">
-                No active templates for this period.
+                No scheduled items fall in this period.
               </div>
             ) : (
-              projectedRows.map((row) => (
-                <div key={row.template.id} className="grid grid-cols-12 items-center px-4 py-2 text-sm">
+              projectedRows.map((row) => {
+                const entry = row.status === "pending" ? pendingById.get(row.matchedTransactionId ?? "") : undefined;
+                const canAct = !isReadOnly && !isMonthLocked;
+                return (
+                <div key={`${row.template.id}-${row.expectedDateISO}`} className="px-4 py-2 text-sm">
+                <div className="grid grid-cols-12 items-center">
                   <div className="col-span-3 font-medium text-slate-900">
                     {row.template.name}
                   </div>
                   <div className="col-span-2 text-slate-600">
-                    {row.template.category}
+                    {categoryLabel(categories, row.template.category)}
                   </div>
                   <div className="col-span-2 text-slate-600">
                     {row.expectedDateISO}
                   </div>
                   <div className="col-span-2 text-right font-medium text-slate-900">
                     {formatMoney(row.template.amount)}
+                    {row.variance !== undefined && row.variance !== 0 && (
+                      <div
+                        className={`text-xs font-normal ${
+                          (row.template.direction === "out") === row.variance > 0 ? "text-amber-700" : "text-emerald-700"
+                        }`}
+                      >
+                        {formatVariance(row.variance, row.template.amount)}
+                      </div>
+                    )}
                   </div>
-                  <div className="col-span-2 flex justify-end gap-2">
+                  <div className="col-span-3 flex items-center justify-end gap-2">
                     {row.status === "matched" && (
                       <span className="text-xs font-medium text-emerald-700">
                         ✓ Matched
                       </span>
                     )}
+                    {row.status === "pending" && (
+                      <>
+                        <span className="text-xs font-medium text-blue-700">
+                          Pending{entry && entry.date !== row.expectedDateISO ? ` · ${entry.date}` : ""}
+                        </span>
+                        {canAct && entry && (
+                          <>
+                            <button
+                              className="rounded-md border border-emerald-300 bg-emerald-50 px-2 py-1 text-xs text-emerald-700 hover:bg-emerald-100"
+                              onClick={() => handleConfirmEntry(entry.id)}
+                            >
+                              Confirm
+                            </button>
+                            <button
+                              className="rounded-md border border-slate-300 bg-white px-2 py-1 text-xs hover:bg-slate-100"
+                              onClick={() => setEditingEntry({ id: entry.id, date: entry.date, amount: entry.amount })}
+                            >
+                              Edit
+                            </button>
+                          </>
+                        )}
+                      </>
+                    )}
                     {row.status === "missing" && (
                       <>
-                        {!isMonthLocked ? (
+                        {isReadOnly ? null : !isMonthLocked ? (
                           <button
                             className="rounded-md border border-slate-300 bg-white px-2 py-1 text-xs hover:bg-slate-100"
                             onClick={() =>
@@ -713,12 +1096,65 @@ export function ScheduledTransactions() {
                         )}
                       </>
                     )}
+                    {(row.status === "missing" || row.status === "pending") && canAct && (
+                      <button
+                        className="rounded-md border border-slate-300 bg-white px-2 py-1 text-xs text-slate-600 hover:bg-slate-100"
+                        onClick={() => handleSkipOccurrence(row.template.id, row.expectedDateISO)}
+                      >
+                        Skip
+                      </button>
+                    )}
+                    {row.status === "skipped" && (
+                      <>
+                        <span className="text-xs text-slate-400">Skipped</span>
+                        {canAct && (
+                          <button
+                            className="text-xs text-slate-600 underline"
+                            onClick={() => handleRestoreOccurrence(row.template.id, row.expectedDateISO)}
+                          >
+                            Undo
+                          </button>
+                        )}
+                      </>
+                    )}
                     {row.status === "inactive" && (
                       <span className="text-xs text-slate-400">Inactive</span>
                     )}
                   </div>
                 </div>
-              ))
+                {entry && editingEntry?.id === entry.id && (
+                  <div className="mt-2 flex items-center justify-end gap-2">
+                    <input
+                      type="date"
+                      className="rounded-md border border-slate-300 px-2 py-1 text-xs"
+                      value={editingEntry.date}
+                      onChange={(e) => setEditingEntry({ ...editingEntry, date: e.target.value })}
+                    />
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      className="w-28 rounded-md border border-slate-300 px-2 py-1 text-right text-xs"
+                      value={editingEntry.amount}
+                      onChange={(e) => setEditingEntry({ ...editingEntry, amount: parseFloat(e.target.value) || 0 })}
+                    />
+                    <button
+                      className="rounded-md bg-slate-900 px-2 py-1 text-xs text-white hover:bg-slate-800"
+                      onClick={handleSaveEntry}
+                    >
+                      Save
+                    </button>
+                    <button
+                      className="rounded-md border border-slate-300 bg-white px-2 py-1 text-xs hover:bg-slate-100"
+                      onClick={() => setEditingEntry(null)}
+                    >
+                      Cancel
+                    </button>
+                  </div>
+                )}
+                </div>
+                );
+              })
             )}
           </div>
           </div>
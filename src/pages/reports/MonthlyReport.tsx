@@ -5,7 +5,8 @@ import html2canvas from "html2canvas";
 import { useTransactions } from "../../state/useTransactions";
 import { useIncome } from "../../state/useIncome";
 import { useScheduledTemplates } from "../../state/useScheduledTemplates";
-import { sumByCategory } from "../../utils/transactionsMath";
+import { usePendingTransactions } from "../../state/usePendingTransactions";
+import { categoryLines, isTransfer, sumByCategory, sumBySubcategory } from "../../utils/transactionsMath";
 import { filterIncomeByPeriod, sumIncome } from "../../utils/incomeMath";
 import {
   getCurrentPeriod,
@@ -13,6 +14,8 @@ import {
 } from "../../utils/periods";
 import { getSnapshot, subscribeSnapshots } from "../../state/periodSnapshotStore";
 import { getPlanForPeriod } from "../../utils/snapshotHelper";
+import { useFxRates } from "../../state/useFxRates";
+import { createFxConverter, amountInBase, findUnconvertedCurrencies } from "../../utils/fxMath";
 import {
   hasSnapshot,
   regenerateSnapshot,
@@ -20,7 +23,13 @@ import {
   unlockPeriod,
 } from "../../state/periodLockService";
 import { isPeriodLocked, subscribeLocks } from "../../state/periodLocksStore";
-import { projectScheduledTransactions, expectedTotal, matchedTotal, missingTotal } from "../../utils/scheduledMath";
+import { RoleBanner } from "../../components/common/RoleBanner";
+import { useHouseholdRole } from "../../state/useHouseholdRole";
+import { roleAllows, getRoleRestrictionMessage } from "../../utils/roleGuard";
+import { projectScheduledTransactions, expectedTotal, matchedTotal, missingTotal, pendingTotal } from "../../utils/scheduledMath";
+import { useCategories } from "../../state/useCategories";
+import type { CategoryName } from "../../constants/categories";
+import { categoryLabel, transactionCategoryLabel } from "../../utils/categoryTree";
 
 function formatMoney(amount: number, currency = "SGD") {
   try {
@@ -56,7 +65,10 @@ function toPeriodKey(value: string | null | undefined): string | null {
 export function MonthlyReport() {
   const transactions = useTransactions();
   const incomeItems = useIncome();
+  const liveFxRates = useFxRates();
+  const categories = useCategories();
   const scheduledTemplates = useScheduledTemplates();
+  const pendingTransactions = usePendingTransactions();
   const [selectedMonth, setSelectedMonth] = useState<string>(getCurrentPeriod());
   const [snapTick, setSnapTick] = useState(0);
   const [lockTick, setLockTick] = useState(0);
@@ -65,6 +77,7 @@ export function MonthlyReport() {
   const [lockError, setLockError] = useState<string | null>(null);
   const [lockSuccess, setLockSuccess] = useState<string | null>(null);
   const [unlockConfirm, setUnlockConfirm] = useState(false);
+  const role = useHouseholdRole();
   const [isGeneratingPDF, setIsGeneratingPDF] = useState(false);
 
   // Subscribe to locks and snapshots for re-render
@@ -93,39 +106,10 @@ export function MonthlyReport() {
     [incomeItems, selectedMonth]
   );
 
-  const totalIncome = useMemo(() => sumIncome(incomeForMonth), [incomeForMonth]);
-
-  // Expense transactions only
-  const expenseTransactions = useMemo(
-    () => filteredTransactions.filter((tx) => tx.direction === "out"),
-    [filteredTransactions]
-  );
-
-  const totalExpenses = useMemo(
-    () => expenseTransactions.reduce((sum, tx) => sum + tx.amount, 0),
-    [expenseTransactions]
-  );
-
-  const net = useMemo(() => totalIncome - totalExpenses, [totalIncome, totalExpenses]);
-
   // Normalize selected month to YYYY-MM format for all lock operations
   const selectedPeriodKey = useMemo(() => {
     return toPeriodKey(selectedMonth);
   }, [selectedMonth]);
-  const actualOutByCategory = useMemo(
-    () => sumByCategory(expenseTransactions),
-    [expenseTransactions]
-  );
-
-  // Backward compatibility totals object (now based on income records)
-  const totals = useMemo(
-    () => ({
-      totalIn: totalIncome,
-      totalOut: totalExpenses,
-      net: net,
-    }),
-    [totalIncome, totalExpenses, net]
-  );
 
   // Get snapshot and plan for view using snapshot-aware helper
   const snapshot = useMemo(
@@ -147,16 +131,67 @@ export function MonthlyReport() {
 
   const currencyForView = planForView?.currency ?? "SGD";
 
+  // Locked months show categories under the names they had at lock time
+  const frozenNames = planForView?.source === "snapshot" ? snapshot?.categoryNames : undefined;
+
+  // Convert into the plan's base currency (locked months use their frozen rates)
+  const fx = useMemo(
+    () =>
+      createFxConverter(currencyForView, planForView?.source === "snapshot" ? planForView.fxRates : liveFxRates),
+    [currencyForView, planForView, liveFxRates]
+  );
+
+  const unconvertedCurrencies = useMemo(
+    () => findUnconvertedCurrencies([...filteredTransactions, ...incomeForMonth], fx),
+    [filteredTransactions, incomeForMonth, fx]
+  );
+
+  const totalIncome = useMemo(() => sumIncome(incomeForMonth, fx), [incomeForMonth, fx]);
+
+  // Expense transactions only
+  const expenseTransactions = useMemo(
+    () => filteredTransactions.filter((tx) => tx.direction === "out" && !isTransfer(tx)),
+    [filteredTransactions]
+  );
+
+  const totalExpenses = useMemo(
+    () => expenseTransactions.reduce((sum, tx) => sum + amountInBase(tx, fx), 0),
+    [expenseTransactions, fx]
+  );
+
+  const net = useMemo(() => totalIncome - totalExpenses, [totalIncome, totalExpenses]);
+
+  const actualOutByCategory = useMemo(
+    () => sumByCategory(expenseTransactions, fx),
+    [expenseTransactions, fx]
+  );
+
+  const actualOutBySubcategory = useMemo(
+    () => sumBySubcategory(expenseTransactions, fx),
+    [expenseTransactions, fx]
+  );
+
+  // Backward compatibility totals object (now based on income records)
+  const totals = useMemo(
+    () => ({
+      totalIn: totalIncome,
+      totalOut: totalExpenses,
+      net: net,
+    }),
+    [totalIncome, totalExpenses, net]
+  );
+
   // Compute scheduled transactions projection
   const scheduledProjection = useMemo(() => {
     if (!selectedPeriodKey) return [];
-    return projectScheduledTransactions(scheduledTemplates, transactions as any, selectedPeriodKey);
-  }, [scheduledTemplates, transactions, selectedPeriodKey]);
+    return projectScheduledTransactions(scheduledTemplates, [...transactions, ...pendingTransactions], selectedPeriodKey);
+  }, [scheduledTemplates, transactions, pendingTransactions, selectedPeriodKey]);
 
   const scheduledSummary = useMemo(() => {
     return {
       expected: expectedTotal(scheduledProjection),
       matched: matchedTotal(scheduledProjection),
+      pending: pendingTotal(scheduledProjection),
       missing: missingTotal(scheduledProjection),
       missingCount: scheduledProjection.filter((r) => r.status === "missing").length,
     };
@@ -276,19 +311,23 @@ export function MonthlyReport() {
 
   function handleExportCSV() {
     // Build CSV with header row
-    const csvRows: string[] = ["Date,Category,Direction,Amount,Note"];
+    const csvRows: string[] = ["Date,Category,Subcategory,Direction,Amount,Note"];
+    const csvText = (value: string) => `"${value.replace(/"/g, '""')}"`;
 
-    // Add transaction rows
+    // Add transaction rows (one per line of a split transaction)
     filteredTransactions.forEach((tx) => {
       const escapedNote = (tx.note || "").replace(/"/g, '""');
-      const row = [
-        tx.date,
-        tx.category,
-        tx.direction,
-        tx.amount.toString(),
-        `"${escapedNote}"`,
-      ];
-      csvRows.push(row.join(","));
+      for (const line of categoryLines(tx)) {
+        const row = [
+          tx.date,
+          csvText(categoryLabel(categories, line.category, frozenNames)),
+          csvText(line.subcategory ? categoryLabel(categories, line.subcategory, frozenNames) : ""),
+          tx.direction,
+          line.amount.toString(),
+          `"${escapedNote}"`,
+        ];
+        csvRows.push(row.join(","));
+      }
     });
 
     const csvContent = csvRows.join("\n");
@@ -329,8 +368,10 @@ export function MonthlyReport() {
             <button
               className="rounded-lg border border-amber-300 bg-amber-50 px-3 py-2 text-sm font-medium text-amber-900 hover:bg-amber-100"
               onClick={handleLockMonth}
-              disabled={snapshotMissing}
-              title="Create snapshot and lock this period"
+              disabled={snapshotMissing || !roleAllows(role, "lock")}
+              title={
+                roleAllows(role, "lock") ? "Create snapshot and lock this period" : getRoleRestrictionMessage("lock")
+              }
             >
               Lock Month
             </button>
@@ -359,8 +400,8 @@ export function MonthlyReport() {
                 <button
                   className="rounded-lg border border-slate-300 bg-white px-3 py-2 text-sm font-medium text-slate-700 hover:bg-slate-50"
                   onClick={() => setUnlockConfirm(true)}
-                  disabled={snapshotMissing}
-                  title="Unlock this period"
+                  disabled={snapshotMissing || !roleAllows(role, "unlock")}
+                  title={roleAllows(role, "unlock") ? "Unlock this period" : getRoleRestrictionMessage("unlock")}
                 >
                   Unlock Month
                 </button>
@@ -396,12 +437,14 @@ export function MonthlyReport() {
           <div className="text-sm text-red-900">
             This period is locked, but the plan snapshot is missing. Regenerate to view allocations.
           </div>
-          <button
-            className="rounded-lg border border-red-300 bg-red-100 px-3 py-2 text-sm font-medium text-red-900 hover:bg-red-200"
-            onClick={handleRegenerateSnapshot}
-          >
-            Regenerate snapshot
-          </button>
+          {roleAllows(role, "lock") && (
+            <button
+              className="rounded-lg border border-red-300 bg-red-100 px-3 py-2 text-sm font-medium text-red-900 hover:bg-red-200"
+              onClick={handleRegenerateSnapshot}
+            >
+              Regenerate snapshot
+            </button>
+          )}
           {regenerateError && (
             <div className="rounded-lg border border-red-300 bg-red-50 p-3 text-sm text-red-900">
               {regenerateError}
@@ -428,7 +471,12 @@ export function MonthlyReport() {
             })}
           </div>
         </div>
-      )}      {lockError && (
+      )}
+      <div className="print:hidden">
+        <RoleBanner action={isLocked ? "unlock" : "lock"} />
+      </div>
+
+      {lockError && (
         <div className="rounded-lg border border-red-300 bg-red-50 p-4 text-sm text-red-900">
           <div className="font-semibold">Lock Failed</div>
           <div className="mt-1">{lockError}</div>
@@ -482,9 +530,27 @@ export function MonthlyReport() {
               </span>
             </div>
           )}
+          {snapshot?.fxRates && isLocked && (
+            <div className="flex justify-between border-b border-slate-200 pb-2">
+              <span className="text-sm text-slate-600">Exchange Rates</span>
+              <span className="text-sm font-semibold text-slate-900">
+                Frozen at lock ({snapshot.fxRates.length})
+              </span>
+            </div>
+          )}
         </div>
         </div>
 
+        {unconvertedCurrencies.length > 0 && (
+          <div className="rounded-lg border border-amber-300 bg-amber-50 p-4 text-sm text-amber-900">
+            <div className="font-semibold">Missing exchange rates</div>
+            <div className="mt-1">
+              No rate into {fx.base} for {unconvertedCurrencies.join(", ")} on some dates; those amounts are counted
+              unconverted. Add rates under Settings → Exchange Rates.
+            </div>
+          </div>
+        )}
+
         {/* Totals Section */}
         <div className="rounded-lg border border-slate-200 bg-white p-6 print-avoid-break">
         <h2 className="text-lg font-semibold">Totals</h2>
@@ -526,6 +592,11 @@ export function MonthlyReport() {
                 <div className="mt-2 text-xl font-semibold text-slate-900">
                   {formatMoney(scheduledSummary.expected, currencyForView)}
                 </div>
+                {scheduledSummary.pending > 0 && (
+                  <div className="mt-1 text-xs text-slate-600">
+                    incl. {formatMoney(scheduledSummary.pending, currencyForView)} pending confirmation
+                  </div>
+                )}
               </div>
 
               <div className="rounded-lg border border-slate-200 bg-emerald-50 p-4">
@@ -570,6 +641,7 @@ export function MonthlyReport() {
                 const actualAmount = actualOutByCategory.get(target.category) ?? 0;
                 const varianceAmount = actualAmount - plannedAmount;
                 const isOver = varianceAmount > 0;
+                const subcategoryTotals = [...(actualOutBySubcategory.get(target.category) ?? new Map<CategoryName, number>())];
 
                 return (
                   <div
@@ -579,7 +651,13 @@ export function MonthlyReport() {
                     }`}
                   >
                     <div className="col-span-3 font-medium text-slate-900">
-                      {target.category}
+                      {categoryLabel(categories, target.category, frozenNames)}
+                      {subcategoryTotals.map(([sub, amount]) => (
+                        <div key={sub} className="flex justify-between pl-3 text-xs font-normal text-slate-500">
+                          <span>{categoryLabel(categories, sub, frozenNames)}</span>
+                          <span>{formatMoney(amount, currencyForView)}</span>
+                        </div>
+                      ))}
                     </div>
                     <div className="col-span-3 text-right text-slate-700">
                       {formatMoney(plannedAmount, currencyForView)}
@@ -641,7 +719,9 @@ export function MonthlyReport() {
               {filteredTransactions.map((tx, idx) => (
                 <div key={tx.id ?? `${tx.date}-${tx.category}-${tx.amount}-${idx}`} className="grid grid-cols-12 gap-2 items-center px-4 py-3 text-sm">
                   <div className="col-span-2 text-slate-600">{formatDate(tx.date)}</div>
-                  <div className="col-span-2 font-medium text-slate-900">{tx.category}</div>
+                  <div className="col-span-2 font-medium text-slate-900">
+                    {transactionCategoryLabel(categories, tx, frozenNames)}
+                  </div>
                   <div className="col-span-4 text-slate-600">{tx.note || "-"}</div>
                   <div className="col-span-2 text-right">
                     <span
@@ -659,7 +739,7 @@ export function MonthlyReport() {
                       tx.direction === "in" ? "text-emerald-700" : "text-red-700"
                     }`}
                   >
-                    {formatMoney(tx.amount, currencyForView)}
+                    {formatMoney(tx.amount, tx.currency ?? currencyForView)}
                   </div>
                 </div>
               ))}
@@ -0,0 +1,237 @@
+/**
+ * Backup & Restore Page
+ * Download a full JSON backup and restore it (merge or replace) after a preview
+ */
+
+import { useState } from "react";
+import {
+  createBackup,
+  parseBackup,
+  planRestore,
+  applyRestore,
+  type StewardlyBackup,
+  type RestoreMode,
+} from "../../state/backupService";
+import { RoleBanner } from "../../components/common/RoleBanner";
+import { useHouseholdRole } from "../../state/useHouseholdRole";
+import { roleAllows } from "../../utils/roleGuard";
+
+export function Backup() {
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+  const [fileName, setFileName] = useState("");
+  const [backup, setBackup] = useState<StewardlyBackup | null>(null);
+  const [mode, setMode] = useState<RestoreMode>("merge");
+  const [confirmReplace, setConfirmReplace] = useState(false);
+  const role = useHouseholdRole();
+
+  // Recomputed each render so the preview reflects current local data
+  const plan = backup ? planRestore(backup, mode) : null;
+  // Replace can drop local locks, so it is owner-only like unlocking
+  const restoreAction = mode === "replace" ? "unlock" : "edit";
+  const replaceBlocked = mode === "replace" && (plan?.missingSections.length ?? 0) > 0;
+  const canRestore = roleAllows(role, restoreAction) && (mode === "merge" || (confirmReplace && !replaceBlocked));
+
+  async function handleDownload() {
+    setError(null);
+    setSuccess(null);
+    try {
+      const data = await createBackup();
+      const blob = new Blob([JSON.stringify(data, null, 2)], { type: "application/json" });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = `stewardly-backup-${data.createdAt.slice(0, 10)}.json`;
+      a.click();
+      URL.revokeObjectURL(url);
+      setSuccess("Backup downloaded.");
+    } catch (err) {
+      setError(`Could not create backup: ${(err as Error).message}`);
+    }
+  }
+
+  async function handleFile(file: File | undefined) {
+    setError(null);
+    setSuccess(null);
+    setBackup(null);
+    setConfirmReplace(false);
+    if (!file) {
+      setFileName("");
+      return;
+    }
+    try {
+      const content = await file.text();
+      setFileName(file.name);
+      const result = await parseBackup(content);
+      if (!result.ok) {
+        setError(result.reason);
+        return;
+      }
+      setBackup(result.backup);
+    } catch (err) {
+      setError(`Could not read file: ${(err as Error).message}`);
+    }
+  }
+
+  async function handleRestore() {
+    if (!plan) return;
+    if (plan.mode === "replace" && !confirmReplace) {
+      setError("Confirm that local data will be replaced before restoring.");
+      return;
+    }
+
+    const result = await applyRestore(plan);
+    if (!result.ok) {
+      setError(result.reason);
+      return;
+    }
+
+    // Reload so every store and page re-reads storage
+    window.location.reload();
+  }
+
+  return (
+    <div className="space-y-6">
+      <h1 className="text-3xl font-bold">Backup &amp; Restore</h1>
+
+      {error && (
+        <div className="rounded-lg border border-red-300 bg-red-50 p-4 text-sm text-red-900">
+          <div className="font-semibold">Error</div>
+          <div className="mt-1">{error}</div>
+        </div>
+      )}
+
+      {success && (
+        <div className="rounded-lg border border-emerald-300 bg-emerald-50 p-4 text-sm text-emerald-900">
+          {success}
+        </div>
+      )}
+
+      {/* Backup */}
+      <div className="rounded-lg border border-slate-200 bg-white p-6">
+        <h2 className="text-lg font-semibold">Download backup</h2>
+        <p className="mt-1 text-sm text-slate-600">
+          One JSON file with transactions, income, plans, period locks and snapshots, scheduled templates,
+          assets, liabilities, import profiles and category rules.
+        </p>
+        <button
+          className="mt-4 rounded-lg bg-slate-900 px-4 py-2 text-sm font-medium text-white"
+          onClick={handleDownload}
+        >
+          Download backup
+        </button>
+      </div>
+
+      {/* Restore */}
+      <div className="rounded-lg border border-slate-200 bg-white p-6">
+        <h2 className="text-lg font-semibold">Restore from backup</h2>
+        <p className="mt-1 text-sm text-slate-600">
+          The file is checked before anything changes. Review the summary, then restore.
+        </p>
+
+        <div className="mt-3">
+          <RoleBanner action={restoreAction} />
+        </div>
+
+        <div className="mt-4 grid gap-3 md:grid-cols-12">
+          <div className="md:col-span-6">
+            <label className="text-sm font-medium text-slate-700">Backup file</label>
+            <input
+              type="file"
+              accept=".json,application/json"
+              className="mt-1 w-full text-sm"
+              onChange={(e) => handleFile(e.target.files?.[0])}
+            />
+          </div>
+
+          <div className="md:col-span-6">
+            <label className="text-sm font-medium text-slate-700">Mode</label>
+            <select
+              className="mt-1 w-full rounded-md border border-slate-300 px-3 py-2 text-sm"
+              value={mode}
+              onChange={(e) => {
+                setMode(e.target.value as RestoreMode);
+                setConfirmReplace(false);
+              }}
+            >
+              <option value="merge">Merge into local data</option>
+              <option value="replace">Replace local data</option>
+            </select>
+          </div>
+        </div>
+
+        <p className="mt-3 text-sm text-slate-600">
+          {mode === "merge"
+            ? "Merge adds and updates records by id. Locked periods on this device are kept as they are: their transactions, income and snapshots are not overwritten."
+            : "Replace discards local data and uses the backup exactly, including its locks and snapshots."}
+        </p>
+
+        {backup && plan && (
+          <div className="mt-6 space-y-4">
+            <div className="text-sm text-slate-600">
+              {fileName} · created {backup.createdAt ? new Date(backup.createdAt).toLocaleString() : "unknown"} ·
+              format v{backup.version} · checksum verified
+            </div>
+
+            <div className="overflow-hidden rounded-lg border border-slate-200">
+              <div className="grid grid-cols-12 gap-2 bg-slate-50 px-4 py-2 text-xs font-semibold uppercase tracking-wide text-slate-600">
+                <div className="col-span-4">Section</div>
+                <div className="col-span-1 text-right">Local</div>
+                <div className="col-span-1 text-right">Backup</div>
+                <div className="col-span-1 text-right">Added</div>
+                <div className="col-span-1 text-right">Updated</div>
+                <div className="col-span-2 text-right">Removed</div>
+                <div className="col-span-2 text-right">Kept (locked)</div>
+              </div>
+              {plan.summary.map((s) => (
+                <div key={s.section} className="grid grid-cols-12 gap-2 border-t border-slate-100 px-4 py-2 text-sm">
+                  <div className="col-span-4">{s.section}</div>
+                  <div className="col-span-1 text-right">{s.current}</div>
+                  <div className="col-span-1 text-right">{s.incoming}</div>
+                  <div className="col-span-1 text-right">{s.added}</div>
+                  <div className="col-span-1 text-right">{s.updated}</div>
+                  <div className={`col-span-2 text-right ${s.removed > 0 ? "font-semibold text-red-700" : ""}`}>
+                    {s.removed}
+                  </div>
+                  <div className={`col-span-2 text-right ${s.skippedLocked > 0 ? "text-amber-700" : ""}`}>
+                    {s.skippedLocked}
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            {replaceBlocked && plan && (
+              <div className="rounded-lg border border-amber-300 bg-amber-50 p-3 text-sm text-amber-900">
+                This backup was made by an older version and has no {plan.missingSections.join(", ")}.
+                Replacing would remove them, so merge it instead.
+              </div>
+            )}
+
+            {mode === "replace" && !replaceBlocked && (
+              <label className="flex items-center gap-2 text-sm text-slate-700">
+                <input
+                  type="checkbox"
+                  checked={confirmReplace}
+                  onChange={(e) => setConfirmReplace(e.target.checked)}
+                />
+                I understand local data not in the backup will be removed
+              </label>
+            )}
+
+            <button
+              className={`rounded-lg px-4 py-2 text-sm font-medium ${
+                canRestore
+                  ? "bg-slate-900 text-white"
+                  : "bg-slate-200 text-slate-500 cursor-not-allowed opacity-50"
+              }`}
+              onClick={handleRestore}
+              disabled={!canRestore}
+            >
+              {mode === "merge" ? "Merge backup" : "Replace with backup"}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,209 @@
+/**
+ * Categories Page
+ * Add, rename, archive and nest the household's categories. Plans allocate
+ * to top-level categories; subcategories are for reporting only.
+ */
+
+import { useState } from "react";
+import { useCategories } from "../../state/useCategories";
+import { addCategory, renameCategory, setCategoryArchived } from "../../state/categoriesStore";
+import type { Category } from "../../types/categories";
+import type { CategoryName } from "../../constants/categories";
+import { RoleBanner } from "../../components/common/RoleBanner";
+import { useHouseholdRole } from "../../state/useHouseholdRole";
+import { roleAllows, getRestrictedTitle } from "../../utils/roleGuard";
+
+export function Categories() {
+  const categories = useCategories();
+  const isReadOnly = !roleAllows(useHouseholdRole(), "edit");
+
+  const [name, setName] = useState("");
+  const [parentId, setParentId] = useState<CategoryName | "">("");
+  const [renamingId, setRenamingId] = useState<CategoryName | null>(null);
+  const [renameDraft, setRenameDraft] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  const topLevel = categories.filter((c) => !c.parentId);
+
+  function handleAdd() {
+    setError(null);
+    const result = addCategory({ name, parentId: parentId || undefined });
+    if (!result.ok) {
+      setError(result.reason);
+      return;
+    }
+    setName("");
+  }
+
+  function handleStartRename(category: Category) {
+    setRenamingId(category.id);
+    setRenameDraft(category.name);
+    setError(null);
+  }
+
+  function handleSaveRename(id: CategoryName) {
+    const result = renameCategory(id, renameDraft);
+    if (!result.ok) {
+      setError(result.reason);
+      return;
+    }
+    setRenamingId(null);
+    setError(null);
+  }
+
+  function handleArchive(category: Category) {
+    const result = setCategoryArchived(category.id, !category.archived);
+    if (!result.ok) setError(result.reason);
+    else setError(null);
+  }
+
+  function renderRow(category: Category, parent?: Category) {
+    const hidden = category.archived || Boolean(parent?.archived);
+
+    return (
+      <div
+        key={category.id}
+        className={`grid grid-cols-12 items-center gap-2 border-t border-slate-100 px-4 py-2 text-sm ${
+          hidden ? "bg-slate-50 text-slate-500" : ""
+        }`}
+      >
+        <div className={`col-span-7 ${parent ? "pl-6" : "font-medium"}`}>
+          {renamingId === category.id ? (
+            <input
+              className="w-full rounded border border-slate-300 px-2 py-1 text-sm"
+              value={renameDraft}
+              maxLength={40}
+              onChange={(e) => setRenameDraft(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && handleSaveRename(category.id)}
+              autoFocus
+            />
+          ) : (
+            <>
+              {parent && <span className="mr-1 text-slate-400">↳</span>}
+              {category.name}
+              {category.builtIn && <span className="ml-2 text-xs text-slate-500">(built-in)</span>}
+              {category.archived && <span className="ml-2 text-xs text-amber-700">(archived)</span>}
+            </>
+          )}
+        </div>
+        <div className="col-span-5 flex justify-end gap-3">
+          {renamingId === category.id ? (
+            <>
+              <button className="text-sm text-emerald-700 underline" onClick={() => handleSaveRename(category.id)}>
+                Save
+              </button>
+              <button className="text-sm text-slate-600 underline" onClick={() => setRenamingId(null)}>
+                Cancel
+              </button>
+            </>
+          ) : (
+            !isReadOnly && (
+              <>
+                <button className="text-sm text-slate-700 underline" onClick={() => handleStartRename(category)}>
+                  Rename
+                </button>
+                <button
+                  className="text-sm text-slate-700 underline disabled:text-slate-400 disabled:no-underline"
+                  onClick={() => handleArchive(category)}
+                  disabled={!category.archived && Boolean(parent?.archived)}
+                >
+                  {category.archived ? "Restore" : "Archive"}
+                </button>
+              </>
+            )
+          )}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <h1 className="text-3xl font-bold">Categories</h1>
+
+      <RoleBanner />
+
+      {error && (
+        <div className="rounded-lg border border-red-300 bg-red-50 p-4 text-sm text-red-900">
+          <div className="font-semibold">Error</div>
+          <div className="mt-1">{error}</div>
+        </div>
+      )}
+
+      <div className="rounded-lg border border-slate-200 bg-white p-6">
+        <h2 className="text-lg font-semibold">Add category</h2>
+        <p className="mt-1 text-sm text-slate-600">
+          Distribution plans allocate to top-level categories. Subcategories sit one level below and break a
+          category&apos;s spending down in reports.
+        </p>
+
+        <div className="mt-4 grid gap-3 md:grid-cols-12">
+          <div className="md:col-span-5">
+            <label className="text-sm text-slate-600">Name</label>
+            <input
+              className="mt-1 w-full rounded-md border border-slate-300 px-3 py-2 text-sm"
+              value={name}
+              maxLength={40}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. Groceries"
+              disabled={isReadOnly}
+            />
+          </div>
+          <div className="md:col-span-4">
+            <label className="text-sm text-slate-600">Under</label>
+            <select
+              className="mt-1 w-full rounded-md border border-slate-300 px-3 py-2 text-sm"
+              value={parentId}
+              onChange={(e) => setParentId(e.target.value as CategoryName | "")}
+              disabled={isReadOnly}
+            >
+              <option value="">Top level</option>
+              {topLevel
+                .filter((c) => !c.archived)
+                .map((c) => (
+                  <option key={c.id} value={c.id}>
+                    {c.name}
+                  </option>
+                ))}
+            </select>
+          </div>
+        </div>
+
+        <button
+          className={`mt-4 rounded-lg px-4 py-2 text-sm font-medium ${
+            name.trim() && !isReadOnly
+              ? "bg-slate-900 text-white"
+              : "bg-slate-200 text-slate-500 cursor-not-allowed opacity-50"
+          }`}
+          onClick={handleAdd}
+          disabled={!name.trim() || isReadOnly}
+          title={isReadOnly ? getRestrictedTitle() : undefined}
+        >
+          Add category
+        </button>
+      </div>
+
+      <div className="rounded-lg border border-slate-200 bg-white p-6">
+        <h2 className="text-lg font-semibold">All categories</h2>
+        <p className="mt-1 text-sm text-slate-600">
+          Renaming updates every record that uses the category, except locked periods, which keep the names they
+          were locked with. Archived categories are hidden from pickers but existing records keep them.
+        </p>
+
+        <div className="mt-4 overflow-hidden rounded-lg border border-slate-200">
+          <div className="grid grid-cols-12 gap-2 bg-slate-50 px-4 py-2 text-xs font-semibold uppercase tracking-wide text-slate-600">
+            <div className="col-span-7">Category</div>
+            <div className="col-span-5 text-right">Actions</div>
+          </div>
+          {topLevel.map((parent) => [
+            renderRow(parent),
+            ...categories
+              .filter((c) => c.parentId === parent.id)
+              .sort((a, b) => a.name.localeCompare(b.name))
+              .map((child) => renderRow(child, parent)),
+          ])}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,207 @@
+/**
+ * Exchange Rates Page
+ * Maintain the household's dated FX rate table (manual entry or CSV import)
+ */
+
+import { useState } from "react";
+import { useFxRates } from "../../state/useFxRates";
+import { addFxRate, deleteFxRate, importFxRatesCsv } from "../../state/fxRatesStore";
+import { getSelectedHousehold } from "../../state/householdStore";
+import { RoleBanner } from "../../components/common/RoleBanner";
+import { useHouseholdRole } from "../../state/useHouseholdRole";
+import { roleAllows, getRestrictedTitle } from "../../utils/roleGuard";
+
+function todayISO() {
+  const d = new Date();
+  const yyyy = d.getFullYear();
+  const mm = String(d.getMonth() + 1).padStart(2, "0");
+  const dd = String(d.getDate()).padStart(2, "0");
+  return `${yyyy}-${mm}-${dd}`;
+}
+
+export function FxRates() {
+  const rates = useFxRates();
+  const isReadOnly = !roleAllows(useHouseholdRole(), "edit");
+  const baseCurrency = getSelectedHousehold()?.base_currency ?? "SGD";
+
+  const [date, setDate] = useState(todayISO());
+  const [from, setFrom] = useState("USD");
+  const [to, setTo] = useState(baseCurrency);
+  const [rate, setRate] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  function handleAdd() {
+    setError(null);
+    setSuccess(null);
+
+    const result = addFxRate({ date, from, to, rate: Number(rate), source: "manual" });
+    if (!result.ok) {
+      setError(result.reason);
+      return;
+    }
+    setRate("");
+    setSuccess(`Saved 1 ${from.toUpperCase()} = ${rate} ${to.toUpperCase()} from ${date}.`);
+  }
+
+  function handleDelete(id: string) {
+    const result = deleteFxRate(id);
+    if (!result.ok) setError(result.reason);
+  }
+
+  async function handleFile(file: File | undefined) {
+    setError(null);
+    setSuccess(null);
+    if (!file) return;
+
+    try {
+      const result = importFxRatesCsv(await file.text());
+      if (!result.ok) {
+        setError(result.reason);
+        return;
+      }
+      const skipped = result.errors.map((e) => `line ${e.line}: ${e.reason}`).join("; ");
+      setSuccess(
+        `Imported ${result.added} new and ${result.updated} updated rate(s).` +
+          (skipped ? ` Skipped ${result.errors.length} row(s) — ${skipped}` : "")
+      );
+    } catch (err) {
+      setError(`Could not read file: ${(err as Error).message}`);
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <h1 className="text-3xl font-bold">Exchange Rates</h1>
+
+      <RoleBanner />
+
+      {error && (
+        <div className="rounded-lg border border-red-300 bg-red-50 p-4 text-sm text-red-900">
+          <div className="font-semibold">Error</div>
+          <div className="mt-1">{error}</div>
+        </div>
+      )}
+
+      {success && (
+        <div className="rounded-lg border border-emerald-300 bg-emerald-50 p-4 text-sm text-emerald-900">
+          {success}
+        </div>
+      )}
+
+      <div className="rounded-lg border border-slate-200 bg-white p-6">
+        <h2 className="text-lg font-semibold">Add rate</h2>
+        <p className="mt-1 text-sm text-slate-600">
+          Reports convert each transaction and income record with the latest rate dated on or before it
+          (the reverse pair is used if that is newer). Locked periods keep the rates they were locked with.
+        </p>
+
+        <div className="mt-4 grid gap-3 md:grid-cols-12">
+          <div className="md:col-span-3">
+            <label className="text-sm text-slate-600">Effective date</label>
+            <input
+              type="date"
+              className="mt-1 w-full rounded-md border border-slate-300 px-3 py-2 text-sm"
+              value={date}
+              onChange={(e) => setDate(e.target.value)}
+              disabled={isReadOnly}
+            />
+          </div>
+          <div className="md:col-span-2">
+            <label className="text-sm text-slate-600">1 unit of</label>
+            <input
+              className="mt-1 w-full rounded-md border border-slate-300 px-3 py-2 text-sm uppercase"
+              value={from}
+              maxLength={3}
+              onChange={(e) => setFrom(e.target.value.toUpperCase())}
+              disabled={isReadOnly}
+            />
+          </div>
+          <div className="md:col-span-3">
+            <label className="text-sm text-slate-600">Rate</label>
+            <input
+              type="number"
+              min={0}
+              step="0.0001"
+              className="mt-1 w-full rounded-md border border-slate-300 px-3 py-2 text-sm"
+              value={rate}
+              onChange={(e) => setRate(e.target.value)}
+              disabled={isReadOnly}
+            />
+          </div>
+          <div className="md:col-span-2">
+            <label className="text-sm text-slate-600">In</label>
+            <input
+              className="mt-1 w-full rounded-md border border-slate-300 px-3 py-2 text-sm uppercase"
+              value={to}
+              maxLength={3}
+              onChange={(e) => setTo(e.target.value.toUpperCase())}
+              disabled={isReadOnly}
+            />
+          </div>
+        </div>
+
+        <button
+          className={`mt-4 rounded-lg px-4 py-2 text-sm font-medium ${
+            rate && !isReadOnly ? "bg-slate-900 text-white" : "bg-slate-200 text-slate-500 cursor-not-allowed opacity-50"
+          }`}
+          onClick={handleAdd}
+          disabled={!rate || isReadOnly}
+          title={isReadOnly ? getRestrictedTitle() : undefined}
+        >
+          Save rate
+        </button>
+      </div>
+
+      <div className="rounded-lg border border-slate-200 bg-white p-6">
+        <h2 className="text-lg font-semibold">Import CSV</h2>
+        <p className="mt-1 text-sm text-slate-600">
+          Columns: <code>date,from,to,rate</code> with dates as YYYY-MM-DD, e.g.{" "}
+          <code>2026-10-01,USD,{baseCurrency},1.29</code>. A header row is optional; a rate for an existing date
+          and pair replaces it.
+        </p>
+        <input
+          type="file"
+          accept=".csv,text/csv"
+          className="mt-3 w-full text-sm"
+          onChange={(e) => handleFile(e.target.files?.[0])}
+          disabled={isReadOnly}
+        />
+      </div>
+
+      <div className="rounded-lg border border-slate-200 bg-white p-6">
+        <h2 className="text-lg font-semibold">Rates ({rates.length})</h2>
+        {rates.length === 0 ? (
+          <p className="mt-1 text-sm text-slate-600">
+            No rates yet. Amounts in other currencies are counted unconverted until a rate is added.
+          </p>
+        ) : (
+          <div className="mt-4 overflow-hidden rounded-lg border border-slate-200">
+            <div className="grid grid-cols-12 gap-2 bg-slate-50 px-4 py-2 text-xs font-semibold uppercase tracking-wide text-slate-600">
+              <div className="col-span-3">Date</div>
+              <div className="col-span-4">Rate</div>
+              <div className="col-span-2">Source</div>
+              <div className="col-span-3 text-right">Actions</div>
+            </div>
+            {rates.map((r) => (
+              <div key={r.id} className="grid grid-cols-12 gap-2 border-t border-slate-100 px-4 py-2 text-sm">
+                <div className="col-span-3">{r.date}</div>
+                <div className="col-span-4 font-medium">
+                  1 {r.from} = {r.rate} {r.to}
+                </div>
+                <div className="col-span-2 capitalize text-slate-600">{r.source}</div>
+                <div className="col-span-3 text-right">
+                  {!isReadOnly && (
+                    <button className="text-sm text-red-700 underline" onClick={() => handleDelete(r.id)}>
+                      Delete
+                    </button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,243 @@
+/**
+ * Households Page
+ * Create households, switch between them, and copy plans from the selected one
+ */
+
+import { useEffect, useState } from "react";
+import {
+  createHousehold,
+  getHouseholdState,
+  setSelectedHouseholdId,
+  subscribeHouseholds,
+} from "../../state/householdStore";
+import { copyPlansToHousehold } from "../../state/distributionPlansStore";
+import { useDistributionPlans } from "../../state/useDistributionPlans";
+
+export function Households() {
+  const [state, setState] = useState(() => getHouseholdState());
+  const plans = useDistributionPlans();
+
+  const [name, setName] = useState("");
+  const [baseCurrency, setBaseCurrency] = useState("SGD");
+  const [copyOnCreate, setCopyOnCreate] = useState(true);
+  const [selectedPlanIds, setSelectedPlanIds] = useState<string[]>([]);
+  const [targetId, setTargetId] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  useEffect(() => {
+    return subscribeHouseholds(() => setState(getHouseholdState()));
+  }, []);
+
+  const current = state.households.find((h) => h.household_id === state.selectedHouseholdId);
+  const others = state.households.filter((h) => h.household_id !== state.selectedHouseholdId);
+
+  function togglePlan(planId: string, checked: boolean) {
+    setSelectedPlanIds((ids) => (checked ? [...ids, planId] : ids.filter((id) => id !== planId)));
+  }
+
+  function handleCreate() {
+    setError(null);
+    setSuccess(null);
+
+    const created = createHousehold({ name, base_currency: baseCurrency });
+    if (!created.ok) {
+      setError(created.reason);
+      return;
+    }
+
+    let message = `Household "${name.trim()}" created.`;
+    if (copyOnCreate && plans.length > 0) {
+      const copied = copyPlansToHousehold(
+        plans.map((p) => p.id),
+        created.id
+      );
+      if (!copied.ok) {
+        setError(`Household created, but plans were not copied: ${copied.reason}`);
+        return;
+      }
+      message += ` ${copied.copied} plan(s) copied.`;
+    }
+
+    setName("");
+    setSuccess(message);
+  }
+
+  function handleCopy() {
+    setError(null);
+    setSuccess(null);
+
+    const result = copyPlansToHousehold(selectedPlanIds, targetId);
+    if (!result.ok) {
+      setError(result.reason);
+      return;
+    }
+
+    const target = state.households.find((h) => h.household_id === targetId);
+    setSelectedPlanIds([]);
+    setSuccess(`${result.copied} plan(s) copied to ${target?.name ?? "household"}.`);
+  }
+
+  function handleSwitch(id: string) {
+    setSelectedHouseholdId(id);
+    // Reload so every store re-reads the new household's data
+    window.location.reload();
+  }
+
+  return (
+    <div className="space-y-6">
+      <h1 className="text-3xl font-bold">Households</h1>
+
+      {error && (
+        <div className="rounded-lg border border-red-300 bg-red-50 p-4 text-sm text-red-900">
+          <div className="font-semibold">Error</div>
+          <div className="mt-1">{error}</div>
+        </div>
+      )}
+
+      {success && (
+        <div className="rounded-lg border border-emerald-300 bg-emerald-50 p-4 text-sm text-emerald-900">
+          {success}
+        </div>
+      )}
+
+      {/* Household list */}
+      <div className="rounded-lg border border-slate-200 bg-white p-6">
+        <h2 className="text-lg font-semibold">Your households</h2>
+        <p className="mt-1 text-sm text-slate-600">
+          Each household has its own transactions, income, plans, period locks and snapshots, scheduled
+          templates, rules, assets and liabilities. Switching reloads the app with that household&apos;s data.
+        </p>
+
+        <div className="mt-4 overflow-hidden rounded-lg border border-slate-200">
+          <div className="grid grid-cols-12 gap-2 bg-slate-50 px-4 py-2 text-xs font-semibold uppercase tracking-wide text-slate-600">
+            <div className="col-span-5">Name</div>
+            <div className="col-span-2">Currency</div>
+            <div className="col-span-2">Role</div>
+            <div className="col-span-3 text-right">Actions</div>
+          </div>
+          {state.households.map((h) => (
+            <div key={h.household_id} className="grid grid-cols-12 gap-2 border-t border-slate-100 px-4 py-2 text-sm">
+              <div className="col-span-5 font-medium">{h.name}</div>
+              <div className="col-span-2">{h.base_currency}</div>
+              <div className="col-span-2 capitalize">{h.role}</div>
+              <div className="col-span-3 text-right">
+                {h.household_id === state.selectedHouseholdId ? (
+                  <span className="text-slate-500">Current</span>
+                ) : (
+                  <button
+                    className="text-sm font-medium text-slate-900 underline"
+                    onClick={() => handleSwitch(h.household_id)}
+                  >
+                    Switch
+                  </button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Create */}
+      <div className="rounded-lg border border-slate-200 bg-white p-6">
+        <h2 className="text-lg font-semibold">New household</h2>
+
+        <div className="mt-4 grid gap-3 md:grid-cols-12">
+          <div className="md:col-span-6">
+            <label className="text-sm font-medium text-slate-700">Name</label>
+            <input
+              className="mt-1 w-full rounded-md border border-slate-300 px-3 py-2 text-sm"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. Parents"
+            />
+          </div>
+          <div className="md:col-span-3">
+            <label className="text-sm font-medium text-slate-700">Base currency</label>
+            <input
+              className="mt-1 w-full rounded-md border border-slate-300 px-3 py-2 text-sm uppercase"
+              value={baseCurrency}
+              maxLength={3}
+              onChange={(e) => setBaseCurrency(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <label className="mt-3 flex items-center gap-2 text-sm text-slate-700">
+          <input
+            type="checkbox"
+            checked={copyOnCreate}
+            onChange={(e) => setCopyOnCreate(e.target.checked)}
+            disabled={plans.length === 0}
+          />
+          Start with a copy of {current?.name ?? "this household"}&apos;s plans ({plans.length})
+        </label>
+
+        <button
+          className="mt-4 rounded-lg bg-slate-900 px-4 py-2 text-sm font-medium text-white"
+          onClick={handleCreate}
+        >
+          Create household
+        </button>
+      </div>
+
+      {/* Copy plans */}
+      <div className="rounded-lg border border-slate-200 bg-white p-6">
+        <h2 className="text-lg font-semibold">Copy plans to another household</h2>
+        {others.length === 0 || plans.length === 0 ? (
+          <p className="mt-1 text-sm text-slate-600">
+            {plans.length === 0
+              ? "This household has no plans to copy."
+              : "Create another household to copy plans into."}
+          </p>
+        ) : (
+          <>
+            <div className="mt-4 space-y-2">
+              {plans.map((p) => (
+                <label key={p.id} className="flex items-center gap-2 text-sm text-slate-700">
+                  <input
+                    type="checkbox"
+                    checked={selectedPlanIds.includes(p.id)}
+                    onChange={(e) => togglePlan(p.id, e.target.checked)}
+                  />
+                  {p.name}
+                  {p.isActive && <span className="text-xs text-slate-500">(active)</span>}
+                </label>
+              ))}
+            </div>
+
+            <div className="mt-4 grid gap-3 md:grid-cols-12">
+              <div className="md:col-span-6">
+                <label className="text-sm font-medium text-slate-700">Copy into</label>
+                <select
+                  className="mt-1 w-full rounded-md border border-slate-300 px-3 py-2 text-sm"
+                  value={targetId}
+                  onChange={(e) => setTargetId(e.target.value)}
+                >
+                  <option value="">Select household…</option>
+                  {others.map((h) => (
+                    <option key={h.household_id} value={h.household_id}>
+                      {h.name} ({h.base_currency})
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            <button
+              className={`mt-4 rounded-lg px-4 py-2 text-sm font-medium ${
+                selectedPlanIds.length > 0 && targetId
+                  ? "bg-slate-900 text-white"
+                  : "bg-slate-200 text-slate-500 cursor-not-allowed opacity-50"
+              }`}
+              onClick={handleCopy}
+              disabled={selectedPlanIds.length === 0 || !targetId}
+            >
+              Copy plans
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
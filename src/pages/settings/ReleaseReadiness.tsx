@@ -20,6 +20,9 @@ import {
   runReportsLockedMonthChecks,
   runStorageKeysStableChecks,
   runNoSecretsInStorageChecks,
+  runMigrationChecks,
+  runSyncChecks,
+  runSavingsGoalChecks,
   cleanupLegacyStorageKeys,
 } from "../../utils/releaseChecks";
 import { isMVPFrozen, logMVPFreezeStatus } from "../../utils/mvpFreezeGuard";
@@ -102,6 +105,12 @@ const CHECKLIST_ITEMS: ChecklistItem[] = [
     description: "Plan creation/edit/delete works without errors; unsaved changes warnings work",
     section: "Plans",
   },
+  {
+    id: "goals_shared_category",
+    title: "Savings Goals: Shared Category",
+    description: "Goals funded from one category split its savings and never count more than was saved",
+    section: "Plans",
+  },
 
   // Income & Recurrence
   {
@@ -164,6 +173,18 @@ const CHECKLIST_ITEMS: ChecklistItem[] = [
     description: "localStorage contains only non-sensitive app state",
     section: "Storage / Migration Safety",
   },
+  {
+    id: "storage_migrations",
+    title: "Storage Migrations",
+    description: "Old-format fixtures migrate to the current shape; local data is at the current schema version",
+    section: "Storage / Migration Safety",
+  },
+  {
+    id: "sync_queue_conflicts",
+    title: "Sync Queue and Conflicts",
+    description: "Offline edits stay queued, the newer edit wins and locked periods win over edits",
+    section: "Storage / Migration Safety",
+  },
 
   // MVP Freeze / Version Lock
   {
@@ -625,6 +646,75 @@ export function ReleaseReadiness() {
       checklistUpdates["storage_no_secrets"] = "fail";
     }
 
+    // Check 15: Storage Migrations
+    try {
+      const migrationResult = runMigrationChecks();
+      const passed = migrationResult.status === "pass";
+      results.push({
+        name: "Storage Migrations",
+        passed,
+        message: passed
+          ? `✓ Migration fixtures pass and storage is at the current schema version`
+          : `✗ Migration issues. ${migrationResult.errors?.join("; ") || ""}`,
+        timestamp,
+      });
+      checklistUpdates["storage_migrations"] = passed ? "pass" : "fail";
+    } catch (err) {
+      results.push({
+        name: "Storage Migrations",
+        passed: false,
+        message: `✗ Error: ${(err as Error).message}`,
+        timestamp,
+      });
+      checklistUpdates["storage_migrations"] = "fail";
+    }
+
+    // Check 16: Sync Queue and Conflicts
+    try {
+      const syncResult = await runSyncChecks();
+      const passed = syncResult.status === "pass";
+      results.push({
+        name: "Sync Queue and Conflicts",
+        passed,
+        message: passed
+          ? `✓ Queued edits, conflicts and lock rules resolve as expected between two devices`
+          : `✗ Sync issues. ${syncResult.errors?.join("; ") || ""}`,
+        timestamp,
+      });
+      checklistUpdates["sync_queue_conflicts"] = passed ? "pass" : "fail";
+    } catch (err) {
+      results.push({
+        name: "Sync Queue and Conflicts",
+        passed: false,
+        message: `✗ Error: ${(err as Error).message}`,
+        timestamp,
+      });
+      checklistUpdates["sync_queue_conflicts"] = "fail";
+    }
+
+    // Check 17: Savings Goals Sharing a Category
+    try {
+      const goalsResult = runSavingsGoalChecks();
+      const passed = goalsResult.status === "pass";
+      results.push({
+        name: "Savings Goals: Shared Category",
+        passed,
+        message: passed
+          ? `✓ Goals sharing a category split its savings and allocation`
+          : `✗ Goal progress issues. ${goalsResult.errors?.join("; ") || ""}`,
+        timestamp,
+      });
+      checklistUpdates["goals_shared_category"] = passed ? "pass" : "fail";
+    } catch (err) {
+      results.push({
+        name: "Savings Goals: Shared Category",
+        passed: false,
+        message: `✗ Error: ${(err as Error).message}`,
+        timestamp,
+      });
+      checklistUpdates["goals_shared_category"] = "fail";
+    }
+
     // Check MVP Freeze Guard
     try {
       const mvpFrozen = isMVPFrozen();
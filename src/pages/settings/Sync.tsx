@@ -0,0 +1,136 @@
+/**
+ * Cloud Sync Page
+ * Opt-in household sync: toggle, status, queued changes and recent conflicts
+ */
+
+import { useEffect, useState } from "react";
+import {
+  getSyncSettings,
+  getSyncStatus,
+  setSyncEnabled,
+  subscribeSync,
+  syncNow,
+  type SyncPhase,
+} from "../../state/syncService";
+import { getHouseholdState } from "../../state/householdStore";
+
+const PHASE_LABELS: Record<SyncPhase, string> = {
+  disabled: "Off",
+  "no-household": "No household selected",
+  idle: "Up to date",
+  syncing: "Syncing…",
+  offline: "Offline",
+  error: "Error",
+};
+
+export function Sync() {
+  const [enabled, setEnabled] = useState(() => getSyncSettings().enabled);
+  const [status, setStatus] = useState(() => getSyncStatus());
+  const household = getHouseholdState().households.find(
+    (h) => h.household_id === getHouseholdState().selectedHouseholdId
+  );
+
+  useEffect(() => {
+    const unsubscribe = subscribeSync(() => setStatus(getSyncStatus()));
+    return () => unsubscribe();
+  }, []);
+
+  function handleToggle(next: boolean) {
+    setEnabled(next);
+    setSyncEnabled(next);
+  }
+
+  return (
+    <div className="space-y-6">
+      <h1 className="text-3xl font-bold">Cloud Sync</h1>
+
+      {status.phase === "error" && status.message && (
+        <div className="rounded-lg border border-red-300 bg-red-50 p-4 text-sm text-red-900">
+          <div className="font-semibold">Error</div>
+          <div className="mt-1">{status.message}</div>
+        </div>
+      )}
+
+      <div className="rounded-lg border border-slate-200 bg-white p-6">
+        <h2 className="text-lg font-semibold">Household sync</h2>
+        <p className="mt-1 text-sm text-slate-600">
+          Mirrors transactions, income, plans, period locks and snapshots, scheduled templates and category
+          rules to your household&apos;s cloud tables so every device sees the same data. Changes made offline
+          are queued and sent when you reconnect. When two devices edit the same record, the most recent edit
+          wins; edits never override a locked period.
+        </p>
+
+        <label className="mt-4 flex items-center gap-2 text-sm font-medium text-slate-700">
+          <input type="checkbox" checked={enabled} onChange={(e) => handleToggle(e.target.checked)} />
+          Sync this device
+        </label>
+
+        <div className="mt-4 grid gap-3 text-sm md:grid-cols-4">
+          <div>
+            <div className="text-slate-500">Household</div>
+            <div className="font-medium">{household?.name ?? status.householdId ?? "None"}</div>
+          </div>
+          <div>
+            <div className="text-slate-500">Status</div>
+            <div className="font-medium">{PHASE_LABELS[status.phase]}</div>
+          </div>
+          <div>
+            <div className="text-slate-500">Queued changes</div>
+            <div className="font-medium">{status.queued}</div>
+          </div>
+          <div>
+            <div className="text-slate-500">Last sync</div>
+            <div className="font-medium">
+              {status.lastSyncAt ? new Date(status.lastSyncAt).toLocaleString() : "Never"}
+            </div>
+          </div>
+        </div>
+
+        {status.message && status.phase !== "error" && (
+          <p className="mt-3 text-sm text-slate-600">{status.message}</p>
+        )}
+
+        <button
+          className={`mt-4 rounded-lg px-4 py-2 text-sm font-medium ${
+            enabled && status.phase !== "syncing"
+              ? "bg-slate-900 text-white"
+              : "bg-slate-200 text-slate-500 cursor-not-allowed opacity-50"
+          }`}
+          onClick={() => void syncNow()}
+          disabled={!enabled || status.phase === "syncing"}
+        >
+          Sync now
+        </button>
+      </div>
+
+      <div className="rounded-lg border border-slate-200 bg-white p-6">
+        <h2 className="text-lg font-semibold">Recent conflicts</h2>
+        {status.conflicts.length === 0 ? (
+          <p className="mt-1 text-sm text-slate-600">No conflicts this session.</p>
+        ) : (
+          <div className="mt-4 overflow-hidden rounded-lg border border-slate-200">
+            <div className="grid grid-cols-12 gap-2 bg-slate-50 px-4 py-2 text-xs font-semibold uppercase tracking-wide text-slate-600">
+              <div className="col-span-3">When</div>
+              <div className="col-span-2">Store</div>
+              <div className="col-span-3">Record</div>
+              <div className="col-span-4">Resolution</div>
+            </div>
+            {status.conflicts.map((c) => (
+              <div
+                key={`${c.at}-${c.collection}-${c.id}`}
+                className="grid grid-cols-12 gap-2 border-t border-slate-100 px-4 py-2 text-sm"
+              >
+                <div className="col-span-3">{new Date(c.at).toLocaleString()}</div>
+                <div className="col-span-2">{c.collection}</div>
+                <div className="col-span-3 truncate" title={c.id}>
+                  {c.id}
+                </div>
+                <div className="col-span-4">{c.resolution}</div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,561 @@
+import { useEffect, useMemo, useState } from "react";
+import type { CategoryName } from "../../constants/categories";
+import type { CsvColumnMapping, ImportDraftRow } from "../../types/import";
+import { useTransactions } from "../../state/useTransactions";
+import { importTransactions } from "../../state/transactionsStore";
+import { subscribeLocks } from "../../state/periodLocksStore";
+import {
+  listImportProfiles,
+  saveImportProfile,
+  deleteImportProfile,
+  subscribeImportProfiles,
+} from "../../state/importProfilesStore";
+import { parseCsv, mapCsvRows } from "../../utils/csvImport";
+import { isOfx, parseOfx } from "../../utils/ofxImport";
+import { isCamt053, parseCamt053 } from "../../utils/camtImport";
+import { reviewImportRows } from "../../utils/importReview";
+import { applyCategoryRules } from "../../utils/categoryRules";
+import { useCategoryRules } from "../../state/useCategoryRules";
+import { useCategories } from "../../state/useCategories";
+import { useAccounts } from "../../state/useAccounts";
+import { categoryLabel, topLevelOptions } from "../../utils/categoryTree";
+import { RoleBanner } from "../../components/common/RoleBanner";
+import { useHouseholdRole } from "../../state/useHouseholdRole";
+import { roleAllows } from "../../utils/roleGuard";
+
+function formatMoney(amount: number, currency = "SGD") {
+  try {
+    return new Intl.NumberFormat(undefined, { style: "currency", currency }).format(amount);
+  } catch {
+    return `${currency} ${amount.toFixed(2)}`;
+  }
+}
+
+const DEFAULT_MAPPING: CsvColumnMapping = {
+  delimiter: ",",
+  hasHeader: true,
+  dateColumn: 0,
+  dateFormat: "DD/MM/YYYY",
+  amountColumn: 1,
+  signMode: "signed",
+  noteColumn: 2,
+};
+
+type StatementFormat = "csv" | "ofx" | "camt053";
+
+const FORMAT_LABELS: Record<StatementFormat, string> = {
+  csv: "CSV",
+  ofx: "OFX/QFX",
+  camt053: "CAMT.053",
+};
+
+/**
+ * Detect statement format from file extension, falling back to content sniffing
+ */
+function detectStatementFormat(fileName: string, text: string): StatementFormat {
+  const ext = fileName.toLowerCase().split(".").pop();
+  if (ext === "ofx" || ext === "qfx" || isOfx(text)) return "ofx";
+  if (ext === "xml" || isCamt053(text)) return "camt053";
+  return "csv";
+}
+
+const STATUS_STYLES: Record<ImportDraftRow["status"], { label: string; className: string }> = {
+  new: { label: "New", className: "bg-emerald-100 text-emerald-800" },
+  duplicate: { label: "Duplicate?", className: "bg-amber-100 text-amber-800" },
+  locked: { label: "🔒 Locked", className: "bg-slate-100 text-slate-700" },
+  invalid: { label: "Invalid", className: "bg-red-100 text-red-800" },
+};
+
+export function ImportTransactions() {
+  const transactions = useTransactions();
+  const rules = useCategoryRules();
+  const categories = useCategories();
+  const accounts = useAccounts();
+
+  const [fileName, setFileName] = useState<string>("");
+  const [csvText, setCsvText] = useState<string>("");
+  const [format, setFormat] = useState<StatementFormat>("csv");
+  const [mapping, setMapping] = useState<CsvColumnMapping>(DEFAULT_MAPPING);
+  const [defaultCategory, setDefaultCategory] = useState<CategoryName>("Living");
+  const [accountId, setAccountId] = useState<string>("");
+  const [profiles, setProfiles] = useState(() => listImportProfiles());
+  const [profileName, setProfileName] = useState<string>("");
+  const [include, setInclude] = useState<Record<number, boolean>>({});
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+  const [, setLockTick] = useState(0);
+  const isReadOnly = !roleAllows(useHouseholdRole(), "edit");
+
+  // Subscribe to lock and profile changes
+  useEffect(() => {
+    const unsubscribeLocks = subscribeLocks(() => {
+      setLockTick((x) => x + 1);
+    });
+    const unsubscribeProfiles = subscribeImportProfiles(() => {
+      setProfiles(listImportProfiles());
+    });
+    return () => {
+      unsubscribeLocks();
+      unsubscribeProfiles();
+    };
+  }, []);
+
+  const csvRows = useMemo(
+    () => (csvText && format === "csv" ? parseCsv(csvText, mapping.delimiter) : []),
+    [csvText, format, mapping.delimiter]
+  );
+
+  // Column labels for the mapping selects
+  const columnOptions = useMemo(() => {
+    const width = csvRows.reduce((max, r) => Math.max(max, r.length), 0);
+    return Array.from({ length: width }, (_, i) => {
+      const header = mapping.hasHeader ? csvRows[0]?.[i] : undefined;
+      return { index: i, label: header ? `${i + 1}: ${header}` : `Column ${i + 1}` };
+    });
+  }, [csvRows, mapping.hasHeader]);
+
+  const parsed = useMemo((): { rows: ImportDraftRow[]; error: string | null } => {
+    try {
+      if (format === "ofx") return { rows: parseOfx(csvText, defaultCategory), error: null };
+      if (format === "camt053") return { rows: parseCamt053(csvText, defaultCategory), error: null };
+      return { rows: mapCsvRows(csvRows, mapping, defaultCategory), error: null };
+    } catch (err) {
+      return { rows: [], error: (err as Error).message };
+    }
+  }, [format, csvText, csvRows, mapping, defaultCategory]);
+
+  // Category rules override the default category; reviewed on every
+  // render so lock changes are picked up immediately
+  const reviewedRows = reviewImportRows(applyCategoryRules(parsed.rows, rules), transactions);
+
+  const isIncluded = (row: ImportDraftRow) =>
+    row.status === "new" || row.status === "duplicate"
+      ? include[row.line] ?? row.status === "new"
+      : false;
+
+  const selectedRows = reviewedRows.filter(isIncluded);
+  const counts = reviewedRows.reduce(
+    (acc, r) => ({ ...acc, [r.status]: acc[r.status] + 1 }),
+    { new: 0, duplicate: 0, locked: 0, invalid: 0 } as Record<ImportDraftRow["status"], number>
+  );
+
+  async function handleFile(file: File | undefined) {
+    setError(null);
+    setSuccess(null);
+    setInclude({});
+    if (!file) {
+      setFileName("");
+      setCsvText("");
+      setFormat("csv");
+      return;
+    }
+    try {
+      const content = await file.text();
+      setFileName(file.name);
+      setFormat(detectStatementFormat(file.name, content));
+      setCsvText(content);
+    } catch (err) {
+      setError(`Could not read file: ${(err as Error).message}`);
+    }
+  }
+
+  function updateMapping(patch: Partial<CsvColumnMapping>) {
+    setMapping((prev) => ({ ...prev, ...patch }));
+    setInclude({});
+  }
+
+  function handleLoadProfile(id: string) {
+    const profile = profiles.find((p) => p.id === id);
+    if (!profile) return;
+    setMapping({ ...DEFAULT_MAPPING, ...profile.mapping });
+    setProfileName(profile.name);
+    setInclude({});
+  }
+
+  function handleSaveProfile() {
+    const result = saveImportProfile(profileName, mapping);
+    if (!result.ok) {
+      setError(result.reason);
+      setTimeout(() => setError(null), 4000);
+      return;
+    }
+    setSuccess(`Mapping saved as "${profileName.trim()}"`);
+    setTimeout(() => setSuccess(null), 3000);
+  }
+
+  function handleDeleteProfile() {
+    const profile = profiles.find((p) => p.name === profileName.trim());
+    if (!profile) return;
+    if (!window.confirm(`Delete mapping profile "${profile.name}"?`)) return;
+    deleteImportProfile(profile.id);
+    setProfileName("");
+  }
+
+  function handleImport() {
+    if (selectedRows.length === 0 || isReadOnly) return;
+
+    // Statement rows belong to the account and are in its currency
+    const account = accounts.find((a) => a.id === accountId);
+    const result = importTransactions(
+      selectedRows.map((r) => ({
+        date: r.date,
+        category: r.category,
+        amount: r.amount,
+        direction: r.direction,
+        note: r.note,
+        externalId: r.externalId,
+        accountId: account?.id,
+        currency: account?.currency,
+      }))
+    );
+
+    if (!result.ok) {
+      setError(result.reason);
+      return;
+    }
+
+    if (result.skipped.length > 0) {
+      setError(
+        `Skipped ${result.skipped.length} row(s): ${result.skipped
+          .map((s) => `line ${selectedRows[s.index].line} – ${s.reason}`)
+          .join("; ")}`
+      );
+    } else {
+      setError(null);
+    }
+    setSuccess(`Imported ${result.added} transaction(s) from ${fileName || "file"}`);
+    setInclude({});
+  }
+
+  const columnSelect = (
+    value: number | undefined,
+    onChange: (v: number | undefined) => void,
+    optional = false
+  ) => (
+    <select
+      className="mt-1 w-full rounded-md border border-slate-300 px-3 py-2 text-sm"
+      value={value ?? ""}
+      onChange={(e) => onChange(e.target.value === "" ? undefined : Number(e.target.value))}
+      disabled={columnOptions.length === 0}
+    >
+      {optional && <option value="">— None —</option>}
+      {columnOptions.map((c) => (
+        <option key={c.index} value={c.index}>
+          {c.label}
+        </option>
+      ))}
+    </select>
+  );
+
+  return (
+    <div className="space-y-6">
+      <h1 className="text-3xl font-bold">Import Statement</h1>
+
+      <RoleBanner />
+
+      {(error || parsed.error) && (
+        <div className="rounded-lg border border-red-300 bg-red-50 p-4 text-sm text-red-900">
+          <div className="font-semibold">Error</div>
+          <div className="mt-1">{error ?? parsed.error}</div>
+        </div>
+      )}
+
+      {success && (
+        <div className="rounded-lg border border-emerald-300 bg-emerald-50 p-4 text-sm text-emerald-900">
+          {success}
+        </div>
+      )}
+
+      {/* File + profile */}
+      <div className="rounded-lg border border-slate-200 bg-white p-6">
+        <h2 className="text-lg font-semibold">1. Choose a bank statement export</h2>
+        <p className="mt-1 text-sm text-slate-600">
+          CSV, OFX/QFX and CAMT.053 XML are supported.
+          {fileName && ` Detected format: ${FORMAT_LABELS[format]}.`}
+        </p>
+
+        <div className="mt-4 grid gap-3 md:grid-cols-12">
+          <div className="md:col-span-6">
+            <label className="text-sm font-medium text-slate-700">File</label>
+            <input
+              type="file"
+              accept=".csv,.ofx,.qfx,.xml,text/csv,application/xml"
+              className="mt-1 w-full text-sm"
+              onChange={(e) => handleFile(e.target.files?.[0])}
+            />
+          </div>
+
+          <div className="md:col-span-6">
+            <label className="text-sm font-medium text-slate-700">Mapping profile</label>
+            <select
+              className="mt-1 w-full rounded-md border border-slate-300 px-3 py-2 text-sm"
+              value=""
+              onChange={(e) => handleLoadProfile(e.target.value)}
+              disabled={profiles.length === 0 || format !== "csv"}
+            >
+              <option value="">{profiles.length === 0 ? "No saved profiles" : "Load a saved profile…"}</option>
+              {profiles.map((p) => (
+                <option key={p.id} value={p.id}>
+                  {p.name}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+      </div>
+
+      {/* Column mapping */}
+      <div className="rounded-lg border border-slate-200 bg-white p-6">
+        <h2 className="text-lg font-semibold">{format === "csv" ? "2. Map columns" : "2. Options"}</h2>
+
+        <div className="mt-4 grid gap-3 md:grid-cols-12">
+          <div className="md:col-span-3">
+            <label className="text-sm font-medium text-slate-700">Category when no rule matches</label>
+            <select
+              className="mt-1 w-full rounded-md border border-slate-300 px-3 py-2 text-sm"
+              value={defaultCategory}
+              onChange={(e) => setDefaultCategory(e.target.value as CategoryName)}
+            >
+              {topLevelOptions(categories, defaultCategory).map((c) => (
+                <option key={c.id} value={c.id}>
+                  {c.name}
+                </option>
+              ))}
+            </select>
+          </div>
+          {accounts.length > 0 && (
+            <div className="md:col-span-3">
+              <label className="text-sm font-medium text-slate-700">Statement account</label>
+              <select
+                className="mt-1 w-full rounded-md border border-slate-300 px-3 py-2 text-sm"
+                value={accountId}
+                onChange={(e) => setAccountId(e.target.value)}
+              >
+                <option value="">No account</option>
+                {accounts
+                  .filter((a) => !a.archived)
+                  .map((a) => (
+                    <option key={a.id} value={a.id}>
+                      {a.name} ({a.currency})
+                    </option>
+                  ))}
+              </select>
+            </div>
+          )}
+        </div>
+
+        {format === "csv" ? (
+          <>
+            <div className="mt-4 grid gap-3 md:grid-cols-12">
+              <div className="md:col-span-3">
+                <label className="text-sm font-medium text-slate-700">Delimiter</label>
+                <select
+                  className="mt-1 w-full rounded-md border border-slate-300 px-3 py-2 text-sm"
+                  value={mapping.delimiter}
+                  onChange={(e) => updateMapping({ delimiter: e.target.value as CsvColumnMapping["delimiter"] })}
+                >
+                  <option value=",">Comma (,)</option>
+                  <option value=";">Semicolon (;)</option>
+                  <option value={"\t"}>Tab</option>
+                </select>
+              </div>
+
+              <div className="md:col-span-3 flex items-end">
+                <label className="flex items-center gap-2 text-sm text-slate-700">
+                  <input
+                    type="checkbox"
+                    checked={mapping.hasHeader}
+                    onChange={(e) => updateMapping({ hasHeader: e.target.checked })}
+                  />
+                  First row is a header
+                </label>
+              </div>
+
+              <div className="md:col-span-3">
+                <label className="text-sm font-medium text-slate-700">Date column</label>
+                {columnSelect(mapping.dateColumn, (v) => updateMapping({ dateColumn: v ?? 0 }))}
+              </div>
+
+              <div className="md:col-span-3">
+                <label className="text-sm font-medium text-slate-700">Date format</label>
+                <select
+                  className="mt-1 w-full rounded-md border border-slate-300 px-3 py-2 text-sm"
+                  value={mapping.dateFormat}
+                  onChange={(e) => updateMapping({ dateFormat: e.target.value as CsvColumnMapping["dateFormat"] })}
+                >
+                  <option value="DD/MM/YYYY">DD/MM/YYYY</option>
+                  <option value="MM/DD/YYYY">MM/DD/YYYY</option>
+                  <option value="YYYY-MM-DD">YYYY-MM-DD</option>
+                </select>
+              </div>
+
+              <div className="md:col-span-3">
+                <label className="text-sm font-medium text-slate-700">Amount column</label>
+                {columnSelect(mapping.amountColumn, (v) => updateMapping({ amountColumn: v ?? 0 }))}
+              </div>
+
+              <div className="md:col-span-3">
+                <label className="text-sm font-medium text-slate-700">Direction from</label>
+                <select
+                  className="mt-1 w-full rounded-md border border-slate-300 px-3 py-2 text-sm"
+                  value={mapping.signMode}
+                  onChange={(e) => updateMapping({ signMode: e.target.value as CsvColumnMapping["signMode"] })}
+                >
+                  <option value="signed">Amount sign (negative = expense)</option>
+                  <option value="column">Debit/credit column</option>
+                </select>
+              </div>
+
+              {mapping.signMode === "signed" ? (
+                <div className="md:col-span-3 flex items-end">
+                  <label className="flex items-center gap-2 text-sm text-slate-700">
+                    <input
+                      type="checkbox"
+                      checked={mapping.invertSign ?? false}
+                      onChange={(e) => updateMapping({ invertSign: e.target.checked })}
+                    />
+                    Positive amounts are expenses
+                  </label>
+                </div>
+              ) : (
+                <>
+                  <div className="md:col-span-3">
+                    <label className="text-sm font-medium text-slate-700">Debit/credit column</label>
+                    {columnSelect(mapping.directionColumn, (v) => updateMapping({ directionColumn: v }))}
+                  </div>
+                  <div className="md:col-span-3">
+                    <label className="text-sm font-medium text-slate-700">Expense marker</label>
+                    <input
+                      className="mt-1 w-full rounded-md border border-slate-300 px-3 py-2 text-sm"
+                      value={mapping.outflowValue ?? ""}
+                      onChange={(e) => updateMapping({ outflowValue: e.target.value })}
+                      placeholder="e.g. DR or Debit"
+                    />
+                  </div>
+                </>
+              )}
+
+              <div className="md:col-span-3">
+                <label className="text-sm font-medium text-slate-700">Note column</label>
+                {columnSelect(mapping.noteColumn, (v) => updateMapping({ noteColumn: v }), true)}
+              </div>
+            </div>
+
+            <div className="mt-4 flex flex-wrap items-end gap-2">
+              <div>
+                <label className="text-sm font-medium text-slate-700">Save mapping as</label>
+                <input
+                  className="mt-1 w-64 rounded-md border border-slate-300 px-3 py-2 text-sm"
+                  value={profileName}
+                  onChange={(e) => setProfileName(e.target.value)}
+                  placeholder="e.g. DBS current account"
+                />
+              </div>
+              <button
+                className="rounded-lg border border-slate-300 bg-white px-4 py-2 text-sm font-medium text-slate-700 hover:bg-slate-50 disabled:cursor-not-allowed disabled:opacity-50"
+                onClick={handleSaveProfile}
+                disabled={!profileName.trim()}
+              >
+                Save profile
+              </button>
+              {profiles.some((p) => p.name === profileName.trim()) && (
+                <button
+                  className="rounded-lg border border-red-300 bg-red-50 px-4 py-2 text-sm font-medium text-red-700 hover:bg-red-100"
+                  onClick={handleDeleteProfile}
+                >
+                  Delete profile
+                </button>
+              )}
+            </div>
+          </>
+        ) : (
+          <p className="mt-4 text-sm text-slate-600">
+            {FORMAT_LABELS[format]} files carry their own field layout, so no column mapping is needed. Each
+            row keeps the bank&apos;s reference, so importing the same file again adds nothing.
+          </p>
+        )}
+      </div>
+
+      {/* Preview */}
+      <div className="rounded-lg border border-slate-200 bg-white p-6">
+        <div className="flex items-end justify-between gap-4">
+          <div>
+            <h2 className="text-lg font-semibold">3. Review and import</h2>
+            <p className="mt-1 text-sm text-slate-600">
+              {counts.new} new · {counts.duplicate} likely duplicate · {counts.locked} locked ·{" "}
+              {counts.invalid} invalid
+            </p>
+          </div>
+          <button
+            className={`rounded-lg px-4 py-2 text-sm font-medium ${
+              selectedRows.length > 0 && !isReadOnly
+                ? "bg-slate-900 text-white"
+                : "bg-slate-200 text-slate-500 cursor-not-allowed opacity-50"
+            }`}
+            onClick={handleImport}
+            disabled={selectedRows.length === 0 || isReadOnly}
+          >
+            Import {selectedRows.length} row(s)
+          </button>
+        </div>
+
+        <div className="mt-4 overflow-hidden rounded-lg border border-slate-200">
+          <div className="grid grid-cols-12 gap-2 bg-slate-50 px-4 py-2 text-xs font-semibold uppercase tracking-wide text-slate-600">
+            <div className="col-span-1">Import</div>
+            <div className="col-span-1">Line</div>
+            <div className="col-span-2">Date</div>
+            <div className="col-span-2">Note</div>
+            <div className="col-span-1">Category</div>
+            <div className="col-span-2 text-right">Amount</div>
+            <div className="col-span-3">Status</div>
+          </div>
+
+          <div className="divide-y divide-slate-200">
+            {reviewedRows.map((row) => {
+              const selectable = row.status === "new" || row.status === "duplicate";
+              const style = STATUS_STYLES[row.status];
+              return (
+                <div
+                  key={row.line}
+                  className={`grid grid-cols-12 items-center gap-2 px-4 py-2 text-sm ${
+                    row.status === "locked" ? "bg-amber-50" : ""
+                  }`}
+                >
+                  <div className="col-span-1">
+                    <input
+                      type="checkbox"
+                      checked={isIncluded(row)}
+                      disabled={!selectable}
+                      onChange={(e) => setInclude((prev) => ({ ...prev, [row.line]: e.target.checked }))}
+                    />
+                  </div>
+                  <div className="col-span-1 text-slate-500">{row.line}</div>
+                  <div className="col-span-2">{row.date || "—"}</div>
+                  <div className="col-span-2 text-slate-600">{row.note ?? "—"}</div>
+                  <div className="col-span-1 text-slate-600">{categoryLabel(categories, row.category)}</div>
+                  <div
+                    className={`col-span-2 text-right font-medium ${
+                      row.direction === "in" ? "text-emerald-700" : "text-red-700"
+                    }`}
+                  >
+                    {row.direction === "in" ? "+" : "−"} {formatMoney(row.amount)}
+                  </div>
+                  <div className="col-span-3">
+                    <span className={`inline-flex rounded-full px-2 py-0.5 text-xs font-semibold ${style.className}`}>
+                      {style.label}
+                    </span>
+                    {row.reason && <div className="mt-1 text-xs text-slate-500">{row.reason}</div>}
+                  </div>
+                </div>
+              );
+            })}
+
+            {reviewedRows.length === 0 && (
+              <div className="px-4 py-6 text-sm text-slate-600">Choose a CSV file to preview its rows.</div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,7 +1,18 @@
 import { useMemo, useState, useEffect } from "react";
-import { addTransaction, deleteTransaction } from "../../state/transactionsStore";
+import { addTransaction, deleteTransaction, updateTransaction } from "../../state/transactionsStore";
 import { useTransactions } from "../../state/useTransactions";
-import { CATEGORIES, type CategoryName } from "../../constants/categories";
+import { useCategoryRules } from "../../state/useCategoryRules";
+import { useLiabilities } from "../../state/useLiabilities";
+import { useLoans } from "../../state/useLoans";
+import { useInvestments } from "../../state/useInvestments";
+import { useAccounts } from "../../state/useAccounts";
+import { addLot } from "../../state/investmentsStore";
+import { findMatchingRule } from "../../utils/categoryRules";
+import type { MoneyTransaction, TransactionSplit } from "../../types/transactions";
+import type { CategoryName } from "../../constants/categories";
+import { useCategories } from "../../state/useCategories";
+import { subcategoryOptions, topLevelOptions, transactionCategoryLabel } from "../../utils/categoryTree";
+import { SplitLinesEditor } from "../../components/transactions/SplitLinesEditor";
 import {
   getCurrentPeriod,
   filterByPeriod,
@@ -9,6 +20,10 @@ import {
 } from "../../utils/periods";
 import { isPeriodLocked, subscribeLocks } from "../../state/periodLocksStore";
 import { LockBanner } from "../../components/common/LockBanner";
+import { RoleBanner } from "../../components/common/RoleBanner";
+import { useHouseholdRole } from "../../state/useHouseholdRole";
+import { roleAllows, getRestrictedTitle } from "../../utils/roleGuard";
+import { getSelectedHousehold } from "../../state/householdStore";
 
 function todayISO() {
   const d = new Date();
@@ -34,14 +49,35 @@ const getPeriodKeyFromDate = (date: string): string => date.slice(0, 7);
 export function Transactions() {
   // ✅ IMPORTANT: your hook likely returns an object
   const items = useTransactions();
+  const rules = useCategoryRules();
+  const liabilities = useLiabilities();
+  const loans = useLoans();
+  const { accounts: investmentAccounts, holdings } = useInvestments();
+  const categories = useCategories();
+  const accounts = useAccounts();
 
   const [date, setDate] = useState<string>(todayISO());
   const [category, setCategory] = useState<CategoryName>("Living");
+  const [categoryTouched, setCategoryTouched] = useState(false);
+  const [subcategory, setSubcategory] = useState<CategoryName | "">("");
+  const [isSplit, setIsSplit] = useState(false);
+  const [splitLines, setSplitLines] = useState<TransactionSplit[]>([]);
   const [direction, setDirection] = useState<"out" | "in">("out");
   const [amount, setAmount] = useState<number>(0);
+  const baseCurrency = getSelectedHousehold()?.base_currency ?? "SGD";
+  const [currency, setCurrency] = useState<string>(baseCurrency);
+  const [accountId, setAccountId] = useState<string>("");
   const [note, setNote] = useState<string>("");
+  const [liabilityId, setLiabilityId] = useState<string>("");
+  const [holdingId, setHoldingId] = useState<string>("");
+  const [buyQuantity, setBuyQuantity] = useState<number>(0);
   const [lockTick, setLockTick] = useState(0);
   const [actionError, setActionError] = useState<string | null>(null);
+  const isReadOnly = !roleAllows(useHouseholdRole(), "edit");
+
+  // Edit state
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editDraft, setEditDraft] = useState<Partial<Omit<MoneyTransaction, "id">>>({});
   
   // Period-scoped view controls
   const [viewMode, setViewMode] = useState<"thisMonth" | "allTime" | "custom">("thisMonth");
@@ -88,17 +124,60 @@ export function Transactions() {
     [selectedPeriodKey, lockTick]
   );
 
+  // Auto-categorise from rules until the user picks a category themselves
+  const matchedRule = useMemo(
+    () => (categoryTouched ? null : findMatchingRule(rules, { date, amount, direction, note })),
+    [categoryTouched, rules, date, amount, direction, note]
+  );
+  const effectiveCategory = matchedRule?.category ?? category;
+
+  // Subcategories are optional and only apply under the chosen category
+  const subOptions = subcategoryOptions(categories, effectiveCategory);
+  const effectiveSubcategory = subOptions.some((c) => c.id === subcategory) ? subcategory : "";
+
+  // Liabilities with loan terms, for linking Debt payments
+  const loanOptions = useMemo(
+    () => liabilities.filter((l) => loans.some((loan) => loan.liabilityId === l.id)),
+    [liabilities, loans]
+  );
+  const loanNames = useMemo(() => new Map(liabilities.map((l) => [l.id, l.name])), [liabilities]);
+  const bankAccountNames = useMemo(() => new Map(accounts.map((a) => [a.id, a.name])), [accounts]);
+  const openAccounts = accounts.filter((a) => !a.archived);
+  const canLinkLoan = !isSplit && effectiveCategory === "Debt" && direction === "out" && loanOptions.length > 0;
+
+  // Investments purchases can also record a lot in a holding
+  const accountNames = useMemo(
+    () => new Map(investmentAccounts.map((a) => [a.id, a.name])),
+    [investmentAccounts]
+  );
+  const canBuyLot = !isSplit && effectiveCategory === "Investments" && direction === "out" && holdings.length > 0;
+
+  function handleToggleSplit(on: boolean) {
+    setIsSplit(on);
+    if (on) {
+      setSplitLines([
+        { category: effectiveCategory, subcategory: effectiveSubcategory || undefined, amount },
+        { category: effectiveCategory, amount: 0 },
+      ]);
+    }
+  }
+
   function onAdd() {
     if (!date) return;
     if (!Number.isFinite(amount) || amount <= 0) return;
-    if (isAddLocked) return; // Safeguard: prevent adding if locked
+    if (isAddLocked || isReadOnly) return; // Safeguard: prevent adding if locked or read-only
 
     const result = addTransaction({
       date,
-      category,
+      category: effectiveCategory,
+      subcategory: effectiveSubcategory || undefined,
+      splits: isSplit ? splitLines : undefined,
       amount,
+      currency,
       direction,
       note: note.trim() ? note.trim() : undefined,
+      liabilityId: canLinkLoan && liabilityId ? liabilityId : undefined,
+      accountId: accountId || undefined,
     });
 
     if (!result.ok) {
@@ -107,16 +186,88 @@ export function Transactions() {
       return;
     }
 
+    if (canBuyLot && holdingId && buyQuantity > 0) {
+      const lot = addLot(holdingId, { date, quantity: buyQuantity, unitCost: amount / buyQuantity, transactionId: result.id });
+      if (!lot.ok) {
+        setActionError(`Transaction saved, but the lot was not created: ${lot.reason}`);
+        setTimeout(() => setActionError(null), 4000);
+      }
+    }
+
     setAmount(0);
     setNote("");
+    setLiabilityId("");
+    setHoldingId("");
+    setBuyQuantity(0);
+    setSubcategory("");
+    setIsSplit(false);
+    setSplitLines([]);
+    setCategoryTouched(false);
+    setActionError(null);
+  }
+
+  function handleStartEdit(t: MoneyTransaction) {
+    if (isPeriodLocked(getPeriodKeyFromDate(t.date))) {
+      setActionError("Cannot edit: this period is locked.");
+      setTimeout(() => setActionError(null), 4000);
+      return;
+    }
+    if (t.reconciliationId) {
+      setActionError("Cannot edit: this transaction is reconciled.");
+      setTimeout(() => setActionError(null), 4000);
+      return;
+    }
+
+    setEditingId(t.id);
+    setEditDraft({
+      date: t.date,
+      category: t.category,
+      subcategory: t.subcategory,
+      splits: t.splits,
+      amount: t.amount,
+      currency: t.currency ?? baseCurrency,
+      direction: t.direction,
+      note: t.note,
+      liabilityId: t.liabilityId,
+      accountId: t.accountId,
+    });
+  }
+
+  function handleCancelEdit() {
+    setEditingId(null);
+    setEditDraft({});
+  }
+
+  function handleSaveEdit(id: string) {
+    // Drop a loan link the new category or direction no longer allows
+    const keepsLoan = !editDraft.splits && editDraft.category === "Debt" && editDraft.direction === "out";
+    const result = updateTransaction(id, { ...editDraft, liabilityId: keepsLoan ? editDraft.liabilityId : undefined });
+    if (!result.ok) {
+      setActionError(result.reason);
+      setTimeout(() => setActionError(null), 4000);
+      return;
+    }
+    setEditingId(null);
+    setEditDraft({});
     setActionError(null);
   }
 
+  function handleEditChange<K extends keyof Omit<MoneyTransaction, "id">>(
+    key: K,
+    value: MoneyTransaction[K]
+  ) {
+    setEditDraft((prev) => ({
+      ...prev,
+      [key]: value,
+    }));
+  }
+
   return (
     <div className="space-y-6">
       <h1 className="text-3xl font-bold">Transactions</h1>
 
       <LockBanner period={selectedPeriodKey} locked={isLockedView} />
+      <RoleBanner />
 
       {actionError && (
         <div className="rounded-lg border border-red-300 bg-red-50 p-4 text-sm text-red-900">
@@ -147,7 +298,7 @@ export function Transactions() {
               className="mt-1 w-full rounded-md border border-slate-300 px-3 py-2 text-sm"
               value={date}
               onChange={(e) => setDate(e.target.value)}
-              disabled={isLockedView}
+              disabled={isLockedView || isReadOnly}
             />
           </div>
 
@@ -155,18 +306,43 @@ export function Transactions() {
             <label className="text-sm font-medium text-slate-700">Category</label>
             <select
               className="mt-1 w-full rounded-md border border-slate-300 px-3 py-2 text-sm"
-              value={category}
-              onChange={(e) => setCategory(e.target.value as CategoryName)}
-              disabled={isLockedView}
+              value={effectiveCategory}
+              onChange={(e) => {
+                setCategory(e.target.value as CategoryName);
+                setCategoryTouched(true);
+              }}
+              disabled={isLockedView || isReadOnly || isSplit}
             >
-              {CATEGORIES.map((c) => (
-                <option key={c} value={c}>
-                  {c}
+              {topLevelOptions(categories, effectiveCategory).map((c) => (
+                <option key={c.id} value={c.id}>
+                  {c.name}
                 </option>
               ))}
             </select>
+            {matchedRule && (
+              <div className="mt-1 text-xs text-slate-500">Set by rule “{matchedRule.name}”</div>
+            )}
           </div>
 
+          {subOptions.length > 0 && !isSplit && (
+            <div className="md:col-span-3">
+              <label className="text-sm text-slate-600">Subcategory (optional)</label>
+              <select
+                className="mt-1 w-full rounded-md border border-slate-300 px-3 py-2 text-sm"
+                value={effectiveSubcategory}
+                onChange={(e) => setSubcategory(e.target.value as CategoryName | "")}
+                disabled={isLockedView || isReadOnly}
+              >
+                <option value="">None</option>
+                {subOptions.map((c) => (
+                  <option key={c.id} value={c.id}>
+                    {c.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
           <div className="md:col-span-3">
             <label className="text-sm font-medium text-slate-700">Type</label>
             <select
@@ -184,7 +360,7 @@ export function Transactions() {
                   setNote("");
                 }
               }}
-              disabled={isLockedView}
+              disabled={isLockedView || isReadOnly}
             >
               <option value="out">Expense</option>
               <option value="in">Income / Refund</option>
@@ -200,10 +376,100 @@ export function Transactions() {
               className="mt-1 w-full rounded-md border border-slate-300 px-3 py-2 text-sm"
               value={amount}
               onChange={(e) => setAmount(Number(e.target.value))}
-              disabled={isLockedView}
+              disabled={isLockedView || isReadOnly}
             />
           </div>
 
+          <div className="md:col-span-3">
+            <label className="text-sm text-slate-600">Currency</label>
+            <input
+              className="mt-1 w-full rounded-md border border-slate-300 px-3 py-2 text-sm uppercase"
+              value={currency}
+              maxLength={3}
+              onChange={(e) => setCurrency(e.target.value.toUpperCase())}
+              disabled={isLockedView || isReadOnly}
+            />
+          </div>
+
+          {openAccounts.length > 0 && (
+            <div className="md:col-span-3">
+              <label className="text-sm text-slate-600">Account (optional)</label>
+              <select
+                className="mt-1 w-full rounded-md border border-slate-300 px-3 py-2 text-sm"
+                value={accountId}
+                onChange={(e) => {
+                  setAccountId(e.target.value);
+                  // The transaction is recorded in the account's currency
+                  const account = openAccounts.find((a) => a.id === e.target.value);
+                  if (account) setCurrency(account.currency);
+                }}
+                disabled={isLockedView || isReadOnly}
+              >
+                <option value="">No account</option>
+                {openAccounts.map((a) => (
+                  <option key={a.id} value={a.id}>
+                    {a.name} ({a.currency})
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          {canLinkLoan && (
+            <div className="md:col-span-3">
+              <label className="text-sm text-slate-600">Repays loan (optional)</label>
+              <select
+                className="mt-1 w-full rounded-md border border-slate-300 px-3 py-2 text-sm"
+                value={liabilityId}
+                onChange={(e) => setLiabilityId(e.target.value)}
+                disabled={isLockedView || isReadOnly}
+              >
+                <option value="">Not linked</option>
+                {loanOptions.map((l) => (
+                  <option key={l.id} value={l.id}>
+                    {l.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          {canBuyLot && (
+            <>
+              <div className="md:col-span-3">
+                <label className="text-sm text-slate-600">Buy into holding (optional)</label>
+                <select
+                  className="mt-1 w-full rounded-md border border-slate-300 px-3 py-2 text-sm"
+                  value={holdingId}
+                  onChange={(e) => setHoldingId(e.target.value)}
+                  disabled={isLockedView || isReadOnly}
+                >
+                  <option value="">No lot</option>
+                  {holdings.map((h) => (
+                    <option key={h.id} value={h.id}>
+                      {h.symbol} · {accountNames.get(h.accountId) ?? "Account"}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              {holdingId && (
+                <div className="md:col-span-3">
+                  <label className="text-sm text-slate-600">Quantity bought</label>
+                  <input
+                    type="number"
+                    min={0}
+                    step="any"
+                    className="mt-1 w-full rounded-md border border-slate-300 px-3 py-2 text-sm"
+                    value={buyQuantity}
+                    onChange={(e) => setBuyQuantity(Number(e.target.value))}
+                    disabled={isLockedView || isReadOnly}
+                  />
+                </div>
+              )}
+            </>
+          )}
+
           <div className="md:col-span-3">
             <label className="text-sm text-slate-600">Note (optional)</label>
             <input
@@ -211,21 +477,44 @@ export function Transactions() {
               value={note}
               onChange={(e) => setNote(e.target.value)}
               placeholder={direction === "in" ? "e.g. salary, refund, reimbursement" : "e.g. groceries"}
-              disabled={isLockedView}
+              disabled={isLockedView || isReadOnly}
             />
           </div>
         </div>
 
+        <div className="mt-4">
+          <label className="flex items-center gap-2 text-sm text-slate-700">
+            <input
+              type="checkbox"
+              checked={isSplit}
+              onChange={(e) => handleToggleSplit(e.target.checked)}
+              disabled={isLockedView || isReadOnly}
+            />
+            Split across categories
+          </label>
+          {isSplit && (
+            <div className="mt-2">
+              <SplitLinesEditor
+                lines={splitLines}
+                onChange={setSplitLines}
+                total={amount}
+                currency={currency}
+                disabled={isLockedView || isReadOnly}
+              />
+            </div>
+          )}
+        </div>
+
         <div className="mt-4">
           <LockBanner period={addDatePeriod} locked={isAddLocked} />
           <button
             className={`rounded-lg px-4 py-2 text-sm font-medium ${
-              amount > 0 && !isAddLocked && !isLockedView
+              amount > 0 && !isAddLocked && !isLockedView && !isReadOnly
                 ? "bg-slate-900 text-white"
                 : "bg-slate-200 text-slate-500 cursor-not-allowed opacity-50"
             }`}
             onClick={onAdd}
-            disabled={amount <= 0 || isAddLocked || isLockedView}
+            disabled={amount <= 0 || isAddLocked || isLockedView || isReadOnly}
           >
             Add
           </button>
@@ -322,28 +611,227 @@ export function Transactions() {
             {filteredItems.map((t) => {
               const txPeriod = getPeriodKeyFromDate(t.date);
               const isRowLocked = isPeriodLocked(txPeriod);
+              const isRowReconciled = Boolean(t.reconciliationId);
+              const isRowDisabled = isRowLocked || isRowReconciled || isReadOnly;
+              const rowDisabledTitle = isRowLocked
+                ? "Period is locked"
+                : isRowReconciled
+                  ? "Reconciled; undo the reconciliation on the Accounts page to change it"
+                  : getRestrictedTitle();
+
+              if (editingId === t.id) {
+                // Edit mode
+                return (
+                  <div key={t.id} className="grid grid-cols-12 items-center gap-2 bg-amber-50 px-4 py-2 text-sm">
+                    <div className="col-span-3">
+                      <input
+                        type="date"
+                        className="w-full rounded border border-slate-300 px-2 py-1 text-xs"
+                        value={editDraft.date || ""}
+                        onChange={(e) => handleEditChange("date", e.target.value)}
+                      />
+                      {accounts.length > 0 && (
+                        <select
+                          className="mt-1 w-full rounded border border-slate-300 px-2 py-1 text-xs"
+                          value={editDraft.accountId ?? ""}
+                          onChange={(e) => handleEditChange("accountId", e.target.value || undefined)}
+                        >
+                          <option value="">No account</option>
+                          {accounts
+                            .filter((a) => !a.archived || a.id === t.accountId)
+                            .map((a) => (
+                              <option key={a.id} value={a.id}>
+                                {a.name} ({a.currency})
+                              </option>
+                            ))}
+                        </select>
+                      )}
+                    </div>
+                    <div className="col-span-2">
+                      {editDraft.splits ? (
+                        <div className="text-xs text-slate-600">Split</div>
+                      ) : (
+                        <>
+                          <select
+                            className="w-full rounded border border-slate-300 px-2 py-1 text-xs"
+                            value={editDraft.category || "Living"}
+                            onChange={(e) =>
+                              setEditDraft((prev) => ({ ...prev, category: e.target.value as CategoryName, subcategory: undefined }))
+                            }
+                          >
+                            {topLevelOptions(categories, t.category).map((c) => (
+                              <option key={c.id} value={c.id}>
+                                {c.name}
+                              </option>
+                            ))}
+                          </select>
+                          {subcategoryOptions(categories, editDraft.category || "Living", t.subcategory).length > 0 && (
+                            <select
+                              className="mt-1 w-full rounded border border-slate-300 px-2 py-1 text-xs"
+                              value={editDraft.subcategory ?? ""}
+                              onChange={(e) => handleEditChange("subcategory", (e.target.value || undefined) as CategoryName | undefined)}
+                            >
+                              <option value="">No subcategory</option>
+                              {subcategoryOptions(categories, editDraft.category || "Living", t.subcategory).map((c) => (
+                                <option key={c.id} value={c.id}>
+                                  {c.name}
+                                </option>
+                              ))}
+                            </select>
+                          )}
+                        </>
+                      )}
+                      <button
+                        className="mt-1 text-xs text-slate-700 underline"
+                        onClick={() =>
+                          setEditDraft((prev) =>
+                            prev.splits
+                              ? { ...prev, splits: undefined }
+                              : {
+                                  ...prev,
+                                  subcategory: undefined,
+                                  liabilityId: undefined,
+                                  splits: [
+                                    { category: prev.category || "Living", subcategory: prev.subcategory, amount: prev.amount || 0 },
+                                    { category: prev.category || "Living", amount: 0 },
+                                  ],
+                                }
+                          )
+                        }
+                      >
+                        {editDraft.splits ? "Unsplit" : "Split"}
+                      </button>
+                      {!editDraft.splits && editDraft.category === "Debt" && editDraft.direction === "out" && loanOptions.length > 0 && (
+                        <select
+                          className="mt-1 w-full rounded border border-slate-300 px-2 py-1 text-xs"
+                          value={editDraft.liabilityId ?? ""}
+                          onChange={(e) => handleEditChange("liabilityId", e.target.value || undefined)}
+                        >
+                          <option value="">No loan</option>
+                          {loanOptions.map((l) => (
+                            <option key={l.id} value={l.id}>
+                              {l.name}
+                            </option>
+                          ))}
+                        </select>
+                      )}
+                    </div>
+                    <div className="col-span-1">
+                      <select
+                        className="w-full rounded border border-slate-300 px-2 py-1 text-xs"
+                        value={editDraft.direction || "out"}
+                        onChange={(e) => handleEditChange("direction", e.target.value as "in" | "out")}
+                      >
+                        <option value="out">Out</option>
+                        <option value="in">In</option>
+                      </select>
+                    </div>
+                    <div className="col-span-3">
+                      <input
+                        type="text"
+                        className="w-full rounded border border-slate-300 px-2 py-1 text-xs"
+                        value={editDraft.note || ""}
+                        onChange={(e) => handleEditChange("note", e.target.value)}
+                      />
+                    </div>
+                    <div className="col-span-3 flex items-center justify-end gap-2">
+                      <input
+                        type="number"
+                        min={0}
+                        step="0.01"
+                        className="w-24 rounded border border-slate-300 px-2 py-1 text-right text-xs"
+                        value={editDraft.amount || ""}
+                        onChange={(e) => handleEditChange("amount", Number(e.target.value))}
+                      />
+                      <input
+                        className="w-14 rounded border border-slate-300 px-2 py-1 text-xs uppercase"
+                        value={editDraft.currency || ""}
+                        maxLength={3}
+                        onChange={(e) => handleEditChange("currency", e.target.value.toUpperCase())}
+                      />
+                      <button
+                        className="rounded bg-emerald-600 px-3 py-1 text-xs font-medium text-white hover:bg-emerald-700"
+                        onClick={() => handleSaveEdit(t.id)}
+                      >
+                        Save
+                      </button>
+                      <button
+                        className="rounded border border-slate-300 bg-white px-3 py-1 text-xs font-medium text-slate-700 hover:bg-slate-50"
+                        onClick={handleCancelEdit}
+                      >
+                        Cancel
+                      </button>
+                    </div>
+                    {editDraft.splits && (
+                      <div className="col-span-12">
+                        <SplitLinesEditor
+                          lines={editDraft.splits}
+                          onChange={(lines) => handleEditChange("splits", lines)}
+                          total={editDraft.amount || 0}
+                          currency={editDraft.currency || baseCurrency}
+                        />
+                      </div>
+                    )}
+                  </div>
+                );
+              }
+
               return (
                 <div key={t.id} className={`grid grid-cols-12 items-center px-4 py-2 text-sm ${
                   isRowLocked ? "bg-amber-50" : ""
                 }`}>
-                  <div className="col-span-3">{t.date}</div>
-                  <div className="col-span-3">{t.category}</div>
+                  <div className="col-span-3">
+                    {t.date}
+                    {t.accountId && (
+                      <div className="text-xs text-slate-500">
+                        {t.transferId && (t.direction === "out" ? "Out of " : "Into ")}
+                        {bankAccountNames.get(t.accountId) ?? "an unknown account"}
+                      </div>
+                    )}
+                  </div>
+                  <div className="col-span-3">
+                    {transactionCategoryLabel(categories, t)}
+                    {t.splits?.map((line: TransactionSplit, i: number) => (
+                      <div key={i} className="text-xs text-slate-500">
+                        {transactionCategoryLabel(categories, line)} ·{" "}
+                        {formatMoney(line.amount, t.currency ?? baseCurrency)}
+                      </div>
+                    ))}
+                    {t.liabilityId && (
+                      <div className="text-xs text-slate-500">Repays {loanNames.get(t.liabilityId) ?? "a deleted loan"}</div>
+                    )}
+                  </div>
                   <div className="col-span-4 text-slate-600">{t.note ?? "—"}</div>
                   <div className="col-span-2 text-right">
                     <div className="flex flex-col items-end gap-2">
-                      <span className="font-medium">{formatMoney(t.amount)}</span>
+                      <span className="font-medium">{formatMoney(t.amount, t.currency ?? baseCurrency)}</span>
                       <div className="flex items-center gap-2">
                         {isRowLocked && (
                           <span className="text-xs text-amber-700">🔒 Locked</span>
                         )}
+                        {isRowReconciled && !isRowLocked && (
+                          <span className="text-xs text-emerald-700">✓ Reconciled</span>
+                        )}
+                        <button
+                          className={`rounded-md border px-2 py-1 text-xs ${
+                            isRowDisabled || t.transferId
+                              ? "border-slate-300 bg-slate-100 text-slate-400 cursor-not-allowed opacity-50"
+                              : "border-slate-300 bg-white hover:bg-slate-50"
+                          }`}
+                          onClick={() => handleStartEdit(t)}
+                          disabled={isRowDisabled || Boolean(t.transferId)}
+                          title={isRowDisabled ? rowDisabledTitle : t.transferId ? "Edit transfers on the Accounts page" : "Edit"}
+                        >
+                          Edit
+                        </button>
                         <button
                           className={`rounded-md border px-2 py-1 text-xs ${
-                            isRowLocked
+                            isRowDisabled
                               ? "border-slate-300 bg-slate-100 text-slate-400 cursor-not-allowed opacity-50"
                               : "border-slate-300 bg-white hover:bg-red-50"
                           }`}
                           onClick={() => {
-                            if (!isRowLocked) {
+                            if (!isRowDisabled) {
                               const result = deleteTransaction(t.id);
                               if (!result.ok) {
                                 setActionError(result.reason);
@@ -351,8 +839,8 @@ export function Transactions() {
                               }
                             }
                           }}
-                          disabled={isRowLocked}
-                          title={isRowLocked ? "Period is locked" : "Delete"}
+                          disabled={isRowDisabled}
+                          title={isRowDisabled ? rowDisabledTitle : "Delete"}
                         >
                           Delete
                         </button>
@@ -0,0 +1,254 @@
+/**
+ * Accounts Store
+ * The household's bank, card and cash accounts, persisted to localStorage.
+ * Accounts are archived rather than deleted so the transactions and
+ * transfers that reference them keep their account.
+ */
+
+import type { Account, AccountInput } from "../types/accounts";
+import { ACCOUNT_TYPES, type AccountType } from "../constants/accounts";
+import { householdKey } from "./householdStore";
+import { listReconciliations } from "./reconciliationsStore";
+import { listAllTransactions } from "./transactionsStore";
+import { assertRoleAllows } from "../utils/roleGuard";
+import { assertPeriodUnlocked, getPeriodKeyFromDate } from "../utils/lockGuard";
+
+const STORAGE_KEY = "stewardly_accounts";
+
+const listeners: Set<() => void> = new Set();
+
+/**
+ * Validate an account's details
+ * @returns null if valid, or error message if invalid
+ */
+function validateAccount(input: AccountInput): string | null {
+  if (!input.name.trim()) {
+    return "Account name is required";
+  }
+  if (!(ACCOUNT_TYPES as readonly string[]).includes(input.type)) {
+    return `Unknown account type "${input.type}"`;
+  }
+  if (!/^[A-Z]{3}$/.test(input.currency)) {
+    return "Currency must be a 3-letter code (e.g. SGD)";
+  }
+  if (!Number.isFinite(input.openingBalance)) {
+    return "Opening balance must be a number";
+  }
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(input.openingDate)) {
+    return "Opening date must be YYYY-MM-DD";
+  }
+  for (const day of [input.statementDay, input.dueDay]) {
+    if (day !== undefined && (!Number.isInteger(day) || day < 1 || day > 31)) {
+      return "Statement and due days must be between 1 and 31";
+    }
+  }
+  if ((input.statementDay === undefined) !== (input.dueDay === undefined)) {
+    return "Set both the statement closing day and the payment due day, or neither";
+  }
+  return null;
+}
+
+/**
+ * Optional day of month; unset when empty
+ */
+function toDay(value: unknown): number | undefined {
+  return value === undefined || value === null || value === "" ? undefined : Number(value);
+}
+
+function toInput(input: AccountInput): AccountInput {
+  return {
+    name: input.name.trim(),
+    type: input.type,
+    currency: input.currency.trim().toUpperCase(),
+    openingBalance: Number(input.openingBalance),
+    openingDate: input.openingDate,
+    // Statement cycles only apply to credit cards
+    statementDay: input.type === "creditCard" ? toDay(input.statementDay) : undefined,
+    dueDay: input.type === "creditCard" ? toDay(input.dueDay) : undefined,
+  };
+}
+
+/**
+ * Normalize a raw account, returning null if it is unusable
+ */
+export function normalizeAccount(value: unknown): Account | null {
+  if (!value || typeof value !== "object") return null;
+  const raw = value as Record<string, unknown>;
+
+  const id = typeof raw.id === "string" ? raw.id : "";
+  // Drop an incomplete or invalid statement cycle rather than the account
+  const statementDay = toDay(raw.statementDay);
+  const dueDay = toDay(raw.dueDay);
+  const isDay = (d: number | undefined) => d !== undefined && Number.isInteger(d) && d >= 1 && d <= 31;
+  const hasCycle = isDay(statementDay) && isDay(dueDay);
+  const input = toInput({
+    name: String(raw.name ?? ""),
+    type: raw.type as AccountType,
+    currency: String(raw.currency ?? ""),
+    openingBalance: Number(raw.openingBalance ?? 0),
+    openingDate: String(raw.openingDate ?? ""),
+    statementDay: hasCycle ? statementDay : undefined,
+    dueDay: hasCycle ? dueDay : undefined,
+  });
+  if (!id || validateAccount(input) !== null) return null;
+
+  const now = new Date().toISOString();
+  return {
+    id,
+    ...input,
+    archived: raw.archived === true,
+    createdAt: typeof raw.createdAt === "string" ? raw.createdAt : now,
+    updatedAt: typeof raw.updatedAt === "string" ? raw.updatedAt : now,
+  };
+}
+
+/**
+ * Get all accounts from localStorage
+ */
+function getAllAccounts(): Account[] {
+  try {
+    const raw = localStorage.getItem(householdKey(STORAGE_KEY));
+    if (!raw) return [];
+    const parsed = JSON.parse(raw);
+    if (!Array.isArray(parsed)) return [];
+    return parsed.map(normalizeAccount).filter((a): a is Account => a !== null);
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Save all accounts to localStorage and notify listeners
+ */
+function saveAccounts(accounts: Account[]): { ok: true } | { ok: false; reason: string } {
+  try {
+    localStorage.setItem(householdKey(STORAGE_KEY), JSON.stringify(accounts));
+  } catch (err) {
+    return { ok: false, reason: `Failed to save account: ${(err as Error).message}` };
+  }
+  notifyListeners();
+  return { ok: true };
+}
+
+/**
+ * Notify all listeners of changes
+ */
+function notifyListeners(): void {
+  listeners.forEach((listener) => listener());
+}
+
+/**
+ * List accounts by name, archived included
+ */
+export function listAccounts(): Account[] {
+  return getAllAccounts().sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export function getAccount(id: string): Account | null {
+  return getAllAccounts().find((a) => a.id === id) ?? null;
+}
+
+export function addAccount(input: AccountInput): { ok: true; id: string } | { ok: false; reason: string } {
+  const allowed = assertRoleAllows("edit", "add account");
+  if (!allowed.ok) return allowed;
+
+  const accountInput = toInput(input);
+  const validationError = validateAccount(accountInput);
+  if (validationError) return { ok: false, reason: validationError };
+
+  const now = new Date().toISOString();
+  const account: Account = { id: crypto.randomUUID(), ...accountInput, archived: false, createdAt: now, updatedAt: now };
+  const saved = saveAccounts([...getAllAccounts(), account]);
+  return saved.ok ? { ok: true, id: account.id } : saved;
+}
+
+/**
+ * Update an account's details. The currency is fixed once set, as the
+ * account's transactions are recorded in it.
+ */
+export function updateAccount(
+  id: string,
+  patch: Partial<Omit<AccountInput, "currency">>
+): { ok: true } | { ok: false; reason: string } {
+  const allowed = assertRoleAllows("edit", "edit account");
+  if (!allowed.ok) return allowed;
+
+  const accounts = getAllAccounts();
+  const index = accounts.findIndex((a) => a.id === id);
+  if (index === -1) {
+    return { ok: false, reason: "Account not found" };
+  }
+
+  const current = accounts[index];
+  const next = toInput({
+    name: patch.name ?? current.name,
+    type: patch.type ?? current.type,
+    currency: current.currency,
+    openingBalance: patch.openingBalance ?? current.openingBalance,
+    openingDate: patch.openingDate ?? current.openingDate,
+    statementDay: "statementDay" in patch ? patch.statementDay : current.statementDay,
+    dueDay: "dueDay" in patch ? patch.dueDay : current.dueDay,
+  });
+  const validationError = validateAccount(next);
+  if (validationError) return { ok: false, reason: validationError };
+
+  if (next.openingBalance !== current.openingBalance || next.openingDate !== current.openingDate) {
+    const openingFixed = assertOpeningEditable(current);
+    if (!openingFixed.ok) return openingFixed;
+  }
+
+  accounts[index] = { ...current, ...next, updatedAt: new Date().toISOString() };
+  return saveAccounts(accounts);
+}
+
+/**
+ * Whether an account's opening balance and date may change: not once a
+ * statement has been reconciled against it, nor while any of its movements
+ * are in a locked period, since both would then show a different balance
+ */
+function assertOpeningEditable(account: Account): { ok: true } | { ok: false; reason: string } {
+  if (listReconciliations().some((r) => r.accountId === account.id)) {
+    return { ok: false, reason: "Undo this account's reconciliations before changing its opening balance or date" };
+  }
+  for (const t of listAllTransactions()) {
+    if (t.accountId !== account.id) continue;
+    const unlocked = assertPeriodUnlocked(getPeriodKeyFromDate(t.date));
+    if (!unlocked.ok) return unlocked;
+  }
+  return { ok: true };
+}
+
+/**
+ * Archive (hide from pickers) or restore an account
+ */
+export function setAccountArchived(id: string, archived: boolean): { ok: true } | { ok: false; reason: string } {
+  const allowed = assertRoleAllows("edit", archived ? "archive account" : "restore account");
+  if (!allowed.ok) return allowed;
+
+  const accounts = getAllAccounts();
+  const index = accounts.findIndex((a) => a.id === id);
+  if (index === -1) {
+    return { ok: false, reason: "Account not found" };
+  }
+
+  accounts[index] = { ...accounts[index], archived, updatedAt: new Date().toISOString() };
+  return saveAccounts(accounts);
+}
+
+/**
+ * Replace every account (cloud sync)
+ */
+export function replaceAllAccounts(accounts: Account[]): void {
+  saveAccounts(accounts.map(normalizeAccount).filter((x): x is Account => x !== null));
+}
+
+/**
+ * Subscribe to account changes
+ * @returns Unsubscribe function
+ */
+export function subscribeAccounts(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
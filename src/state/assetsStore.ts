@@ -0,0 +1,55 @@
+/**
+ * Assets Store
+ * Typed assets (cash, property, investment, CPF, vehicle) with a currency
+ * and dated valuation history, persisted to localStorage.
+ */
+
+import type { Asset } from "../types/netWorth";
+import { ASSET_TYPES } from "../constants/netWorth";
+import { createNetWorthRegistry } from "./netWorthRegistry";
+
+const registry = createNetWorthRegistry({
+  storageKey: "stewardly_assets",
+  label: "asset",
+  types: ASSET_TYPES,
+  defaultType: "cash",
+});
+
+export const normalizeAsset: (value: unknown) => Asset | null = registry.normalize;
+
+/**
+ * List all assets by name
+ */
+export const listAssets = registry.list;
+
+export const getAsset = registry.get;
+
+/**
+ * Add an asset with its first valuation
+ */
+export const addAsset = registry.add;
+
+/**
+ * Update an asset's name, type, currency or note
+ */
+export const updateAsset = registry.update;
+
+export const deleteAsset = registry.remove;
+
+/**
+ * Record a dated valuation (replaces a valuation on the same date)
+ */
+export const addAssetValuation = registry.addValuation;
+
+export const deleteAssetValuation = registry.removeValuation;
+
+/**
+ * Replace every asset (cloud sync)
+ */
+export const replaceAllAssets = registry.replaceAll;
+
+/**
+ * Subscribe to asset changes
+ * @returns Unsubscribe function
+ */
+export const subscribeAssets = registry.subscribe;
@@ -0,0 +1,675 @@
+/**
+ * Backup Service
+ * Versioned JSON backup of every Stewardly store, and validated restore
+ * (merge or replace) with an all-or-nothing write.
+ */
+
+import type { MoneyTransaction } from "../types/transactions";
+import type { IncomeRecord } from "../types/income";
+import type { DistributionPlan } from "../types/distribution";
+import type { ScheduledTransactionTemplate } from "../types/scheduled";
+import type { PeriodPlanSnapshot } from "./periodSnapshotStore";
+import type { FxRate } from "../types/fx";
+import type { Asset, Liability, NetWorthSnapshot } from "../types/netWorth";
+import type { LoanTerms } from "../types/loans";
+import type { Holding, InvestmentAccount, SecurityPrice } from "../types/investments";
+import type { SavingsGoal } from "../types/goals";
+import type { Category } from "../types/categories";
+import type { Account, Reconciliation } from "../types/accounts";
+import type { CsvImportProfile } from "../types/import";
+import type { CategoryRule } from "../types/categoryRules";
+import { normalizeTransaction, listAllTransactions, replaceAllTransactions } from "./transactionsStore";
+import { normalizeIncome, listIncome, replaceAllIncome } from "./incomeStore";
+import { normalizePlan } from "./distributionPlansStore";
+import { validateTemplate } from "./scheduledTemplatesStore";
+import { normalizeLocks } from "./periodLocksStore";
+import { normalizeSnapshot } from "./periodSnapshotStore";
+import { normalizeFxRate } from "./fxRatesStore";
+import { normalizeAsset } from "./assetsStore";
+import { normalizeLiability } from "./liabilitiesStore";
+import { normalizeNetWorthSnapshot } from "./netWorthHistoryStore";
+import { normalizeLoanTerms } from "./loansStore";
+import { normalizeInvestments } from "./investmentsStore";
+import { normalizeSecurityPrice } from "./securityPricesStore";
+import { normalizeSavingsGoal } from "./savingsGoalsStore";
+import { normalizeCategory } from "./categoriesStore";
+import { normalizeAccount } from "./accountsStore";
+import { normalizeReconciliation } from "./reconciliationsStore";
+import { normalizeImportProfile } from "./importProfilesStore";
+import { normalizeCategoryRule } from "./categoryRulesStore";
+import { householdKey } from "./householdStore";
+import { assertRoleAllows } from "../utils/roleGuard";
+
+export const BACKUP_FORMAT = "stewardly-backup";
+/** Raise whenever BackupData gains a section, and record it in BACKUP_SECTIONS */
+export const BACKUP_VERSION = 2;
+
+/**
+ * localStorage keys covered by a backup, for the selected household
+ * (transactions and income live behind the storage adapter)
+ */
+function backupKeys() {
+  return {
+    distributionPlans: householdKey("stewardly_distribution_plans"),
+    activePlanId: householdKey("stewardly_active_plan_id"),
+    periodLocks: householdKey("stewardly_period_locks"),
+    periodSnapshots: householdKey("stewardly_period_plan_snapshots"),
+    scheduledTemplates: householdKey("stewardly_scheduled_templates"),
+    assets: householdKey("stewardly_assets"),
+    liabilities: householdKey("stewardly_liabilities"),
+    importProfiles: householdKey("stewardly_import_profiles"),
+    categoryRules: householdKey("stewardly_category_rules"),
+    fxRates: householdKey("stewardly_fx_rates"),
+    netWorthHistory: householdKey("stewardly_net_worth_history"),
+    loans: householdKey("stewardly_loans"),
+    investments: householdKey("stewardly_investments"),
+    securityPrices: householdKey("stewardly_security_prices"),
+    savingsGoals: householdKey("stewardly_savings_goals"),
+    categories: householdKey("stewardly_categories"),
+    accounts: householdKey("stewardly_accounts"),
+    reconciliations: householdKey("stewardly_reconciliations"),
+  };
+}
+
+export interface BackupData {
+  transactions: MoneyTransaction[];
+  income: IncomeRecord[];
+  distributionPlans: DistributionPlan[];
+  activePlanId: string | null;
+  periodLocks: Record<string, boolean>;
+  periodSnapshots: Record<string, PeriodPlanSnapshot>;
+  scheduledTemplates: ScheduledTransactionTemplate[];
+  assets: Asset[];
+  liabilities: Liability[];
+  importProfiles: CsvImportProfile[];
+  categoryRules: CategoryRule[];
+  fxRates: FxRate[];
+  netWorthHistory: Record<string, NetWorthSnapshot>;
+  loans: Record<string, LoanTerms>;
+  investmentAccounts: InvestmentAccount[];
+  holdings: Holding[];
+  securityPrices: SecurityPrice[];
+  savingsGoals: SavingsGoal[];
+  categories: Category[];
+  accounts: Account[];
+  reconciliations: Reconciliation[];
+}
+
+/**
+ * The backup version that introduced each section. A file older than a
+ * section's version simply does not have it.
+ */
+const BACKUP_SECTIONS: Record<keyof BackupData, { since: number; label: string }> = {
+  transactions: { since: 1, label: "Transactions" },
+  income: { since: 1, label: "Income" },
+  distributionPlans: { since: 1, label: "Distribution plans" },
+  activePlanId: { since: 1, label: "Active plan" },
+  periodLocks: { since: 1, label: "Period locks" },
+  periodSnapshots: { since: 1, label: "Plan snapshots" },
+  scheduledTemplates: { since: 1, label: "Scheduled templates" },
+  assets: { since: 1, label: "Assets" },
+  liabilities: { since: 1, label: "Liabilities" },
+  importProfiles: { since: 1, label: "Import profiles" },
+  categoryRules: { since: 1, label: "Category rules" },
+  fxRates: { since: 2, label: "Exchange rates" },
+  netWorthHistory: { since: 2, label: "Net worth history" },
+  loans: { since: 2, label: "Loans" },
+  investmentAccounts: { since: 2, label: "Investment accounts" },
+  holdings: { since: 2, label: "Holdings" },
+  securityPrices: { since: 2, label: "Security prices" },
+  savingsGoals: { since: 2, label: "Savings goals" },
+  categories: { since: 2, label: "Categories" },
+  accounts: { since: 2, label: "Accounts" },
+  reconciliations: { since: 2, label: "Reconciliations" },
+};
+
+export interface StewardlyBackup {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  createdAt: string; // ISO
+  checksum: string; // SHA-256 hex of JSON.stringify(data)
+  data: BackupData;
+}
+
+export type RestoreMode = "merge" | "replace";
+
+export interface RestoreSectionSummary {
+  section: string;
+  current: number;
+  incoming: number;
+  added: number;
+  updated: number;
+  removed: number;
+  /** Incoming rows ignored because their period is locked on this device */
+  skippedLocked: number;
+}
+
+export interface RestorePlan {
+  mode: RestoreMode;
+  summary: RestoreSectionSummary[];
+  /** Sections this build has that the (older) backup file lacks; replace refuses to run */
+  missingSections: string[];
+  /** Final raw value per localStorage key (null = remove key) */
+  values: Record<string, string | null>;
+  /** Final adapter-backed records */
+  transactions: MoneyTransaction[];
+  income: IncomeRecord[];
+}
+
+function readJson(key: string): unknown {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? JSON.parse(raw) : null;
+  } catch {
+    return null;
+  }
+}
+
+function readArray(key: string): unknown[] {
+  const value = readJson(key);
+  return Array.isArray(value) ? value : [];
+}
+
+function normalizeList<T>(items: unknown, normalize: (value: unknown) => T | null): T[] {
+  if (!Array.isArray(items)) return [];
+  return items.map(normalize).filter((x): x is T => x !== null);
+}
+
+function normalizeFxRates(items: unknown): FxRate[] {
+  return normalizeList(items, normalizeFxRate);
+}
+
+function normalizeTransactions(items: unknown): MoneyTransaction[] {
+  if (!Array.isArray(items)) return [];
+  return items
+    .filter((t) => t && typeof t === "object" && typeof t.id === "string" && typeof t.date === "string")
+    .map(normalizeTransaction)
+    .filter((x): x is MoneyTransaction => Boolean(x));
+}
+
+function normalizeIncomeList(items: unknown): IncomeRecord[] {
+  if (!Array.isArray(items)) return [];
+  return items
+    .filter((i) => i && typeof i === "object" && typeof i.id === "string")
+    .map(normalizeIncome)
+    .filter((x): x is IncomeRecord => Boolean(x));
+}
+
+function normalizePlans(items: unknown): DistributionPlan[] {
+  if (!Array.isArray(items)) return [];
+  return items
+    .filter((p) => p && typeof p === "object" && typeof p.id === "string")
+    .map((p) => {
+      // isActive is derived from the active plan id, never stored
+      const { isActive: _isActive, ...rest } = normalizePlan(p as DistributionPlan);
+      void _isActive;
+      return rest;
+    });
+}
+
+function normalizeTemplates(items: unknown): ScheduledTransactionTemplate[] {
+  if (!Array.isArray(items)) return [];
+  return items.filter(
+    (t): t is ScheduledTransactionTemplate =>
+      Boolean(t) && typeof t === "object" && typeof t.id === "string" && validateTemplate(t) === null
+  );
+}
+
+function normalizeSnapshots(value: unknown): Record<string, PeriodPlanSnapshot> {
+  const snapshots: Record<string, PeriodPlanSnapshot> = {};
+  if (!value || typeof value !== "object") return snapshots;
+  for (const raw of Object.values(value)) {
+    const snapshot = normalizeSnapshot(raw);
+    if (snapshot) snapshots[snapshot.period] = snapshot;
+  }
+  return snapshots;
+}
+
+function normalizeNetWorthHistory(value: unknown): Record<string, NetWorthSnapshot> {
+  const history: Record<string, NetWorthSnapshot> = {};
+  if (!value || typeof value !== "object") return history;
+  for (const raw of Object.values(value)) {
+    const record = normalizeNetWorthSnapshot(raw);
+    if (record) history[record.period] = record;
+  }
+  return history;
+}
+
+function normalizeLoans(value: unknown): Record<string, LoanTerms> {
+  const loans: Record<string, LoanTerms> = {};
+  if (!value || typeof value !== "object") return loans;
+  for (const raw of Object.values(value)) {
+    const terms = normalizeLoanTerms(raw);
+    if (terms) loans[terms.liabilityId] = terms;
+  }
+  return loans;
+}
+
+function normalizeInvestmentSections(
+  accounts: unknown,
+  holdings: unknown
+): { investmentAccounts: InvestmentAccount[]; holdings: Holding[] } {
+  const state = normalizeInvestments({ accounts, holdings });
+  return { investmentAccounts: state.accounts, holdings: state.holdings };
+}
+
+/**
+ * Validate and normalize backup data through each store's normalizer.
+ * Invalid entries are dropped.
+ */
+function normalizeBackupData(value: unknown): BackupData {
+  const d = (value && typeof value === "object" ? value : {}) as Record<string, unknown>;
+  return {
+    transactions: normalizeTransactions(d.transactions),
+    income: normalizeIncomeList(d.income),
+    distributionPlans: normalizePlans(d.distributionPlans),
+    activePlanId: typeof d.activePlanId === "string" && d.activePlanId ? d.activePlanId : null,
+    periodLocks: normalizeLocks(d.periodLocks),
+    periodSnapshots: normalizeSnapshots(d.periodSnapshots),
+    scheduledTemplates: normalizeTemplates(d.scheduledTemplates),
+    assets: normalizeList(d.assets, normalizeAsset),
+    liabilities: normalizeList(d.liabilities, normalizeLiability),
+    importProfiles: normalizeList(d.importProfiles, normalizeImportProfile),
+    categoryRules: normalizeList(d.categoryRules, normalizeCategoryRule),
+    fxRates: normalizeFxRates(d.fxRates),
+    netWorthHistory: normalizeNetWorthHistory(d.netWorthHistory),
+    loans: normalizeLoans(d.loans),
+    ...normalizeInvestmentSections(d.investmentAccounts, d.holdings),
+    securityPrices: normalizeList(d.securityPrices, normalizeSecurityPrice),
+    savingsGoals: normalizeList(d.savingsGoals, normalizeSavingsGoal),
+    categories: normalizeList(d.categories, normalizeCategory),
+    accounts: normalizeList(d.accounts, normalizeAccount),
+    reconciliations: normalizeList(d.reconciliations, normalizeReconciliation),
+  };
+}
+
+/**
+ * Stored investments ({ accounts, holdings }) as backup sections
+ */
+function investmentsFromStorage(value: unknown): { investmentAccounts: unknown; holdings: unknown } {
+  const raw = (value && typeof value === "object" ? value : {}) as Record<string, unknown>;
+  return { investmentAccounts: raw.accounts, holdings: raw.holdings };
+}
+
+/**
+ * Read the current state of every store (as it would be backed up)
+ */
+function readCurrentData(): BackupData {
+  const keys = backupKeys();
+  return normalizeBackupData({
+    transactions: listAllTransactions(),
+    income: listIncome(),
+    distributionPlans: readArray(keys.distributionPlans),
+    activePlanId: localStorage.getItem(keys.activePlanId),
+    periodLocks: readJson(keys.periodLocks),
+    periodSnapshots: readJson(keys.periodSnapshots),
+    scheduledTemplates: readArray(keys.scheduledTemplates),
+    assets: readArray(keys.assets),
+    liabilities: readArray(keys.liabilities),
+    importProfiles: readArray(keys.importProfiles),
+    categoryRules: readArray(keys.categoryRules),
+    fxRates: readArray(keys.fxRates),
+    netWorthHistory: readJson(keys.netWorthHistory),
+    loans: readJson(keys.loans),
+    ...investmentsFromStorage(readJson(keys.investments)),
+    securityPrices: readArray(keys.securityPrices),
+    savingsGoals: readArray(keys.savingsGoals),
+    categories: readArray(keys.categories),
+    accounts: readArray(keys.accounts),
+    reconciliations: readArray(keys.reconciliations),
+  });
+}
+
+/**
+ * SHA-256 hex digest of a string
+ */
+async function sha256(text: string): Promise<string> {
+  const bytes = new TextEncoder().encode(text);
+  const digest = await crypto.subtle.digest("SHA-256", bytes);
+  return Array.from(new Uint8Array(digest))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+/**
+ * Create a backup of every store
+ */
+export async function createBackup(): Promise<StewardlyBackup> {
+  const data = readCurrentData();
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    createdAt: new Date().toISOString(),
+    checksum: await sha256(JSON.stringify(data)),
+    data,
+  };
+}
+
+/**
+ * Parse and verify a backup file (format, version, checksum), then
+ * normalize its data through the store normalizers.
+ */
+export async function parseBackup(
+  text: string
+): Promise<{ ok: true; backup: StewardlyBackup } | { ok: false; reason: string }> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    return { ok: false, reason: "File is not valid JSON" };
+  }
+
+  if (!parsed || typeof parsed !== "object") {
+    return { ok: false, reason: "File is not a Stewardly backup" };
+  }
+  const file = parsed as Partial<StewardlyBackup>;
+
+  if (file.format !== BACKUP_FORMAT) {
+    return { ok: false, reason: "File is not a Stewardly backup" };
+  }
+  if (typeof file.version !== "number" || file.version > BACKUP_VERSION) {
+    return {
+      ok: false,
+      reason: `Unsupported backup version ${String(file.version)} (this app reads up to ${BACKUP_VERSION})`,
+    };
+  }
+  if (!file.data || typeof file.data !== "object") {
+    return { ok: false, reason: "Backup has no data section" };
+  }
+
+  const checksum = await sha256(JSON.stringify(file.data));
+  if (checksum !== file.checksum) {
+    return { ok: false, reason: "Checksum mismatch: the file is corrupted or was edited" };
+  }
+
+  return {
+    ok: true,
+    backup: {
+      format: BACKUP_FORMAT,
+      version: file.version,
+      createdAt: String(file.createdAt ?? ""),
+      checksum,
+      data: normalizeBackupData(file.data),
+    },
+  };
+}
+
+/**
+ * Merge or replace an id-keyed list, counting what changes.
+ * In merge mode, incoming rows win on id conflicts unless `isLocked`
+ * says the row (current or incoming) belongs to a locked period.
+ */
+function planList<T extends { id: string }>(
+  section: string,
+  current: T[],
+  incoming: T[],
+  mode: RestoreMode,
+  isLocked: (item: T) => boolean = () => false
+): { result: T[]; summary: RestoreSectionSummary } {
+  const summary: RestoreSectionSummary = {
+    section,
+    current: current.length,
+    incoming: incoming.length,
+    added: 0,
+    updated: 0,
+    removed: 0,
+    skippedLocked: 0,
+  };
+  const currentById = new Map(current.map((x) => [x.id, x]));
+  const incomingIds = new Set(incoming.map((x) => x.id));
+
+  if (mode === "replace") {
+    for (const item of incoming) {
+      const existing = currentById.get(item.id);
+      if (!existing) summary.added++;
+      else if (JSON.stringify(existing) !== JSON.stringify(item)) summary.updated++;
+    }
+    summary.removed = current.filter((x) => !incomingIds.has(x.id)).length;
+    return { result: incoming, summary };
+  }
+
+  const result = [...current];
+  const indexById = new Map(result.map((x, i) => [x.id, i]));
+  for (const item of incoming) {
+    const index = indexById.get(item.id);
+    const existing = index !== undefined ? result[index] : undefined;
+
+    if (existing && JSON.stringify(existing) === JSON.stringify(item)) continue;
+    if (isLocked(item) || (existing && isLocked(existing))) {
+      summary.skippedLocked++;
+      continue;
+    }
+
+    if (index === undefined) {
+      result.push(item);
+      summary.added++;
+    } else {
+      result[index] = item;
+      summary.updated++;
+    }
+  }
+
+  return { result, summary };
+}
+
+/**
+ * Compute what a restore would do without writing anything.
+ * Merge mode keeps every locally locked period intact: locks are unioned,
+ * local snapshots win, and incoming transactions/income in locally locked
+ * periods are skipped. Replace mode takes the backup as-is.
+ */
+export function planRestore(backup: StewardlyBackup, mode: RestoreMode): RestorePlan {
+  const keys = backupKeys();
+  const current = readCurrentData();
+  const incoming = backup.data;
+
+  const localLocks = current.periodLocks;
+  const inLockedPeriod = (item: { date: string }) => localLocks[item.date.slice(0, 7)] === true;
+
+  const transactions = planList("Transactions", current.transactions, incoming.transactions, mode, inLockedPeriod);
+  const income = planList("Income", current.income, incoming.income, mode, inLockedPeriod);
+  const plans = planList("Distribution plans", current.distributionPlans, incoming.distributionPlans, mode);
+  const templates = planList("Scheduled templates", current.scheduledTemplates, incoming.scheduledTemplates, mode);
+  const assets = planList("Assets", current.assets, incoming.assets, mode);
+  const liabilities = planList("Liabilities", current.liabilities, incoming.liabilities, mode);
+  const profiles = planList("Import profiles", current.importProfiles, incoming.importProfiles, mode);
+  const rules = planList("Category rules", current.categoryRules, incoming.categoryRules, mode);
+  const fxRates = planList("Exchange rates", current.fxRates, incoming.fxRates, mode);
+  const investmentAccounts = planList(
+    "Investment accounts",
+    current.investmentAccounts,
+    incoming.investmentAccounts,
+    mode
+  );
+  const holdings = planList("Holdings", current.holdings, incoming.holdings, mode);
+  const securityPrices = planList("Security prices", current.securityPrices, incoming.securityPrices, mode);
+  const savingsGoals = planList("Savings goals", current.savingsGoals, incoming.savingsGoals, mode);
+  const categories = planList("Categories", current.categories, incoming.categories, mode);
+  const accounts = planList("Accounts", current.accounts, incoming.accounts, mode);
+  const reconciliations = planList("Reconciliations", current.reconciliations, incoming.reconciliations, mode);
+
+  // Locks and snapshots travel together so no locked period loses its snapshot
+  const asEntries = (locks: Record<string, boolean>) =>
+    Object.keys(locks).map((period) => ({ id: period }));
+  const lockPlan = planList("Period locks", asEntries(localLocks), asEntries(incoming.periodLocks), mode);
+  lockPlan.summary.updated = 0;
+
+  const snapshotList = (s: Record<string, PeriodPlanSnapshot>) =>
+    Object.values(s).map((snap) => ({ ...snap, id: snap.period }));
+  const snapshotPlan = planList(
+    "Period snapshots",
+    snapshotList(current.periodSnapshots),
+    snapshotList(incoming.periodSnapshots),
+    mode,
+    (snap) => localLocks[snap.period] === true
+  );
+
+  const historyList = (h: Record<string, NetWorthSnapshot>) =>
+    Object.values(h).map((record) => ({ ...record, id: record.period }));
+  const historyPlan = planList(
+    "Net worth history",
+    historyList(current.netWorthHistory),
+    historyList(incoming.netWorthHistory),
+    mode,
+    (record) => localLocks[record.period] === true
+  );
+
+  const loanList = (l: Record<string, LoanTerms>) =>
+    Object.values(l).map((terms) => ({ ...terms, id: terms.liabilityId }));
+  const loanPlan = planList("Loans", loanList(current.loans), loanList(incoming.loans), mode);
+
+  const periodLocks: Record<string, boolean> = {};
+  for (const { id } of lockPlan.result) periodLocks[id] = true;
+
+  const periodSnapshots: Record<string, PeriodPlanSnapshot> = {};
+  for (const { id: _id, ...snap } of snapshotPlan.result) {
+    void _id;
+    periodSnapshots[snap.period] = snap;
+  }
+
+  const netWorthHistory: Record<string, NetWorthSnapshot> = {};
+  for (const { id: _id, ...record } of historyPlan.result) {
+    void _id;
+    netWorthHistory[record.period] = record;
+  }
+
+  const loans: Record<string, LoanTerms> = {};
+  for (const { id: _id, ...terms } of loanPlan.result) {
+    void _id;
+    loans[terms.liabilityId] = terms;
+  }
+
+  const activePlanId =
+    mode === "replace" ? incoming.activePlanId : current.activePlanId ?? incoming.activePlanId;
+
+  const missingSections = Object.values(BACKUP_SECTIONS)
+    .filter((section) => section.since > backup.version)
+    .map((section) => section.label);
+
+  const json = (v: unknown) => JSON.stringify(v);
+  return {
+    mode,
+    missingSections,
+    summary: [
+      transactions.summary,
+      income.summary,
+      plans.summary,
+      lockPlan.summary,
+      snapshotPlan.summary,
+      templates.summary,
+      assets.summary,
+      liabilities.summary,
+      profiles.summary,
+      rules.summary,
+      fxRates.summary,
+      historyPlan.summary,
+      loanPlan.summary,
+      investmentAccounts.summary,
+      holdings.summary,
+      securityPrices.summary,
+      savingsGoals.summary,
+      categories.summary,
+      accounts.summary,
+      reconciliations.summary,
+    ],
+    values: {
+      [keys.distributionPlans]: json(plans.result),
+      [keys.activePlanId]: activePlanId,
+      [keys.periodLocks]: json(periodLocks),
+      [keys.periodSnapshots]: json(periodSnapshots),
+      [keys.scheduledTemplates]: json(templates.result),
+      [keys.assets]: json(assets.result),
+      [keys.liabilities]: json(liabilities.result),
+      [keys.importProfiles]: json(profiles.result),
+      [keys.categoryRules]: json(rules.result),
+      [keys.fxRates]: json(fxRates.result),
+      [keys.netWorthHistory]: json(netWorthHistory),
+      [keys.loans]: json(loans),
+      // Normalizing drops holdings whose account did not survive the merge
+      [keys.investments]: json(
+        normalizeInvestments({ accounts: investmentAccounts.result, holdings: holdings.result })
+      ),
+      [keys.securityPrices]: json(securityPrices.result),
+      [keys.savingsGoals]: json(savingsGoals.result),
+      [keys.categories]: json(categories.result),
+      [keys.accounts]: json(accounts.result),
+      [keys.reconciliations]: json(reconciliations.result),
+    },
+    transactions: transactions.result,
+    income: income.result,
+  };
+}
+
+/**
+ * Write raw localStorage values, restoring `previous` if any write fails
+ */
+function writeKeys(
+  values: Record<string, string | null>,
+  previous: Record<string, string | null>
+): { ok: true } | { ok: false; reason: string } {
+  try {
+    for (const [key, value] of Object.entries(values)) {
+      if (value === null) localStorage.removeItem(key);
+      else localStorage.setItem(key, value);
+    }
+    return { ok: true };
+  } catch (err) {
+    for (const [key, value] of Object.entries(previous)) {
+      try {
+        if (value === null) localStorage.removeItem(key);
+        else localStorage.setItem(key, value);
+      } catch {
+        // Best effort rollback
+      }
+    }
+    return { ok: false, reason: (err as Error).message };
+  }
+}
+
+/**
+ * Apply a restore plan atomically: either everything is written, or
+ * (on a storage error such as quota) everything is rolled back.
+ * Merge needs edit rights; replace (which can drop locks) needs an owner.
+ * Callers should reload the app afterwards so all stores re-read storage.
+ */
+export async function applyRestore(
+  plan: RestorePlan
+): Promise<{ ok: true } | { ok: false; reason: string }> {
+  // Replace can drop local locks, so only owners may use it
+  const allowed =
+    plan.mode === "replace"
+      ? assertRoleAllows("unlock", "replace local data")
+      : assertRoleAllows("edit", "merge backup");
+  if (!allowed.ok) return allowed;
+
+  // Replacing from an older file would wipe the sections it does not have
+  if (plan.mode === "replace" && plan.missingSections.length > 0) {
+    return {
+      ok: false,
+      reason: `This backup is from an older version and has no ${plan.missingSections.join(", ")}; merge it instead`,
+    };
+  }
+
+  const previous: Record<string, string | null> = {};
+  for (const key of Object.keys(plan.values)) {
+    previous[key] = localStorage.getItem(key);
+  }
+  const previousTransactions = listAllTransactions();
+  const previousIncome = listIncome();
+
+  const keys = writeKeys(plan.values, previous);
+  if (!keys.ok) {
+    return { ok: false, reason: `Restore failed and was rolled back: ${keys.reason}` };
+  }
+
+  const results = [await replaceAllTransactions(plan.transactions), await replaceAllIncome(plan.income)];
+  const failed = results.find((r): r is { ok: false; reason: string } => !r.ok);
+  if (failed) {
+    writeKeys(previous, previous);
+    await replaceAllTransactions(previousTransactions);
+    await replaceAllIncome(previousIncome);
+    return { ok: false, reason: `Restore failed and was rolled back: ${failed.reason}` };
+  }
+
+  return { ok: true };
+}
@@ -0,0 +1,241 @@
+/**
+ * Categories Store
+ * Built-in and custom categories with one level of subcategories, persisted to localStorage.
+ * Built-ins always exist (they can be renamed or archived, not removed).
+ */
+
+import type { Category } from "../types/categories";
+import { CATEGORIES, type CategoryName } from "../constants/categories";
+import { householdKey } from "./householdStore";
+import { assertRoleAllows } from "../utils/roleGuard";
+
+const STORAGE_KEY = "stewardly_categories";
+
+const listeners: Set<() => void> = new Set();
+
+const BUILT_IN_IDS: readonly string[] = CATEGORIES;
+
+function builtInCategory(id: CategoryName): Category {
+  return { id, name: id, archived: false, builtIn: true, createdAt: "", updatedAt: "" };
+}
+
+/**
+ * Normalize a raw category, returning null if it is unusable
+ */
+export function normalizeCategory(value: unknown): Category | null {
+  if (!value || typeof value !== "object") return null;
+  const raw = value as Record<string, unknown>;
+
+  const id = typeof raw.id === "string" ? raw.id.trim() : "";
+  const name = typeof raw.name === "string" ? raw.name.trim() : "";
+  if (!id || !name) return null;
+
+  const builtIn = BUILT_IN_IDS.includes(id);
+  const parentId = !builtIn && typeof raw.parentId === "string" && raw.parentId ? raw.parentId : undefined;
+
+  return {
+    id: id as CategoryName,
+    name,
+    parentId: parentId === id ? undefined : (parentId as CategoryName | undefined),
+    archived: raw.archived === true,
+    builtIn,
+    createdAt: typeof raw.createdAt === "string" ? raw.createdAt : "",
+    updatedAt: typeof raw.updatedAt === "string" ? raw.updatedAt : "",
+  };
+}
+
+/**
+ * Get all categories: built-ins first (in their canonical order), then custom
+ * categories by creation. Subcategories of unknown parents are dropped.
+ */
+function getAllCategories(): Category[] {
+  let stored: Category[] = [];
+  try {
+    const raw = localStorage.getItem(householdKey(STORAGE_KEY));
+    const parsed = raw ? JSON.parse(raw) : [];
+    if (Array.isArray(parsed)) {
+      stored = parsed.map(normalizeCategory).filter((c): c is Category => c !== null);
+    }
+  } catch {
+    stored = [];
+  }
+
+  const byId = new Map(stored.map((c) => [c.id, c]));
+  const builtIns = CATEGORIES.map((id) => byId.get(id) ?? builtInCategory(id));
+  const custom = stored
+    .filter((c) => !c.builtIn)
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+  const topLevelIds = new Set([...builtIns, ...custom].filter((c) => !c.parentId).map((c) => c.id));
+  return [...builtIns, ...custom.filter((c) => !c.parentId || topLevelIds.has(c.parentId))];
+}
+
+/**
+ * Save all categories to localStorage and notify listeners
+ */
+function saveCategories(categories: Category[]): { ok: true } | { ok: false; reason: string } {
+  try {
+    localStorage.setItem(householdKey(STORAGE_KEY), JSON.stringify(categories));
+  } catch (err) {
+    return { ok: false, reason: `Failed to save categories: ${(err as Error).message}` };
+  }
+  notifyListeners();
+  return { ok: true };
+}
+
+/**
+ * Notify all listeners of changes
+ */
+function notifyListeners(): void {
+  listeners.forEach((listener) => listener());
+}
+
+/**
+ * Check a name is present and unique among its siblings
+ * @returns null if valid, or error message if invalid
+ */
+function validateName(
+  categories: Category[],
+  name: string,
+  parentId: CategoryName | undefined,
+  exceptId?: CategoryName
+): string | null {
+  if (!name) return "Category name is required";
+  if (name.length > 40) return "Category name must be 40 characters or fewer";
+
+  const clash = categories.find(
+    (c) => c.id !== exceptId && c.parentId === parentId && c.name.toLowerCase() === name.toLowerCase()
+  );
+  return clash ? `"${clash.name}" already exists${parentId ? " under this category" : ""}` : null;
+}
+
+/**
+ * List every category, archived included (built-ins first, then custom by creation)
+ */
+export function listCategories(): Category[] {
+  return getAllCategories();
+}
+
+export function getCategory(id: CategoryName): Category | null {
+  return getAllCategories().find((c) => c.id === id) ?? null;
+}
+
+/**
+ * Ids of every top-level category, archived included (the categories a plan allocates)
+ */
+export function listTopLevelCategoryIds(): CategoryName[] {
+  return getAllCategories()
+    .filter((c) => !c.parentId)
+    .map((c) => c.id);
+}
+
+/**
+ * Whether a subcategory id belongs under a top-level category
+ */
+export function isSubcategoryOf(subcategoryId: CategoryName, parentId: CategoryName): boolean {
+  return getAllCategories().some((c) => c.id === subcategoryId && c.parentId === parentId);
+}
+
+/**
+ * Add a top-level category, or a subcategory when parentId is given
+ */
+export function addCategory(input: {
+  name: string;
+  parentId?: CategoryName;
+}): { ok: true; id: string } | { ok: false; reason: string } {
+  const allowed = assertRoleAllows("edit", "add category");
+  if (!allowed.ok) return allowed;
+
+  const categories = getAllCategories();
+  const name = input.name.trim();
+  const parentId = input.parentId || undefined;
+
+  if (parentId) {
+    const parent = categories.find((c) => c.id === parentId);
+    if (!parent) return { ok: false, reason: "Parent category not found" };
+    if (parent.parentId) return { ok: false, reason: "Subcategories cannot have their own subcategories" };
+    if (parent.archived) return { ok: false, reason: `Restore ${parent.name} before adding to it` };
+  }
+
+  const validationError = validateName(categories, name, parentId);
+  if (validationError) return { ok: false, reason: validationError };
+
+  const now = new Date().toISOString();
+  const category: Category = {
+    id: crypto.randomUUID(),
+    name,
+    parentId,
+    archived: false,
+    builtIn: false,
+    createdAt: now,
+    updatedAt: now,
+  };
+  const saved = saveCategories([...categories, category]);
+  return saved.ok ? { ok: true, id: category.id } : saved;
+}
+
+/**
+ * Rename a category. Records store the id, so they follow the new name;
+ * locked periods keep the names frozen in their snapshot.
+ */
+export function renameCategory(id: CategoryName, name: string): { ok: true } | { ok: false; reason: string } {
+  const allowed = assertRoleAllows("edit", "rename category");
+  if (!allowed.ok) return allowed;
+
+  const categories = getAllCategories();
+  const index = categories.findIndex((c) => c.id === id);
+  if (index === -1) {
+    return { ok: false, reason: "Category not found" };
+  }
+
+  const trimmed = name.trim();
+  const validationError = validateName(categories, trimmed, categories[index].parentId, id);
+  if (validationError) return { ok: false, reason: validationError };
+
+  categories[index] = { ...categories[index], name: trimmed, updatedAt: new Date().toISOString() };
+  return saveCategories(categories);
+}
+
+/**
+ * Archive (hide from pickers) or restore a category. Archiving a top-level
+ * category hides its subcategories too; existing records keep their category.
+ */
+export function setCategoryArchived(
+  id: CategoryName,
+  archived: boolean
+): { ok: true } | { ok: false; reason: string } {
+  const allowed = assertRoleAllows("edit", archived ? "archive category" : "restore category");
+  if (!allowed.ok) return allowed;
+
+  const categories = getAllCategories();
+  const index = categories.findIndex((c) => c.id === id);
+  if (index === -1) {
+    return { ok: false, reason: "Category not found" };
+  }
+
+  const parent = categories.find((c) => c.id === categories[index].parentId);
+  if (!archived && parent?.archived) {
+    return { ok: false, reason: `Restore ${parent.name} first` };
+  }
+
+  categories[index] = { ...categories[index], archived, updatedAt: new Date().toISOString() };
+  return saveCategories(categories);
+}
+
+/**
+ * Replace every custom and renamed category (cloud sync)
+ */
+export function replaceAllCategories(categories: Category[]): void {
+  saveCategories(categories.map(normalizeCategory).filter((x): x is Category => x !== null));
+}
+
+/**
+ * Subscribe to category changes
+ * @returns Unsubscribe function
+ */
+export function subscribeCategories(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
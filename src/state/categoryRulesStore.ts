@@ -0,0 +1,276 @@
+/**
+ * Category Rules Store
+ * Persists the ordered list of auto-categorisation rules to localStorage.
+ * List order is evaluation order.
+ */
+
+import type { CategoryRule, CategoryRuleConditions, CategoryRuleInput } from "../types/categoryRules";
+import type { CategoryName } from "../constants/categories";
+import { householdKey } from "./householdStore";
+import { assertRoleAllows } from "../utils/roleGuard";
+
+const STORAGE_KEY = "stewardly_category_rules";
+
+const listeners: Set<() => void> = new Set();
+
+/**
+ * Get all rules from localStorage
+ */
+function getAllRules(): CategoryRule[] {
+  try {
+    const raw = localStorage.getItem(householdKey(STORAGE_KEY));
+    if (!raw) return [];
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Save all rules to localStorage and notify listeners
+ */
+function saveRules(rules: CategoryRule[]): void {
+  try {
+    localStorage.setItem(householdKey(STORAGE_KEY), JSON.stringify(rules));
+    notifyListeners();
+  } catch (err) {
+    console.error("[categoryRulesStore] Error saving rules:", err);
+  }
+}
+
+/**
+ * Notify all listeners of changes
+ */
+function notifyListeners(): void {
+  listeners.forEach((listener) => listener());
+}
+
+/**
+ * Validate a rule
+ * @returns null if valid, or error message if invalid
+ */
+function validateRule(rule: Partial<CategoryRuleInput>): string | null {
+  if (!rule.name || typeof rule.name !== "string" || !rule.name.trim()) {
+    return "Name is required";
+  }
+
+  if (!rule.category) {
+    return "Category is required";
+  }
+
+  const c = rule.conditions ?? {};
+  const hasCondition =
+    Boolean(c.notePattern?.trim()) ||
+    c.minAmount !== undefined ||
+    c.maxAmount !== undefined ||
+    c.direction !== undefined ||
+    c.dayFrom !== undefined ||
+    c.dayTo !== undefined;
+  if (!hasCondition) {
+    return "At least one condition is required";
+  }
+
+  if (c.noteMatch === "regex" && c.notePattern?.trim()) {
+    try {
+      new RegExp(c.notePattern.trim(), "i");
+    } catch (err) {
+      return `Invalid regular expression: ${(err as Error).message}`;
+    }
+  }
+
+  if (c.minAmount !== undefined && (!Number.isFinite(c.minAmount) || c.minAmount < 0)) {
+    return "Minimum amount must be 0 or more";
+  }
+  if (c.maxAmount !== undefined && (!Number.isFinite(c.maxAmount) || c.maxAmount < 0)) {
+    return "Maximum amount must be 0 or more";
+  }
+  if (c.minAmount !== undefined && c.maxAmount !== undefined && c.minAmount > c.maxAmount) {
+    return "Minimum amount cannot exceed maximum amount";
+  }
+
+  for (const day of [c.dayFrom, c.dayTo]) {
+    if (day !== undefined && (!Number.isInteger(day) || day < 1 || day > 31)) {
+      return "Day of month must be between 1 and 31";
+    }
+  }
+  if (c.dayFrom !== undefined && c.dayTo !== undefined && c.dayFrom > c.dayTo) {
+    return "Day range start cannot be after its end";
+  }
+
+  return null;
+}
+
+function optionalNumber(value: unknown): number | undefined {
+  return typeof value === "number" && Number.isFinite(value) ? value : undefined;
+}
+
+/**
+ * Normalize a raw rule, returning null if it is unusable
+ */
+export function normalizeCategoryRule(value: unknown): CategoryRule | null {
+  if (!value || typeof value !== "object") return null;
+  const raw = value as Record<string, unknown>;
+  const c = (raw.conditions && typeof raw.conditions === "object" ? raw.conditions : {}) as Record<string, unknown>;
+
+  const conditions: CategoryRuleConditions = {
+    notePattern: typeof c.notePattern === "string" && c.notePattern.trim() ? c.notePattern : undefined,
+    noteMatch: c.noteMatch === "contains" || c.noteMatch === "regex" ? c.noteMatch : undefined,
+    minAmount: optionalNumber(c.minAmount),
+    maxAmount: optionalNumber(c.maxAmount),
+    direction: c.direction === "in" || c.direction === "out" ? c.direction : undefined,
+    dayFrom: optionalNumber(c.dayFrom),
+    dayTo: optionalNumber(c.dayTo),
+  };
+  const input: CategoryRuleInput = {
+    name: String(raw.name ?? "").trim(),
+    active: raw.active !== false,
+    conditions: Object.fromEntries(
+      Object.entries(conditions).filter(([, v]) => v !== undefined)
+    ) as CategoryRuleConditions,
+    category: (typeof raw.category === "string" ? raw.category : "") as CategoryName,
+  };
+  if (validateRule(input) !== null) return null;
+
+  return {
+    id: typeof raw.id === "string" && raw.id ? raw.id : crypto.randomUUID(),
+    ...input,
+    updatedAt: typeof raw.updatedAt === "string" ? raw.updatedAt : new Date().toISOString(),
+  };
+}
+
+/**
+ * List all rules in evaluation order
+ */
+export function listCategoryRules(): CategoryRule[] {
+  return getAllRules();
+}
+
+/**
+ * Add a rule at the end of the list (lowest priority)
+ */
+export function addCategoryRule(
+  input: CategoryRuleInput
+): { ok: true; id: string } | { ok: false; reason: string } {
+  const allowed = assertRoleAllows("edit", "add category rule");
+  if (!allowed.ok) return allowed;
+
+  const validationError = validateRule(input);
+  if (validationError) {
+    return { ok: false, reason: validationError };
+  }
+
+  const rule: CategoryRule = {
+    ...input,
+    name: input.name.trim(),
+    id: crypto.randomUUID(),
+    updatedAt: new Date().toISOString(),
+  };
+
+  const rules = getAllRules();
+  rules.push(rule);
+  saveRules(rules);
+
+  return { ok: true, id: rule.id };
+}
+
+/**
+ * Update a rule
+ */
+export function updateCategoryRule(
+  id: string,
+  patch: Partial<CategoryRuleInput>
+): { ok: true } | { ok: false; reason: string } {
+  const allowed = assertRoleAllows("edit", "edit category rule");
+  if (!allowed.ok) return allowed;
+
+  const rules = getAllRules();
+  const index = rules.findIndex((r) => r.id === id);
+
+  if (index === -1) {
+    return { ok: false, reason: "Rule not found" };
+  }
+
+  const updated: CategoryRule = {
+    ...rules[index],
+    ...patch,
+    id,
+    updatedAt: new Date().toISOString(),
+  };
+
+  const validationError = validateRule(updated);
+  if (validationError) {
+    return { ok: false, reason: validationError };
+  }
+
+  rules[index] = updated;
+  saveRules(rules);
+
+  return { ok: true };
+}
+
+/**
+ * Delete a rule
+ */
+export function deleteCategoryRule(id: string): { ok: true } | { ok: false; reason: string } {
+  const allowed = assertRoleAllows("edit", "delete category rule");
+  if (!allowed.ok) return allowed;
+
+  const rules = getAllRules();
+  const index = rules.findIndex((r) => r.id === id);
+
+  if (index === -1) {
+    return { ok: false, reason: "Rule not found" };
+  }
+
+  rules.splice(index, 1);
+  saveRules(rules);
+
+  return { ok: true };
+}
+
+/**
+ * Move a rule one position up (higher priority) or down (lower priority)
+ */
+export function moveCategoryRule(
+  id: string,
+  direction: "up" | "down"
+): { ok: true } | { ok: false; reason: string } {
+  const allowed = assertRoleAllows("edit", "reorder category rules");
+  if (!allowed.ok) return allowed;
+
+  const rules = getAllRules();
+  const index = rules.findIndex((r) => r.id === id);
+
+  if (index === -1) {
+    return { ok: false, reason: "Rule not found" };
+  }
+
+  const target = direction === "up" ? index - 1 : index + 1;
+  if (target < 0 || target >= rules.length) {
+    return { ok: true }; // Already at the edge
+  }
+
+  [rules[index], rules[target]] = [rules[target], rules[index]];
+  saveRules(rules);
+
+  return { ok: true };
+}
+
+/**
+ * Replace every rule, keeping the given order (cloud sync)
+ */
+export function replaceAllCategoryRules(rules: CategoryRule[]): void {
+  saveRules(rules.map(normalizeCategoryRule).filter((x): x is CategoryRule => x !== null));
+}
+
+/**
+ * Subscribe to rule changes
+ * @returns Unsubscribe function
+ */
+export function subscribeCategoryRules(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
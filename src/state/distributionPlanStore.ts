@@ -1,5 +1,8 @@
 import type { DistributionPlan } from "../types/distribution";
-import { CATEGORIES, type CategoryName } from "../constants/categories";
+import type { CategoryName } from "../constants/categories";
+import { householdKey } from "./householdStore";
+import { listCategories } from "./categoriesStore";
+import { assertRoleAllows } from "../utils/roleGuard";
 
 const KEY = "stewardly_distribution_plan";
 
@@ -21,8 +24,8 @@ function safeParse<T>(value: string | null): T | null {
 
 /**
  * Ensures:
- * - Every canonical category exists in plan.targets
- * - Targets are in canonical order
+ * - Every top-level category exists in plan.targets (subcategories are not allocated)
+ * - Targets follow the category order
  * - targetPct is a finite number (defaults to 0)
  */
 function normalizePlan(plan: DistributionPlan): DistributionPlan {
@@ -34,7 +37,12 @@ function normalizePlan(plan: DistributionPlan): DistributionPlan {
     if (cat) existing.set(cat, Number.isFinite(pct) ? pct : 0);
   }
 
-  const targets = CATEGORIES.map((category) => ({
+  // Top-level categories first, then any category this device does not know yet
+  const categories = listCategories();
+  const topLevel = categories.filter((c) => !c.parentId).map((c) => c.id);
+  const unknown = [...existing.keys()].filter((id) => !categories.some((c) => c.id === id));
+
+  const targets = [...topLevel, ...unknown].map((category) => ({
     category,
     targetPct: existing.get(category) ?? 0,
   }));
@@ -63,27 +71,31 @@ function needsRewrite(raw: DistributionPlan, normalized: DistributionPlan): bool
 }
 
 export function getDistributionPlan(): DistributionPlan | null {
-  const raw = safeParse<DistributionPlan>(localStorage.getItem(KEY));
+  const raw = safeParse<DistributionPlan>(localStorage.getItem(householdKey(KEY)));
   if (!raw) return null;
 
   const normalized = normalizePlan(raw);
 
   // Auto-migrate only when needed
   if (needsRewrite(raw, normalized)) {
-    localStorage.setItem(KEY, JSON.stringify(normalized));
+    localStorage.setItem(householdKey(KEY), JSON.stringify(normalized));
   }
 
   return normalized;
 }
 
-export function setDistributionPlan(plan: DistributionPlan) {
+export function setDistributionPlan(plan: DistributionPlan): { ok: true } | { ok: false; reason: string } {
+  const allowed = assertRoleAllows("edit", "edit plan");
+  if (!allowed.ok) return allowed;
+
   const normalized = normalizePlan(plan);
-  localStorage.setItem(KEY, JSON.stringify(normalized));
+  localStorage.setItem(householdKey(KEY), JSON.stringify(normalized));
   notify();
+  return { ok: true };
 }
 
 export function clearDistributionPlan() {
-  localStorage.removeItem(KEY);
+  localStorage.removeItem(householdKey(KEY));
   notify();
 }
 
@@ -4,7 +4,11 @@
  * Patterns: safeParse, normalizePlan, listeners + notify
  */
 import type { DistributionPlan } from "../types/distribution";
-import { CATEGORIES, type CategoryName } from "../constants/categories";
+import type { CategoryName } from "../constants/categories";
+import { householdKey } from "./householdStore";
+import { listCategories } from "./categoriesStore";
+import { assertRoleAllows } from "../utils/roleGuard";
+import { normalizeEnvelopeSettings } from "../utils/envelopeMath";
 
 const KEY_PLANS = "stewardly_distribution_plans";
 const KEY_ACTIVE = "stewardly_active_plan_id";
@@ -27,13 +31,14 @@ function safeParse<T>(value: string | null): T | null {
 
 /**
  * Ensures:
- * - Every canonical category exists in plan.targets
- * - Targets are in canonical order
+ * - Every top-level category exists in plan.targets (subcategories are not allocated)
+ * - Targets follow the category order
  * - targetPct is a finite number (defaults to 0)
  * - updatedAt is a valid ISO string (defaults to now if missing/invalid)
  * - currency defaults to "SGD" if missing
+ * - envelope settings are valid, or dropped (envelope mode off)
  */
-function normalizePlan(plan: DistributionPlan): DistributionPlan {
+export function normalizePlan(plan: DistributionPlan): DistributionPlan {
   const existing = new Map<CategoryName, number>();
 
   for (const t of plan.targets ?? []) {
@@ -42,7 +47,12 @@ function normalizePlan(plan: DistributionPlan): DistributionPlan {
     if (cat) existing.set(cat, Number.isFinite(pct) ? pct : 0);
   }
 
-  const targets = CATEGORIES.map((category) => ({
+  // Top-level categories first, then any category this device does not know yet
+  const categories = listCategories();
+  const topLevel = categories.filter((c) => !c.parentId).map((c) => c.id);
+  const unknown = [...existing.keys()].filter((id) => !categories.some((c) => c.id === id));
+
+  const targets = [...topLevel, ...unknown].map((category) => ({
     category,
     targetPct: existing.get(category) ?? 0,
   }));
@@ -67,6 +77,7 @@ function normalizePlan(plan: DistributionPlan): DistributionPlan {
     ...plan,
     currency,
     targets,
+    envelopes: normalizeEnvelopeSettings(plan.envelopes),
     updatedAt,
   };
 }
@@ -75,7 +86,7 @@ function normalizePlan(plan: DistributionPlan): DistributionPlan {
  * Read all plans from localStorage (raw, unfiltered)
  */
 function readAllPlans(): DistributionPlan[] {
-  const raw = safeParse<DistributionPlan[]>(localStorage.getItem(KEY_PLANS));
+  const raw = safeParse<DistributionPlan[]>(localStorage.getItem(householdKey(KEY_PLANS)));
   if (!raw || !Array.isArray(raw)) return [];
   return raw.map(normalizePlan);
 }
@@ -84,7 +95,7 @@ function readAllPlans(): DistributionPlan[] {
  * Write all plans to localStorage and notify
  */
 function writeAllPlans(plans: DistributionPlan[]): void {
-  localStorage.setItem(KEY_PLANS, JSON.stringify(plans));
+  localStorage.setItem(householdKey(KEY_PLANS), JSON.stringify(plans));
   notify();
 }
 
@@ -92,14 +103,14 @@ function writeAllPlans(plans: DistributionPlan[]): void {
  * Get the active plan ID from storage
  */
 function getActivePlanId(): string | null {
-  return localStorage.getItem(KEY_ACTIVE) || null;
+  return localStorage.getItem(householdKey(KEY_ACTIVE)) || null;
 }
 
 /**
  * Set the active plan ID in storage
  */
 function setActivePlanId(planId: string): void {
-  localStorage.setItem(KEY_ACTIVE, planId);
+  localStorage.setItem(householdKey(KEY_ACTIVE), planId);
 }
 
 /**
@@ -194,7 +205,10 @@ export function getActivePlan(): DistributionPlan | null {
  * Create a new distribution plan
  * If this is the first plan, it becomes active
  */
-export function createPlan(plan: DistributionPlan): void {
+export function createPlan(plan: DistributionPlan): { ok: true } | { ok: false; reason: string } {
+  const allowed = assertRoleAllows("edit", "create plan");
+  if (!allowed.ok) return allowed;
+
   const plans = readAllPlans();
   const normalized = normalizePlan(plan);
 
@@ -207,24 +221,29 @@ export function createPlan(plan: DistributionPlan): void {
   if (plans.length === 1) {
     setActivePlanId(newPlan.id);
   }
+  return { ok: true };
 }
 
 /**
  * Update an existing plan
  * isActive is derived from KEY_ACTIVE (source of truth)
  */
-export function updatePlan(plan: DistributionPlan): void {
+export function updatePlan(plan: DistributionPlan): { ok: true } | { ok: false; reason: string } {
+  const allowed = assertRoleAllows("edit", "edit plan");
+  if (!allowed.ok) return allowed;
+
   const plans = readAllPlans();
   const index = plans.findIndex((p) => p.id === plan.id);
 
   if (index === -1) {
     console.warn(`[distributionPlansStore] Plan ${plan.id} not found for update`);
-    return;
+    return { ok: false, reason: "Plan not found" };
   }
 
   const normalized = normalizePlan(plan);
   plans[index] = normalized;
   writeAllPlans(plans);
+  return { ok: true };
 }
 
 /**
@@ -232,6 +251,8 @@ export function updatePlan(plan: DistributionPlan): void {
  * Duplicated plan is inactive unless it's the first plan
  */
 export function duplicatePlan(sourcePlanId: string): DistributionPlan | null {
+  if (!assertRoleAllows("edit", "duplicate plan").ok) return null;
+
   const source = getPlan(sourcePlanId);
   if (!source) return null;
 
@@ -250,11 +271,57 @@ export function duplicatePlan(sourcePlanId: string): DistributionPlan | null {
   return duplicate;
 }
 
+/**
+ * Copy plans from the selected household into another household.
+ * Copies get new IDs; the first copy becomes active there if it has no plans.
+ */
+export function copyPlansToHousehold(
+  planIds: string[],
+  targetHouseholdId: string
+): { ok: true; copied: number } | { ok: false; reason: string } {
+  const allowed = assertRoleAllows("edit", "copy plans", targetHouseholdId);
+  if (!allowed.ok) return allowed;
+
+  const targetKey = householdKey(KEY_PLANS, targetHouseholdId);
+  if (targetKey === householdKey(KEY_PLANS)) {
+    return { ok: false, reason: "Choose a different household to copy into" };
+  }
+
+  const sources = readAllPlans().filter((p) => planIds.includes(p.id));
+  if (sources.length === 0) {
+    return { ok: false, reason: "Select at least one plan to copy" };
+  }
+
+  const existing = safeParse<DistributionPlan[]>(localStorage.getItem(targetKey));
+  const targetPlans = Array.isArray(existing) ? existing.map(normalizePlan) : [];
+  const copies = sources.map((source) => ({
+    ...normalizePlan(source),
+    id: crypto.randomUUID(),
+    isActive: false,
+    updatedAt: new Date().toISOString(),
+  }));
+
+  try {
+    localStorage.setItem(targetKey, JSON.stringify([...targetPlans, ...copies]));
+    const activeKey = householdKey(KEY_ACTIVE, targetHouseholdId);
+    if (!localStorage.getItem(activeKey)) {
+      localStorage.setItem(activeKey, copies[0].id);
+    }
+  } catch (err) {
+    return { ok: false, reason: `Could not copy plans: ${(err as Error).message}` };
+  }
+
+  return { ok: true, copied: copies.length };
+}
+
 /**
  * Delete a plan by ID
  * If the deleted plan was active, sets the first remaining plan as active
  */
-export function deletePlan(planId: string): void {
+export function deletePlan(planId: string): { ok: true } | { ok: false; reason: string } {
+  const allowed = assertRoleAllows("edit", "delete plan");
+  if (!allowed.ok) return allowed;
+
   const plans = readAllPlans().filter((p) => p.id !== planId);
 
   // If deleted plan was active, set first remaining as active
@@ -263,28 +330,33 @@ export function deletePlan(planId: string): void {
     if (plans.length > 0) {
       setActivePlanId(plans[0].id);
     } else {
-      localStorage.removeItem(KEY_ACTIVE);
+      localStorage.removeItem(householdKey(KEY_ACTIVE));
     }
   }
 
   writeAllPlans(plans);
+  return { ok: true };
 }
 
 /**
  * Set a plan as active (ensures exactly one active plan)
  * Uses KEY_ACTIVE as source of truth
  */
-export function setActivePlan(planId: string): void {
+export function setActivePlan(planId: string): { ok: true } | { ok: false; reason: string } {
+  const allowed = assertRoleAllows("edit", "activate plan");
+  if (!allowed.ok) return allowed;
+
   const plans = readAllPlans();
   const targetPlan = plans.find((p) => p.id === planId);
 
   if (!targetPlan) {
     console.warn(`[distributionPlansStore] Plan ${planId} not found for activation`);
-    return;
+    return { ok: false, reason: "Plan not found" };
   }
 
   setActivePlanId(planId);
   notify();
+  return { ok: true };
 }
 
 /**
@@ -297,26 +369,35 @@ export function getDistributionPlan(): DistributionPlan | null {
 /**
  * Backward compatibility: set/update active plan
  */
-export function setDistributionPlan(plan: DistributionPlan): void {
+export function setDistributionPlan(plan: DistributionPlan): { ok: true } | { ok: false; reason: string } {
   const existing = getPlan(plan.id);
 
-  if (existing) {
-    // Update existing plan and make it active
-    updatePlan(plan);
-    setActivePlan(plan.id);
-  } else {
-    // Create new plan (will be active if first)
-    createPlan(plan);
-    setActivePlan(plan.id);
-  }
+  // Update existing plan, or create a new one (active if first), then make it active
+  const saved = existing ? updatePlan(plan) : createPlan(plan);
+  if (!saved.ok) return saved;
+  return setActivePlan(plan.id);
+}
+
+/**
+ * Replace every plan (cloud sync). Keeps this device's active plan if it
+ * still exists, otherwise falls back to the first plan.
+ */
+export function replaceAllPlans(plans: DistributionPlan[]): void {
+  const normalized = plans.map((p) => {
+    const { isActive: _isActive, ...plan } = normalizePlan(p);
+    void _isActive;
+    return plan;
+  });
+  ensureActivePlan(normalized);
+  writeAllPlans(normalized);
 }
 
 /**
  * Clear all plans and active plan
  */
 export function clearDistributionPlans(): void {
-  localStorage.removeItem(KEY_PLANS);
-  localStorage.removeItem(KEY_ACTIVE);
+  localStorage.removeItem(householdKey(KEY_PLANS));
+  localStorage.removeItem(householdKey(KEY_ACTIVE));
   notify();
 }
 
@@ -0,0 +1,89 @@
+/**
+ * Envelope Service
+ * Builds envelope balances month by month from the active plan's start period.
+ * Locked periods contribute the balances frozen in their snapshot; other
+ * periods are rolled from the live plan (or a locked period's snapshot plan).
+ */
+
+import type { CategoryName } from "../constants/categories";
+import type { EnvelopeBalance, EnvelopeSettings } from "../types/distribution";
+import type { MoneyTransaction } from "../types/transactions";
+import type { IncomeRecord } from "../types/income";
+import { getActivePlan } from "./distributionPlansStore";
+import { isPeriodLocked } from "./periodLocksStore";
+import { getSnapshot } from "./periodSnapshotStore";
+import { listFxRates } from "./fxRatesStore";
+import { createFxConverter } from "../utils/fxMath";
+import { filterIncomeByPeriod, sumIncome } from "../utils/incomeMath";
+import { filterTransactionsByPeriod } from "../utils/periods";
+import { sumByCategory } from "../utils/transactionsMath";
+import { nextPeriod, rollEnvelopes } from "../utils/envelopeMath";
+
+export interface EnvelopePeriod {
+  period: string; // YYYY-MM
+  currency: string;
+  balances: EnvelopeBalance[];
+  /** True when the balances come from the locked period's snapshot */
+  frozen: boolean;
+}
+
+/**
+ * Envelope settings of the active plan, or null when envelope mode is off
+ */
+export function getEnvelopeSettings(): EnvelopeSettings | null {
+  return getActivePlan()?.envelopes ?? null;
+}
+
+/**
+ * Envelope balances for every period from the start period through a period
+ * (oldest first). Empty when envelope mode is off or the period is earlier.
+ */
+export function getEnvelopeLedger(
+  throughPeriod: string,
+  transactions: MoneyTransaction[],
+  income: IncomeRecord[]
+): EnvelopePeriod[] {
+  const plan = getActivePlan();
+  const settings = plan?.envelopes;
+  if (!plan || !settings) return [];
+
+  const ledger: EnvelopePeriod[] = [];
+  let carried = new Map<CategoryName, number>();
+
+  for (let period = settings.startPeriod; period <= throughPeriod; period = nextPeriod(period)) {
+    const snapshot = isPeriodLocked(period) ? getSnapshot(period) : null;
+
+    let entry: EnvelopePeriod;
+    if (snapshot?.envelopes) {
+      entry = { period, currency: snapshot.currency, balances: snapshot.envelopes, frozen: true };
+    } else {
+      // Periods locked before envelope mode keep their frozen plan and rates
+      const currency = snapshot?.currency ?? plan.currency;
+      const fx = createFxConverter(currency, snapshot?.fxRates ?? listFxRates());
+      const balances = rollEnvelopes(
+        carried,
+        snapshot?.targets ?? plan.targets,
+        sumIncome(filterIncomeByPeriod(income, period), fx),
+        sumByCategory(filterTransactionsByPeriod(transactions, period), fx),
+        settings.caps
+      );
+      entry = { period, currency, balances, frozen: false };
+    }
+
+    ledger.push(entry);
+    carried = new Map(entry.balances.map((b) => [b.category, b.closing]));
+  }
+
+  return ledger;
+}
+
+/**
+ * Balances for one period, or undefined when envelope mode does not cover it
+ */
+export function getEnvelopeBalances(
+  period: string,
+  transactions: MoneyTransaction[],
+  income: IncomeRecord[]
+): EnvelopeBalance[] | undefined {
+  return getEnvelopeLedger(period, transactions, income).find((p) => p.period === period)?.balances;
+}
@@ -0,0 +1,227 @@
+/**
+ * FX Rates Store
+ * Persists the household's dated exchange rate table to localStorage.
+ * One rate per (date, from, to); saving the same pair and date again replaces it.
+ */
+
+import type { FxRate, FxRateInput } from "../types/fx";
+import { householdKey } from "./householdStore";
+import { assertRoleAllows } from "../utils/roleGuard";
+import { parseCsv } from "../utils/csvImport";
+
+const STORAGE_KEY = "stewardly_fx_rates";
+
+const listeners: Set<() => void> = new Set();
+
+/**
+ * Normalize a raw rate, returning null if it is unusable
+ */
+export function normalizeFxRate(value: unknown): FxRate | null {
+  if (!value || typeof value !== "object") return null;
+  const raw = value as Record<string, unknown>;
+
+  const date = String(raw.date ?? "");
+  const from = String(raw.from ?? "").trim().toUpperCase();
+  const to = String(raw.to ?? "").trim().toUpperCase();
+  const rate = Number(raw.rate);
+
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) return null;
+  if (!/^[A-Z]{3}$/.test(from) || !/^[A-Z]{3}$/.test(to) || from === to) return null;
+  if (!Number.isFinite(rate) || rate <= 0) return null;
+
+  return {
+    id: typeof raw.id === "string" && raw.id ? raw.id : crypto.randomUUID(),
+    date,
+    from,
+    to,
+    rate,
+    source: raw.source === "csv" ? "csv" : "manual",
+    createdAt: typeof raw.createdAt === "string" ? raw.createdAt : new Date().toISOString(),
+  };
+}
+
+/**
+ * Get all rates from localStorage
+ */
+function getAllRates(): FxRate[] {
+  try {
+    const raw = localStorage.getItem(householdKey(STORAGE_KEY));
+    if (!raw) return [];
+    const parsed = JSON.parse(raw);
+    if (!Array.isArray(parsed)) return [];
+    return parsed.map(normalizeFxRate).filter((r): r is FxRate => r !== null);
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Save all rates to localStorage and notify listeners
+ */
+function saveRates(rates: FxRate[]): void {
+  try {
+    localStorage.setItem(householdKey(STORAGE_KEY), JSON.stringify(rates));
+    notifyListeners();
+  } catch (err) {
+    console.error("[fxRatesStore] Error saving rates:", err);
+  }
+}
+
+/**
+ * Notify all listeners of changes
+ */
+function notifyListeners(): void {
+  listeners.forEach((listener) => listener());
+}
+
+/**
+ * Validate a rate
+ * @returns null if valid, or error message if invalid
+ */
+function validateRate(input: Partial<FxRateInput>): string | null {
+  if (!input.date || !/^\d{4}-\d{2}-\d{2}$/.test(input.date)) {
+    return "Date must be YYYY-MM-DD";
+  }
+  const from = (input.from ?? "").trim().toUpperCase();
+  const to = (input.to ?? "").trim().toUpperCase();
+  if (!/^[A-Z]{3}$/.test(from) || !/^[A-Z]{3}$/.test(to)) {
+    return "Currencies must be 3-letter codes (e.g. USD)";
+  }
+  if (from === to) {
+    return "From and to currencies must differ";
+  }
+  if (input.rate === undefined || !Number.isFinite(input.rate) || input.rate <= 0) {
+    return "Rate must be greater than 0";
+  }
+  return null;
+}
+
+/**
+ * Insert a validated rate into the list, replacing any rate for the same date and pair
+ */
+function upsert(rates: FxRate[], input: FxRateInput): { rate: FxRate; replaced: boolean } {
+  const from = input.from.trim().toUpperCase();
+  const to = input.to.trim().toUpperCase();
+  const index = rates.findIndex((r) => r.date === input.date && r.from === from && r.to === to);
+
+  const rate: FxRate = {
+    id: index === -1 ? crypto.randomUUID() : rates[index].id,
+    date: input.date,
+    from,
+    to,
+    rate: input.rate,
+    source: input.source,
+    createdAt: new Date().toISOString(),
+  };
+
+  if (index === -1) rates.push(rate);
+  else rates[index] = rate;
+  return { rate, replaced: index !== -1 };
+}
+
+/**
+ * List all rates, newest first
+ */
+export function listFxRates(): FxRate[] {
+  return getAllRates().sort((a, b) =>
+    a.date !== b.date ? b.date.localeCompare(a.date) : `${a.from}${a.to}`.localeCompare(`${b.from}${b.to}`)
+  );
+}
+
+/**
+ * Add a rate (or replace the rate for the same date and pair)
+ */
+export function addFxRate(input: FxRateInput): { ok: true; id: string } | { ok: false; reason: string } {
+  const allowed = assertRoleAllows("edit", "add exchange rate");
+  if (!allowed.ok) return allowed;
+
+  const validationError = validateRate(input);
+  if (validationError) {
+    return { ok: false, reason: validationError };
+  }
+
+  const rates = getAllRates();
+  const { rate } = upsert(rates, input);
+  saveRates(rates);
+
+  return { ok: true, id: rate.id };
+}
+
+/**
+ * Delete a rate
+ */
+export function deleteFxRate(id: string): { ok: true } | { ok: false; reason: string } {
+  const allowed = assertRoleAllows("edit", "delete exchange rate");
+  if (!allowed.ok) return allowed;
+
+  const rates = getAllRates();
+  const index = rates.findIndex((r) => r.id === id);
+
+  if (index === -1) {
+    return { ok: false, reason: "Rate not found" };
+  }
+
+  rates.splice(index, 1);
+  saveRates(rates);
+
+  return { ok: true };
+}
+
+/**
+ * Import rates from CSV text with columns date,from,to,rate
+ * (YYYY-MM-DD dates; a header row is optional). Valid rows are saved,
+ * invalid rows are reported by line number.
+ */
+export function importFxRatesCsv(text: string):
+  | { ok: true; added: number; updated: number; errors: { line: number; reason: string }[] }
+  | { ok: false; reason: string } {
+  const allowed = assertRoleAllows("edit", "import exchange rates");
+  if (!allowed.ok) return allowed;
+
+  const rows = parseCsv(text);
+  if (rows.length === 0) {
+    return { ok: false, reason: "The file has no rows" };
+  }
+
+  const rates = getAllRates();
+  const errors: { line: number; reason: string }[] = [];
+  let added = 0;
+  let updated = 0;
+
+  rows.forEach((cells, index) => {
+    const line = index + 1;
+    const [date = "", from = "", to = "", rateText = ""] = cells.map((c) => c.trim());
+    if (index === 0 && !/^\d{4}-\d{2}-\d{2}$/.test(date)) return; // Header row
+
+    const input: FxRateInput = { date, from, to, rate: Number(rateText), source: "csv" };
+    const validationError = rateText ? validateRate(input) : "Rate is missing";
+    if (validationError) {
+      errors.push({ line, reason: validationError });
+      return;
+    }
+
+    if (upsert(rates, input).replaced) updated++;
+    else added++;
+  });
+
+  if (added + updated > 0) saveRates(rates);
+  return { ok: true, added, updated, errors };
+}
+
+/**
+ * Replace every rate (cloud sync)
+ */
+export function replaceAllFxRates(rates: FxRate[]): void {
+  saveRates(rates.map(normalizeFxRate).filter((x): x is FxRate => x !== null));
+}
+
+/**
+ * Subscribe to rate changes
+ * @returns Unsubscribe function
+ */
+export function subscribeFxRates(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
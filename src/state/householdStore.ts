@@ -1,33 +1,95 @@
+/**
+ * Member roles, most to least privileged:
+ * owner (everything, including unlocking periods), editor (edit data and
+ * lock periods), viewer (read-only)
+ */
+export type HouseholdRole = "owner" | "editor" | "viewer";
+
+export const HOUSEHOLD_ROLES: HouseholdRole[] = ["owner", "editor", "viewer"];
+
 export type Household = {
   household_id: string;
   name: string;
   base_currency: string;
   role: string;
+  /** The first household keeps the original (un-suffixed) storage keys */
+  is_default?: boolean;
 };
 
 const HOUSEHOLD_ID_KEY = "stewardly_household_id";
+const HOUSEHOLDS_KEY = "stewardly_households";
+
+/**
+ * Storage keys whose data belongs to one household.
+ * Other households store them as `${key}@${household_id}`.
+ */
+export const HOUSEHOLD_SCOPED_KEYS = [
+  "stewardly_transactions",
+  "stewardly_income",
+  "stewardly_distribution_plans",
+  "stewardly_active_plan_id",
+  "stewardly_distribution_plan",
+  "stewardly_period_locks",
+  "stewardly_period_plan_snapshots",
+  "stewardly_scheduled_templates",
+  "stewardly_import_profiles",
+  "stewardly_category_rules",
+  "stewardly_assets",
+  "stewardly_liabilities",
+  "stewardly_fx_rates",
+  "stewardly_net_worth_history",
+  "stewardly_loans",
+  "stewardly_investments",
+  "stewardly_security_prices",
+  "stewardly_savings_goals",
+  "stewardly_categories",
+  "stewardly_accounts",
+  "stewardly_reconciliations",
+] as const;
 
 type HouseholdState = {
   households: Household[];
   selectedHouseholdId: string | null;
 };
 
+const listeners = new Set<() => void>();
+
+function readHouseholds(): Household[] {
+  try {
+    const raw = localStorage.getItem(HOUSEHOLDS_KEY);
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
 let memoryState: HouseholdState = {
-  households: [],
+  households: readHouseholds(),
   selectedHouseholdId: localStorage.getItem(HOUSEHOLD_ID_KEY),
 };
 
+function notify() {
+  listeners.forEach((l) => l());
+}
+
+function saveHouseholds(households: Household[]) {
+  localStorage.setItem(HOUSEHOLDS_KEY, JSON.stringify(households));
+}
+
 export function getHouseholdState(): HouseholdState {
   return memoryState;
 }
 
 export function setHouseholds(households: Household[]) {
   memoryState = { ...memoryState, households };
+  saveHouseholds(households);
 
   // Auto-select the first household if none is selected yet
   if (!memoryState.selectedHouseholdId && households.length > 0) {
     setSelectedHouseholdId(households[0].household_id);
   }
+  notify();
 }
 
 export function setSelectedHouseholdId(id: string | null) {
@@ -35,4 +97,127 @@ export function setSelectedHouseholdId(id: string | null) {
 
   if (id) localStorage.setItem(HOUSEHOLD_ID_KEY, id);
   else localStorage.removeItem(HOUSEHOLD_ID_KEY);
+  notify();
+}
+
+/**
+ * Get the currently selected household
+ */
+export function getSelectedHousehold(): Household | null {
+  const { households, selectedHouseholdId } = memoryState;
+  return households.find((h) => h.household_id === selectedHouseholdId) ?? null;
+}
+
+/**
+ * Make sure at least one household exists and one is selected.
+ * The first household owns the data stored before households existed
+ * (and reuses a previously selected id, so sync state carries over).
+ */
+export function ensureDefaultHousehold(): Household {
+  if (memoryState.households.length === 0) {
+    const household: Household = {
+      household_id: memoryState.selectedHouseholdId || crypto.randomUUID(),
+      name: "My household",
+      base_currency: "SGD",
+      role: "owner",
+      is_default: true,
+    };
+    memoryState = { ...memoryState, households: [household] };
+    saveHouseholds(memoryState.households);
+  }
+
+  const selected = getSelectedHousehold();
+  if (selected) return selected;
+
+  setSelectedHouseholdId(memoryState.households[0].household_id);
+  return memoryState.households[0];
+}
+
+/**
+ * Role of the current user in a household (defaults to the selected one).
+ * Unrecognised roles are treated as viewer; with no household at all the
+ * device's local data is the user's own, so they are its owner.
+ */
+export function getHouseholdRole(householdId: string | null = memoryState.selectedHouseholdId): HouseholdRole {
+  const household = memoryState.households.find((h) => h.household_id === householdId);
+  if (!household) return "owner";
+  return (HOUSEHOLD_ROLES as string[]).includes(household.role) ? (household.role as HouseholdRole) : "viewer";
+}
+
+/**
+ * Record the current user's role in a household (e.g. from cloud membership)
+ */
+export function setHouseholdRole(householdId: string, role: string): void {
+  const household = memoryState.households.find((h) => h.household_id === householdId);
+  if (!household || household.role === role) return;
+
+  memoryState = {
+    ...memoryState,
+    households: memoryState.households.map((h) => (h.household_id === householdId ? { ...h, role } : h)),
+  };
+  saveHouseholds(memoryState.households);
+  notify();
+}
+
+/**
+ * Create a household (the creator is its owner)
+ */
+export function createHousehold(input: {
+  name: string;
+  base_currency: string;
+}): { ok: true; id: string } | { ok: false; reason: string } {
+  const name = input.name.trim();
+  if (!name) {
+    return { ok: false, reason: "Household name is required" };
+  }
+  if (memoryState.households.some((h) => h.name.toLowerCase() === name.toLowerCase())) {
+    return { ok: false, reason: `A household named "${name}" already exists` };
+  }
+
+  const currency = input.base_currency.trim().toUpperCase();
+  if (!/^[A-Z]{3}$/.test(currency)) {
+    return { ok: false, reason: "Base currency must be a 3-letter code (e.g. SGD)" };
+  }
+
+  const household: Household = {
+    household_id: crypto.randomUUID(),
+    name,
+    base_currency: currency,
+    role: "owner",
+  };
+  memoryState = { ...memoryState, households: [...memoryState.households, household] };
+  saveHouseholds(memoryState.households);
+  notify();
+
+  return { ok: true, id: household.household_id };
+}
+
+/**
+ * Storage scope of a household: "" for the default household (original
+ * keys), otherwise its id. Defaults to the selected household.
+ */
+export function getStorageScope(householdId: string | null = memoryState.selectedHouseholdId): string {
+  if (!householdId) return "";
+  const household = memoryState.households.find((h) => h.household_id === householdId);
+  return !household || household.is_default ? "" : householdId;
+}
+
+/**
+ * Storage key for a household's copy of a scoped key
+ * (defaults to the selected household)
+ */
+export function householdKey(baseKey: string, householdId?: string | null): string {
+  const scope = getStorageScope(householdId);
+  return scope ? `${baseKey}@${scope}` : baseKey;
+}
+
+/**
+ * Subscribe to household list/selection changes
+ * @returns Unsubscribe function
+ */
+export function subscribeHouseholds(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
 }
@@ -0,0 +1,174 @@
+/**
+ * Import Profiles Store
+ * Persists reusable CSV column mappings (one profile per bank export layout).
+ */
+
+import type { CsvColumnMapping, CsvDateFormat, CsvImportProfile } from "../types/import";
+import { householdKey } from "./householdStore";
+
+const STORAGE_KEY = "stewardly_import_profiles";
+
+const listeners: Set<() => void> = new Set();
+
+const DELIMITERS: readonly CsvColumnMapping["delimiter"][] = [",", ";", "\t"];
+const DATE_FORMATS: readonly CsvDateFormat[] = ["YYYY-MM-DD", "DD/MM/YYYY", "MM/DD/YYYY"];
+
+function isColumn(value: unknown): value is number {
+  return typeof value === "number" && Number.isInteger(value) && value >= 0;
+}
+
+/**
+ * Normalize a raw column mapping, returning null if it is unusable
+ */
+function normalizeMapping(value: unknown): CsvColumnMapping | null {
+  if (!value || typeof value !== "object") return null;
+  const raw = value as Record<string, unknown>;
+  const delimiter = DELIMITERS.find((d) => d === raw.delimiter);
+  const dateFormat = DATE_FORMATS.find((f) => f === raw.dateFormat);
+  const signMode = raw.signMode === "signed" || raw.signMode === "column" ? raw.signMode : undefined;
+  if (!delimiter || !dateFormat || !signMode || !isColumn(raw.dateColumn) || !isColumn(raw.amountColumn)) {
+    return null;
+  }
+  if (signMode === "column" && !isColumn(raw.directionColumn)) return null;
+
+  return {
+    delimiter,
+    hasHeader: raw.hasHeader === true,
+    dateColumn: raw.dateColumn,
+    dateFormat,
+    amountColumn: raw.amountColumn,
+    signMode,
+    ...(isColumn(raw.directionColumn) && { directionColumn: raw.directionColumn }),
+    ...(typeof raw.outflowValue === "string" && { outflowValue: raw.outflowValue }),
+    ...(raw.invertSign === true && { invertSign: true }),
+    ...(isColumn(raw.noteColumn) && { noteColumn: raw.noteColumn }),
+  };
+}
+
+/**
+ * Normalize a raw profile, returning null if it is unusable
+ */
+export function normalizeImportProfile(value: unknown): CsvImportProfile | null {
+  if (!value || typeof value !== "object") return null;
+  const raw = value as Record<string, unknown>;
+  const name = String(raw.name ?? "").trim();
+  const mapping = normalizeMapping(raw.mapping);
+  if (!name || !mapping) return null;
+
+  return {
+    id: typeof raw.id === "string" && raw.id ? raw.id : crypto.randomUUID(),
+    name,
+    mapping,
+    updatedAt: typeof raw.updatedAt === "string" ? raw.updatedAt : new Date().toISOString(),
+  };
+}
+
+/**
+ * Get all profiles from localStorage
+ */
+function getAllProfiles(): CsvImportProfile[] {
+  try {
+    const raw = localStorage.getItem(householdKey(STORAGE_KEY));
+    if (!raw) return [];
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Save all profiles to localStorage and notify listeners
+ */
+function saveProfiles(profiles: CsvImportProfile[]): void {
+  try {
+    localStorage.setItem(householdKey(STORAGE_KEY), JSON.stringify(profiles));
+    notifyListeners();
+  } catch (err) {
+    console.error("[importProfilesStore] Error saving profiles:", err);
+  }
+}
+
+/**
+ * Notify all listeners of changes
+ */
+function notifyListeners(): void {
+  listeners.forEach((listener) => listener());
+}
+
+/**
+ * List all import profiles sorted by name
+ */
+export function listImportProfiles(): CsvImportProfile[] {
+  return getAllProfiles().sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Save a mapping under a profile name.
+ * Upserts by name (case-insensitive) so re-saving a bank's profile updates it.
+ */
+export function saveImportProfile(
+  name: string,
+  mapping: CsvColumnMapping
+): { ok: true; id: string } | { ok: false; reason: string } {
+  const trimmed = name.trim();
+  if (!trimmed) {
+    return { ok: false, reason: "Profile name is required" };
+  }
+
+  const profiles = getAllProfiles();
+  const index = profiles.findIndex((p) => p.name.toLowerCase() === trimmed.toLowerCase());
+  const now = new Date().toISOString();
+
+  if (index !== -1) {
+    profiles[index] = { ...profiles[index], name: trimmed, mapping: { ...mapping }, updatedAt: now };
+    saveProfiles(profiles);
+    return { ok: true, id: profiles[index].id };
+  }
+
+  const profile: CsvImportProfile = {
+    id: crypto.randomUUID(),
+    name: trimmed,
+    mapping: { ...mapping },
+    updatedAt: now,
+  };
+  profiles.push(profile);
+  saveProfiles(profiles);
+
+  return { ok: true, id: profile.id };
+}
+
+/**
+ * Delete an import profile
+ */
+export function deleteImportProfile(id: string): { ok: true } | { ok: false; reason: string } {
+  const profiles = getAllProfiles();
+  const index = profiles.findIndex((p) => p.id === id);
+
+  if (index === -1) {
+    return { ok: false, reason: "Profile not found" };
+  }
+
+  profiles.splice(index, 1);
+  saveProfiles(profiles);
+
+  return { ok: true };
+}
+
+/**
+ * Replace every import profile (cloud sync)
+ */
+export function replaceAllImportProfiles(profiles: CsvImportProfile[]): void {
+  saveProfiles(profiles.map(normalizeImportProfile).filter((x): x is CsvImportProfile => x !== null));
+}
+
+/**
+ * Subscribe to import profile changes
+ * @returns Unsubscribe function
+ */
+export function subscribeImportProfiles(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
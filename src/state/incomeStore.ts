@@ -1,7 +1,7 @@
 import type { IncomeRecord, IncomeInput } from "../types/income";
 import { getPeriodKeyFromDate, assertPeriodUnlockedOrThrow } from "../utils/lockGuard";
-
-const KEY = "stewardly_income";
+import { assertRoleAllows } from "../utils/roleGuard";
+import { createRecordCollection } from "./storageAdapter";
 
 type Listener = () => void;
 const listeners = new Set<Listener>();
@@ -10,16 +10,7 @@ function notify() {
   listeners.forEach((l) => l());
 }
 
-function safeParse<T>(value: string | null): T | null {
-  if (!value) return null;
-  try {
-    return JSON.parse(value) as T;
-  } catch {
-    return null;
-  }
-}
-
-function normalizeIncome(i: any): IncomeRecord | null {
+export function normalizeIncome(i: any): IncomeRecord | null {
   if (!i || typeof i !== "object") return null;
 
   const amount = Number(i.amount ?? 0);
@@ -64,21 +55,31 @@ function normalizeAll(items: any[]): IncomeRecord[] {
     .filter((x): x is IncomeRecord => Boolean(x));
 }
 
+/**
+ * Cached income records persisted through the storage adapter,
+ * sorted by date descending, then createdAt descending
+ */
+const collection = createRecordCollection<IncomeRecord>({
+  name: "income",
+  normalize: normalizeIncome,
+  compare: (a, b) => {
+    if (a.date !== b.date) {
+      return a.date < b.date ? 1 : -1;
+    }
+    return a.createdAt < b.createdAt ? 1 : a.createdAt > b.createdAt ? -1 : 0;
+  },
+  onChange: notify,
+});
+
+/**
+ * Mutable copies of all income records, for read-modify-write
+ */
 function readAll(): IncomeRecord[] {
-  const raw = safeParse<any[]>(localStorage.getItem(KEY)) ?? [];
-  const normalized = normalizeAll(raw);
-
-  // Rewrite storage if anything changed / missing or invalid
-  if (raw.length !== normalized.length) {
-    localStorage.setItem(KEY, JSON.stringify(normalized));
-  }
-
-  return normalized;
+  return collection.readAll();
 }
 
 function writeAll(items: IncomeRecord[]) {
-  localStorage.setItem(KEY, JSON.stringify(items));
-  notify();
+  void collection.write(items);
 }
 
 export function subscribeIncome(listener: Listener): () => void {
@@ -86,18 +87,34 @@ export function subscribeIncome(listener: Listener): () => void {
   return () => listeners.delete(listener);
 }
 
+/**
+ * All income records, newest first (cached; do not mutate)
+ */
 export function listIncome(): IncomeRecord[] {
-  return readAll().sort((a, b) => {
-    // Sort by date descending
-    if (a.date !== b.date) {
-      return a.date < b.date ? 1 : -1;
-    }
-    // Then by createdAt descending
-    return a.createdAt < b.createdAt ? 1 : -1;
-  });
+  return collection.list();
+}
+
+/**
+ * Income records dated in one period (YYYY-MM), newest first (cached; do not mutate)
+ */
+export function listIncomeForPeriod(period: string): IncomeRecord[] {
+  return collection.listByPeriod(period);
+}
+
+/**
+ * Replace every income record (backup restore). Bypasses lock checks:
+ * the caller decides what may change. Resolves once persisted.
+ */
+export function replaceAllIncome(
+  items: IncomeRecord[]
+): Promise<{ ok: true } | { ok: false; reason: string }> {
+  return collection.write(normalizeAll(items));
 }
 
 export function addIncome(input: IncomeInput): { ok: true; id: string } | { ok: false; reason: string } {
+  const allowed = assertRoleAllows("edit", "add income");
+  if (!allowed.ok) return allowed;
+
   // Validation
   const name = String(input.name ?? "").trim();
   if (!name) {
@@ -164,6 +181,9 @@ export function updateIncome(
   id: string,
   patch: Partial<IncomeInput>
 ): { ok: true } | { ok: false; reason: string } {
+  const allowed = assertRoleAllows("edit", "edit income");
+  if (!allowed.ok) return allowed;
+
   const items = readAll();
   const index = items.findIndex((i) => i.id === id);
 
@@ -223,6 +243,9 @@ export function updateIncome(
 }
 
 export function deleteIncome(id: string): { ok: true } | { ok: false; reason: string } {
+  const allowed = assertRoleAllows("edit", "delete income");
+  if (!allowed.ok) return allowed;
+
   const items = readAll();
   const index = items.findIndex((i) => i.id === id);
 
@@ -247,6 +270,5 @@ export function deleteIncome(id: string): { ok: true } | { ok: false; reason: st
 }
 
 export function clearIncome() {
-  localStorage.removeItem(KEY);
-  notify();
+  writeAll([]);
 }
@@ -0,0 +1,314 @@
+/**
+ * Investments Store
+ * Investment accounts and their holdings (cost lots and sales), persisted to localStorage.
+ * Patterns: normalize on read, listeners + notify, { ok, reason } results
+ */
+
+import type { Holding, InvestmentAccount, InvestmentLot, InvestmentSale } from "../types/investments";
+import { householdKey } from "./householdStore";
+import { assertRoleAllows } from "../utils/roleGuard";
+import { holdingPosition } from "../utils/investmentMath";
+
+const STORAGE_KEY = "stewardly_investments";
+
+type Result = { ok: true } | { ok: false; reason: string };
+
+interface InvestmentsState {
+  accounts: InvestmentAccount[];
+  holdings: Holding[];
+}
+
+const listeners: Set<() => void> = new Set();
+
+function isISODate(value: unknown): value is string {
+  return typeof value === "string" && /^\d{4}-\d{2}-\d{2}$/.test(value);
+}
+
+function positive(value: unknown): number | null {
+  const n = Number(value);
+  return Number.isFinite(n) && n > 0 ? n : null;
+}
+
+function nonNegative(value: unknown): number {
+  const n = Number(value ?? 0);
+  return Number.isFinite(n) && n > 0 ? n : 0;
+}
+
+function byDate<T extends { date: string }>(items: T[]): T[] {
+  return [...items].sort((a, b) => a.date.localeCompare(b.date));
+}
+
+function normalizeLot(value: unknown): InvestmentLot | null {
+  if (!value || typeof value !== "object") return null;
+  const raw = value as Record<string, unknown>;
+  const quantity = positive(raw.quantity);
+  const unitCost = Number(raw.unitCost);
+  if (!isISODate(raw.date) || quantity === null || !Number.isFinite(unitCost) || unitCost < 0) return null;
+  return {
+    id: typeof raw.id === "string" && raw.id ? raw.id : crypto.randomUUID(),
+    date: raw.date,
+    quantity,
+    unitCost,
+    fees: nonNegative(raw.fees),
+    transactionId: typeof raw.transactionId === "string" && raw.transactionId ? raw.transactionId : undefined,
+  };
+}
+
+function normalizeSale(value: unknown): InvestmentSale | null {
+  if (!value || typeof value !== "object") return null;
+  const raw = value as Record<string, unknown>;
+  const quantity = positive(raw.quantity);
+  const unitPrice = Number(raw.unitPrice);
+  if (!isISODate(raw.date) || quantity === null || !Number.isFinite(unitPrice) || unitPrice < 0) return null;
+  return {
+    id: typeof raw.id === "string" && raw.id ? raw.id : crypto.randomUUID(),
+    date: raw.date,
+    quantity,
+    unitPrice,
+    fees: nonNegative(raw.fees),
+  };
+}
+
+/**
+ * Normalize stored (or backed-up) investments, dropping unusable records
+ * and holdings whose account is missing
+ */
+export function normalizeInvestments(value: unknown): InvestmentsState {
+  const raw = (value && typeof value === "object" ? value : {}) as Record<string, unknown>;
+  const now = new Date().toISOString();
+
+  const accounts: InvestmentAccount[] = (Array.isArray(raw.accounts) ? raw.accounts : [])
+    .filter((a): a is Record<string, unknown> => Boolean(a) && typeof a === "object")
+    .filter((a) => typeof a.id === "string" && typeof a.name === "string" && a.name.trim() !== "")
+    .map((a) => ({
+      id: a.id as string,
+      name: (a.name as string).trim(),
+      currency: typeof a.currency === "string" && /^[A-Z]{3}$/.test(a.currency) ? a.currency : "SGD",
+      createdAt: typeof a.createdAt === "string" ? a.createdAt : now,
+    }));
+  const accountIds = new Set(accounts.map((a) => a.id));
+
+  const holdings: Holding[] = (Array.isArray(raw.holdings) ? raw.holdings : [])
+    .filter((h): h is Record<string, unknown> => Boolean(h) && typeof h === "object")
+    .filter((h) => typeof h.id === "string" && accountIds.has(String(h.accountId)) && typeof h.symbol === "string")
+    .map((h) => ({
+      id: h.id as string,
+      accountId: h.accountId as string,
+      symbol: (h.symbol as string).trim().toUpperCase(),
+      name: typeof h.name === "string" && h.name.trim() ? h.name.trim() : (h.symbol as string).trim().toUpperCase(),
+      lots: byDate((Array.isArray(h.lots) ? h.lots : []).map(normalizeLot).filter((x): x is InvestmentLot => x !== null)),
+      sales: byDate(
+        (Array.isArray(h.sales) ? h.sales : []).map(normalizeSale).filter((x): x is InvestmentSale => x !== null)
+      ),
+      createdAt: typeof h.createdAt === "string" ? h.createdAt : now,
+      updatedAt: typeof h.updatedAt === "string" ? h.updatedAt : now,
+    }))
+    .filter((h) => h.symbol !== "");
+
+  return { accounts, holdings };
+}
+
+function readState(): InvestmentsState {
+  try {
+    const raw = localStorage.getItem(householdKey(STORAGE_KEY));
+    return normalizeInvestments(raw ? JSON.parse(raw) : {});
+  } catch {
+    return { accounts: [], holdings: [] };
+  }
+}
+
+function writeState(state: InvestmentsState): Result {
+  try {
+    localStorage.setItem(householdKey(STORAGE_KEY), JSON.stringify(state));
+  } catch (err) {
+    return { ok: false, reason: `Could not save investments: ${(err as Error).message}` };
+  }
+  listeners.forEach((listener) => listener());
+  return { ok: true };
+}
+
+/**
+ * Apply a change to one holding, gated by role.
+ * The change may return an error message instead of the updated holding.
+ */
+function mutateHolding(holdingId: string, action: string, change: (holding: Holding) => Holding | string): Result {
+  const allowed = assertRoleAllows("edit", action);
+  if (!allowed.ok) return allowed;
+
+  const state = readState();
+  const index = state.holdings.findIndex((h) => h.id === holdingId);
+  if (index === -1) {
+    return { ok: false, reason: "Holding not found" };
+  }
+
+  const next = change(state.holdings[index]);
+  if (typeof next === "string") return { ok: false, reason: next };
+
+  // Never leave a sale selling more than was held at the time
+  const oversoldOn = holdingPosition(next, []).oversoldOn;
+  if (oversoldOn) {
+    return { ok: false, reason: `That would leave the sale on ${oversoldOn} selling more ${next.symbol} than was held` };
+  }
+
+  state.holdings[index] = { ...next, updatedAt: new Date().toISOString() };
+  return writeState(state);
+}
+
+/**
+ * List investment accounts by name
+ */
+export function listInvestmentAccounts(): InvestmentAccount[] {
+  return readState().accounts.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * List holdings by symbol, optionally for one account
+ */
+export function listHoldings(accountId?: string): Holding[] {
+  return readState()
+    .holdings.filter((h) => !accountId || h.accountId === accountId)
+    .sort((a, b) => a.symbol.localeCompare(b.symbol));
+}
+
+export function addInvestmentAccount(input: {
+  name: string;
+  currency: string;
+}): { ok: true; id: string } | { ok: false; reason: string } {
+  const allowed = assertRoleAllows("edit", "add investment account");
+  if (!allowed.ok) return allowed;
+
+  const name = input.name.trim();
+  const currency = input.currency.trim().toUpperCase();
+  if (!name) return { ok: false, reason: "Account name is required" };
+  if (!/^[A-Z]{3}$/.test(currency)) return { ok: false, reason: "Currency must be a 3-letter code (e.g. SGD)" };
+
+  const state = readState();
+  const account: InvestmentAccount = { id: crypto.randomUUID(), name, currency, createdAt: new Date().toISOString() };
+  const saved = writeState({ ...state, accounts: [...state.accounts, account] });
+  return saved.ok ? { ok: true, id: account.id } : saved;
+}
+
+/**
+ * Delete an account that has no holdings left
+ */
+export function deleteInvestmentAccount(id: string): Result {
+  const allowed = assertRoleAllows("edit", "delete investment account");
+  if (!allowed.ok) return allowed;
+
+  const state = readState();
+  if (!state.accounts.some((a) => a.id === id)) {
+    return { ok: false, reason: "Account not found" };
+  }
+  if (state.holdings.some((h) => h.accountId === id)) {
+    return { ok: false, reason: "Delete the account's holdings first" };
+  }
+  return writeState({ ...state, accounts: state.accounts.filter((a) => a.id !== id) });
+}
+
+export function addHolding(input: {
+  accountId: string;
+  symbol: string;
+  name?: string;
+}): { ok: true; id: string } | { ok: false; reason: string } {
+  const allowed = assertRoleAllows("edit", "add holding");
+  if (!allowed.ok) return allowed;
+
+  const symbol = input.symbol.trim().toUpperCase();
+  if (!symbol) return { ok: false, reason: "Symbol is required" };
+
+  const state = readState();
+  if (!state.accounts.some((a) => a.id === input.accountId)) {
+    return { ok: false, reason: "Account not found" };
+  }
+  if (state.holdings.some((h) => h.accountId === input.accountId && h.symbol === symbol)) {
+    return { ok: false, reason: `${symbol} is already held in this account` };
+  }
+
+  const now = new Date().toISOString();
+  const holding: Holding = {
+    id: crypto.randomUUID(),
+    accountId: input.accountId,
+    symbol,
+    name: input.name?.trim() || symbol,
+    lots: [],
+    sales: [],
+    createdAt: now,
+    updatedAt: now,
+  };
+  const saved = writeState({ ...state, holdings: [...state.holdings, holding] });
+  return saved.ok ? { ok: true, id: holding.id } : saved;
+}
+
+export function deleteHolding(id: string): Result {
+  const allowed = assertRoleAllows("edit", "delete holding");
+  if (!allowed.ok) return allowed;
+
+  const state = readState();
+  if (!state.holdings.some((h) => h.id === id)) {
+    return { ok: false, reason: "Holding not found" };
+  }
+  return writeState({ ...state, holdings: state.holdings.filter((h) => h.id !== id) });
+}
+
+/**
+ * Record a purchase lot (optionally linked to the Investments transaction that paid for it)
+ */
+export function addLot(holdingId: string, input: Omit<InvestmentLot, "id" | "fees"> & { fees?: number }): Result {
+  const lot = normalizeLot({ ...input, id: crypto.randomUUID() });
+  if (!lot) {
+    return { ok: false, reason: "A lot needs a YYYY-MM-DD date, a quantity above 0 and a unit cost of 0 or more" };
+  }
+  return mutateHolding(holdingId, "add lot", (holding) => ({ ...holding, lots: byDate([...holding.lots, lot]) }));
+}
+
+export function deleteLot(holdingId: string, lotId: string): Result {
+  return mutateHolding(holdingId, "delete lot", (holding) =>
+    holding.lots.some((l) => l.id === lotId)
+      ? { ...holding, lots: holding.lots.filter((l) => l.id !== lotId) }
+      : "Lot not found"
+  );
+}
+
+/**
+ * Record a sale; it realises gains against the oldest lots first
+ */
+export function addSale(holdingId: string, input: Omit<InvestmentSale, "id" | "fees"> & { fees?: number }): Result {
+  const sale = normalizeSale({ ...input, id: crypto.randomUUID() });
+  if (!sale) {
+    return { ok: false, reason: "A sale needs a YYYY-MM-DD date, a quantity above 0 and a price of 0 or more" };
+  }
+  return mutateHolding(holdingId, "record sale", (holding) => ({ ...holding, sales: byDate([...holding.sales, sale]) }));
+}
+
+export function deleteSale(holdingId: string, saleId: string): Result {
+  return mutateHolding(holdingId, "delete sale", (holding) =>
+    holding.sales.some((s) => s.id === saleId)
+      ? { ...holding, sales: holding.sales.filter((s) => s.id !== saleId) }
+      : "Sale not found"
+  );
+}
+
+/**
+ * Replace every investment account, keeping holdings (cloud sync)
+ */
+export function replaceAllInvestmentAccounts(accounts: InvestmentAccount[]): void {
+  writeState(normalizeInvestments({ ...readState(), accounts }));
+}
+
+/**
+ * Replace every holding with its lots and sales (cloud sync)
+ */
+export function replaceAllHoldings(holdings: Holding[]): void {
+  writeState(normalizeInvestments({ ...readState(), holdings }));
+}
+
+/**
+ * Subscribe to account and holding changes
+ * @returns Unsubscribe function
+ */
+export function subscribeInvestments(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
@@ -0,0 +1,55 @@
+/**
+ * Liabilities Store
+ * Typed liabilities (loan, mortgage, credit card) with a currency
+ * and dated balance history, persisted to localStorage.
+ */
+
+import type { Liability } from "../types/netWorth";
+import { LIABILITY_TYPES } from "../constants/netWorth";
+import { createNetWorthRegistry } from "./netWorthRegistry";
+
+const registry = createNetWorthRegistry({
+  storageKey: "stewardly_liabilities",
+  label: "liability",
+  types: LIABILITY_TYPES,
+  defaultType: "loan",
+});
+
+export const normalizeLiability: (value: unknown) => Liability | null = registry.normalize;
+
+/**
+ * List all liabilities by name
+ */
+export const listLiabilities = registry.list;
+
+export const getLiability = registry.get;
+
+/**
+ * Add a liability with its first balance
+ */
+export const addLiability = registry.add;
+
+/**
+ * Update a liability's name, type, currency or note
+ */
+export const updateLiability = registry.update;
+
+export const deleteLiability = registry.remove;
+
+/**
+ * Record a dated balance (replaces a balance on the same date)
+ */
+export const addLiabilityBalance = registry.addValuation;
+
+export const deleteLiabilityBalance = registry.removeValuation;
+
+/**
+ * Replace every liability (cloud sync)
+ */
+export const replaceAllLiabilities = registry.replaceAll;
+
+/**
+ * Subscribe to liability changes
+ * @returns Unsubscribe function
+ */
+export const subscribeLiabilities = registry.subscribe;
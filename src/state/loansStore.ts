@@ -0,0 +1,176 @@
+/**
+ * Loans Store
+ * Amortisation terms for liabilities, keyed by liability id, persisted to localStorage.
+ */
+
+import type { LoanTerms, LoanTermsInput } from "../types/loans";
+import { householdKey } from "./householdStore";
+import { getLiability } from "./liabilitiesStore";
+import { assertRoleAllows } from "../utils/roleGuard";
+
+const STORAGE_KEY = "stewardly_loans";
+
+const listeners: Set<() => void> = new Set();
+
+/**
+ * Validate loan terms
+ * @returns null if valid, or error message if invalid
+ */
+function validateLoanTerms(input: LoanTermsInput): string | null {
+  if (!Number.isFinite(input.principal) || input.principal <= 0) {
+    return "Principal must be greater than 0";
+  }
+  if (!Number.isFinite(input.annualRate) || input.annualRate < 0 || input.annualRate > 100) {
+    return "Interest rate must be between 0% and 100%";
+  }
+  if (!Number.isInteger(input.termMonths) || input.termMonths < 1 || input.termMonths > 600) {
+    return "Term must be a whole number of months between 1 and 600";
+  }
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(input.startDate)) {
+    return "Start date must be YYYY-MM-DD";
+  }
+  return null;
+}
+
+/**
+ * Normalize raw terms, returning null if they are unusable
+ */
+export function normalizeLoanTerms(value: unknown): LoanTerms | null {
+  if (!value || typeof value !== "object") return null;
+  const raw = value as Record<string, unknown>;
+
+  const liabilityId = typeof raw.liabilityId === "string" ? raw.liabilityId : "";
+  const input: LoanTermsInput = {
+    principal: Number(raw.principal),
+    annualRate: Number(raw.annualRate),
+    termMonths: Number(raw.termMonths),
+    startDate: String(raw.startDate ?? ""),
+  };
+  if (!liabilityId || validateLoanTerms(input) !== null) return null;
+
+  return {
+    liabilityId,
+    ...input,
+    updatedAt: typeof raw.updatedAt === "string" ? raw.updatedAt : new Date().toISOString(),
+  };
+}
+
+/**
+ * Get all terms from localStorage, keyed by liability id
+ */
+function getAllTerms(): Record<string, LoanTerms> {
+  try {
+    const raw = localStorage.getItem(householdKey(STORAGE_KEY));
+    const parsed = raw ? JSON.parse(raw) : {};
+    const terms: Record<string, LoanTerms> = {};
+    if (!parsed || typeof parsed !== "object") return terms;
+    for (const value of Object.values(parsed)) {
+      const loan = normalizeLoanTerms(value);
+      if (loan) terms[loan.liabilityId] = loan;
+    }
+    return terms;
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Save all terms to localStorage and notify listeners
+ */
+function saveAllTerms(terms: Record<string, LoanTerms>): { ok: true } | { ok: false; reason: string } {
+  try {
+    localStorage.setItem(householdKey(STORAGE_KEY), JSON.stringify(terms));
+  } catch (err) {
+    return { ok: false, reason: `Failed to save loan: ${(err as Error).message}` };
+  }
+  notifyListeners();
+  return { ok: true };
+}
+
+/**
+ * Notify all listeners of changes
+ */
+function notifyListeners(): void {
+  listeners.forEach((listener) => listener());
+}
+
+/**
+ * Get the loan terms of a liability
+ */
+export function getLoanTerms(liabilityId: string): LoanTerms | null {
+  return getAllTerms()[liabilityId] ?? null;
+}
+
+/**
+ * List the terms of every loan
+ */
+export function listLoanTerms(): LoanTerms[] {
+  return Object.values(getAllTerms());
+}
+
+/**
+ * Set (or replace) a liability's loan terms
+ */
+export function setLoanTerms(
+  liabilityId: string,
+  input: LoanTermsInput
+): { ok: true } | { ok: false; reason: string } {
+  const allowed = assertRoleAllows("edit", "edit loan terms");
+  if (!allowed.ok) return allowed;
+
+  const liability = getLiability(liabilityId);
+  if (!liability) {
+    return { ok: false, reason: "Liability not found" };
+  }
+  if (liability.type === "creditCard") {
+    return { ok: false, reason: "Credit cards do not have an amortisation schedule" };
+  }
+
+  const terms: LoanTermsInput = {
+    principal: Number(input.principal),
+    annualRate: Number(input.annualRate),
+    termMonths: Number(input.termMonths),
+    startDate: input.startDate,
+  };
+  const validationError = validateLoanTerms(terms);
+  if (validationError) return { ok: false, reason: validationError };
+
+  return saveAllTerms({
+    ...getAllTerms(),
+    [liabilityId]: { liabilityId, ...terms, updatedAt: new Date().toISOString() },
+  });
+}
+
+/**
+ * Remove a liability's loan terms (its balance history is used again)
+ */
+export function clearLoanTerms(liabilityId: string): { ok: true } | { ok: false; reason: string } {
+  const allowed = assertRoleAllows("edit", "edit loan terms");
+  if (!allowed.ok) return allowed;
+
+  const terms = getAllTerms();
+  if (!terms[liabilityId]) {
+    return { ok: false, reason: "This liability has no loan terms" };
+  }
+  delete terms[liabilityId];
+  return saveAllTerms(terms);
+}
+
+/**
+ * Replace every liability's loan terms (cloud sync)
+ */
+export function replaceAllLoanTerms(terms: LoanTerms[]): void {
+  const normalized = terms.map(normalizeLoanTerms).filter((t): t is LoanTerms => t !== null);
+  saveAllTerms(Object.fromEntries(normalized.map((t) => [t.liabilityId, t])));
+}
+
+/**
+ * Subscribe to loan changes
+ * @returns Unsubscribe function
+ */
+export function subscribeLoans(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
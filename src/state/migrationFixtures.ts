@@ -0,0 +1,211 @@
+/**
+ * Migration Fixtures
+ * Old-format storage samples and the shape each must have after migrating.
+ * Run by the Release Readiness "Storage Migrations" check.
+ */
+
+import type { MigrationStorage } from "./migrations";
+
+export interface MigrationFixture {
+  name: string;
+  /** Raw localStorage contents before migrating */
+  storage: Record<string, string>;
+  /** @returns List of problems with the migrated storage (empty = pass) */
+  verify(storage: MigrationStorage): string[];
+}
+
+function read(storage: MigrationStorage, key: string): unknown {
+  const raw = storage.getItem(key);
+  return raw ? JSON.parse(raw) : null;
+}
+
+function expectEqual(label: string, actual: unknown, expected: unknown): string[] {
+  const a = JSON.stringify(actual);
+  const e = JSON.stringify(expected);
+  return a === e ? [] : [`${label}: expected ${e}, got ${a}`];
+}
+
+export const MIGRATION_FIXTURES: MigrationFixture[] = [
+  {
+    name: "Period locks written as an array by utils/periodLocks",
+    storage: {
+      stewardly_period_locks: JSON.stringify(["2025-01", "2025-02", "not-a-period"]),
+    },
+    verify: (storage) =>
+      expectEqual("Period locks", read(storage, "stewardly_period_locks"), {
+        "2025-01": true,
+        "2025-02": true,
+      }),
+  },
+  {
+    name: "Transactions without direction and with signed amounts",
+    storage: {
+      stewardly_transactions: JSON.stringify([
+        { id: "t1", date: "2025-01-03", category: "Expenses", amount: -42.5, note: "  Groceries " },
+        { id: "t2", date: "2025-01-04", category: "Savings", amount: 100, direction: "in" },
+        { id: "t3", date: "2025-01-05", category: "Expenses", amount: "abc" },
+      ]),
+    },
+    verify: (storage) =>
+      expectEqual("Transactions", read(storage, "stewardly_transactions"), [
+        { id: "t1", date: "2025-01-03", category: "Expenses", amount: 42.5, direction: "out", note: "Groceries" },
+        { id: "t2", date: "2025-01-04", category: "Savings", amount: 100, direction: "in", note: "Income/Refund" },
+      ]),
+  },
+  {
+    name: "Transactions and income stored in a second household",
+    storage: {
+      stewardly_households: JSON.stringify([
+        { household_id: "h1", name: "Mine", base_currency: "SGD", role: "owner", is_default: true },
+        { household_id: "h2", name: "Parents", base_currency: "SGD", role: "owner" },
+      ]),
+      "stewardly_transactions@h2": JSON.stringify([
+        { id: "t1", date: "2025-01-03", category: "Expenses", amount: -12 },
+      ]),
+      "stewardly_income@h2": JSON.stringify([{ id: "i1", date: "2025-01-01", amount: 10, currency: "SGD" }]),
+    },
+    verify: (storage) => [
+      ...expectEqual("Transactions (second household)", read(storage, "stewardly_transactions@h2"), [
+        { id: "t1", date: "2025-01-03", category: "Expenses", amount: 12, direction: "out" },
+      ]),
+      ...expectEqual("Income (second household)", read(storage, "stewardly_income@h2"), []),
+    ],
+  },
+  {
+    name: "Income with unknown frequency/status and a missing name",
+    storage: {
+      stewardly_income: JSON.stringify([
+        {
+          id: "i1",
+          date: "2025-01-01",
+          name: "Salary",
+          amount: 5000,
+          currency: "SGD",
+          frequency: "weekly",
+          createdAt: "2025-01-01T00:00:00.000Z",
+          updatedAt: "2025-01-01T00:00:00.000Z",
+        },
+        { id: "i2", date: "2025-01-01", amount: 10, currency: "SGD" },
+      ]),
+    },
+    verify: (storage) => {
+      const income = read(storage, "stewardly_income") as { frequency: string; status: string }[];
+      return [
+        ...expectEqual("Income count", income.length, 1),
+        ...expectEqual("Income frequency", income[0]?.frequency, "oneTime"),
+        ...expectEqual("Income status", income[0]?.status, "active"),
+      ];
+    },
+  },
+  {
+    name: "Plans with partial targets and a stored isActive flag",
+    storage: {
+      stewardly_distribution_plans: JSON.stringify([
+        {
+          id: "p1",
+          name: "Legacy",
+          isActive: true,
+          targets: [{ category: "Savings", targetPct: 100 }],
+          updatedAt: "2025-01-01T00:00:00.000Z",
+        },
+      ]),
+    },
+    verify: (storage) => {
+      const plans = read(storage, "stewardly_distribution_plans") as Record<string, unknown>[];
+      const targets = (plans[0]?.targets ?? []) as { category: string; targetPct: number }[];
+      return [
+        ...expectEqual("Plan isActive stored", "isActive" in (plans[0] ?? {}), false),
+        ...expectEqual("Plan currency", plans[0]?.currency, "SGD"),
+        ...expectEqual(
+          "Plan Savings target",
+          targets.find((t) => t.category === "Savings")?.targetPct,
+          100
+        ),
+        ...(targets.length > 1 ? [] : ["Plan targets: canonical categories were not filled in"]),
+      ];
+    },
+  },
+  {
+    name: "Snapshots keyed inconsistently, using the name alias, plus an invalid entry",
+    storage: {
+      stewardly_period_plan_snapshots: JSON.stringify({
+        legacy: {
+          period: "2025-01",
+          planId: "p1",
+          name: "Legacy",
+          targets: [{ category: "Savings", targetPct: "100" }],
+          lockedAt: "2025-02-01T00:00:00.000Z",
+        },
+        broken: { period: "2025-13", planId: "p1", targets: [] },
+      }),
+    },
+    verify: (storage) =>
+      expectEqual("Snapshots", read(storage, "stewardly_period_plan_snapshots"), {
+        "2025-01": {
+          period: "2025-01",
+          planId: "p1",
+          name: "Legacy",
+          targets: [{ category: "Savings", targetPct: 100 }],
+          lockedAt: "2025-02-01T00:00:00.000Z",
+          planName: "Legacy",
+          currency: "SGD",
+        },
+      }),
+  },
+  {
+    name: "Assets and liabilities stored as { id, name, value } in two households",
+    storage: {
+      stewardly_households: JSON.stringify([
+        { household_id: "h1", name: "Mine", base_currency: "SGD", role: "owner", is_default: true },
+        { household_id: "h2", name: "Parents", base_currency: "SGD", role: "owner" },
+      ]),
+      stewardly_assets: JSON.stringify([
+        { id: "a1", name: "Savings", value: 1200, updatedAt: "2025-03-01T00:00:00.000Z" },
+        { id: "a2", name: "", value: 5 },
+      ]),
+      "stewardly_liabilities@h2": JSON.stringify([
+        { id: "l1", name: "Car loan", value: -800, updatedAt: "2025-03-01T00:00:00.000Z" },
+      ]),
+    },
+    verify: (storage) => [
+      ...expectEqual("Assets", read(storage, "stewardly_assets"), [
+        {
+          id: "a1",
+          name: "Savings",
+          type: "cash",
+          currency: "SGD",
+          valuations: [{ id: "a1-initial", date: "2025-03-01", value: 1200 }],
+          createdAt: "2025-03-01T00:00:00.000Z",
+          updatedAt: "2025-03-01T00:00:00.000Z",
+        },
+      ]),
+      ...expectEqual("Liabilities (second household)", read(storage, "stewardly_liabilities@h2"), [
+        {
+          id: "l1",
+          name: "Car loan",
+          type: "loan",
+          currency: "SGD",
+          valuations: [{ id: "l1-initial", date: "2025-03-01", value: 800 }],
+          createdAt: "2025-03-01T00:00:00.000Z",
+          updatedAt: "2025-03-01T00:00:00.000Z",
+        },
+      ]),
+    ],
+  },
+];
+
+/**
+ * In-memory storage seeded with a fixture's contents
+ */
+export function createFixtureStorage(seed: Record<string, string>): MigrationStorage {
+  const data = new Map(Object.entries(seed));
+  return {
+    getItem: (key) => data.get(key) ?? null,
+    setItem: (key, value) => {
+      data.set(key, value);
+    },
+    removeItem: (key) => {
+      data.delete(key);
+    },
+  };
+}
@@ -0,0 +1,307 @@
+/**
+ * Schema Migrations
+ * Central schema version record plus an ordered list of migration steps
+ * that bring persisted stores up to the current shape. Runs once at startup;
+ * stores read already-migrated data and no longer rewrite storage on read.
+ */
+
+import type { DistributionPlan } from "../types/distribution";
+import { normalizeTransaction } from "./transactionsStore";
+import { normalizeIncome } from "./incomeStore";
+import { normalizePlan } from "./distributionPlansStore";
+import { normalizeLocks } from "./periodLocksStore";
+import { normalizeSnapshot } from "./periodSnapshotStore";
+import { normalizeAsset } from "./assetsStore";
+import { normalizeLiability } from "./liabilitiesStore";
+
+const SCHEMA_KEY = "stewardly_schema_version";
+
+/**
+ * Minimal storage surface migrations work against
+ * (localStorage, or an in-memory copy for dry runs and fixtures)
+ */
+export interface MigrationStorage {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+  removeItem(key: string): void;
+}
+
+export interface Migration {
+  version: number;
+  id: string;
+  description: string;
+  /**
+   * Migrate storage in place
+   * @returns Human-readable list of changes (empty if nothing changed)
+   */
+  migrate(storage: MigrationStorage): string[];
+}
+
+export interface MigrationStepResult {
+  version: number;
+  id: string;
+  changes: string[];
+}
+
+export interface MigrationReport {
+  fromVersion: number;
+  toVersion: number;
+  dryRun: boolean;
+  steps: MigrationStepResult[];
+  error?: string;
+}
+
+export interface SchemaVersionRecord {
+  version: number;
+  updatedAt: string; // ISO
+  history: { version: number; id: string; appliedAt: string; changes: number }[];
+}
+
+function parseJson(storage: MigrationStorage, key: string): unknown {
+  const raw = storage.getItem(key);
+  if (!raw) return null;
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Write a value only if its serialized form differs from what is stored
+ */
+function writeIfChanged(storage: MigrationStorage, key: string, value: unknown): boolean {
+  const next = JSON.stringify(value);
+  if (storage.getItem(key) === next) return false;
+  storage.setItem(key, next);
+  return true;
+}
+
+/**
+ * Normalize every item in an array key, dropping unusable ones
+ */
+function migrateList<T>(
+  storage: MigrationStorage,
+  key: string,
+  label: string,
+  normalize: (item: unknown) => T | null
+): string[] {
+  const raw = parseJson(storage, key);
+  if (raw === null) return [];
+  if (!Array.isArray(raw)) {
+    storage.setItem(key, "[]");
+    return [`${label}: replaced non-array value with []`];
+  }
+
+  const normalized = raw.map(normalize).filter((x): x is T => x !== null);
+  if (!writeIfChanged(storage, key, normalized)) return [];
+
+  const dropped = raw.length - normalized.length;
+  return [
+    `${label}: normalized ${normalized.length} record(s)` +
+      (dropped > 0 ? `, dropped ${dropped} invalid record(s)` : ""),
+  ];
+}
+
+/**
+ * A household-scoped key for every household in storage
+ * (the default household uses the base key)
+ */
+function householdKeys(storage: MigrationStorage, baseKey: string): string[] {
+  const households = parseJson(storage, "stewardly_households");
+  const scoped = (Array.isArray(households) ? households : [])
+    .filter((h) => h && typeof h.household_id === "string" && !h.is_default)
+    .map((h) => `${baseKey}@${h.household_id}`);
+  return [baseKey, ...scoped];
+}
+
+/**
+ * Ordered migration steps. Append only: never renumber or edit a released step.
+ * Steps cover the localStorage keys of every household; transactions and
+ * income already moved to IndexedDB are normalized by their collection as
+ * they load (see createRecordCollection).
+ */
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    id: "period-locks-object-format",
+    description: 'Convert period locks from ["YYYY-MM", ...] to {"YYYY-MM": true}',
+    migrate(storage) {
+      const key = "stewardly_period_locks";
+      const raw = parseJson(storage, key);
+      if (raw === null) return [];
+      const locks = normalizeLocks(raw);
+      if (!writeIfChanged(storage, key, locks)) return [];
+      return [
+        Array.isArray(raw)
+          ? `Period locks: converted array of ${raw.length} to object format`
+          : "Period locks: dropped invalid entries",
+      ];
+    },
+  },
+  {
+    version: 2,
+    id: "transactions-normalize",
+    description: "Normalize transactions (direction, absolute amount, note)",
+    migrate(storage) {
+      return householdKeys(storage, "stewardly_transactions").flatMap((key) =>
+        migrateList(storage, key, `Transactions (${key})`, (t) =>
+          t && typeof t === "object" && "id" in t && "date" in t ? normalizeTransaction(t) : null
+        )
+      );
+    },
+  },
+  {
+    version: 3,
+    id: "income-normalize",
+    description: "Normalize income records (frequency, status, required fields)",
+    migrate(storage) {
+      return householdKeys(storage, "stewardly_income").flatMap((key) =>
+        migrateList(storage, key, `Income (${key})`, (i) =>
+          i && typeof i === "object" && "id" in i ? normalizeIncome(i) : null
+        )
+      );
+    },
+  },
+  {
+    version: 4,
+    id: "plans-normalize",
+    description: "Normalize distribution plans (canonical targets, currency, updatedAt); drop stored isActive",
+    migrate(storage) {
+      return migrateList(storage, "stewardly_distribution_plans", "Distribution plans", (p) => {
+        if (!p || typeof p !== "object" || !("id" in p)) return null;
+        const plan = normalizePlan(p as DistributionPlan);
+        delete plan.isActive; // Derived from the active plan id
+        return plan;
+      });
+    },
+  },
+  {
+    version: 5,
+    id: "snapshots-normalize",
+    description: "Normalize period plan snapshots and key them by period",
+    migrate(storage) {
+      const key = "stewardly_period_plan_snapshots";
+      const raw = parseJson(storage, key);
+      if (raw === null) return [];
+
+      const entries = raw && typeof raw === "object" ? Object.values(raw) : [];
+      const snapshots: Record<string, ReturnType<typeof normalizeSnapshot>> = {};
+      for (const value of entries) {
+        const snapshot = normalizeSnapshot(value);
+        if (snapshot) snapshots[snapshot.period] = snapshot;
+      }
+
+      if (!writeIfChanged(storage, key, snapshots)) return [];
+      const dropped = entries.length - Object.keys(snapshots).length;
+      return [
+        `Period snapshots: normalized ${Object.keys(snapshots).length} snapshot(s)` +
+          (dropped > 0 ? `, dropped ${dropped} invalid snapshot(s)` : ""),
+      ];
+    },
+  },
+  {
+    version: 6,
+    id: "net-worth-valuations",
+    description: "Give assets and liabilities a type, currency and dated valuation history (from their single value)",
+    migrate(storage) {
+      return [
+        ...householdKeys(storage, "stewardly_assets").flatMap((key) =>
+          migrateList(storage, key, `Assets (${key})`, normalizeAsset)
+        ),
+        ...householdKeys(storage, "stewardly_liabilities").flatMap((key) =>
+          migrateList(storage, key, `Liabilities (${key})`, normalizeLiability)
+        ),
+      ];
+    },
+  },
+];
+
+export const CURRENT_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+/**
+ * Read the schema version record (version 0 if never migrated)
+ */
+export function getSchemaVersion(storage: MigrationStorage = localStorage): SchemaVersionRecord {
+  const raw = parseJson(storage, SCHEMA_KEY) as Partial<SchemaVersionRecord> | null;
+  return {
+    version: typeof raw?.version === "number" ? raw.version : 0,
+    updatedAt: typeof raw?.updatedAt === "string" ? raw.updatedAt : "",
+    history: Array.isArray(raw?.history) ? raw.history : [],
+  };
+}
+
+/**
+ * Storage view that reads through to `base` but keeps writes in memory
+ */
+function createOverlay(base: MigrationStorage): MigrationStorage {
+  const writes = new Map<string, string | null>();
+  return {
+    getItem: (key) => (writes.has(key) ? writes.get(key) ?? null : base.getItem(key)),
+    setItem: (key, value) => {
+      writes.set(key, value);
+    },
+    removeItem: (key) => {
+      writes.set(key, null);
+    },
+  };
+}
+
+/**
+ * Run every migration newer than the stored schema version, in order.
+ * With dryRun, steps run against an in-memory overlay and nothing is written.
+ * A failing step stops the run; earlier steps stay applied and the version
+ * records the last step that succeeded, so the next start retries from there.
+ */
+export function runMigrations(
+  options: { dryRun?: boolean; storage?: MigrationStorage } = {}
+): MigrationReport {
+  const base = options.storage ?? localStorage;
+  const dryRun = options.dryRun === true;
+  const storage = dryRun ? createOverlay(base) : base;
+
+  const record = getSchemaVersion(base);
+  const report: MigrationReport = {
+    fromVersion: record.version,
+    toVersion: record.version,
+    dryRun,
+    steps: [],
+  };
+
+  const pending = MIGRATIONS.filter((m) => m.version > record.version).sort(
+    (a, b) => a.version - b.version
+  );
+
+  for (const migration of pending) {
+    let changes: string[];
+    try {
+      changes = migration.migrate(storage);
+    } catch (err) {
+      report.error = `Migration ${migration.version} (${migration.id}) failed: ${(err as Error).message}`;
+      console.error("[migrations]", report.error);
+      break;
+    }
+
+    report.steps.push({ version: migration.version, id: migration.id, changes });
+    report.toVersion = migration.version;
+    console.log(
+      `[migrations]${dryRun ? " (dry run)" : ""} ${migration.version} ${migration.id}:`,
+      changes.length > 0 ? changes.join("; ") : "no changes"
+    );
+
+    if (!dryRun) {
+      const now = new Date().toISOString();
+      record.version = migration.version;
+      record.updatedAt = now;
+      record.history.push({
+        version: migration.version,
+        id: migration.id,
+        appliedAt: now,
+        changes: changes.length,
+      });
+      storage.setItem(SCHEMA_KEY, JSON.stringify(record));
+    }
+  }
+
+  return report;
+}
@@ -0,0 +1,201 @@
+/**
+ * Net Worth History Store
+ * One net worth record per period, captured automatically when a period is
+ * locked and on demand. Locked periods keep the record taken at lock time.
+ */
+
+import type { NetWorthSnapshot } from "../types/netWorth";
+import { householdKey, getSelectedHousehold } from "./householdStore";
+import { listAssets } from "./assetsStore";
+import { listInvestmentAccounts, listHoldings } from "./investmentsStore";
+import { listSecurityPrices } from "./securityPricesStore";
+import { listLiabilities } from "./liabilitiesStore";
+import { listLoanTerms } from "./loansStore";
+import { listTransactions } from "./transactionsStore";
+import { listAccounts } from "./accountsStore";
+import { assertRoleAllows } from "../utils/roleGuard";
+import { assertPeriodUnlocked } from "../utils/lockGuard";
+import { getFxRatesForPeriod } from "../utils/snapshotHelper";
+import { createFxConverter } from "../utils/fxMath";
+import { periodEndDate, totalValue } from "../utils/netWorthMath";
+import { withLoanBalances } from "../utils/loanMath";
+import { investmentAccountsAsAssets } from "../utils/investmentMath";
+import { accountsAsNetWorth } from "../utils/accountMath";
+
+const STORAGE_KEY = "stewardly_net_worth_history";
+
+const listeners: Set<() => void> = new Set();
+
+/**
+ * Normalize a raw record, returning null if it is unusable
+ */
+export function normalizeNetWorthSnapshot(value: unknown): NetWorthSnapshot | null {
+  if (!value || typeof value !== "object") return null;
+  const raw = value as Record<string, unknown>;
+
+  const period = String(raw.period ?? "");
+  if (!/^\d{4}-(?:0[1-9]|1[0-2])$/.test(period)) return null;
+
+  const assets = Number(raw.assets);
+  const liabilities = Number(raw.liabilities);
+  if (!Number.isFinite(assets) || !Number.isFinite(liabilities)) return null;
+
+  return {
+    period,
+    assets,
+    liabilities,
+    netWorth: assets - liabilities,
+    currency: typeof raw.currency === "string" && raw.currency ? raw.currency : "SGD",
+    unconverted: Array.isArray(raw.unconverted) ? raw.unconverted.filter((c) => typeof c === "string") : [],
+    source: raw.source === "lock" ? "lock" : "manual",
+    capturedAt: String(raw.capturedAt ?? new Date().toISOString()),
+  };
+}
+
+/**
+ * Get all records from localStorage, keyed by period
+ */
+function getAllRecords(): Record<string, NetWorthSnapshot> {
+  try {
+    const raw = localStorage.getItem(householdKey(STORAGE_KEY));
+    const parsed = raw ? JSON.parse(raw) : {};
+    const records: Record<string, NetWorthSnapshot> = {};
+    if (!parsed || typeof parsed !== "object") return records;
+    for (const value of Object.values(parsed)) {
+      const record = normalizeNetWorthSnapshot(value);
+      if (record) records[record.period] = record;
+    }
+    return records;
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Save all records to localStorage and notify listeners
+ */
+function saveAllRecords(records: Record<string, NetWorthSnapshot>): void {
+  localStorage.setItem(householdKey(STORAGE_KEY), JSON.stringify(records));
+  notifyListeners();
+}
+
+/**
+ * Notify all listeners of changes
+ */
+function notifyListeners(): void {
+  listeners.forEach((listener) => listener());
+}
+
+/**
+ * Get the record for a period
+ */
+export function getNetWorthSnapshot(period: string): NetWorthSnapshot | null {
+  return getAllRecords()[period] ?? null;
+}
+
+/**
+ * List all records sorted by period (ascending)
+ */
+export function listNetWorthHistory(): NetWorthSnapshot[] {
+  return Object.values(getAllRecords()).sort((a, b) => a.period.localeCompare(b.period));
+}
+
+/**
+ * Value assets and liabilities on the period's last day and record the result.
+ * `source: "lock"` is used by lockPeriod (which has already checked the lock
+ * permission); on-demand captures need edit access and an unlocked period.
+ */
+export function captureNetWorth(
+  period: string,
+  source: NetWorthSnapshot["source"] = "manual"
+): { ok: true; snapshot: NetWorthSnapshot } | { ok: false; reason: string } {
+  if (!/^\d{4}-(?:0[1-9]|1[0-2])$/.test(period)) {
+    return { ok: false, reason: `Invalid period key: "${period}". Must be YYYY-MM format with month 01-12.` };
+  }
+
+  if (source === "manual") {
+    const allowed = assertRoleAllows("edit", `capture net worth for ${period}`);
+    if (!allowed.ok) return allowed;
+
+    const unlocked = assertPeriodUnlocked(period);
+    if (!unlocked.ok) {
+      return { ok: false, reason: `${unlocked.reason}; its net worth was recorded when it was locked` };
+    }
+  }
+
+  const currency = getSelectedHousehold()?.base_currency ?? "SGD";
+  const fx = createFxConverter(currency, getFxRatesForPeriod(period));
+  const date = periodEndDate(period);
+  const transactions = listTransactions();
+  const accountItems = accountsAsNetWorth(listAccounts(), transactions);
+  const assets = totalValue(
+    [
+      ...listAssets(),
+      ...investmentAccountsAsAssets(listInvestmentAccounts(), listHoldings(), listSecurityPrices()),
+      ...accountItems.assets,
+    ],
+    fx,
+    date
+  );
+  const liabilities = totalValue(
+    [...withLoanBalances(listLiabilities(), listLoanTerms(), transactions, period), ...accountItems.liabilities],
+    fx,
+    date
+  );
+
+  const snapshot: NetWorthSnapshot = {
+    period,
+    assets: assets.total,
+    liabilities: liabilities.total,
+    netWorth: assets.total - liabilities.total,
+    currency,
+    unconverted: [...new Set([...assets.unconverted, ...liabilities.unconverted])].sort(),
+    source,
+    capturedAt: new Date().toISOString(),
+  };
+
+  try {
+    saveAllRecords({ ...getAllRecords(), [period]: snapshot });
+  } catch (err) {
+    return { ok: false, reason: `Failed to save net worth: ${(err as Error).message}` };
+  }
+  return { ok: true, snapshot };
+}
+
+/**
+ * Delete the record for an unlocked period
+ */
+export function deleteNetWorthSnapshot(period: string): { ok: true } | { ok: false; reason: string } {
+  const allowed = assertRoleAllows("edit", `delete net worth for ${period}`);
+  if (!allowed.ok) return allowed;
+
+  const unlocked = assertPeriodUnlocked(period);
+  if (!unlocked.ok) return unlocked;
+
+  const records = getAllRecords();
+  if (!records[period]) {
+    return { ok: false, reason: "No net worth recorded for this period" };
+  }
+  delete records[period];
+  saveAllRecords(records);
+  return { ok: true };
+}
+
+/**
+ * Replace every recorded period (cloud sync)
+ */
+export function replaceAllNetWorthHistory(snapshots: NetWorthSnapshot[]): void {
+  const normalized = snapshots.map(normalizeNetWorthSnapshot).filter((s): s is NetWorthSnapshot => s !== null);
+  saveAllRecords(Object.fromEntries(normalized.map((s) => [s.period, s])));
+}
+
+/**
+ * Subscribe to history changes
+ * @returns Unsubscribe function
+ */
+export function subscribeNetWorthHistory(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
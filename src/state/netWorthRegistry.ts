@@ -0,0 +1,279 @@
+/**
+ * Net Worth Registry
+ * Shared localStorage-backed store for assets and liabilities: typed items
+ * with a currency and dated valuation history.
+ * Patterns: normalize on read, listeners + notify, { ok, reason } results
+ */
+
+import type { NetWorthItem, NetWorthItemInput, Valuation } from "../types/netWorth";
+import { householdKey } from "./householdStore";
+import { assertRoleAllows } from "../utils/roleGuard";
+
+type Result = { ok: true } | { ok: false; reason: string };
+
+export interface NetWorthRegistryOptions<TType extends string> {
+  /** Base localStorage key (household-scoped) */
+  storageKey: string;
+  /** Singular label used in messages, e.g. "asset" */
+  label: string;
+  types: readonly TType[];
+  /** Type given to records saved before types existed */
+  defaultType: TType;
+}
+
+function todayISO() {
+  const d = new Date();
+  const yyyy = d.getFullYear();
+  const mm = String(d.getMonth() + 1).padStart(2, "0");
+  const dd = String(d.getDate()).padStart(2, "0");
+  return `${yyyy}-${mm}-${dd}`;
+}
+
+/**
+ * Validate a valuation's date and value
+ * @returns null if valid, or error message if invalid
+ */
+function validateValuation(date: string, value: number): string | null {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+    return "Valuation date must be YYYY-MM-DD";
+  }
+  if (!Number.isFinite(value) || value < 0) {
+    return "Value must be 0 or more";
+  }
+  return null;
+}
+
+function sortValuations(valuations: Valuation[]): Valuation[] {
+  return [...valuations].sort((a, b) => a.date.localeCompare(b.date));
+}
+
+export function createNetWorthRegistry<TType extends string>(options: NetWorthRegistryOptions<TType>) {
+  const { storageKey, label, types, defaultType } = options;
+  const listeners = new Set<() => void>();
+
+  function notify() {
+    listeners.forEach((l) => l());
+  }
+
+  /**
+   * Normalize a raw record, returning null if it is unusable.
+   * Legacy `{ id, name, value }` records become one valuation dated when last updated.
+   */
+  function normalize(value: unknown): NetWorthItem<TType> | null {
+    if (!value || typeof value !== "object") return null;
+    const raw = value as Record<string, unknown>;
+
+    const id = typeof raw.id === "string" ? raw.id : "";
+    const name = typeof raw.name === "string" ? raw.name.trim() : "";
+    if (!id || !name) return null;
+
+    const now = new Date().toISOString();
+    const updatedAt = typeof raw.updatedAt === "string" ? raw.updatedAt : now;
+
+    let valuations: Valuation[];
+    if (Array.isArray(raw.valuations)) {
+      valuations = raw.valuations
+        .filter((v): v is Record<string, unknown> => Boolean(v) && typeof v === "object")
+        .map((v) => ({
+          id: typeof v.id === "string" && v.id ? v.id : crypto.randomUUID(),
+          date: String(v.date ?? ""),
+          value: Math.abs(Number(v.value)),
+          note: typeof v.note === "string" && v.note.trim() ? v.note.trim() : undefined,
+        }))
+        .filter((v) => validateValuation(v.date, v.value) === null);
+    } else {
+      const legacy = Math.abs(Number(raw.value ?? 0));
+      valuations = Number.isFinite(legacy) ? [{ id: `${id}-initial`, date: updatedAt.slice(0, 10), value: legacy }] : [];
+    }
+
+    return {
+      id,
+      name,
+      type: (types as readonly string[]).includes(String(raw.type)) ? (raw.type as TType) : defaultType,
+      currency: typeof raw.currency === "string" && /^[A-Z]{3}$/.test(raw.currency) ? raw.currency : "SGD",
+      valuations: sortValuations(valuations),
+      note: typeof raw.note === "string" && raw.note.trim() ? raw.note.trim() : undefined,
+      createdAt: typeof raw.createdAt === "string" ? raw.createdAt : updatedAt,
+      updatedAt,
+    };
+  }
+
+  function readAll(): NetWorthItem<TType>[] {
+    try {
+      const raw = localStorage.getItem(householdKey(storageKey));
+      const parsed = raw ? JSON.parse(raw) : [];
+      if (!Array.isArray(parsed)) return [];
+      return parsed.map(normalize).filter((x): x is NetWorthItem<TType> => x !== null);
+    } catch {
+      return [];
+    }
+  }
+
+  function writeAll(items: NetWorthItem<TType>[]): Result {
+    try {
+      localStorage.setItem(householdKey(storageKey), JSON.stringify(items));
+    } catch (err) {
+      return { ok: false, reason: `Could not save ${label}: ${(err as Error).message}` };
+    }
+    notify();
+    return { ok: true };
+  }
+
+  /**
+   * Apply a change to one item, gated by role
+   */
+  function mutate(
+    id: string,
+    action: string,
+    change: (item: NetWorthItem<TType>) => NetWorthItem<TType> | string
+  ): Result {
+    const allowed = assertRoleAllows("edit", `${action} ${label}`);
+    if (!allowed.ok) return allowed;
+
+    const items = readAll();
+    const index = items.findIndex((x) => x.id === id);
+    if (index === -1) {
+      return { ok: false, reason: `${label[0].toUpperCase()}${label.slice(1)} not found` };
+    }
+
+    const next = change(items[index]);
+    if (typeof next === "string") return { ok: false, reason: next };
+
+    items[index] = { ...next, updatedAt: new Date().toISOString() };
+    return writeAll(items);
+  }
+
+  function validateDetails(input: { name?: string; type?: string; currency?: string }): string | null {
+    if (input.name !== undefined && !input.name.trim()) {
+      return "Name is required";
+    }
+    if (input.type !== undefined && !(types as readonly string[]).includes(input.type)) {
+      return `Unknown ${label} type "${input.type}"`;
+    }
+    if (input.currency !== undefined && !/^[A-Z]{3}$/.test(input.currency.trim().toUpperCase())) {
+      return "Currency must be a 3-letter code (e.g. SGD)";
+    }
+    return null;
+  }
+
+  return {
+    normalize,
+
+    /**
+     * List all items by name
+     */
+    list(): NetWorthItem<TType>[] {
+      return readAll().sort((a, b) => a.name.localeCompare(b.name));
+    },
+
+    get(id: string): NetWorthItem<TType> | null {
+      return readAll().find((x) => x.id === id) ?? null;
+    },
+
+    /**
+     * Add an item with its first valuation
+     */
+    add(input: NetWorthItemInput<TType>): { ok: true; id: string } | { ok: false; reason: string } {
+      const allowed = assertRoleAllows("edit", `add ${label}`);
+      if (!allowed.ok) return allowed;
+
+      const validationError =
+        validateDetails(input) ?? validateValuation(input.date || todayISO(), Number(input.value));
+      if (validationError) return { ok: false, reason: validationError };
+
+      const now = new Date().toISOString();
+      const item: NetWorthItem<TType> = {
+        id: crypto.randomUUID(),
+        name: input.name.trim(),
+        type: input.type,
+        currency: input.currency.trim().toUpperCase(),
+        valuations: [{ id: crypto.randomUUID(), date: input.date || todayISO(), value: Number(input.value) }],
+        note: input.note?.trim() || undefined,
+        createdAt: now,
+        updatedAt: now,
+      };
+
+      const saved = writeAll([...readAll(), item]);
+      return saved.ok ? { ok: true, id: item.id } : saved;
+    },
+
+    /**
+     * Update name, type, currency or note (valuations have their own functions)
+     */
+    update(
+      id: string,
+      patch: Partial<Pick<NetWorthItem<TType>, "name" | "type" | "currency" | "note">>
+    ): Result {
+      const validationError = validateDetails(patch);
+      if (validationError) return { ok: false, reason: validationError };
+
+      return mutate(id, "edit", (item) => ({
+        ...item,
+        ...patch,
+        name: patch.name !== undefined ? patch.name.trim() : item.name,
+        currency: patch.currency !== undefined ? patch.currency.trim().toUpperCase() : item.currency,
+      }));
+    },
+
+    remove(id: string): Result {
+      const allowed = assertRoleAllows("edit", `delete ${label}`);
+      if (!allowed.ok) return allowed;
+
+      const items = readAll();
+      if (!items.some((x) => x.id === id)) {
+        return { ok: false, reason: `${label[0].toUpperCase()}${label.slice(1)} not found` };
+      }
+      return writeAll(items.filter((x) => x.id !== id));
+    },
+
+    /**
+     * Record a dated valuation (replaces an existing valuation on the same date)
+     */
+    addValuation(id: string, valuation: { date: string; value: number; note?: string }): Result {
+      const validationError = validateValuation(valuation.date, Number(valuation.value));
+      if (validationError) return { ok: false, reason: validationError };
+
+      return mutate(id, "revalue", (item) => ({
+        ...item,
+        valuations: sortValuations([
+          ...item.valuations.filter((v) => v.date !== valuation.date),
+          {
+            id: crypto.randomUUID(),
+            date: valuation.date,
+            value: Number(valuation.value),
+            note: valuation.note?.trim() || undefined,
+          },
+        ]),
+      }));
+    },
+
+    /**
+     * Delete a valuation; an item keeps at least one
+     */
+    removeValuation(id: string, valuationId: string): Result {
+      return mutate(id, "edit", (item) => {
+        if (!item.valuations.some((v) => v.id === valuationId)) return "Valuation not found";
+        if (item.valuations.length === 1) return "An item needs at least one valuation";
+        return { ...item, valuations: item.valuations.filter((v) => v.id !== valuationId) };
+      });
+    },
+
+    /**
+     * Replace every item (cloud sync)
+     */
+    replaceAll(items: NetWorthItem<TType>[]): Result {
+      return writeAll(items.map(normalize).filter((x): x is NetWorthItem<TType> => x !== null));
+    },
+
+    /**
+     * Subscribe to changes
+     * @returns Unsubscribe function
+     */
+    subscribe(listener: () => void): () => void {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}
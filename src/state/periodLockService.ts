@@ -8,6 +8,15 @@ import type { PeriodPlanSnapshot } from "./periodSnapshotStore";
 import { saveSnapshot, getSnapshot, deleteSnapshot } from "./periodSnapshotStore";
 import { isPeriodLocked, setLocked } from "./periodLocksStore";
 import { getDistributionPlan } from "./distributionPlanStore";
+import { listFxRates } from "./fxRatesStore";
+import { captureNetWorth } from "./netWorthHistoryStore";
+import { getEnvelopeBalances } from "./envelopeService";
+import { listPendingTransactions, listTransactions } from "./transactionsStore";
+import { listIncome } from "./incomeStore";
+import { listCategories } from "./categoriesStore";
+import { categoryNameRecord } from "../utils/categoryTree";
+import { fxRatesForPeriod } from "../utils/fxMath";
+import { assertRoleAllows } from "../utils/roleGuard";
 
 /**
  * Validate period key format (YYYY-MM)
@@ -37,6 +46,18 @@ export function lockPeriod(
     return { ok: false, reason: (err as Error).message };
   }
 
+  const allowed = assertRoleAllows("lock", `lock ${period}`);
+  if (!allowed.ok) return allowed;
+
+  // Pending entries could be neither confirmed nor skipped once locked
+  const pending = listPendingTransactions().filter((t) => t.date.startsWith(period));
+  if (pending.length > 0) {
+    return {
+      ok: false,
+      reason: `${period} has ${pending.length} pending scheduled transaction(s); confirm or skip them before locking`,
+    };
+  }
+
   // Check if already locked
   const alreadyLocked = isPeriodLocked(period);
   console.log("[lockPeriod] isPeriodLocked result:", alreadyLocked);
@@ -76,6 +97,9 @@ export function lockPeriod(
     name: plan.name, // Alias for compatibility
     currency: plan.currency,
     targets: plan.targets.map((t) => ({ ...t })), // Clone targets
+    fxRates: fxRatesForPeriod(listFxRates(), period), // Freeze the rates used
+    envelopes: getEnvelopeBalances(period, listTransactions(), listIncome()), // Freeze envelope balances
+    categoryNames: categoryNameRecord(listCategories()), // Freeze category names
     lockedAt: new Date().toISOString(),
   };
 
@@ -111,12 +135,18 @@ export function lockPeriod(
     };
   }
 
+  // Record month-end net worth; the lock stands even if this fails
+  const netWorth = captureNetWorth(period, "lock");
+  if (!netWorth.ok) {
+    console.warn("[lockPeriod] Net worth not captured:", netWorth.reason);
+  }
+
   console.log("[lockPeriod] Completed successfully for period:", period);
   return { ok: true };
 }
 
 /**
- * Unlock a period without deleting snapshot
+ * Unlock a period without deleting snapshot (household owners only)
  */
 export function unlockPeriod(
   period: string
@@ -127,6 +157,9 @@ export function unlockPeriod(
     return { ok: false, reason: (err as Error).message };
   }
 
+  const allowed = assertRoleAllows("unlock", `unlock ${period}`);
+  if (!allowed.ok) return allowed;
+
   try {
     setLocked(period, false);
   } catch (err) {
@@ -148,6 +181,9 @@ export function regenerateSnapshot(
     return { ok: false, reason: (err as Error).message };
   }
 
+  const allowed = assertRoleAllows("lock", `regenerate snapshot for ${period}`);
+  if (!allowed.ok) return allowed;
+
   // Period must be locked
   if (!isPeriodLocked(period)) {
     return { ok: false, reason: "Period is not locked" };
@@ -172,6 +208,9 @@ export function regenerateSnapshot(
     name: plan.name,
     currency: plan.currency,
     targets: plan.targets.map((t) => ({ ...t })), // Clone targets
+    fxRates: fxRatesForPeriod(listFxRates(), period), // Freeze the rates used
+    envelopes: getEnvelopeBalances(period, listTransactions(), listIncome()), // Freeze envelope balances
+    categoryNames: categoryNameRecord(listCategories()), // Freeze category names
     lockedAt: new Date().toISOString(),
   };
 
@@ -4,6 +4,8 @@
  * Centralized source of truth for all lock operations.
  */
 
+import { householdKey } from "./householdStore";
+
 const STORAGE_KEY = "stewardly_period_locks";
 
 let listeners: Set<() => void> = new Set();
@@ -13,15 +15,39 @@ let listeners: Set<() => void> = new Set();
  */
 function getAllLocks(): Record<string, boolean> {
   try {
-    const raw = localStorage.getItem(STORAGE_KEY);
+    const raw = localStorage.getItem(householdKey(STORAGE_KEY));
     if (!raw) return {};
-    const parsed = JSON.parse(raw);
-    return typeof parsed === "object" && parsed !== null ? parsed : {};
+    return normalizeLocks(JSON.parse(raw));
   } catch {
     return {};
   }
 }
 
+/**
+ * Normalize a raw locks value into the object format {"2025-01": true, ...}
+ * Accepts the legacy array format ["2025-01", ...] written by utils/periodLocks.
+ * Keys that are not YYYY-MM periods are dropped.
+ */
+export function normalizeLocks(raw: unknown): Record<string, boolean> {
+  const periodRegex = /^\d{4}-(?:0[1-9]|1[0-2])$/;
+  const locks: Record<string, boolean> = {};
+
+  if (Array.isArray(raw)) {
+    for (const p of raw) {
+      if (typeof p === "string" && periodRegex.test(p)) locks[p] = true;
+    }
+    return locks;
+  }
+
+  if (typeof raw === "object" && raw !== null) {
+    for (const [p, v] of Object.entries(raw)) {
+      if (v === true && periodRegex.test(p)) locks[p] = true;
+    }
+  }
+
+  return locks;
+}
+
 /**
  * Notify all listeners of changes
  */
@@ -80,11 +106,11 @@ export function setLocked(period: string, locked: boolean): void {
   try {
     const serialized = JSON.stringify(locks);
     console.log("[periodLocksStore] setLocked: saving to localStorage", { period, locked, locks });
-    localStorage.setItem(STORAGE_KEY, serialized);
+    localStorage.setItem(householdKey(STORAGE_KEY), serialized);
     console.log("[periodLocksStore] setLocked: localStorage.setItem succeeded");
     
     // Verify it was actually saved
-    const verify = localStorage.getItem(STORAGE_KEY);
+    const verify = localStorage.getItem(householdKey(STORAGE_KEY));
     console.log("[periodLocksStore] setLocked: verification read:", verify);
   } catch (err) {
     console.error("[periodLocksStore] setLocked: ERROR saving to localStorage", err);
@@ -94,6 +120,19 @@ export function setLocked(period: string, locked: boolean): void {
   console.log("[periodLocksStore] setLocked: complete");
 }
 
+/**
+ * Replace every lock (cloud sync). Bypasses lockPeriod/unlockPeriod:
+ * snapshots are synced separately.
+ */
+export function replaceAllLocks(locks: Record<string, boolean>): void {
+  try {
+    localStorage.setItem(householdKey(STORAGE_KEY), JSON.stringify(normalizeLocks(locks)));
+  } catch (err) {
+    console.error("[periodLocksStore] replaceAllLocks: ERROR saving to localStorage", err);
+  }
+  notifyListeners();
+}
+
 /**
  * Subscribe to lock changes
  * @param listener - Callback invoked when any lock state changes
@@ -1,4 +1,8 @@
-import type { DistributionTarget } from "../types/distribution";
+import type { DistributionTarget, EnvelopeBalance } from "../types/distribution";
+import type { FxRate } from "../types/fx";
+import { normalizeFxRate } from "./fxRatesStore";
+import { householdKey } from "./householdStore";
+import { normalizeEnvelopeBalances } from "../utils/envelopeMath";
 
 /**
  * Period Plan Snapshot
@@ -12,6 +16,12 @@ export interface PeriodPlanSnapshot {
   name?: string; // Alias for planName
   currency: string;
   targets: DistributionTarget[];
+  /** Exchange rates the period was converted with when it was locked */
+  fxRates?: FxRate[];
+  /** Envelope balances as they stood when the period was locked (envelope mode only) */
+  envelopes?: EnvelopeBalance[];
+  /** Category names by id when the period was locked, so renames do not rewrite history */
+  categoryNames?: Record<string, string>;
   lockedAt: string; // ISO timestamp
 }
 
@@ -24,7 +34,7 @@ let listeners: Set<() => void> = new Set();
  */
 function getAllSnapshots(): Record<string, PeriodPlanSnapshot> {
   try {
-    const raw = localStorage.getItem(STORAGE_KEY);
+    const raw = localStorage.getItem(householdKey(STORAGE_KEY));
     if (!raw) return {};
     const parsed = JSON.parse(raw);
     return typeof parsed === "object" && parsed !== null ? parsed : {};
@@ -38,13 +48,67 @@ function getAllSnapshots(): Record<string, PeriodPlanSnapshot> {
  */
 function saveAllSnapshots(snapshots: Record<string, PeriodPlanSnapshot>): void {
   try {
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(snapshots));
+    localStorage.setItem(householdKey(STORAGE_KEY), JSON.stringify(snapshots));
     notifyListeners();
   } catch {
     // Silent fail
   }
 }
 
+/**
+ * Keep only string names keyed by category id
+ */
+function normalizeCategoryNames(value: unknown): Record<string, string> | undefined {
+  if (!value || typeof value !== "object") return undefined;
+  const names: Record<string, string> = {};
+  for (const [id, name] of Object.entries(value as Record<string, unknown>)) {
+    if (typeof name === "string" && name.trim()) names[id] = name;
+  }
+  return names;
+}
+
+/**
+ * Normalize a raw snapshot, returning null if it is unusable
+ * (bad period key, no targets or no plan reference)
+ */
+export function normalizeSnapshot(value: unknown): PeriodPlanSnapshot | null {
+  if (!value || typeof value !== "object") return null;
+  const raw = value as Record<string, unknown>;
+
+  const period = String(raw.period ?? "");
+  if (!/^\d{4}-(?:0[1-9]|1[0-2])$/.test(period)) return null;
+  if (!Array.isArray(raw.targets)) return null;
+
+  const planId = String(raw.planId ?? "").trim();
+  if (!planId) return null;
+
+  const planName = String(raw.planName ?? raw.name ?? "").trim();
+
+  const targets = (raw.targets as unknown[])
+    .filter((t): t is Record<string, unknown> => Boolean(t) && typeof t === "object")
+    .filter((t) => typeof t.category === "string" && t.category)
+    .map((t) => ({
+      category: t.category as DistributionTarget["category"],
+      targetPct: Number.isFinite(Number(t.targetPct)) ? Number(t.targetPct) : 0,
+    }));
+
+  return {
+    ...(raw as Partial<PeriodPlanSnapshot>),
+    period,
+    planId,
+    planName,
+    name: planName,
+    currency: typeof raw.currency === "string" && raw.currency ? raw.currency : "SGD",
+    targets,
+    fxRates: Array.isArray(raw.fxRates)
+      ? raw.fxRates.map(normalizeFxRate).filter((r): r is FxRate => r !== null)
+      : undefined,
+    envelopes: normalizeEnvelopeBalances(raw.envelopes),
+    categoryNames: normalizeCategoryNames(raw.categoryNames),
+    lockedAt: String(raw.lockedAt ?? new Date().toISOString()),
+  };
+}
+
 /**
  * Notify all listeners of changes
  */
@@ -86,6 +150,18 @@ export function listSnapshots(): PeriodPlanSnapshot[] {
   return Object.values(snapshots).sort((a, b) => a.period.localeCompare(b.period));
 }
 
+/**
+ * Replace every snapshot (cloud sync)
+ */
+export function replaceAllSnapshots(snapshots: PeriodPlanSnapshot[]): void {
+  const byPeriod: Record<string, PeriodPlanSnapshot> = {};
+  for (const raw of snapshots) {
+    const snapshot = normalizeSnapshot(raw);
+    if (snapshot) byPeriod[snapshot.period] = snapshot;
+  }
+  saveAllSnapshots(byPeriod);
+}
+
 /**
  * Subscribe to snapshot changes
  */
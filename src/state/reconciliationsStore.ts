@@ -0,0 +1,201 @@
+/**
+ * Reconciliations Store
+ * Statements checked against an account, persisted to localStorage. The
+ * transactions cleared in a reconciliation are marked with its id and
+ * cannot be edited or deleted until the reconciliation is undone.
+ */
+
+import type { Reconciliation, ReconciliationInput } from "../types/accounts";
+import type { MoneyTransaction } from "../types/transactions";
+import { householdKey } from "./householdStore";
+import { getAccount } from "./accountsStore";
+import { listTransactions, setTransactionsReconciled } from "./transactionsStore";
+import { assertRoleAllows } from "../utils/roleGuard";
+import { reconciledBalance, signedAmount } from "../utils/accountMath";
+
+const STORAGE_KEY = "stewardly_reconciliations";
+
+const listeners: Set<() => void> = new Set();
+
+/**
+ * Normalize a raw reconciliation, returning null if it is unusable
+ */
+export function normalizeReconciliation(value: unknown): Reconciliation | null {
+  if (!value || typeof value !== "object") return null;
+  const raw = value as Record<string, unknown>;
+
+  const closingBalance = Number(raw.closingBalance);
+  if (
+    typeof raw.id !== "string" ||
+    !raw.id ||
+    typeof raw.accountId !== "string" ||
+    !raw.accountId ||
+    typeof raw.statementDate !== "string" ||
+    !/^\d{4}-\d{2}-\d{2}$/.test(raw.statementDate) ||
+    !Number.isFinite(closingBalance)
+  ) {
+    return null;
+  }
+
+  return {
+    id: raw.id,
+    accountId: raw.accountId,
+    statementDate: raw.statementDate,
+    closingBalance,
+    transactionIds: Array.isArray(raw.transactionIds)
+      ? raw.transactionIds.filter((id): id is string => typeof id === "string" && id !== "")
+      : [],
+    createdAt: typeof raw.createdAt === "string" ? raw.createdAt : new Date().toISOString(),
+  };
+}
+
+/**
+ * Get all reconciliations from localStorage
+ */
+function getAllReconciliations(): Reconciliation[] {
+  try {
+    const raw = localStorage.getItem(householdKey(STORAGE_KEY));
+    if (!raw) return [];
+    const parsed = JSON.parse(raw);
+    if (!Array.isArray(parsed)) return [];
+    return parsed.map(normalizeReconciliation).filter((r): r is Reconciliation => r !== null);
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Save all reconciliations to localStorage and notify listeners
+ */
+function saveReconciliations(reconciliations: Reconciliation[]): { ok: true } | { ok: false; reason: string } {
+  try {
+    localStorage.setItem(householdKey(STORAGE_KEY), JSON.stringify(reconciliations));
+  } catch (err) {
+    return { ok: false, reason: `Failed to save reconciliation: ${(err as Error).message}` };
+  }
+  notifyListeners();
+  return { ok: true };
+}
+
+/**
+ * Notify all listeners of changes
+ */
+function notifyListeners(): void {
+  listeners.forEach((listener) => listener());
+}
+
+/**
+ * List reconciliations, newest statement first
+ */
+export function listReconciliations(): Reconciliation[] {
+  return getAllReconciliations().sort(
+    (a, b) => b.statementDate.localeCompare(a.statementDate) || b.createdAt.localeCompare(a.createdAt)
+  );
+}
+
+/**
+ * Record a statement as reconciled. The ticked transactions must belong to
+ * the account, fall on or before the statement date and not be reconciled
+ * yet, and bring the cleared balance to the statement's closing balance.
+ */
+export function reconcileAccount(
+  input: ReconciliationInput
+): { ok: true; id: string } | { ok: false; reason: string } {
+  const allowed = assertRoleAllows("edit", "reconcile account");
+  if (!allowed.ok) return allowed;
+
+  const account = getAccount(input.accountId);
+  if (!account) {
+    return { ok: false, reason: "Account not found" };
+  }
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(input.statementDate)) {
+    return { ok: false, reason: "Statement date must be YYYY-MM-DD" };
+  }
+  const closingBalance = Number(input.closingBalance);
+  if (!Number.isFinite(closingBalance)) {
+    return { ok: false, reason: "Closing balance must be a number" };
+  }
+
+  const latest = listReconciliations().find((r) => r.accountId === account.id);
+  if (latest && input.statementDate < latest.statementDate) {
+    return { ok: false, reason: `${account.name} is already reconciled to ${latest.statementDate}` };
+  }
+
+  const transactions = listTransactions();
+  const byId = new Map(transactions.map((t) => [t.id, t]));
+  const ticked: MoneyTransaction[] = [];
+  for (const id of new Set(input.transactionIds)) {
+    const t = byId.get(id);
+    if (!t || t.accountId !== account.id) {
+      return { ok: false, reason: `A ticked transaction is not in ${account.name}` };
+    }
+    if (t.reconciliationId) {
+      return { ok: false, reason: `The ${t.date} transaction is already reconciled` };
+    }
+    if (t.date > input.statementDate || t.date < account.openingDate) {
+      return { ok: false, reason: `The ${t.date} transaction is outside this statement` };
+    }
+    ticked.push(t);
+  }
+
+  const cleared = ticked.reduce((sum, t) => sum + signedAmount(t), reconciledBalance(account, transactions));
+  const difference = Math.round((closingBalance - cleared) * 100) / 100;
+  if (difference !== 0) {
+    return { ok: false, reason: `Cleared balance is ${difference.toFixed(2)} away from the statement` };
+  }
+
+  const reconciliation: Reconciliation = {
+    id: crypto.randomUUID(),
+    accountId: account.id,
+    statementDate: input.statementDate,
+    closingBalance,
+    transactionIds: ticked.map((t) => t.id),
+    createdAt: new Date().toISOString(),
+  };
+  const saved = saveReconciliations([...getAllReconciliations(), reconciliation]);
+  if (!saved.ok) return saved;
+
+  setTransactionsReconciled(reconciliation.transactionIds, reconciliation.id);
+  return { ok: true, id: reconciliation.id };
+}
+
+/**
+ * Undo an account's most recent reconciliation, unprotecting its transactions
+ */
+export function undoReconciliation(id: string): { ok: true } | { ok: false; reason: string } {
+  const allowed = assertRoleAllows("edit", "undo reconciliation");
+  if (!allowed.ok) return allowed;
+
+  const reconciliations = listReconciliations();
+  const reconciliation = reconciliations.find((r) => r.id === id);
+  if (!reconciliation) {
+    return { ok: false, reason: "Reconciliation not found" };
+  }
+  if (reconciliations.find((r) => r.accountId === reconciliation.accountId)?.id !== id) {
+    return { ok: false, reason: "Only the account's latest reconciliation can be undone" };
+  }
+
+  const saved = saveReconciliations(getAllReconciliations().filter((r) => r.id !== id));
+  if (!saved.ok) return saved;
+
+  setTransactionsReconciled(reconciliation.transactionIds, undefined);
+  return { ok: true };
+}
+
+/**
+ * Replace every reconciliation (cloud sync)
+ */
+export function replaceAllReconciliations(reconciliations: Reconciliation[]): void {
+  saveReconciliations(reconciliations.map(normalizeReconciliation).filter((x): x is Reconciliation => x !== null));
+}
+
+/**
+ * Subscribe to reconciliation changes
+ * @returns Unsubscribe function
+ */
+export function subscribeReconciliations(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
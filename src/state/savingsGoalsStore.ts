@@ -0,0 +1,176 @@
+/**
+ * Savings Goals Store
+ * Goals funded from distribution plan categories, persisted to localStorage.
+ */
+
+import type { SavingsGoal, SavingsGoalInput } from "../types/goals";
+import type { CategoryName } from "../constants/categories";
+import { householdKey } from "./householdStore";
+import { assertRoleAllows } from "../utils/roleGuard";
+
+const STORAGE_KEY = "stewardly_savings_goals";
+
+const listeners: Set<() => void> = new Set();
+
+/**
+ * Validate a goal
+ * @returns null if valid, or error message if invalid
+ */
+function validateGoal(input: SavingsGoalInput): string | null {
+  if (!input.name.trim()) {
+    return "Goal name is required";
+  }
+  if (!input.category) {
+    return "Choose a funding category";
+  }
+  if (!Number.isFinite(input.targetAmount) || input.targetAmount <= 0) {
+    return "Target amount must be greater than 0";
+  }
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(input.startDate) || !/^\d{4}-\d{2}-\d{2}$/.test(input.targetDate)) {
+    return "Dates must be YYYY-MM-DD";
+  }
+  if (input.targetDate < input.startDate) {
+    return "Target date must be on or after the start date";
+  }
+  return null;
+}
+
+/**
+ * Normalize a raw goal, returning null if it is unusable
+ */
+export function normalizeSavingsGoal(value: unknown): SavingsGoal | null {
+  if (!value || typeof value !== "object") return null;
+  const raw = value as Record<string, unknown>;
+
+  const input: SavingsGoalInput = {
+    name: String(raw.name ?? "").trim(),
+    category: (typeof raw.category === "string" ? raw.category : "") as CategoryName,
+    targetAmount: Number(raw.targetAmount),
+    targetDate: String(raw.targetDate ?? ""),
+    startDate: String(raw.startDate ?? ""),
+  };
+  if (validateGoal(input) !== null) return null;
+
+  const now = new Date().toISOString();
+  return {
+    id: typeof raw.id === "string" && raw.id ? raw.id : crypto.randomUUID(),
+    ...input,
+    createdAt: typeof raw.createdAt === "string" ? raw.createdAt : now,
+    updatedAt: typeof raw.updatedAt === "string" ? raw.updatedAt : now,
+  };
+}
+
+/**
+ * Get all goals from localStorage
+ */
+function getAllGoals(): SavingsGoal[] {
+  try {
+    const raw = localStorage.getItem(householdKey(STORAGE_KEY));
+    if (!raw) return [];
+    const parsed = JSON.parse(raw);
+    if (!Array.isArray(parsed)) return [];
+    return parsed.map(normalizeSavingsGoal).filter((g): g is SavingsGoal => g !== null);
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Save all goals to localStorage and notify listeners
+ */
+function saveGoals(goals: SavingsGoal[]): { ok: true } | { ok: false; reason: string } {
+  try {
+    localStorage.setItem(householdKey(STORAGE_KEY), JSON.stringify(goals));
+  } catch (err) {
+    return { ok: false, reason: `Failed to save goal: ${(err as Error).message}` };
+  }
+  notifyListeners();
+  return { ok: true };
+}
+
+/**
+ * Notify all listeners of changes
+ */
+function notifyListeners(): void {
+  listeners.forEach((listener) => listener());
+}
+
+/**
+ * List goals by target date
+ */
+export function listSavingsGoals(): SavingsGoal[] {
+  return getAllGoals().sort((a, b) =>
+    a.targetDate !== b.targetDate ? a.targetDate.localeCompare(b.targetDate) : a.name.localeCompare(b.name)
+  );
+}
+
+export function addSavingsGoal(input: SavingsGoalInput): { ok: true; id: string } | { ok: false; reason: string } {
+  const allowed = assertRoleAllows("edit", "add savings goal");
+  if (!allowed.ok) return allowed;
+
+  const goalInput = { ...input, name: input.name.trim(), targetAmount: Number(input.targetAmount) };
+  const validationError = validateGoal(goalInput);
+  if (validationError) return { ok: false, reason: validationError };
+
+  const now = new Date().toISOString();
+  const goal: SavingsGoal = { id: crypto.randomUUID(), ...goalInput, createdAt: now, updatedAt: now };
+  const saved = saveGoals([...getAllGoals(), goal]);
+  return saved.ok ? { ok: true, id: goal.id } : saved;
+}
+
+export function updateSavingsGoal(
+  id: string,
+  patch: Partial<SavingsGoalInput>
+): { ok: true } | { ok: false; reason: string } {
+  const allowed = assertRoleAllows("edit", "edit savings goal");
+  if (!allowed.ok) return allowed;
+
+  const goals = getAllGoals();
+  const index = goals.findIndex((g) => g.id === id);
+  if (index === -1) {
+    return { ok: false, reason: "Goal not found" };
+  }
+
+  const current = goals[index];
+  const next: SavingsGoalInput = {
+    name: (patch.name ?? current.name).trim(),
+    category: patch.category ?? current.category,
+    targetAmount: Number(patch.targetAmount ?? current.targetAmount),
+    targetDate: patch.targetDate ?? current.targetDate,
+    startDate: patch.startDate ?? current.startDate,
+  };
+  const validationError = validateGoal(next);
+  if (validationError) return { ok: false, reason: validationError };
+
+  goals[index] = { ...current, ...next, updatedAt: new Date().toISOString() };
+  return saveGoals(goals);
+}
+
+export function deleteSavingsGoal(id: string): { ok: true } | { ok: false; reason: string } {
+  const allowed = assertRoleAllows("edit", "delete savings goal");
+  if (!allowed.ok) return allowed;
+
+  const goals = getAllGoals();
+  if (!goals.some((g) => g.id === id)) {
+    return { ok: false, reason: "Goal not found" };
+  }
+  return saveGoals(goals.filter((g) => g.id !== id));
+}
+
+/**
+ * Replace every goal (cloud sync)
+ */
+export function replaceAllSavingsGoals(goals: SavingsGoal[]): void {
+  saveGoals(goals.map(normalizeSavingsGoal).filter((x): x is SavingsGoal => x !== null));
+}
+
+/**
+ * Subscribe to goal changes
+ * @returns Unsubscribe function
+ */
+export function subscribeSavingsGoals(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
@@ -0,0 +1,138 @@
+/**
+ * Scheduled Posting Service
+ * Posts pending transactions for templates with auto-post on, once their
+ * expected date arrives and while the period is open. Pending entries stay
+ * out of actuals until confirmed; skipping an occurrence removes its entry
+ * and stops it being expected or posted again. An occurrence's entry has the
+ * same id on every device, and a period cannot be locked while it has any.
+ */
+
+import { listScheduledTemplates, updateScheduledTemplate } from "./scheduledTemplatesStore";
+import {
+  addTransaction,
+  deleteTransaction,
+  listAllTransactions,
+  listPendingTransactions,
+  updateTransaction,
+} from "./transactionsStore";
+import { projectScheduledTransactions } from "../utils/scheduledMath";
+import { assertPeriodUnlocked, isPeriodEditable } from "../utils/lockGuard";
+import { assertRoleAllows } from "../utils/roleGuard";
+
+function todayISO() {
+  const d = new Date();
+  const yyyy = d.getFullYear();
+  const mm = String(d.getMonth() + 1).padStart(2, "0");
+  const dd = String(d.getDate()).padStart(2, "0");
+  return `${yyyy}-${mm}-${dd}`;
+}
+
+function previousPeriod(period: string): string {
+  const d = new Date(`${period}-01T00:00:00Z`);
+  d.setUTCMonth(d.getUTCMonth() - 1);
+  return d.toISOString().slice(0, 7);
+}
+
+/**
+ * Post a pending transaction for every due, unmatched occurrence of an
+ * auto-post template. Looks back to the start of last month, so a month-end
+ * item is still posted when the app is first opened early the next month.
+ */
+export function postDueScheduledTransactions(
+  today: string = todayISO()
+): { ok: true; posted: number } | { ok: false; reason: string } {
+  const allowed = assertRoleAllows("edit", "post scheduled transactions");
+  if (!allowed.ok) return allowed;
+
+  const templates = listScheduledTemplates().filter((t) => t.active && t.autoPost);
+  if (templates.length === 0) return { ok: true, posted: 0 };
+
+  let posted = 0;
+  const currentPeriod = today.slice(0, 7);
+  for (const period of [previousPeriod(currentPeriod), currentPeriod]) {
+    if (!isPeriodEditable(period)) continue;
+
+    const rows = projectScheduledTransactions(templates, listAllTransactions(), period);
+    for (const row of rows) {
+      if (row.status !== "missing" || row.expectedDateISO > today) continue;
+      const result = addTransaction({
+        date: row.expectedDateISO,
+        category: row.template.category,
+        amount: row.template.amount,
+        currency: row.template.currency,
+        direction: row.template.direction,
+        note: row.template.name,
+        liabilityId: row.template.liabilityId,
+        pending: true,
+        scheduledTemplateId: row.template.id,
+        scheduledDate: row.expectedDateISO,
+      });
+      if (result.ok) posted++;
+    }
+  }
+
+  return { ok: true, posted };
+}
+
+/**
+ * Confirm a pending entry, making it an actual transaction
+ */
+export function confirmScheduledEntry(id: string): { ok: true } | { ok: false; reason: string } {
+  if (!listPendingTransactions().some((t) => t.id === id)) {
+    return { ok: false, reason: "Pending entry not found" };
+  }
+  return updateTransaction(id, { pending: undefined });
+}
+
+/**
+ * Skip one occurrence of a template, deleting its pending entry if it has one
+ */
+export function skipScheduledOccurrence(
+  templateId: string,
+  expectedDateISO: string
+): { ok: true } | { ok: false; reason: string } {
+  const allowed = assertRoleAllows("edit", "skip scheduled transaction");
+  if (!allowed.ok) return allowed;
+
+  const template = listScheduledTemplates().find((t) => t.id === templateId);
+  if (!template) {
+    return { ok: false, reason: "Template not found" };
+  }
+
+  const unlocked = assertPeriodUnlocked(expectedDateISO.slice(0, 7));
+  if (!unlocked.ok) return unlocked;
+
+  const entry = listAllTransactions().find(
+    (t) => t.scheduledTemplateId === templateId && t.scheduledDate === expectedDateISO
+  );
+  if (entry && !entry.pending) {
+    return { ok: false, reason: "This occurrence is already confirmed; delete it on the Transactions page instead" };
+  }
+  if (entry) {
+    const deleted = deleteTransaction(entry.id);
+    if (!deleted.ok) return deleted;
+  }
+
+  const skippedDates = new Set(template.skippedDates ?? []);
+  skippedDates.add(expectedDateISO);
+  return updateScheduledTemplate(templateId, { skippedDates: [...skippedDates].sort() });
+}
+
+/**
+ * Expect a skipped occurrence again; auto-post templates post it on their next run
+ */
+export function restoreScheduledOccurrence(
+  templateId: string,
+  expectedDateISO: string
+): { ok: true } | { ok: false; reason: string } {
+  const template = listScheduledTemplates().find((t) => t.id === templateId);
+  if (!template) {
+    return { ok: false, reason: "Template not found" };
+  }
+
+  const unlocked = assertPeriodUnlocked(expectedDateISO.slice(0, 7));
+  if (!unlocked.ok) return unlocked;
+
+  const skippedDates = (template.skippedDates ?? []).filter((d) => d !== expectedDateISO);
+  return updateScheduledTemplate(templateId, { skippedDates: skippedDates.length > 0 ? skippedDates : undefined });
+}
@@ -3,10 +3,21 @@
  * Manages localStorage persistence of recurring transaction templates.
  */
 
-import type { ScheduledTransactionTemplate } from "../types/scheduled";
+import type { ScheduledFrequency, ScheduledTransactionTemplate } from "../types/scheduled";
+import { householdKey } from "./householdStore";
+import { assertRoleAllows } from "../utils/roleGuard";
 
 const STORAGE_KEY = "stewardly_scheduled_templates";
 
+const SCHEDULED_FREQUENCIES: ScheduledFrequency[] = [
+  "weekly",
+  "fortnightly",
+  "monthly",
+  "quarterly",
+  "yearly",
+  "everyNMonths",
+];
+
 let listeners: Set<() => void> = new Set();
 
 /**
@@ -21,7 +32,7 @@ function generateId(): string {
  */
 function getAllTemplates(): ScheduledTransactionTemplate[] {
   try {
-    const raw = localStorage.getItem(STORAGE_KEY);
+    const raw = localStorage.getItem(householdKey(STORAGE_KEY));
     if (!raw) return [];
     const parsed = JSON.parse(raw);
     return Array.isArray(parsed) ? parsed : [];
@@ -36,7 +47,7 @@ function getAllTemplates(): ScheduledTransactionTemplate[] {
 function saveTemplates(templates: ScheduledTransactionTemplate[]): void {
   try {
     const serialized = JSON.stringify(templates);
-    localStorage.setItem(STORAGE_KEY, serialized);
+    localStorage.setItem(householdKey(STORAGE_KEY), serialized);
     notifyListeners();
   } catch (err) {
     console.error("[scheduledTemplatesStore] Error saving templates:", err);
@@ -54,7 +65,7 @@ function notifyListeners(): void {
  * Validate a scheduled transaction template
  * @returns null if valid, or error message if invalid
  */
-function validateTemplate(
+export function validateTemplate(
   template: Partial<ScheduledTransactionTemplate>
 ): string | null {
   // name required
@@ -67,8 +78,47 @@ function validateTemplate(
     return "Amount must be greater than 0";
   }
 
-  // if rule === "dayOfMonth" ensure 1..31
-  if (template.rule === "dayOfMonth") {
+  if (!template.frequency || !SCHEDULED_FREQUENCIES.includes(template.frequency)) {
+    return "Choose a frequency";
+  }
+
+  if (template.frequency === "everyNMonths") {
+    const n = template.intervalMonths;
+    if (typeof n !== "number" || !Number.isInteger(n) || n < 1 || n > 120) {
+      return "Repeat interval must be between 1 and 120 months";
+    }
+  }
+
+  // Start and end dates are optional bounds, but schedules that skip weeks or months count from the start
+  for (const date of [template.startDate, template.endDate]) {
+    if (date !== undefined && !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+      return "Start and end dates must be YYYY-MM-DD";
+    }
+  }
+  if (template.startDate && template.endDate && template.endDate < template.startDate) {
+    return "End date must be on or after the start date";
+  }
+  if (
+    !template.startDate &&
+    (template.frequency === "weekly" ||
+      template.frequency === "fortnightly" ||
+      template.frequency === "quarterly" ||
+      template.frequency === "everyNMonths")
+  ) {
+    return "This frequency needs a start date to count from";
+  }
+
+  if (
+    template.skippedDates !== undefined &&
+    (!Array.isArray(template.skippedDates) ||
+      template.skippedDates.some((d) => typeof d !== "string" || !/^\d{4}-\d{2}-\d{2}$/.test(d)))
+  ) {
+    return "Skipped dates must be YYYY-MM-DD";
+  }
+
+  // if rule === "dayOfMonth" ensure 1..31 (weekly and fortnightly schedules ignore the rule)
+  const isMonthBased = template.frequency !== "weekly" && template.frequency !== "fortnightly";
+  if (isMonthBased && template.rule === "dayOfMonth") {
     if (typeof template.day !== "number" || template.day < 1 || template.day > 31) {
       return "Day of month must be between 1 and 31";
     }
@@ -88,6 +138,35 @@ function validateTemplate(
     }
   }
 
+  if (template.amountTolerance !== undefined) {
+    const tolerance = template.amountTolerance;
+    if (typeof tolerance !== "number" || !Number.isFinite(tolerance) || tolerance < 0) {
+      return "Amount tolerance must be 0 or more";
+    }
+    if (template.amountToleranceType === "percent" && tolerance > 100) {
+      return "Percent tolerance cannot be more than 100%";
+    }
+  }
+  if (
+    template.amountToleranceType !== undefined &&
+    template.amountToleranceType !== "absolute" &&
+    template.amountToleranceType !== "percent"
+  ) {
+    return "Amount tolerance must be absolute or a percent";
+  }
+
+  if (template.matchWindowDays !== undefined) {
+    const days = template.matchWindowDays;
+    if (typeof days !== "number" || !Number.isInteger(days) || days < 0 || days > 31) {
+      return "Match window must be between 0 and 31 days";
+    }
+  }
+
+  // Only outgoing Debt payments can repay a loan
+  if (template.liabilityId && (template.category !== "Debt" || template.direction !== "out")) {
+    return "Only Debt expenses can be linked to a loan";
+  }
+
   return null;
 }
 
@@ -104,6 +183,9 @@ export function listScheduledTemplates(): ScheduledTransactionTemplate[] {
 export function addScheduledTemplate(
   input: Omit<ScheduledTransactionTemplate, "id">
 ): { ok: true } | { ok: false; reason: string } {
+  const allowed = assertRoleAllows("edit", "add scheduled template");
+  if (!allowed.ok) return allowed;
+
   // Validate input
   const validationError = validateTemplate(input);
   if (validationError) {
@@ -131,6 +213,9 @@ export function updateScheduledTemplate(
   id: string,
   patch: Partial<Omit<ScheduledTransactionTemplate, "id">>
 ): { ok: true } | { ok: false; reason: string } {
+  const allowed = assertRoleAllows("edit", "edit scheduled template");
+  if (!allowed.ok) return allowed;
+
   const templates = getAllTemplates();
   const index = templates.findIndex((t) => t.id === id);
 
@@ -159,6 +244,9 @@ export function updateScheduledTemplate(
 export function deleteScheduledTemplate(
   id: string
 ): { ok: true } | { ok: false; reason: string } {
+  const allowed = assertRoleAllows("edit", "delete scheduled template");
+  if (!allowed.ok) return allowed;
+
   const templates = getAllTemplates();
   const index = templates.findIndex((t) => t.id === id);
 
@@ -172,6 +260,15 @@ export function deleteScheduledTemplate(
   return { ok: true };
 }
 
+/**
+ * Replace every template (cloud sync)
+ */
+export function replaceAllScheduledTemplates(templates: ScheduledTransactionTemplate[]): void {
+  saveTemplates(
+    templates.filter((t) => Boolean(t) && typeof t === "object" && typeof t.id === "string" && validateTemplate(t) === null)
+  );
+}
+
 /**
  * Subscribe to scheduled templates changes
  * @param listener - Callback invoked when templates change
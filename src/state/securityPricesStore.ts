@@ -0,0 +1,217 @@
+/**
+ * Security Prices Store
+ * Persists dated market prices per symbol to localStorage (manual entry or CSV).
+ * One price per (date, symbol); saving the same symbol and date again replaces it.
+ */
+
+import type { SecurityPrice, SecurityPriceInput } from "../types/investments";
+import { householdKey } from "./householdStore";
+import { assertRoleAllows } from "../utils/roleGuard";
+import { parseCsv } from "../utils/csvImport";
+
+const STORAGE_KEY = "stewardly_security_prices";
+
+const listeners: Set<() => void> = new Set();
+
+/**
+ * Normalize a raw price, returning null if it is unusable
+ */
+export function normalizeSecurityPrice(value: unknown): SecurityPrice | null {
+  if (!value || typeof value !== "object") return null;
+  const raw = value as Record<string, unknown>;
+
+  const date = String(raw.date ?? "");
+  const symbol = String(raw.symbol ?? "").trim().toUpperCase();
+  const price = Number(raw.price);
+
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || !symbol) return null;
+  if (!Number.isFinite(price) || price < 0) return null;
+
+  return {
+    id: typeof raw.id === "string" && raw.id ? raw.id : crypto.randomUUID(),
+    date,
+    symbol,
+    price,
+    source: raw.source === "csv" ? "csv" : "manual",
+    createdAt: typeof raw.createdAt === "string" ? raw.createdAt : new Date().toISOString(),
+  };
+}
+
+/**
+ * Get all prices from localStorage
+ */
+function getAllPrices(): SecurityPrice[] {
+  try {
+    const raw = localStorage.getItem(householdKey(STORAGE_KEY));
+    if (!raw) return [];
+    const parsed = JSON.parse(raw);
+    if (!Array.isArray(parsed)) return [];
+    return parsed.map(normalizeSecurityPrice).filter((p): p is SecurityPrice => p !== null);
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Save all prices to localStorage and notify listeners
+ */
+function savePrices(prices: SecurityPrice[]): void {
+  try {
+    localStorage.setItem(householdKey(STORAGE_KEY), JSON.stringify(prices));
+    notifyListeners();
+  } catch (err) {
+    console.error("[securityPricesStore] Error saving prices:", err);
+  }
+}
+
+/**
+ * Notify all listeners of changes
+ */
+function notifyListeners(): void {
+  listeners.forEach((listener) => listener());
+}
+
+/**
+ * Validate a price
+ * @returns null if valid, or error message if invalid
+ */
+function validatePrice(input: Partial<SecurityPriceInput>): string | null {
+  if (!input.date || !/^\d{4}-\d{2}-\d{2}$/.test(input.date)) {
+    return "Date must be YYYY-MM-DD";
+  }
+  if (!(input.symbol ?? "").trim()) {
+    return "Symbol is required";
+  }
+  if (input.price === undefined || !Number.isFinite(input.price) || input.price < 0) {
+    return "Price must be 0 or more";
+  }
+  return null;
+}
+
+/**
+ * Insert a validated price into the list, replacing any price for the same date and symbol
+ */
+function upsert(prices: SecurityPrice[], input: SecurityPriceInput): { price: SecurityPrice; replaced: boolean } {
+  const symbol = input.symbol.trim().toUpperCase();
+  const index = prices.findIndex((p) => p.date === input.date && p.symbol === symbol);
+
+  const price: SecurityPrice = {
+    id: index === -1 ? crypto.randomUUID() : prices[index].id,
+    date: input.date,
+    symbol,
+    price: input.price,
+    source: input.source,
+    createdAt: new Date().toISOString(),
+  };
+
+  if (index === -1) prices.push(price);
+  else prices[index] = price;
+  return { price, replaced: index !== -1 };
+}
+
+/**
+ * List all prices, newest first
+ */
+export function listSecurityPrices(): SecurityPrice[] {
+  return getAllPrices().sort((a, b) =>
+    a.date !== b.date ? b.date.localeCompare(a.date) : a.symbol.localeCompare(b.symbol)
+  );
+}
+
+/**
+ * Add a price (or replace the price for the same date and symbol)
+ */
+export function addSecurityPrice(input: SecurityPriceInput): { ok: true; id: string } | { ok: false; reason: string } {
+  const allowed = assertRoleAllows("edit", "add price");
+  if (!allowed.ok) return allowed;
+
+  const validationError = validatePrice(input);
+  if (validationError) {
+    return { ok: false, reason: validationError };
+  }
+
+  const prices = getAllPrices();
+  const { price } = upsert(prices, input);
+  savePrices(prices);
+
+  return { ok: true, id: price.id };
+}
+
+/**
+ * Delete a price
+ */
+export function deleteSecurityPrice(id: string): { ok: true } | { ok: false; reason: string } {
+  const allowed = assertRoleAllows("edit", "delete price");
+  if (!allowed.ok) return allowed;
+
+  const prices = getAllPrices();
+  const index = prices.findIndex((p) => p.id === id);
+
+  if (index === -1) {
+    return { ok: false, reason: "Price not found" };
+  }
+
+  prices.splice(index, 1);
+  savePrices(prices);
+
+  return { ok: true };
+}
+
+/**
+ * Import prices from CSV text with columns date,symbol,price
+ * (YYYY-MM-DD dates; a header row is optional). Valid rows are saved,
+ * invalid rows are reported by line number.
+ */
+export function importSecurityPricesCsv(text: string):
+  | { ok: true; added: number; updated: number; errors: { line: number; reason: string }[] }
+  | { ok: false; reason: string } {
+  const allowed = assertRoleAllows("edit", "import prices");
+  if (!allowed.ok) return allowed;
+
+  const rows = parseCsv(text);
+  if (rows.length === 0) {
+    return { ok: false, reason: "The file has no rows" };
+  }
+
+  const prices = getAllPrices();
+  const errors: { line: number; reason: string }[] = [];
+  let added = 0;
+  let updated = 0;
+
+  rows.forEach((cells, index) => {
+    const line = index + 1;
+    const [date = "", symbol = "", priceText = ""] = cells.map((c) => c.trim());
+    if (index === 0 && !/^\d{4}-\d{2}-\d{2}$/.test(date)) return; // Header row
+
+    const input: SecurityPriceInput = { date, symbol, price: Number(priceText), source: "csv" };
+    const validationError = priceText ? validatePrice(input) : "Price is missing";
+    if (validationError) {
+      errors.push({ line, reason: validationError });
+      return;
+    }
+
+    if (upsert(prices, input).replaced) updated++;
+    else added++;
+  });
+
+  if (added + updated > 0) savePrices(prices);
+  return { ok: true, added, updated, errors };
+}
+
+/**
+ * Replace every price (cloud sync)
+ */
+export function replaceAllSecurityPrices(prices: SecurityPrice[]): void {
+  savePrices(prices.map(normalizeSecurityPrice).filter((x): x is SecurityPrice => x !== null));
+}
+
+/**
+ * Subscribe to price changes
+ * @returns Unsubscribe function
+ */
+export function subscribeSecurityPrices(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
@@ -0,0 +1,495 @@
+/**
+ * Storage Adapter
+ * Pluggable async persistence for the large record stores (transactions, income).
+ * Backends: IndexedDB (preferred, indexed by period) and localStorage (fallback).
+ *
+ * Stores keep an in-memory, pre-sorted cache (see createRecordCollection) so
+ * their synchronous API stays the same: reads never touch storage, and writes
+ * update the cache immediately and persist the changed records in the background.
+ *
+ * Records are partitioned by household storage scope (see householdStore):
+ * "" is the default household, which keeps the original keys.
+ */
+
+import { getStorageScope } from "./householdStore";
+
+export type StorageBackend = "indexedDB" | "localStorage";
+export type CollectionName = "transactions" | "income";
+
+export interface StoredRecord {
+  id: string;
+  date: string; // YYYY-MM-DD; its YYYY-MM prefix is the period index
+}
+
+export interface StorageAdapter {
+  readonly kind: StorageBackend;
+  getAll(collection: CollectionName, scope: string): Promise<unknown[]>;
+  getByPeriod(collection: CollectionName, scope: string, period: string): Promise<unknown[]>;
+  putMany(collection: CollectionName, scope: string, records: StoredRecord[]): Promise<void>;
+  deleteMany(collection: CollectionName, scope: string, ids: string[]): Promise<void>;
+  clear(collection: CollectionName, scope: string): Promise<void>;
+}
+
+const LEGACY_KEYS: Record<CollectionName, string> = {
+  transactions: "stewardly_transactions",
+  income: "stewardly_income",
+};
+
+const BACKEND_KEY = "stewardly_storage_backend";
+const DB_NAME = "stewardly";
+const DB_VERSION = 2;
+const COLLECTIONS: CollectionName[] = ["transactions", "income"];
+
+function getPeriod(record: StoredRecord): string {
+  return String(record.date ?? "").slice(0, 7);
+}
+
+/**
+ * localStorage key of a collection in one household scope
+ */
+function localKey(collection: CollectionName, scope: string): string {
+  return scope ? `${LEGACY_KEYS[collection]}@${scope}` : LEGACY_KEYS[collection];
+}
+
+/**
+ * Read a localStorage array key synchronously (used for the initial cache)
+ */
+function readLocalArray(key: string): unknown[] {
+  try {
+    const raw = localStorage.getItem(key);
+    if (!raw) return [];
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * localStorage backend: one JSON array per collection (the original format)
+ */
+export const localStorageAdapter: StorageAdapter = {
+  kind: "localStorage",
+
+  async getAll(collection, scope) {
+    return readLocalArray(localKey(collection, scope));
+  },
+
+  async getByPeriod(collection, scope, period) {
+    return readLocalArray(localKey(collection, scope)).filter(
+      (r) => getPeriod(r as StoredRecord) === period
+    );
+  },
+
+  async putMany(collection, scope, records) {
+    const key = localKey(collection, scope);
+    const items = readLocalArray(key) as StoredRecord[];
+    const indexById = new Map(items.map((r, i) => [r.id, i]));
+    for (const record of records) {
+      const index = indexById.get(record.id);
+      if (index === undefined) {
+        indexById.set(record.id, items.length);
+        items.push(record);
+      } else {
+        items[index] = record;
+      }
+    }
+    localStorage.setItem(key, JSON.stringify(items));
+  },
+
+  async deleteMany(collection, scope, ids) {
+    const key = localKey(collection, scope);
+    const remove = new Set(ids);
+    const items = (readLocalArray(key) as StoredRecord[]).filter((r) => !remove.has(r.id));
+    localStorage.setItem(key, JSON.stringify(items));
+  },
+
+  async clear(collection, scope) {
+    localStorage.removeItem(localKey(collection, scope));
+  },
+};
+
+/**
+ * Wrap an IDBRequest in a promise
+ */
+function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+/**
+ * Run work in a transaction and resolve once it commits
+ */
+function inTransaction(
+  db: IDBDatabase,
+  collection: CollectionName,
+  mode: IDBTransactionMode,
+  work: (store: IDBObjectStore) => void
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(collection, mode);
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error("IndexedDB transaction aborted"));
+    work(tx.objectStore(collection));
+  });
+}
+
+function createStore(db: IDBDatabase, name: CollectionName): IDBObjectStore {
+  const store = db.createObjectStore(name, { keyPath: ["household", "id"] });
+  store.createIndex("household", "household", { unique: false });
+  store.createIndex("household_period", ["household", "period"], { unique: false });
+  return store;
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = (event) => {
+      const db = req.result;
+      const upgrade = req.transaction;
+      for (const name of COLLECTIONS) {
+        if (!db.objectStoreNames.contains(name)) {
+          createStore(db, name);
+          continue;
+        }
+        if (!upgrade || event.oldVersion >= 2) continue;
+
+        // v1 stores were keyed by id alone: rebuild them keyed by
+        // (household, id), with existing records in the default household
+        const read = upgrade.objectStore(name).getAll();
+        read.onsuccess = () => {
+          const rows = read.result as Array<Record<string, unknown>>;
+          db.deleteObjectStore(name);
+          const store = createStore(db, name);
+          for (const row of rows) store.put({ ...row, household: "" });
+        };
+      }
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+    req.onblocked = () => reject(new Error("IndexedDB upgrade blocked by another tab"));
+  });
+}
+
+/**
+ * IndexedDB backend: one object store per collection, keyed by (household, id),
+ * with the household scope and period (YYYY-MM) stored alongside each record
+ */
+function createIndexedDbAdapter(db: IDBDatabase): StorageAdapter {
+  const strip = (rows: unknown[]) =>
+    rows.map((row) => {
+      const {
+        period: _period,
+        household: _household,
+        ...record
+      } = row as StoredRecord & { period?: string; household?: string };
+      void _period;
+      void _household;
+      return record;
+    });
+
+  return {
+    kind: "indexedDB",
+
+    async getAll(collection, scope) {
+      const tx = db.transaction(collection, "readonly");
+      const index = tx.objectStore(collection).index("household");
+      return strip(await request(index.getAll(IDBKeyRange.only(scope))));
+    },
+
+    async getByPeriod(collection, scope, period) {
+      const tx = db.transaction(collection, "readonly");
+      const index = tx.objectStore(collection).index("household_period");
+      return strip(await request(index.getAll(IDBKeyRange.only([scope, period]))));
+    },
+
+    putMany(collection, scope, records) {
+      return inTransaction(db, collection, "readwrite", (store) => {
+        for (const record of records) {
+          store.put({ ...record, period: getPeriod(record), household: scope });
+        }
+      });
+    },
+
+    deleteMany(collection, scope, ids) {
+      return inTransaction(db, collection, "readwrite", (store) => {
+        for (const id of ids) store.delete([scope, id]);
+      });
+    },
+
+    clear(collection, scope) {
+      return inTransaction(db, collection, "readwrite", (store) => {
+        store.delete(IDBKeyRange.bound([scope], [scope, []]));
+      });
+    },
+  };
+}
+
+let activeAdapter: StorageAdapter = localStorageAdapter;
+
+/**
+ * The adapter currently used for persistence
+ */
+export function getStorageAdapter(): StorageAdapter {
+  return activeAdapter;
+}
+
+interface HydratableCollection {
+  hydrate(adapter: StorageAdapter): Promise<void>;
+}
+
+const collections: HydratableCollection[] = [];
+
+/** Latest failed save per collection, cleared when a later save of it succeeds */
+const writeErrors = new Map<CollectionName, string>();
+const writeErrorListeners = new Set<() => void>();
+
+function setWriteError(name: CollectionName, reason: string | null): void {
+  if ((writeErrors.get(name) ?? null) === reason) return;
+  if (reason === null) writeErrors.delete(name);
+  else writeErrors.set(name, reason);
+  writeErrorListeners.forEach((listener) => listener());
+}
+
+/**
+ * Reasons the latest saves failed, one per collection that has unsaved changes
+ */
+export function getStorageWriteErrors(): string[] {
+  return [...writeErrors.values()];
+}
+
+/**
+ * Subscribe to save failures (and their recovery)
+ * @returns Unsubscribe function
+ */
+export function subscribeStorageWriteErrors(listener: () => void): () => void {
+  writeErrorListeners.add(listener);
+  return () => {
+    writeErrorListeners.delete(listener);
+  };
+}
+
+/**
+ * Household scopes that have a localStorage array for a collection
+ */
+function localScopes(collection: CollectionName): string[] {
+  const prefix = `${LEGACY_KEYS[collection]}@`;
+  const scopes = [""];
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    if (key?.startsWith(prefix)) scopes.push(key.slice(prefix.length));
+  }
+  return scopes;
+}
+
+/**
+ * One-time move of the localStorage arrays (every household) into IndexedDB.
+ * The localStorage keys are only removed after every collection is written.
+ */
+async function moveLocalStorageToIndexedDb(adapter: StorageAdapter): Promise<void> {
+  if (localStorage.getItem(BACKEND_KEY) === "indexedDB") return;
+
+  const moved: string[] = [];
+  for (const collection of COLLECTIONS) {
+    for (const scope of localScopes(collection)) {
+      const key = localKey(collection, scope);
+      const records = readLocalArray(key).filter(
+        (r): r is StoredRecord =>
+          Boolean(r) && typeof r === "object" && typeof (r as StoredRecord).id === "string"
+      );
+      if (records.length > 0) {
+        await adapter.putMany(collection, scope, records);
+      }
+      moved.push(key);
+    }
+  }
+
+  localStorage.setItem(BACKEND_KEY, "indexedDB");
+  for (const key of moved) {
+    localStorage.removeItem(key);
+  }
+}
+
+/**
+ * Choose the backend (IndexedDB when available), move existing data across
+ * once, and load every registered collection. Never rejects: any IndexedDB
+ * failure falls back to localStorage.
+ */
+export async function initStorage(): Promise<StorageBackend> {
+  if (typeof indexedDB !== "undefined") {
+    try {
+      const adapter = createIndexedDbAdapter(await openDatabase());
+      await moveLocalStorageToIndexedDb(adapter);
+      activeAdapter = adapter;
+    } catch (err) {
+      console.error("[storage] IndexedDB unavailable, using localStorage:", err);
+      activeAdapter = localStorageAdapter;
+    }
+  }
+
+  for (const collection of collections) {
+    try {
+      await collection.hydrate(activeAdapter);
+    } catch (err) {
+      console.error("[storage] Error loading collection:", err);
+    }
+  }
+
+  return activeAdapter.kind;
+}
+
+export interface RecordCollection<T extends StoredRecord> {
+  /** All records, pre-sorted (do not mutate) */
+  list(): T[];
+  /** Records in one period (YYYY-MM), pre-sorted (do not mutate) */
+  listByPeriod(period: string): T[];
+  /** Mutable copies of all records, for read-modify-write */
+  readAll(): T[];
+  /**
+   * Replace the cached records (listeners are notified immediately) and
+   * persist only the changed ones. Resolves once persisted; never rejects.
+   * A failed save is reported (see getStorageWriteErrors) and its records
+   * are saved again with the next write.
+   */
+  write(items: T[]): Promise<{ ok: true } | { ok: false; reason: string }>;
+  /** Resolves when every queued write has been persisted */
+  flush(): Promise<void>;
+}
+
+/**
+ * Create a cached, period-indexed collection backed by the active adapter.
+ * The cache starts from the localStorage array on first use (not on import,
+ * so it sees the selected household and migrated data) and reads work before
+ * initStorage() finishes; initStorage() then reloads it from the chosen backend.
+ */
+export function createRecordCollection<T extends StoredRecord>(options: {
+  name: CollectionName;
+  normalize: (raw: unknown) => T | null;
+  compare: (a: T, b: T) => number;
+  onChange: () => void;
+}): RecordCollection<T> {
+  const { name, normalize, compare, onChange } = options;
+
+  let items: T[] = [];
+  let byPeriod = new Map<string, T[]>();
+  let persisted = new Map<string, string>(); // id -> serialized record
+  let pending: Promise<void> = Promise.resolve();
+
+  function setItems(next: T[]): void {
+    items = [...next].sort(compare);
+    byPeriod = new Map();
+    for (const item of items) {
+      const period = getPeriod(item);
+      const bucket = byPeriod.get(period);
+      if (bucket) bucket.push(item);
+      else byPeriod.set(period, [item]);
+    }
+  }
+
+  function normalizeAll(raw: unknown[]): T[] {
+    return raw.map(normalize).filter((x): x is T => Boolean(x));
+  }
+
+  function load(raw: unknown[]): void {
+    setItems(normalizeAll(raw));
+    persisted = new Map(items.map((item) => [item.id, JSON.stringify(item)]));
+  }
+
+  // Households switch with a page reload, so the scope is fixed per load
+  let loadedScope: string | null = null;
+
+  function loaded(): string {
+    if (loadedScope === null) {
+      loadedScope = getStorageScope();
+      load(readLocalArray(localKey(name, loadedScope)));
+    }
+    return loadedScope;
+  }
+
+  const collection: RecordCollection<T> & HydratableCollection = {
+    list: () => {
+      loaded();
+      return items;
+    },
+
+    listByPeriod: (period) => {
+      loaded();
+      return byPeriod.get(period) ?? [];
+    },
+
+    readAll: () => {
+      loaded();
+      return items.map((item) => ({ ...item }));
+    },
+
+    write(next) {
+      const scope = loaded();
+      setItems(next);
+      onChange();
+
+      const snapshot = items;
+      const adapter = activeAdapter;
+      const persist = pending
+        .then(async () => {
+          // Diff against what was last persisted successfully, so records a
+          // failed save left behind are included again
+          const nextSerialized = new Map(snapshot.map((item) => [item.id, JSON.stringify(item)]));
+          const changed = snapshot.filter((item) => persisted.get(item.id) !== nextSerialized.get(item.id));
+          const removed = [...persisted.keys()].filter((id) => !nextSerialized.has(id));
+
+          if (changed.length > 0) await adapter.putMany(name, scope, changed);
+          if (removed.length > 0) await adapter.deleteMany(name, scope, removed);
+          persisted = nextSerialized;
+          setWriteError(name, null);
+          return { ok: true as const };
+        })
+        .catch((err) => {
+          console.error(`[storage] Error saving ${name}:`, err);
+          const reason = `Could not save ${name}: ${(err as Error).message}`;
+          setWriteError(name, reason);
+          return { ok: false as const, reason };
+        });
+      pending = persist.then(() => undefined);
+      return persist;
+    },
+
+    flush: () => pending,
+
+    async hydrate(adapter) {
+      const scope = loaded();
+      await pending;
+      const raw = await adapter.getAll(name, scope);
+      load(raw);
+      onChange();
+
+      // Save back records stored in an older shape, the way the localStorage
+      // migrations do, so the backend holds what the cache holds
+      const stored = new Map<string, string>();
+      for (const record of raw) {
+        const id = (record as Partial<StoredRecord> | null)?.id;
+        if (typeof id === "string") stored.set(id, JSON.stringify(record));
+      }
+      const changed = items.filter((item) => stored.get(item.id) !== persisted.get(item.id));
+      const dropped = [...stored.keys()].filter((id) => !persisted.has(id));
+      if (changed.length === 0 && dropped.length === 0) return;
+
+      pending = pending
+        .then(async () => {
+          if (changed.length > 0) await adapter.putMany(name, scope, changed);
+          if (dropped.length > 0) await adapter.deleteMany(name, scope, dropped);
+        })
+        .catch((err) => {
+          console.error(`[storage] Error saving normalized ${name}:`, err);
+          persisted = stored; // Saved again with the next write
+          setWriteError(name, `Could not save ${name}: ${(err as Error).message}`);
+        });
+      await pending;
+    },
+  };
+
+  collections.push(collection);
+  return collection;
+}
@@ -0,0 +1,812 @@
+/**
+ * Sync Service
+ * Opt-in mirroring of the local stores to per-household remote tables.
+ *
+ * - Local changes are detected by diffing each store against the last synced
+ *   state, queued (persisted, so offline edits survive reloads) and pushed.
+ * - Remote changes are pulled per collection; locks and snapshots first.
+ * - Conflicts on the same record resolve by updatedAt (newer wins).
+ * - Locked periods win over edits: a period locked on this device keeps its
+ *   local transactions/income (and re-pushes them), and a lock received from
+ *   another device discards this device's queued edits in that period.
+ */
+
+import type { SyncCollection, SyncRemote, SyncRow } from "../api/syncRemote";
+import type { MoneyTransaction } from "../types/transactions";
+import type { IncomeRecord } from "../types/income";
+import type { DistributionPlan } from "../types/distribution";
+import type { ScheduledTransactionTemplate } from "../types/scheduled";
+import type { CategoryRule } from "../types/categoryRules";
+import type { PeriodPlanSnapshot } from "./periodSnapshotStore";
+import { getHouseholdState, setHouseholdRole } from "./householdStore";
+import { canPerform } from "../utils/roleGuard";
+import { listAllTransactions, replaceAllTransactions, subscribeTransactions } from "./transactionsStore";
+import { listIncome, replaceAllIncome, subscribeIncome } from "./incomeStore";
+import { listPlans, replaceAllPlans, subscribePlans } from "./distributionPlansStore";
+import {
+  listScheduledTemplates,
+  replaceAllScheduledTemplates,
+  subscribeScheduledTemplates,
+} from "./scheduledTemplatesStore";
+import { listCategoryRules, replaceAllCategoryRules, subscribeCategoryRules } from "./categoryRulesStore";
+import { getLocks, replaceAllLocks, subscribeLocks } from "./periodLocksStore";
+import { listSnapshots, replaceAllSnapshots, subscribeSnapshots } from "./periodSnapshotStore";
+import { listAssets, replaceAllAssets, subscribeAssets } from "./assetsStore";
+import { listLiabilities, replaceAllLiabilities, subscribeLiabilities } from "./liabilitiesStore";
+import { listNetWorthHistory, replaceAllNetWorthHistory, subscribeNetWorthHistory } from "./netWorthHistoryStore";
+import { listLoanTerms, replaceAllLoanTerms, subscribeLoans } from "./loansStore";
+import { listFxRates, replaceAllFxRates, subscribeFxRates } from "./fxRatesStore";
+import {
+  listHoldings,
+  listInvestmentAccounts,
+  replaceAllHoldings,
+  replaceAllInvestmentAccounts,
+  subscribeInvestments,
+} from "./investmentsStore";
+import { listSecurityPrices, replaceAllSecurityPrices, subscribeSecurityPrices } from "./securityPricesStore";
+import { listSavingsGoals, replaceAllSavingsGoals, subscribeSavingsGoals } from "./savingsGoalsStore";
+import { listCategories, replaceAllCategories, subscribeCategories } from "./categoriesStore";
+import { listAccounts, replaceAllAccounts, subscribeAccounts } from "./accountsStore";
+import { listReconciliations, replaceAllReconciliations, subscribeReconciliations } from "./reconciliationsStore";
+import { listImportProfiles, replaceAllImportProfiles, subscribeImportProfiles } from "./importProfilesStore";
+import type { Asset, Liability, NetWorthSnapshot } from "../types/netWorth";
+import type { LoanTerms } from "../types/loans";
+import type { FxRate } from "../types/fx";
+import type { Holding, InvestmentAccount, SecurityPrice } from "../types/investments";
+import type { SavingsGoal } from "../types/goals";
+import type { Category } from "../types/categories";
+import type { Account, Reconciliation } from "../types/accounts";
+import type { CsvImportProfile } from "../types/import";
+
+const SETTINGS_KEY = "stewardly_sync_settings";
+const QUEUE_KEY = "stewardly_sync_queue";
+const STATE_KEY = "stewardly_sync_state";
+
+const SYNC_INTERVAL_MS = 60_000;
+const CHANGE_DEBOUNCE_MS = 2_000;
+const MAX_CONFLICTS = 20;
+
+export type SyncRecord = { id: string } & Record<string, unknown>;
+
+/**
+ * How the sync service reads and writes one local store
+ */
+export interface CollectionBinding {
+  name: SyncCollection;
+  list(): SyncRecord[];
+  replace(records: SyncRecord[]): void;
+  subscribe(listener: () => void): () => void;
+  /** Period (YYYY-MM) a record belongs to, for lock rules */
+  periodOf?(record: SyncRecord): string;
+}
+
+const byDate = (record: SyncRecord) => String(record.date ?? "").slice(0, 7);
+
+/**
+ * Sync order matters: locks and snapshots are applied before the data they protect.
+ * Pulled rows are remote JSON; each store's replaceAll runs them through its
+ * normalizer and drops the ones that do not fit.
+ */
+const BINDINGS: CollectionBinding[] = [
+  {
+    name: "periodLocks",
+    list: () => Object.keys(getLocks()).map((period) => ({ id: period })),
+    replace: (records) => replaceAllLocks(Object.fromEntries(records.map((r) => [r.id, true]))),
+    subscribe: subscribeLocks,
+  },
+  {
+    name: "periodSnapshots",
+    list: () => listSnapshots().map((s) => ({ ...s, id: s.period })),
+    replace: (records) =>
+      replaceAllSnapshots(
+        records.map(({ id: _id, ...s }) => {
+          void _id;
+          return s as unknown as PeriodPlanSnapshot;
+        })
+      ),
+    subscribe: subscribeSnapshots,
+  },
+  {
+    name: "transactions",
+    list: () => listAllTransactions() as unknown as SyncRecord[],
+    replace: (records) => void replaceAllTransactions(records as unknown as MoneyTransaction[]),
+    subscribe: subscribeTransactions,
+    periodOf: byDate,
+  },
+  {
+    name: "income",
+    list: () => listIncome() as unknown as SyncRecord[],
+    replace: (records) => void replaceAllIncome(records as unknown as IncomeRecord[]),
+    subscribe: subscribeIncome,
+    periodOf: byDate,
+  },
+  {
+    name: "distributionPlans",
+    // isActive is per device (derived from the active plan id), never synced
+    list: () =>
+      listPlans().map(({ isActive: _isActive, ...plan }) => {
+        void _isActive;
+        return plan as unknown as SyncRecord;
+      }),
+    replace: (records) => replaceAllPlans(records as unknown as DistributionPlan[]),
+    subscribe: subscribePlans,
+  },
+  {
+    name: "scheduledTemplates",
+    list: () => listScheduledTemplates() as unknown as SyncRecord[],
+    replace: (records) =>
+      replaceAllScheduledTemplates(records as unknown as ScheduledTransactionTemplate[]),
+    subscribe: subscribeScheduledTemplates,
+  },
+  {
+    name: "categoryRules",
+    list: () => listCategoryRules() as unknown as SyncRecord[],
+    replace: (records) => replaceAllCategoryRules(records as unknown as CategoryRule[]),
+    subscribe: subscribeCategoryRules,
+  },
+  {
+    name: "assets",
+    list: () => listAssets() as unknown as SyncRecord[],
+    replace: (records) => void replaceAllAssets(records as unknown as Asset[]),
+    subscribe: subscribeAssets,
+  },
+  {
+    name: "liabilities",
+    list: () => listLiabilities() as unknown as SyncRecord[],
+    replace: (records) => void replaceAllLiabilities(records as unknown as Liability[]),
+    subscribe: subscribeLiabilities,
+  },
+  {
+    name: "netWorthHistory",
+    list: () => listNetWorthHistory().map((s) => ({ ...s, id: s.period })),
+    replace: (records) =>
+      replaceAllNetWorthHistory(
+        records.map(({ id: _id, ...s }) => {
+          void _id;
+          return s as unknown as NetWorthSnapshot;
+        })
+      ),
+    subscribe: subscribeNetWorthHistory,
+  },
+  {
+    name: "loans",
+    list: () => listLoanTerms().map((t) => ({ ...t, id: t.liabilityId })),
+    replace: (records) =>
+      replaceAllLoanTerms(
+        records.map(({ id: _id, ...t }) => {
+          void _id;
+          return t as unknown as LoanTerms;
+        })
+      ),
+    subscribe: subscribeLoans,
+  },
+  {
+    name: "fxRates",
+    list: () => listFxRates() as unknown as SyncRecord[],
+    replace: (records) => replaceAllFxRates(records as unknown as FxRate[]),
+    subscribe: subscribeFxRates,
+  },
+  {
+    name: "investmentAccounts",
+    list: () => listInvestmentAccounts() as unknown as SyncRecord[],
+    replace: (records) => replaceAllInvestmentAccounts(records as unknown as InvestmentAccount[]),
+    subscribe: subscribeInvestments,
+  },
+  {
+    name: "holdings",
+    list: () => listHoldings() as unknown as SyncRecord[],
+    replace: (records) => replaceAllHoldings(records as unknown as Holding[]),
+    subscribe: subscribeInvestments,
+  },
+  {
+    name: "securityPrices",
+    list: () => listSecurityPrices() as unknown as SyncRecord[],
+    replace: (records) => replaceAllSecurityPrices(records as unknown as SecurityPrice[]),
+    subscribe: subscribeSecurityPrices,
+  },
+  {
+    name: "savingsGoals",
+    list: () => listSavingsGoals() as unknown as SyncRecord[],
+    replace: (records) => replaceAllSavingsGoals(records as unknown as SavingsGoal[]),
+    subscribe: subscribeSavingsGoals,
+  },
+  {
+    name: "categories",
+    list: () => listCategories() as unknown as SyncRecord[],
+    replace: (records) => replaceAllCategories(records as unknown as Category[]),
+    subscribe: subscribeCategories,
+  },
+  {
+    name: "accounts",
+    list: () => listAccounts() as unknown as SyncRecord[],
+    replace: (records) => replaceAllAccounts(records as unknown as Account[]),
+    subscribe: subscribeAccounts,
+  },
+  {
+    name: "reconciliations",
+    list: () => listReconciliations() as unknown as SyncRecord[],
+    replace: (records) => replaceAllReconciliations(records as unknown as Reconciliation[]),
+    subscribe: subscribeReconciliations,
+  },
+  {
+    name: "importProfiles",
+    list: () => listImportProfiles() as unknown as SyncRecord[],
+    replace: (records) => replaceAllImportProfiles(records as unknown as CsvImportProfile[]),
+    subscribe: subscribeImportProfiles,
+  },
+];
+
+/**
+ * Minimal storage surface for the queue and sync state
+ * (localStorage, or an in-memory copy for release checks)
+ */
+export interface SyncStorage {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+}
+
+/**
+ * Everything one sync cycle works on. The app syncs the selected household's
+ * stores through localStorage; release checks pass in-memory ones.
+ */
+export interface SyncRun {
+  householdId: string;
+  bindings: CollectionBinding[];
+  storage: SyncStorage;
+  /** Whether this member may push changes */
+  canEdit: boolean;
+  onConflict(conflict: SyncConflict): void;
+}
+
+export interface SyncSettings {
+  enabled: boolean;
+}
+
+export interface SyncQueueItem {
+  householdId: string;
+  collection: SyncCollection;
+  id: string;
+  data: SyncRecord | null; // null = delete
+  updatedAt: string; // ISO
+}
+
+interface RecordMeta {
+  hash: string;
+  updatedAt: string;
+  /** Where a lock came from (periodLocks only) */
+  origin?: "local" | "remote";
+}
+
+interface HouseholdSyncState {
+  lastPulledAt: Partial<Record<SyncCollection, string>>;
+  records: Partial<Record<SyncCollection, Record<string, RecordMeta>>>;
+}
+
+export interface SyncConflict {
+  at: string; // ISO
+  collection: SyncCollection;
+  id: string;
+  resolution: string;
+}
+
+export type SyncPhase = "disabled" | "no-household" | "idle" | "syncing" | "offline" | "error";
+
+export interface SyncStatus {
+  phase: SyncPhase;
+  householdId: string | null;
+  queued: number;
+  lastSyncAt: string | null;
+  message?: string;
+  conflicts: SyncConflict[];
+}
+
+const listeners: Set<() => void> = new Set();
+
+let status: SyncStatus = {
+  phase: "disabled",
+  householdId: null,
+  queued: 0,
+  lastSyncAt: null,
+  conflicts: [],
+};
+
+let remoteOverride: SyncRemote | null = null;
+let applyingRemote = false;
+let running: Promise<SyncStatus> | null = null;
+let stopHandlers: (() => void)[] = [];
+let debounceTimer: ReturnType<typeof setTimeout> | null = null;
+
+function readJson<T>(key: string, fallback: T, storage: SyncStorage = localStorage): T {
+  try {
+    const raw = storage.getItem(key);
+    return raw ? (JSON.parse(raw) as T) : fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+function writeJson(key: string, value: unknown, storage: SyncStorage = localStorage): void {
+  try {
+    storage.setItem(key, JSON.stringify(value));
+  } catch (err) {
+    console.error(`[syncService] Error saving ${key}:`, err);
+  }
+}
+
+function notifyListeners(): void {
+  listeners.forEach((listener) => listener());
+}
+
+function setStatus(patch: Partial<SyncStatus>): void {
+  status = { ...status, ...patch };
+  notifyListeners();
+}
+
+/**
+ * FNV-1a hash of a record's JSON, to detect changes without storing copies
+ */
+function hashRecord(record: unknown): string {
+  const text = JSON.stringify(record);
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16);
+}
+
+function readQueue(storage: SyncStorage = localStorage): SyncQueueItem[] {
+  const queue = readJson<SyncQueueItem[]>(QUEUE_KEY, [], storage);
+  return Array.isArray(queue) ? queue : [];
+}
+
+function readState(storage: SyncStorage, householdId: string): HouseholdSyncState {
+  const all = readJson<Record<string, HouseholdSyncState>>(STATE_KEY, {}, storage);
+  return all[householdId] ?? { lastPulledAt: {}, records: {} };
+}
+
+function writeState(storage: SyncStorage, householdId: string, state: HouseholdSyncState): void {
+  const all = readJson<Record<string, HouseholdSyncState>>(STATE_KEY, {}, storage);
+  all[householdId] = state;
+  writeJson(STATE_KEY, all, storage);
+}
+
+function countQueued(run: SyncRun): number {
+  return readQueue(run.storage).filter((q) => q.householdId === run.householdId).length;
+}
+
+/**
+ * Add or replace the queued change for a record (latest change wins)
+ */
+function enqueue(queue: SyncQueueItem[], item: SyncQueueItem): void {
+  const index = queue.findIndex(
+    (q) => q.householdId === item.householdId && q.collection === item.collection && q.id === item.id
+  );
+  if (index === -1) queue.push(item);
+  else queue[index] = item;
+}
+
+function conflict(collection: SyncCollection, id: string, resolution: string): SyncConflict {
+  return { at: new Date().toISOString(), collection, id, resolution };
+}
+
+/**
+ * Add a conflict to the status shown on the Sync page (newest first)
+ */
+function recordConflict(entry: SyncConflict): void {
+  setStatus({ conflicts: [entry, ...status.conflicts].slice(0, MAX_CONFLICTS) });
+}
+
+function getHouseholdId(): string | null {
+  return getHouseholdState().selectedHouseholdId;
+}
+
+/**
+ * The app's sync run: the selected household's stores and localStorage
+ */
+function appRun(householdId: string): SyncRun {
+  return {
+    householdId,
+    bindings: BINDINGS,
+    storage: localStorage,
+    canEdit: canPerform("edit", householdId),
+    onConflict: recordConflict,
+  };
+}
+
+/**
+ * Sync settings (opt-in, off by default)
+ */
+export function getSyncSettings(): SyncSettings {
+  const settings = readJson<Partial<SyncSettings>>(SETTINGS_KEY, {});
+  return { enabled: settings.enabled === true };
+}
+
+/**
+ * Use a specific remote (e.g. a local Supabase stack or an in-memory stand-in)
+ * instead of the app's Supabase client
+ */
+export function setSyncRemote(remote: SyncRemote | null): void {
+  remoteOverride = remote;
+}
+
+async function getRemote(): Promise<SyncRemote> {
+  if (remoteOverride) return remoteOverride;
+  // Loaded lazily: the client throws at import time if Supabase is not configured
+  const [{ supabase }, { createSupabaseRemote }] = await Promise.all([
+    import("../api/supabaseClient"),
+    import("../api/syncRemote"),
+  ]);
+  return createSupabaseRemote(supabase);
+}
+
+/**
+ * Diff every store against the last synced state and queue what changed
+ * @returns Whether anything was queued
+ */
+export function captureLocalChanges(run: SyncRun): boolean {
+  const { householdId, storage } = run;
+  const state = readState(storage, householdId);
+  const queue = readQueue(storage);
+  const now = new Date().toISOString();
+  let changed = false;
+
+  for (const binding of run.bindings) {
+    const known = state.records[binding.name] ?? {};
+    const seen = new Set<string>();
+
+    for (const record of binding.list()) {
+      seen.add(record.id);
+      const hash = hashRecord(record);
+      if (known[record.id]?.hash === hash) continue;
+
+      known[record.id] = {
+        hash,
+        updatedAt: now,
+        ...(binding.name === "periodLocks" && { origin: "local" as const }),
+      };
+      enqueue(queue, { householdId, collection: binding.name, id: record.id, data: record, updatedAt: now });
+      changed = true;
+    }
+
+    for (const id of Object.keys(known)) {
+      if (seen.has(id)) continue;
+      delete known[id];
+      enqueue(queue, { householdId, collection: binding.name, id, data: null, updatedAt: now });
+      changed = true;
+    }
+
+    state.records[binding.name] = known;
+  }
+
+  if (changed) {
+    writeState(storage, householdId, state);
+    writeJson(QUEUE_KEY, queue, storage);
+  }
+  return changed;
+}
+
+/**
+ * Queue the selected household's local changes, if sync is on
+ */
+function captureAppChanges(): void {
+  const householdId = getHouseholdId();
+  if (!householdId || applyingRemote || !getSyncSettings().enabled) return;
+
+  const run = appRun(householdId);
+  if (captureLocalChanges(run)) setStatus({ queued: countQueued(run) });
+}
+
+/**
+ * Periods locked on this device (origin local) and received from others (origin remote)
+ */
+function lockOrigins(run: SyncRun, state: HouseholdSyncState): Map<string, "local" | "remote"> {
+  const origins = new Map<string, "local" | "remote">();
+  const locks = run.bindings.find((b) => b.name === "periodLocks")?.list() ?? [];
+  for (const { id: period } of locks) {
+    origins.set(period, state.records.periodLocks?.[period]?.origin ?? "local");
+  }
+  return origins;
+}
+
+/**
+ * Pull one collection and merge it into the local store
+ */
+async function pullCollection(
+  remote: SyncRemote,
+  run: SyncRun,
+  binding: CollectionBinding,
+  state: HouseholdSyncState,
+  queue: SyncQueueItem[]
+): Promise<void> {
+  const { householdId } = run;
+  const rows = await remote.pull(binding.name, householdId, state.lastPulledAt[binding.name] ?? null);
+  if (rows.length === 0) return;
+
+  const known = state.records[binding.name] ?? {};
+  const locks = lockOrigins(run, state);
+  const local = new Map(binding.list().map((r) => [r.id, r]));
+  let localChanged = false;
+
+  for (const row of rows) {
+    if (row.synced_at && (!state.lastPulledAt[binding.name] || row.synced_at > state.lastPulledAt[binding.name]!)) {
+      state.lastPulledAt[binding.name] = row.synced_at;
+    }
+
+    const queuedIndex = queue.findIndex(
+      (q) => q.householdId === householdId && q.collection === binding.name && q.id === row.id
+    );
+    const queued = queuedIndex === -1 ? null : queue[queuedIndex];
+    const current = local.get(row.id) ?? null;
+    const incoming = row.deleted ? null : (row.data as SyncRecord | null);
+
+    // Echo of a change this device already has (typically its own push)
+    const alreadyHave = incoming
+      ? known[row.id]?.hash === hashRecord({ ...incoming, id: row.id })
+      : !known[row.id] && !current;
+    if (alreadyHave && !queued) continue;
+
+    // Locked periods win over edits
+    if (binding.periodOf) {
+      const periods = [current, incoming].filter(Boolean).map((r) => binding.periodOf!(r as SyncRecord));
+      const origin = periods.map((p) => locks.get(p)).find(Boolean);
+      if (origin === "local") {
+        if (JSON.stringify(current) !== JSON.stringify(incoming)) {
+          // Keep this device's locked data and send it back out
+          enqueue(queue, {
+            householdId,
+            collection: binding.name,
+            id: row.id,
+            data: current,
+            updatedAt: new Date().toISOString(),
+          });
+          run.onConflict(conflict(binding.name, row.id, "Kept local version: period is locked on this device"));
+        }
+        continue;
+      }
+      if (origin === "remote" && queued) {
+        queue.splice(queuedIndex, 1);
+        run.onConflict(conflict(binding.name, row.id, "Discarded local edit: period was locked on another device"));
+      } else if (queued && queued.updatedAt >= row.updated_at) {
+        run.onConflict(conflict(binding.name, row.id, "Kept local version: newer than remote"));
+        continue;
+      } else if (queued) {
+        queue.splice(queuedIndex, 1);
+        run.onConflict(conflict(binding.name, row.id, "Took remote version: newer than local"));
+      }
+    } else if (queued) {
+      if (queued.updatedAt >= row.updated_at) {
+        run.onConflict(conflict(binding.name, row.id, "Kept local version: newer than remote"));
+        continue;
+      }
+      queue.splice(queuedIndex, 1);
+      run.onConflict(conflict(binding.name, row.id, "Took remote version: newer than local"));
+    }
+
+    if (incoming) {
+      local.set(row.id, { ...incoming, id: row.id });
+      known[row.id] = {
+        hash: hashRecord(local.get(row.id)),
+        updatedAt: row.updated_at,
+        ...(binding.name === "periodLocks" && { origin: "remote" as const }),
+      };
+    } else {
+      local.delete(row.id);
+      delete known[row.id];
+    }
+    localChanged = true;
+  }
+
+  state.records[binding.name] = known;
+
+  if (localChanged) {
+    applyingRemote = true;
+    try {
+      binding.replace([...local.values()]);
+      // Stores may normalize what they receive; track the stored form
+      for (const record of binding.list()) {
+        if (known[record.id]) known[record.id].hash = hashRecord(record);
+      }
+    } finally {
+      applyingRemote = false;
+    }
+  }
+}
+
+/**
+ * Drop queued transaction/income edits in periods locked by another device
+ */
+function discardEditsInRemoteLockedPeriods(
+  run: SyncRun,
+  state: HouseholdSyncState,
+  queue: SyncQueueItem[]
+): SyncQueueItem[] {
+  const locks = lockOrigins(run, state);
+  return queue.filter((item) => {
+    const binding = run.bindings.find((b) => b.name === item.collection);
+    if (item.householdId !== run.householdId || !binding?.periodOf || !item.data) return true;
+    if (locks.get(binding.periodOf(item.data)) !== "remote") return true;
+    run.onConflict(conflict(item.collection, item.id, "Discarded local edit: period was locked on another device"));
+    return false;
+  });
+}
+
+/**
+ * One sync cycle for a household: pull every collection, resolve conflicts,
+ * then push the queue. A failed push throws and leaves the rest queued.
+ * @returns Changes still queued for the household
+ */
+export async function runSyncCycle(remote: SyncRemote, run: SyncRun): Promise<number> {
+  const { householdId, storage } = run;
+  const state = readState(storage, householdId);
+  let queue = readQueue(storage);
+  if (!run.canEdit) {
+    // Read-only members cannot push; the household's data wins
+    queue = queue.filter((q) => q.householdId !== householdId);
+  }
+
+  for (const binding of run.bindings) {
+    await pullCollection(remote, run, binding, state, queue);
+  }
+  queue = discardEditsInRemoteLockedPeriods(run, state, queue);
+
+  // Persist merge results before pushing so a failed push keeps the queue
+  writeState(storage, householdId, state);
+  writeJson(QUEUE_KEY, queue, storage);
+
+  for (const binding of run.bindings) {
+    const items = queue.filter((q) => q.householdId === householdId && q.collection === binding.name);
+    if (items.length === 0) continue;
+
+    const rows: SyncRow[] = items.map((item) => ({
+      household_id: householdId,
+      id: item.id,
+      data: item.data,
+      deleted: item.data === null,
+      updated_at: item.updatedAt,
+    }));
+    await remote.push(binding.name, rows);
+
+    queue = queue.filter((q) => !items.includes(q));
+    writeJson(QUEUE_KEY, queue, storage);
+  }
+
+  return queue.filter((q) => q.householdId === householdId).length;
+}
+
+async function runSync(): Promise<SyncStatus> {
+  const householdId = getHouseholdId();
+  if (!getSyncSettings().enabled) {
+    setStatus({ phase: "disabled", householdId });
+    return status;
+  }
+  if (!householdId) {
+    setStatus({ phase: "no-household", householdId: null, message: "Select a household to sync" });
+    return status;
+  }
+  if (typeof navigator !== "undefined" && navigator.onLine === false) {
+    captureAppChanges();
+    setStatus({ phase: "offline", householdId, message: "Offline: changes are queued" });
+    return status;
+  }
+
+  setStatus({ phase: "syncing", householdId, message: undefined });
+  captureAppChanges();
+
+  try {
+    const remote = await getRemote();
+
+    // Membership decides what this device may change; the first device to
+    // sync a household becomes its owner
+    const role = (await remote.getRole(householdId)) ?? (await remote.claimHousehold(householdId));
+    if (!role) {
+      throw new Error("You are not a member of this household");
+    }
+    setHouseholdRole(householdId, role);
+
+    const queued = await runSyncCycle(remote, appRun(householdId));
+    setStatus({
+      phase: "idle",
+      householdId,
+      queued,
+      lastSyncAt: new Date().toISOString(),
+      message: undefined,
+    });
+  } catch (err) {
+    setStatus({
+      phase: "error",
+      householdId,
+      queued: countQueued(appRun(householdId)),
+      message: `Sync failed: ${(err as Error).message}. Changes stay queued.`,
+    });
+  }
+
+  return status;
+}
+
+/**
+ * Run one sync cycle now (pull, resolve, push). Concurrent calls share one run.
+ */
+export function syncNow(): Promise<SyncStatus> {
+  if (!running) {
+    running = runSync().finally(() => {
+      running = null;
+    });
+  }
+  return running;
+}
+
+/**
+ * Start background sync if enabled: watches the stores, syncs on
+ * reconnect and every minute
+ */
+export function startSync(): void {
+  stopSync();
+  const householdId = getHouseholdId();
+  if (!getSyncSettings().enabled) {
+    setStatus({ phase: "disabled", householdId });
+    return;
+  }
+
+  const onLocalChange = () => {
+    if (applyingRemote) return;
+    captureAppChanges();
+    if (debounceTimer) clearTimeout(debounceTimer);
+    debounceTimer = setTimeout(() => void syncNow(), CHANGE_DEBOUNCE_MS);
+  };
+  const onOnline = () => void syncNow();
+
+  stopHandlers = BINDINGS.map((binding) => binding.subscribe(onLocalChange));
+  window.addEventListener("online", onOnline);
+  const interval = setInterval(() => void syncNow(), SYNC_INTERVAL_MS);
+  stopHandlers.push(
+    () => window.removeEventListener("online", onOnline),
+    () => clearInterval(interval)
+  );
+
+  setStatus({
+    householdId,
+    queued: readQueue().filter((q) => q.householdId === householdId).length,
+  });
+  void syncNow();
+}
+
+/**
+ * Stop background sync (queued changes are kept)
+ */
+export function stopSync(): void {
+  stopHandlers.forEach((stop) => stop());
+  stopHandlers = [];
+  if (debounceTimer) {
+    clearTimeout(debounceTimer);
+    debounceTimer = null;
+  }
+}
+
+/**
+ * Turn sync on or off for this device
+ */
+export function setSyncEnabled(enabled: boolean): void {
+  writeJson(SETTINGS_KEY, { enabled });
+  if (enabled) {
+    startSync();
+  } else {
+    stopSync();
+    setStatus({ phase: "disabled" });
+  }
+}
+
+export function getSyncStatus(): SyncStatus {
+  return status;
+}
+
+/**
+ * Subscribe to sync status changes
+ * @returns Unsubscribe function
+ */
+export function subscribeSync(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
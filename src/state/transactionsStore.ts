@@ -1,7 +1,14 @@
-import type { MoneyTransaction } from "../types/transactions";
+import type { MoneyTransaction, NewTransactionInput, TransactionSplit } from "../types/transactions";
+import type { TransferInput } from "../types/accounts";
+import { TRANSFER_CATEGORY, type CategoryName } from "../constants/categories";
 import { getPeriodKeyFromDate, assertPeriodUnlockedOrThrow } from "../utils/lockGuard";
-
-const KEY = "stewardly_transactions";
+import { assertRoleAllows } from "../utils/roleGuard";
+import { createRecordCollection } from "./storageAdapter";
+import { isSubcategoryOf } from "./categoriesStore";
+import { listCategoryRules } from "./categoryRulesStore";
+import { findMatchingRule } from "../utils/categoryRules";
+import { getAccount } from "./accountsStore";
+import { getSelectedHousehold } from "./householdStore";
 
 type Listener = () => void;
 const listeners = new Set<Listener>();
@@ -10,16 +17,23 @@ function notify() {
   listeners.forEach((l) => l());
 }
 
-function safeParse<T>(value: string | null): T | null {
-  if (!value) return null;
-  try {
-    return JSON.parse(value) as T;
-  } catch {
-    return null;
-  }
+/**
+ * Normalize stored split lines; fewer than two usable lines means the transaction is not split
+ */
+function normalizeSplits(value: unknown): TransactionSplit[] | undefined {
+  if (!Array.isArray(value)) return undefined;
+  const lines = value
+    .filter((l) => l && typeof l === "object" && typeof l.category === "string" && l.category)
+    .map((l) => ({
+      category: l.category as CategoryName,
+      subcategory: typeof l.subcategory === "string" && l.subcategory ? l.subcategory : undefined,
+      amount: Math.abs(Number(l.amount)),
+    }))
+    .filter((l) => Number.isFinite(l.amount) && l.amount > 0);
+  return lines.length >= 2 ? lines : undefined;
 }
 
-function normalizeTransaction(t: any): MoneyTransaction | null {
+export function normalizeTransaction(t: any): MoneyTransaction | null {
   if (!t || typeof t !== "object") return null;
 
   const amount = Number(t.amount ?? 0);
@@ -29,76 +43,506 @@ function normalizeTransaction(t: any): MoneyTransaction | null {
     t.direction === "in" || t.direction === "out" ? t.direction : "out";
 
   const noteVal = typeof t.note === "string" ? t.note.trim() : "";
+  const splits = normalizeSplits(t.splits);
 
   return {
     id: String(t.id),
     date: String(t.date),
-    category: t.category,
+    category: splits ? splits[0].category : t.category,
+    subcategory: !splits && typeof t.subcategory === "string" && t.subcategory ? t.subcategory : undefined,
     amount: Math.abs(amount),
+    currency: typeof t.currency === "string" && /^[A-Z]{3}$/.test(t.currency) ? t.currency : undefined,
     direction,
     note: noteVal || (direction === "in" ? "Income/Refund" : undefined),
+    externalId: typeof t.externalId === "string" && t.externalId ? t.externalId : undefined,
+    liabilityId:
+      typeof t.liabilityId === "string" && t.liabilityId && !splits && t.category === "Debt" && direction === "out"
+        ? t.liabilityId
+        : undefined,
+    splits,
+    accountId: typeof t.accountId === "string" && t.accountId ? t.accountId : undefined,
+    transferId: typeof t.transferId === "string" && t.transferId ? t.transferId : undefined,
+    reconciliationId: typeof t.reconciliationId === "string" && t.reconciliationId ? t.reconciliationId : undefined,
+    pending: t.pending === true ? true : undefined,
+    scheduledTemplateId:
+      typeof t.scheduledTemplateId === "string" && t.scheduledTemplateId ? t.scheduledTemplateId : undefined,
+    scheduledDate:
+      typeof t.scheduledDate === "string" && /^\d{4}-\d{2}-\d{2}$/.test(t.scheduledDate) ? t.scheduledDate : undefined,
   };
 }
 
+/**
+ * Upper-case a currency code; undefined when unset, null when invalid
+ */
+function normalizeCurrency(value: string | undefined): string | undefined | null {
+  const code = (value ?? "").trim().toUpperCase();
+  if (!code) return undefined;
+  return /^[A-Z]{3}$/.test(code) ? code : null;
+}
+
+/**
+ * Only outgoing Debt transactions can repay a loan
+ * @returns null if valid, or error message if invalid
+ */
+function validateLoanLink(tx: Pick<MoneyTransaction, "category" | "direction" | "liabilityId">): string | null {
+  if (!tx.liabilityId) return null;
+  if (tx.category !== "Debt" || tx.direction !== "out") {
+    return "Only Debt expenses can be linked to a loan";
+  }
+  return null;
+}
+
+/**
+ * An account must exist, be open by the transaction's date and hold the transaction's currency
+ * @returns null if valid, or error message if invalid
+ */
+function validateAccountLink(tx: Pick<MoneyTransaction, "accountId" | "currency" | "date">): string | null {
+  if (!tx.accountId) return null;
+  const account = getAccount(tx.accountId);
+  if (!account) {
+    return "Account not found";
+  }
+  if (tx.date < account.openingDate) {
+    return `${account.name} was opened on ${account.openingDate}, after this transaction`;
+  }
+  const currency = tx.currency ?? getSelectedHousehold()?.base_currency ?? "SGD";
+  if (currency !== account.currency) {
+    return `${account.name} is in ${account.currency}; record the transaction in ${account.currency}`;
+  }
+  return null;
+}
+
+const RECONCILED_REASON = "Transaction is reconciled; undo the reconciliation on the Accounts page to change it";
+const TRANSFER_REASON = "Record transfers between accounts with addTransfer";
+
+/**
+ * A subcategory must sit under the transaction's category
+ * @returns null if valid, or error message if invalid
+ */
+function validateSubcategory(tx: Pick<MoneyTransaction, "category" | "subcategory">): string | null {
+  if (!tx.subcategory) return null;
+  return isSubcategoryOf(tx.subcategory, tx.category) ? null : "That subcategory does not belong to the category";
+}
+
+/**
+ * Split lines need a category, a positive amount and a subcategory (if any)
+ * under their category, and must add up to the transaction amount
+ * @returns null if valid, or error message if invalid
+ */
+function validateSplits(tx: Pick<MoneyTransaction, "splits" | "liabilityId">, amount: number): string | null {
+  if (!tx.splits || tx.splits.length === 0) return null;
+  if (tx.splits.length < 2) return "A split needs at least two lines";
+  if (tx.liabilityId) return "A split transaction cannot be linked to a loan";
+
+  for (const line of tx.splits) {
+    if (!line.category) return "Each split line needs a category";
+    const lineAmount = Number(line.amount);
+    if (!Number.isFinite(lineAmount) || lineAmount <= 0) return "Each split line amount must be greater than 0";
+    const subError = validateSubcategory(line);
+    if (subError) return subError;
+  }
+
+  const total = tx.splits.reduce((sum, line) => sum + Number(line.amount), 0);
+  if (Math.abs(total - amount) >= 0.01) {
+    return `Split lines add up to ${total.toFixed(2)}, not the transaction amount ${amount.toFixed(2)}`;
+  }
+  return null;
+}
+
+/**
+ * Cleaned split lines (undefined when not split) and the category the transaction then carries
+ */
+function applySplits<T extends Pick<MoneyTransaction, "category" | "subcategory" | "splits">>(tx: T): T {
+  if (!tx.splits || tx.splits.length === 0) {
+    return { ...tx, subcategory: tx.subcategory || undefined, splits: undefined };
+  }
+  const splits = tx.splits.map((line) => ({
+    category: line.category,
+    subcategory: line.subcategory || undefined,
+    amount: Math.abs(Number(line.amount)),
+  }));
+  return { ...tx, category: splits[0].category, subcategory: undefined, splits };
+}
+
 function normalizeAll(items: any[]): MoneyTransaction[] {
   return (items ?? [])
     .map(normalizeTransaction)
     .filter((x): x is MoneyTransaction => Boolean(x));
 }
 
+/**
+ * Cached, date-descending transactions persisted through the storage adapter
+ */
+const collection = createRecordCollection<MoneyTransaction>({
+  name: "transactions",
+  normalize: normalizeTransaction,
+  compare: (a, b) => (a.date < b.date ? 1 : a.date > b.date ? -1 : 0),
+  onChange: notify,
+});
+
+/**
+ * Mutable copies of all transactions, for read-modify-write
+ */
 function readAll(): MoneyTransaction[] {
-  const raw = safeParse<any[]>(localStorage.getItem(KEY)) ?? [];
-  const normalized = normalizeAll(raw);
+  return collection.readAll();
+}
+
+function writeAll(items: MoneyTransaction[]) {
+  void collection.write(items);
+}
 
-  // Optional: rewrite storage if anything changed / missing direction
-  if (raw.length !== normalized.length || raw.some((t) => !t?.direction)) {
-    localStorage.setItem(KEY, JSON.stringify(normalized));
+let confirmed: { source: MoneyTransaction[]; items: MoneyTransaction[] } | null = null;
+
+/**
+ * All confirmed transactions, newest first (cached; do not mutate).
+ * Pending scheduled entries are left out: they are expected, not actual.
+ */
+export function listTransactions(): MoneyTransaction[] {
+  const all = collection.list();
+  if (confirmed?.source !== all) {
+    confirmed = { source: all, items: all.filter((t) => !t.pending) };
   }
+  return confirmed.items;
+}
 
-  return normalized;
+/**
+ * Every transaction including pending scheduled entries, newest first
+ * (cached; do not mutate). For backup and sync, which keep both.
+ */
+export function listAllTransactions(): MoneyTransaction[] {
+  return collection.list();
 }
 
-function writeAll(items: MoneyTransaction[]) {
-  localStorage.setItem(KEY, JSON.stringify(items));
-  notify();
+/**
+ * Pending scheduled entries, newest first
+ */
+export function listPendingTransactions(): MoneyTransaction[] {
+  return collection.list().filter((t) => t.pending);
 }
 
-export function listTransactions(): MoneyTransaction[] {
-  return readAll().sort((a, b) => (a.date < b.date ? 1 : -1));
+/**
+ * Confirmed transactions in one period (YYYY-MM), newest first
+ */
+export function listTransactionsForPeriod(period: string): MoneyTransaction[] {
+  return collection.listByPeriod(period).filter((t) => !t.pending);
+}
+
+/**
+ * Replace every transaction (backup restore). Bypasses lock checks:
+ * the caller decides what may change. Resolves once persisted.
+ */
+export function replaceAllTransactions(
+  items: MoneyTransaction[]
+): Promise<{ ok: true } | { ok: false; reason: string }> {
+  return collection.write(normalizeAll(items));
+}
+
+/**
+ * Id of a template occurrence's entry: the same on every device, so entries
+ * posted by two synced devices merge into one record
+ */
+function scheduledEntryId(templateId: string, scheduledDate: string): string {
+  return `scheduled-${templateId}-${scheduledDate}`;
 }
 
-export function addTransaction(tx: Omit<MoneyTransaction, "id">) {
+/**
+ * Check a new transaction and build the row to store; shared by add and import
+ * @returns the row, or the reason it cannot be added
+ */
+function prepareNewTransaction(
+  input: NewTransactionInput,
+  actionLabel: string
+): { tx: MoneyTransaction } | { reason: string } {
   // Check if the transaction's period is locked
   try {
-    const periodKey = getPeriodKeyFromDate(tx.date);
-    assertPeriodUnlockedOrThrow(periodKey, "add transaction");
+    const periodKey = getPeriodKeyFromDate(input.date);
+    assertPeriodUnlockedOrThrow(periodKey, actionLabel);
   } catch (err) {
-    return { ok: false as const, reason: (err as Error).message };
+    return { reason: (err as Error).message };
   }
 
   const direction: MoneyTransaction["direction"] =
-    tx.direction === "in" || tx.direction === "out" ? tx.direction : "out";
+    input.direction === "in" || input.direction === "out" ? input.direction : "out";
 
-  const amount = Math.abs(Number(tx.amount ?? 0));
+  const amount = Math.abs(Number(input.amount ?? 0));
+  if (!Number.isFinite(amount) || amount <= 0) {
+    return { reason: "Transaction amount must be greater than 0" };
+  }
+
+  // Rows added without a category (from any caller) are categorised by the rules
+  const category =
+    input.category ||
+    input.splits?.[0]?.category ||
+    findMatchingRule(listCategoryRules(), { ...input, amount, direction })?.category;
+  if (!category) {
+    return { reason: "Choose a category; no category rule matches this transaction" };
+  }
+  const tx: Omit<MoneyTransaction, "id"> = { ...input, category };
 
   const noteVal = typeof tx.note === "string" ? tx.note.trim() : "";
   const note = noteVal || (direction === "in" ? "Income/Refund" : undefined);
 
-  const newTx: MoneyTransaction = {
-    ...tx,
-    id: crypto.randomUUID(),
+  const currency = normalizeCurrency(tx.currency);
+  if (currency === null) {
+    return { reason: "Currency must be a 3-letter code (e.g. USD)" };
+  }
+
+  if (tx.transferId || tx.category === TRANSFER_CATEGORY) {
+    return { reason: TRANSFER_REASON };
+  }
+
+  const loanError =
+    validateSplits(tx, amount) ??
+    validateLoanLink({ ...tx, direction }) ??
+    validateSubcategory(tx) ??
+    validateAccountLink({ ...tx, currency });
+  if (loanError) {
+    return { reason: loanError };
+  }
+
+  return {
+    tx: applySplits({
+      ...tx,
+      id:
+        tx.scheduledTemplateId && tx.scheduledDate
+          ? scheduledEntryId(tx.scheduledTemplateId, tx.scheduledDate)
+          : crypto.randomUUID(),
+      amount,
+      currency,
+      direction,
+      note,
+      liabilityId: tx.liabilityId || undefined,
+      accountId: tx.accountId || undefined,
+      reconciliationId: undefined,
+    }),
+  };
+}
+
+export function addTransaction(tx: NewTransactionInput) {
+  const allowed = assertRoleAllows("edit", "add transaction");
+  if (!allowed.ok) return allowed;
+
+  const prepared = prepareNewTransaction(tx, "add transaction");
+  if ("reason" in prepared) {
+    return { ok: false as const, reason: prepared.reason };
+  }
+
+  const items = readAll();
+  if (items.some((t) => t.id === prepared.tx.id)) {
+    return { ok: false as const, reason: "This scheduled occurrence is already recorded" };
+  }
+  items.push(prepared.tx);
+  writeAll(items);
+  return { ok: true as const, id: prepared.tx.id };
+}
+
+/**
+ * Add many transactions in one write (statement import).
+ * Each row goes through the same checks and category rules as addTransaction; rows that fail
+ * them, or whose externalId is already recorded, are skipped with a reason.
+ */
+export function importTransactions(rows: NewTransactionInput[]):
+  | {
+      ok: true;
+      added: number;
+      skipped: { index: number; reason: string }[];
+    }
+  | { ok: false; reason: string } {
+  const allowed = assertRoleAllows("edit", "import transactions");
+  if (!allowed.ok) return allowed;
+
+  const items = readAll();
+  const skipped: { index: number; reason: string }[] = [];
+  const knownExternalIds = new Set(items.map((t) => t.externalId).filter(Boolean));
+  let added = 0;
+
+  rows.forEach((tx, index) => {
+    if (tx.externalId && knownExternalIds.has(tx.externalId)) {
+      skipped.push({ index, reason: `Already imported (reference ${tx.externalId})` });
+      return;
+    }
+
+    const prepared = prepareNewTransaction(tx, "import transaction");
+    if ("reason" in prepared) {
+      skipped.push({ index, reason: prepared.reason });
+      return;
+    }
+
+    items.push(prepared.tx);
+    if (tx.externalId) knownExternalIds.add(tx.externalId);
+    added++;
+  });
+
+  if (added > 0) {
+    writeAll(items);
+  }
+
+  return { ok: true, added, skipped };
+}
+
+export function updateTransaction(
+  id: string,
+  patch: Partial<Omit<MoneyTransaction, "id">>
+): { ok: true } | { ok: false; reason: string } {
+  const allowed = assertRoleAllows("edit", "edit transaction");
+  if (!allowed.ok) return allowed;
+
+  const items = readAll();
+  const index = items.findIndex((t) => t.id === id);
+
+  if (index === -1) {
+    return { ok: false, reason: "Transaction not found" };
+  }
+
+  const current = items[index];
+
+  // Determine the effective date (patch.date or existing date)
+  const effectiveDate = patch.date ?? current.date;
+
+  // Check if the effective period is locked (old and new periods both unlocked)
+  try {
+    const oldPeriodKey = getPeriodKeyFromDate(current.date);
+    const newPeriodKey = getPeriodKeyFromDate(effectiveDate);
+    assertPeriodUnlockedOrThrow(oldPeriodKey, "edit transaction");
+    assertPeriodUnlockedOrThrow(newPeriodKey, "edit transaction");
+  } catch (err) {
+    return { ok: false, reason: (err as Error).message };
+  }
+
+  if (current.reconciliationId) {
+    return { ok: false, reason: RECONCILED_REASON };
+  }
+
+  if (current.transferId) {
+    return { ok: false, reason: "This is part of a transfer; edit the transfer instead" };
+  }
+
+  const merged = { ...current, ...patch, reconciliationId: undefined };
+
+  // Validate required fields after merge
+  const date = String(merged.date ?? "").trim();
+  if (!date) {
+    return { ok: false, reason: "Transaction date is required" };
+  }
+
+  const amount = Math.abs(Number(merged.amount ?? 0));
+  if (!Number.isFinite(amount) || amount <= 0) {
+    return { ok: false, reason: "Transaction amount must be greater than 0" };
+  }
+
+  const direction: MoneyTransaction["direction"] =
+    merged.direction === "in" || merged.direction === "out" ? merged.direction : "out";
+
+  const noteVal = typeof merged.note === "string" ? merged.note.trim() : "";
+  const note = noteVal || (direction === "in" ? "Income/Refund" : undefined);
+
+  const currency = normalizeCurrency(merged.currency);
+  if (currency === null) {
+    return { ok: false, reason: "Currency must be a 3-letter code (e.g. USD)" };
+  }
+
+  if (merged.transferId || merged.category === TRANSFER_CATEGORY) {
+    return { ok: false, reason: TRANSFER_REASON };
+  }
+
+  const loanError =
+    validateSplits(merged, amount) ??
+    validateLoanLink({ ...merged, direction }) ??
+    validateSubcategory(merged) ??
+    validateAccountLink({ ...merged, date, currency });
+  if (loanError) {
+    return { ok: false, reason: loanError };
+  }
+
+  items[index] = applySplits({
+    ...merged,
+    id: current.id, // Ensure id doesn't change
+    date,
     amount,
+    currency,
     direction,
     note,
-  };
+    liabilityId: merged.liabilityId || undefined,
+    accountId: merged.accountId || undefined,
+  });
+  writeAll(items);
+
+  return { ok: true };
+}
+
+/**
+ * Re-categorise many transactions in one write (applying category rules to history).
+ * Transactions in locked periods are skipped with a reason.
+ */
+export function recategorizeTransactions(changes: { id: string; category: CategoryName }[]): {
+  ok: true;
+  updated: number;
+  skipped: { id: string; reason: string }[];
+} {
+  const allowed = assertRoleAllows("edit", "re-categorise transactions");
+  if (!allowed.ok) {
+    return { ok: true, updated: 0, skipped: changes.map((c) => ({ id: c.id, reason: allowed.reason })) };
+  }
 
   const items = readAll();
-  items.push(newTx);
-  writeAll(items);
-  return { ok: true as const };
+  const byId = new Map(items.map((t) => [t.id, t]));
+  const skipped: { id: string; reason: string }[] = [];
+  let updated = 0;
+
+  for (const change of changes) {
+    const tx = byId.get(change.id);
+    if (!tx) {
+      skipped.push({ id: change.id, reason: "Transaction not found" });
+      continue;
+    }
+
+    try {
+      assertPeriodUnlockedOrThrow(getPeriodKeyFromDate(tx.date), "re-categorise transaction");
+    } catch (err) {
+      skipped.push({ id: change.id, reason: (err as Error).message });
+      continue;
+    }
+
+    if (tx.reconciliationId) {
+      skipped.push({ id: change.id, reason: RECONCILED_REASON });
+      continue;
+    }
+
+    if (tx.splits) {
+      skipped.push({ id: change.id, reason: "Split transaction; edit its lines instead" });
+      continue;
+    }
+
+    if (tx.transferId) {
+      skipped.push({ id: change.id, reason: "Transfers between accounts have no category" });
+      continue;
+    }
+
+    if (change.category === TRANSFER_CATEGORY) {
+      skipped.push({ id: change.id, reason: TRANSFER_REASON });
+      continue;
+    }
+
+    if (tx.category !== change.category) {
+      tx.category = change.category;
+      tx.subcategory = undefined;
+      // A loan link only makes sense on Debt payments
+      if (tx.category !== "Debt") tx.liabilityId = undefined;
+      updated++;
+    }
+  }
+
+  if (updated > 0) {
+    writeAll(items);
+  }
+
+  return { ok: true, updated, skipped };
 }
 
 export function deleteTransaction(id: string) {
+  const allowed = assertRoleAllows("edit", "delete transaction");
+  if (!allowed.ok) return allowed;
+
   const items = readAll();
   const txToDelete = items.find((t) => t.id === id);
 
@@ -114,14 +558,127 @@ export function deleteTransaction(id: string) {
     return { ok: false as const, reason: (err as Error).message };
   }
 
-  const filtered = items.filter((t) => t.id !== id);
-  writeAll(filtered);
+  // Deleting either leg of a transfer deletes the whole transfer
+  const isDeleted = (t: MoneyTransaction) =>
+    t.id === id || Boolean(txToDelete.transferId && t.transferId === txToDelete.transferId);
+  if (items.some((t) => isDeleted(t) && t.reconciliationId)) {
+    return { ok: false as const, reason: RECONCILED_REASON };
+  }
+
+  writeAll(items.filter((t) => !isDeleted(t)));
   return { ok: true as const };
 }
 
-export function clearTransactions() {
-  localStorage.removeItem(KEY);
-  notify();
+/**
+ * Check a transfer's accounts, amount and date
+ * @returns the accounts' shared currency, or an error message
+ */
+function validateTransfer(input: TransferInput): { currency: string } | { reason: string } {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(input.date)) {
+    return { reason: "Transfer date must be YYYY-MM-DD" };
+  }
+  const amount = Number(input.amount);
+  if (!Number.isFinite(amount) || amount <= 0) {
+    return { reason: "Transfer amount must be greater than 0" };
+  }
+
+  const from = getAccount(input.fromAccountId);
+  const to = getAccount(input.toAccountId);
+  if (!from || !to) {
+    return { reason: "Choose both accounts" };
+  }
+  if (from.id === to.id) {
+    return { reason: "Choose two different accounts" };
+  }
+  if (from.currency !== to.currency) {
+    return { reason: `Transfers need accounts in the same currency (${from.currency} and ${to.currency})` };
+  }
+  const unopened = [from, to].find((a) => input.date < a.openingDate);
+  if (unopened) {
+    return { reason: `${unopened.name} was opened on ${unopened.openingDate}, after this transfer` };
+  }
+  return { currency: from.currency };
+}
+
+/**
+ * The "out" and "in" legs of a transfer
+ */
+function transferLegs(transferId: string, input: TransferInput, currency: string): MoneyTransaction[] {
+  const leg = {
+    date: input.date,
+    category: TRANSFER_CATEGORY,
+    amount: Math.abs(Number(input.amount)),
+    currency,
+    note: input.note?.trim() || undefined,
+    transferId,
+  };
+  return [
+    { ...leg, id: crypto.randomUUID(), direction: "out", accountId: input.fromAccountId },
+    { ...leg, id: crypto.randomUUID(), direction: "in", accountId: input.toAccountId },
+  ];
+}
+
+/**
+ * Record money moved between two own accounts as a linked pair of
+ * transactions. Transfers count towards account balances, not income or spending.
+ */
+export function addTransfer(
+  input: TransferInput
+): { ok: true; transferId: string } | { ok: false; reason: string } {
+  const allowed = assertRoleAllows("edit", "add transfer");
+  if (!allowed.ok) return allowed;
+
+  const checked = validateTransfer(input);
+  if ("reason" in checked) return { ok: false, reason: checked.reason };
+
+  try {
+    assertPeriodUnlockedOrThrow(getPeriodKeyFromDate(input.date), "add transfer");
+  } catch (err) {
+    return { ok: false, reason: (err as Error).message };
+  }
+
+  const transferId = crypto.randomUUID();
+  writeAll([...readAll(), ...transferLegs(transferId, input, checked.currency)]);
+  return { ok: true, transferId };
+}
+
+/**
+ * Replace both legs of a transfer (old and new periods must be unlocked)
+ */
+export function updateTransfer(transferId: string, input: TransferInput): { ok: true } | { ok: false; reason: string } {
+  const allowed = assertRoleAllows("edit", "edit transfer");
+  if (!allowed.ok) return allowed;
+
+  const items = readAll();
+  const legs = items.filter((t) => t.transferId === transferId);
+  if (legs.length === 0) {
+    return { ok: false, reason: "Transfer not found" };
+  }
+  if (legs.some((t) => t.reconciliationId)) {
+    return { ok: false, reason: RECONCILED_REASON };
+  }
+
+  const checked = validateTransfer(input);
+  if ("reason" in checked) return { ok: false, reason: checked.reason };
+
+  try {
+    assertPeriodUnlockedOrThrow(getPeriodKeyFromDate(legs[0].date), "edit transfer");
+    assertPeriodUnlockedOrThrow(getPeriodKeyFromDate(input.date), "edit transfer");
+  } catch (err) {
+    return { ok: false, reason: (err as Error).message };
+  }
+
+  writeAll([...items.filter((t) => t.transferId !== transferId), ...transferLegs(transferId, input, checked.currency)]);
+  return { ok: true };
+}
+
+/**
+ * Mark transactions as cleared in a reconciliation, or (with undefined) undo
+ * the mark. Used by the reconciliations store, which checks role and balances.
+ */
+export function setTransactionsReconciled(ids: string[], reconciliationId: string | undefined): void {
+  const marked = new Set(ids);
+  writeAll(readAll().map((t) => (marked.has(t.id) ? { ...t, reconciliationId } : t)));
 }
 
 export function subscribeTransactions(listener: Listener): () => void {
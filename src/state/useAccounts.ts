@@ -0,0 +1,19 @@
+import { useState, useEffect } from "react";
+import type { Account } from "../types/accounts";
+import { subscribeAccounts, listAccounts } from "./accountsStore";
+
+/**
+ * Hook to get accounts (by name, archived included) with reactive updates
+ */
+export function useAccounts(): Account[] {
+  const [accounts, setAccounts] = useState<Account[]>(() => listAccounts());
+
+  useEffect(() => {
+    const unsubscribe = subscribeAccounts(() => {
+      setAccounts(listAccounts());
+    });
+    return () => unsubscribe();
+  }, []);
+
+  return accounts;
+}
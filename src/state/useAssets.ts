@@ -0,0 +1,19 @@
+import { useState, useEffect } from "react";
+import type { Asset } from "../types/netWorth";
+import { subscribeAssets, listAssets } from "./assetsStore";
+
+/**
+ * Hook to get all assets (by name) with reactive updates
+ */
+export function useAssets(): Asset[] {
+  const [assets, setAssets] = useState<Asset[]>(() => listAssets());
+
+  useEffect(() => {
+    const unsubscribe = subscribeAssets(() => {
+      setAssets(listAssets());
+    });
+    return () => unsubscribe();
+  }, []);
+
+  return assets;
+}
@@ -0,0 +1,19 @@
+import { useState, useEffect } from "react";
+import type { Category } from "../types/categories";
+import { subscribeCategories, listCategories } from "./categoriesStore";
+
+/**
+ * Hook to get every category (archived included) with reactive updates
+ */
+export function useCategories(): Category[] {
+  const [categories, setCategories] = useState<Category[]>(() => listCategories());
+
+  useEffect(() => {
+    const unsubscribe = subscribeCategories(() => {
+      setCategories(listCategories());
+    });
+    return () => unsubscribe();
+  }, []);
+
+  return categories;
+}
@@ -0,0 +1,19 @@
+import { useState, useEffect } from "react";
+import type { CategoryRule } from "../types/categoryRules";
+import { subscribeCategoryRules, listCategoryRules } from "./categoryRulesStore";
+
+/**
+ * Hook to get category rules (in evaluation order) with reactive updates
+ */
+export function useCategoryRules(): CategoryRule[] {
+  const [rules, setRules] = useState<CategoryRule[]>(() => listCategoryRules());
+
+  useEffect(() => {
+    const unsubscribe = subscribeCategoryRules(() => {
+      setRules(listCategoryRules());
+    });
+    return () => unsubscribe();
+  }, []);
+
+  return rules;
+}
@@ -0,0 +1,19 @@
+import { useState, useEffect } from "react";
+import type { FxRate } from "../types/fx";
+import { subscribeFxRates, listFxRates } from "./fxRatesStore";
+
+/**
+ * Hook to get the exchange rate table (newest first) with reactive updates
+ */
+export function useFxRates(): FxRate[] {
+  const [rates, setRates] = useState<FxRate[]>(() => listFxRates());
+
+  useEffect(() => {
+    const unsubscribe = subscribeFxRates(() => {
+      setRates(listFxRates());
+    });
+    return () => unsubscribe();
+  }, []);
+
+  return rates;
+}
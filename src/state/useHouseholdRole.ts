@@ -0,0 +1,18 @@
+import { useState, useEffect } from "react";
+import { getHouseholdRole, subscribeHouseholds, type HouseholdRole } from "./householdStore";
+
+/**
+ * Hook to get the current user's role in the selected household with reactive updates
+ */
+export function useHouseholdRole(): HouseholdRole {
+  const [role, setRole] = useState<HouseholdRole>(() => getHouseholdRole());
+
+  useEffect(() => {
+    const unsubscribe = subscribeHouseholds(() => {
+      setRole(getHouseholdRole());
+    });
+    return () => unsubscribe();
+  }, []);
+
+  return role;
+}
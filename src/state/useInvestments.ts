@@ -0,0 +1,19 @@
+import { useState, useEffect } from "react";
+import type { Holding, InvestmentAccount } from "../types/investments";
+import { subscribeInvestments, listInvestmentAccounts, listHoldings } from "./investmentsStore";
+
+/**
+ * Hook to get investment accounts and holdings with reactive updates
+ */
+export function useInvestments(): { accounts: InvestmentAccount[]; holdings: Holding[] } {
+  const [state, setState] = useState(() => ({ accounts: listInvestmentAccounts(), holdings: listHoldings() }));
+
+  useEffect(() => {
+    const unsubscribe = subscribeInvestments(() => {
+      setState({ accounts: listInvestmentAccounts(), holdings: listHoldings() });
+    });
+    return () => unsubscribe();
+  }, []);
+
+  return state;
+}
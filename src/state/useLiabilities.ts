@@ -0,0 +1,19 @@
+import { useState, useEffect } from "react";
+import type { Liability } from "../types/netWorth";
+import { subscribeLiabilities, listLiabilities } from "./liabilitiesStore";
+
+/**
+ * Hook to get all liabilities (by name) with reactive updates
+ */
+export function useLiabilities(): Liability[] {
+  const [liabilities, setLiabilities] = useState<Liability[]>(() => listLiabilities());
+
+  useEffect(() => {
+    const unsubscribe = subscribeLiabilities(() => {
+      setLiabilities(listLiabilities());
+    });
+    return () => unsubscribe();
+  }, []);
+
+  return liabilities;
+}
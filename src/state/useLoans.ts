@@ -0,0 +1,19 @@
+import { useState, useEffect } from "react";
+import type { LoanTerms } from "../types/loans";
+import { subscribeLoans, listLoanTerms } from "./loansStore";
+
+/**
+ * Hook to get every liability's loan terms with reactive updates
+ */
+export function useLoans(): LoanTerms[] {
+  const [loans, setLoans] = useState<LoanTerms[]>(() => listLoanTerms());
+
+  useEffect(() => {
+    const unsubscribe = subscribeLoans(() => {
+      setLoans(listLoanTerms());
+    });
+    return () => unsubscribe();
+  }, []);
+
+  return loans;
+}
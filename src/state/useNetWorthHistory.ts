@@ -0,0 +1,19 @@
+import { useState, useEffect } from "react";
+import type { NetWorthSnapshot } from "../types/netWorth";
+import { subscribeNetWorthHistory, listNetWorthHistory } from "./netWorthHistoryStore";
+
+/**
+ * Hook to get recorded net worth per period (ascending) with reactive updates
+ */
+export function useNetWorthHistory(): NetWorthSnapshot[] {
+  const [history, setHistory] = useState<NetWorthSnapshot[]>(() => listNetWorthHistory());
+
+  useEffect(() => {
+    const unsubscribe = subscribeNetWorthHistory(() => {
+      setHistory(listNetWorthHistory());
+    });
+    return () => unsubscribe();
+  }, []);
+
+  return history;
+}
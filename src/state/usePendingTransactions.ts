@@ -0,0 +1,20 @@
+import { useEffect, useState } from "react";
+import type { MoneyTransaction } from "../types/transactions";
+import { listPendingTransactions, subscribeTransactions } from "./transactionsStore";
+
+/**
+ * Pending scheduled entries, which useTransactions leaves out
+ */
+export function usePendingTransactions(): MoneyTransaction[] {
+  const [items, setItems] = useState<MoneyTransaction[]>(() => listPendingTransactions());
+
+  useEffect(() => {
+    const unsubscribe = subscribeTransactions(() => {
+      setItems(listPendingTransactions());
+    });
+
+    return unsubscribe;
+  }, []);
+
+  return items;
+}
@@ -0,0 +1,19 @@
+import { useState, useEffect } from "react";
+import type { Reconciliation } from "../types/accounts";
+import { subscribeReconciliations, listReconciliations } from "./reconciliationsStore";
+
+/**
+ * Hook to get reconciliations (newest statement first) with reactive updates
+ */
+export function useReconciliations(): Reconciliation[] {
+  const [reconciliations, setReconciliations] = useState<Reconciliation[]>(() => listReconciliations());
+
+  useEffect(() => {
+    const unsubscribe = subscribeReconciliations(() => {
+      setReconciliations(listReconciliations());
+    });
+    return () => unsubscribe();
+  }, []);
+
+  return reconciliations;
+}
@@ -0,0 +1,19 @@
+import { useState, useEffect } from "react";
+import type { SavingsGoal } from "../types/goals";
+import { subscribeSavingsGoals, listSavingsGoals } from "./savingsGoalsStore";
+
+/**
+ * Hook to get savings goals (by target date) with reactive updates
+ */
+export function useSavingsGoals(): SavingsGoal[] {
+  const [goals, setGoals] = useState<SavingsGoal[]>(() => listSavingsGoals());
+
+  useEffect(() => {
+    const unsubscribe = subscribeSavingsGoals(() => {
+      setGoals(listSavingsGoals());
+    });
+    return () => unsubscribe();
+  }, []);
+
+  return goals;
+}
@@ -0,0 +1,19 @@
+import { useState, useEffect } from "react";
+import type { SecurityPrice } from "../types/investments";
+import { subscribeSecurityPrices, listSecurityPrices } from "./securityPricesStore";
+
+/**
+ * Hook to get all security prices (newest first) with reactive updates
+ */
+export function useSecurityPrices(): SecurityPrice[] {
+  const [prices, setPrices] = useState<SecurityPrice[]>(() => listSecurityPrices());
+
+  useEffect(() => {
+    const unsubscribe = subscribeSecurityPrices(() => {
+      setPrices(listSecurityPrices());
+    });
+    return () => unsubscribe();
+  }, []);
+
+  return prices;
+}
@@ -0,0 +1,78 @@
+import type { AccountType } from "../constants/accounts";
+
+/**
+ * A bank, card or cash account money is held in or moved between.
+ * Balances are signed: a credit card that is owed money has a negative balance.
+ */
+export interface Account {
+  id: string;
+  name: string;
+  type: AccountType;
+  currency: string; // e.g. "SGD"
+  openingBalance: number;
+  openingDate: string; // YYYY-MM-DD; movements from this date count towards the balance
+  statementDay?: number; // credit cards: day of month the statement closes (1-31, clamped to month end)
+  dueDay?: number; // credit cards: day of month payment is due, after the statement closes
+  archived: boolean;
+  createdAt: string; // ISO
+  updatedAt: string; // ISO
+}
+
+export interface AccountInput {
+  name: string;
+  type: AccountType;
+  currency: string;
+  openingBalance: number;
+  openingDate: string;
+  statementDay?: number;
+  dueDay?: number;
+}
+
+/**
+ * Money moved between two of the household's own accounts (same currency)
+ */
+export interface TransferInput {
+  date: string; // YYYY-MM-DD
+  fromAccountId: string;
+  toAccountId: string;
+  amount: number;
+  note?: string;
+}
+
+/**
+ * A bank or card statement checked against an account: the transactions
+ * ticked as cleared brought the account to the statement's closing balance.
+ */
+export interface Reconciliation {
+  id: string;
+  accountId: string;
+  statementDate: string; // YYYY-MM-DD
+  closingBalance: number; // signed, as the account's balance
+  transactionIds: string[];
+  createdAt: string; // ISO
+}
+
+export interface ReconciliationInput {
+  accountId: string;
+  statementDate: string;
+  closingBalance: number;
+  transactionIds: string[];
+}
+
+/**
+ * One credit card statement cycle: charges from the day after the previous
+ * statement closed up to its closing date, and the payments made towards it
+ * before the next statement closes
+ */
+export interface CardStatement {
+  accountId: string;
+  periodStart: string; // YYYY-MM-DD
+  closingDate: string; // YYYY-MM-DD
+  dueDate: string; // YYYY-MM-DD
+  balance: number; // owed when the statement closed (0 if the card was in credit)
+  charges: number; // spending on the card during the cycle
+  paid: number; // payments detected after the statement closed
+  paymentIds: string[];
+  /** "open" until the closing date has passed */
+  status: "open" | "paid" | "due" | "overdue";
+}
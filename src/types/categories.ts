@@ -0,0 +1,15 @@
+import type { CategoryName } from "../constants/categories";
+
+/**
+ * A top-level category (allocated by plans) or a subcategory (reporting only).
+ * Categories are archived rather than deleted, so history keeps resolving.
+ */
+export interface Category {
+  id: CategoryName; // built-ins use their original name
+  name: string; // display name, may be renamed
+  parentId?: CategoryName; // set for subcategories (one level deep)
+  archived: boolean;
+  builtIn: boolean;
+  createdAt: string; // ISO
+  updatedAt: string; // ISO
+}
@@ -0,0 +1,46 @@
+import type { CategoryName } from "../constants/categories";
+import type { TransactionDirection } from "./transactions";
+
+/**
+ * How the note condition is evaluated
+ */
+export type RuleNoteMatch = "contains" | "regex";
+
+/**
+ * Conditions a transaction must meet for a rule to apply.
+ * Every condition that is set must match (AND); unset conditions are ignored.
+ */
+export interface CategoryRuleConditions {
+  /** Text (case-insensitive) or regular expression matched against the note */
+  notePattern?: string;
+
+  /** How notePattern is interpreted (defaults to contains) */
+  noteMatch?: RuleNoteMatch;
+
+  /** Inclusive lower bound on the amount */
+  minAmount?: number;
+
+  /** Inclusive upper bound on the amount */
+  maxAmount?: number;
+
+  direction?: TransactionDirection;
+
+  /** Inclusive day-of-month range (1-31) */
+  dayFrom?: number;
+  dayTo?: number;
+}
+
+/**
+ * User-managed auto-categorisation rule.
+ * Rules are evaluated in list order; the first active match wins.
+ */
+export interface CategoryRule {
+  id: string;
+  name: string;
+  active: boolean;
+  conditions: CategoryRuleConditions;
+  category: CategoryName;
+  updatedAt: string; // ISO
+}
+
+export type CategoryRuleInput = Omit<CategoryRule, "id" | "updatedAt">;
@@ -5,11 +5,33 @@ export type DistributionTarget = {
   targetPct: number; // 0–100
 };
 
+/**
+ * Envelope mode: each category's unspent planned amount (planned minus
+ * outflows) carries into the next period's available balance
+ */
+export type EnvelopeSettings = {
+  startPeriod: string; // YYYY-MM; balances start from zero in this month
+  caps?: Partial<Record<CategoryName, number>>; // most unspent money a category may carry
+};
+
+/**
+ * How one category's envelope balance was built in a period
+ */
+export type EnvelopeBalance = {
+  category: CategoryName;
+  carriedIn: number; // closing balance of the previous period
+  planned: number;
+  spent: number;
+  capped: number; // unspent money dropped by the cap
+  closing: number; // carried into the next period
+};
+
 export type DistributionPlan = {
   id: string;
   name: string; // e.g. "Default Plan"
   currency: string; // e.g. "SGD"
   targets: DistributionTarget[];
+  envelopes?: EnvelopeSettings; // set when envelope mode is on
   updatedAt: string; // ISO
   isActive?: boolean; // true if this is the active plan
   hasSnapshots?: boolean; // true if plan has period snapshots
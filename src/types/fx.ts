@@ -0,0 +1,15 @@
+/**
+ * A dated exchange rate: 1 unit of `from` is worth `rate` units of `to`.
+ * A rate applies from its date until a newer rate for the same pair.
+ */
+export interface FxRate {
+  id: string;
+  date: string; // YYYY-MM-DD
+  from: string; // e.g. "USD"
+  to: string; // e.g. "SGD"
+  rate: number;
+  source: "manual" | "csv";
+  createdAt: string; // ISO
+}
+
+export type FxRateInput = Omit<FxRate, "id" | "createdAt">;
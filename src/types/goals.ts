@@ -0,0 +1,20 @@
+import type { CategoryName } from "../constants/categories";
+
+/**
+ * A savings goal funded from one distribution plan category.
+ * Progress is the net of that category's transactions (money out into it,
+ * less money back in) dated on or after the start date, in the plan's
+ * base currency. Goals funded from the same category split it by target.
+ */
+export interface SavingsGoal {
+  id: string;
+  name: string; // e.g. "Emergency fund"
+  category: CategoryName; // e.g. "Savings" or "Education"
+  targetAmount: number;
+  targetDate: string; // YYYY-MM-DD
+  startDate: string; // YYYY-MM-DD; transactions before this do not count
+  createdAt: string; // ISO
+  updatedAt: string; // ISO
+}
+
+export type SavingsGoalInput = Omit<SavingsGoal, "id" | "createdAt" | "updatedAt">;
@@ -0,0 +1,73 @@
+import type { CategoryName } from "../constants/categories";
+import type { TransactionDirection } from "./transactions";
+
+/**
+ * Date layouts commonly found in bank CSV exports
+ */
+export type CsvDateFormat = "YYYY-MM-DD" | "DD/MM/YYYY" | "MM/DD/YYYY";
+
+/**
+ * How the direction (in/out) of a row is determined
+ * - signed: negative amount = out, positive = in
+ * - column: a separate column holds a debit/credit marker
+ */
+export type CsvSignMode = "signed" | "column";
+
+/**
+ * Maps bank CSV columns (zero-based indexes) to transaction fields
+ */
+export interface CsvColumnMapping {
+  delimiter: "," | ";" | "\t";
+  hasHeader: boolean;
+  dateColumn: number;
+  dateFormat: CsvDateFormat;
+  amountColumn: number;
+  signMode: CsvSignMode;
+
+  /** Column holding the debit/credit marker when signMode === "column" */
+  directionColumn?: number;
+
+  /** Marker value meaning money out (case-insensitive), e.g. "DR" or "Debit" */
+  outflowValue?: string;
+
+  /** Flip the sign of amounts (credit card exports list spending as positive) */
+  invertSign?: boolean;
+
+  noteColumn?: number;
+}
+
+/**
+ * Reusable mapping profile, saved per bank
+ */
+export interface CsvImportProfile {
+  id: string;
+  name: string; // e.g. "DBS current account"
+  mapping: CsvColumnMapping;
+  updatedAt: string; // ISO
+}
+
+/**
+ * Preview status of a parsed statement row
+ */
+export type ImportRowStatus = "new" | "duplicate" | "locked" | "invalid";
+
+/**
+ * A parsed statement row ready for review before import
+ */
+export interface ImportDraftRow {
+  /** Row number in the parsed file (1-based, blank lines skipped), for display */
+  line: number;
+  date: string; // YYYY-MM-DD
+  amount: number; // always positive
+  direction: TransactionDirection;
+  category: CategoryName;
+  note?: string;
+
+  /** Stable bank reference (OFX FITID, CAMT.053 entry ref) when the format provides one */
+  externalId?: string;
+
+  status: ImportRowStatus;
+
+  /** Why the row is duplicate, locked or invalid */
+  reason?: string;
+}
@@ -0,0 +1,58 @@
+/**
+ * A brokerage, CPF investment or robo-advisor account.
+ * Holdings and prices in an account are in the account's currency.
+ */
+export interface InvestmentAccount {
+  id: string;
+  name: string;
+  currency: string; // e.g. "SGD"
+  createdAt: string; // ISO
+}
+
+/**
+ * A purchase of a holding; sales use the oldest lots first (FIFO)
+ */
+export interface InvestmentLot {
+  id: string;
+  date: string; // YYYY-MM-DD
+  quantity: number;
+  unitCost: number;
+  fees: number;
+  transactionId?: string; // Investments transaction that paid for the lot
+}
+
+export interface InvestmentSale {
+  id: string;
+  date: string; // YYYY-MM-DD
+  quantity: number;
+  unitPrice: number;
+  fees: number;
+}
+
+/**
+ * One security (by symbol) held in an account
+ */
+export interface Holding {
+  id: string;
+  accountId: string;
+  symbol: string; // e.g. "ES3"
+  name: string;
+  lots: InvestmentLot[]; // date order
+  sales: InvestmentSale[]; // date order
+  createdAt: string; // ISO
+  updatedAt: string; // ISO
+}
+
+/**
+ * A dated market price for a symbol, in its account's currency
+ */
+export interface SecurityPrice {
+  id: string;
+  date: string; // YYYY-MM-DD
+  symbol: string;
+  price: number;
+  source: "manual" | "csv";
+  createdAt: string; // ISO
+}
+
+export type SecurityPriceInput = Omit<SecurityPrice, "id" | "createdAt">;
@@ -0,0 +1,28 @@
+/**
+ * Amortising loan terms attached to a liability (mortgage, car loan).
+ * Payments are Debt transactions linked to the liability; the balance is
+ * derived from the terms and those payments.
+ */
+export interface LoanTerms {
+  liabilityId: string;
+  principal: number; // amount borrowed, in the liability's currency
+  annualRate: number; // percent, e.g. 3.5
+  termMonths: number;
+  startDate: string; // YYYY-MM-DD; the first payment falls in the following month
+  updatedAt: string; // ISO
+}
+
+export type LoanTermsInput = Omit<LoanTerms, "liabilityId" | "updatedAt">;
+
+/**
+ * One month of a loan: scheduled (amortisation), actual (linked payments)
+ * or projected (after the current period)
+ */
+export interface LoanScheduleRow {
+  period: string; // YYYY-MM
+  payment: number;
+  interest: number;
+  principal: number; // negative when the payment did not cover interest
+  balance: number; // outstanding after this month
+  kind: "scheduled" | "actual" | "projected";
+}
@@ -0,0 +1,57 @@
+import type { AssetType, LiabilityType } from "../constants/netWorth";
+
+/**
+ * A dated value of an asset, or balance owed on a liability
+ */
+export interface Valuation {
+  id: string;
+  date: string; // YYYY-MM-DD
+  value: number; // always positive
+  note?: string;
+}
+
+/**
+ * Shared shape of assets and liabilities.
+ * Valuations are kept in date order (oldest first); the latest is the current value.
+ */
+export interface NetWorthItem<TType extends string> {
+  id: string;
+  name: string;
+  type: TType;
+  currency: string; // e.g. "SGD"
+  valuations: Valuation[];
+  note?: string;
+  createdAt: string; // ISO
+  updatedAt: string; // ISO
+}
+
+export type Asset = NetWorthItem<AssetType>;
+export type Liability = NetWorthItem<LiabilityType>;
+
+/**
+ * Fields for creating an item, with its first valuation
+ */
+export interface NetWorthItemInput<TType extends string> {
+  name: string;
+  type: TType;
+  currency: string;
+  value: number;
+  date: string; // YYYY-MM-DD
+  note?: string;
+}
+
+/**
+ * Net worth recorded for a period (YYYY-MM), valued at the period's last day
+ * and converted into the household base currency
+ */
+export interface NetWorthSnapshot {
+  period: string; // YYYY-MM
+  assets: number;
+  liabilities: number;
+  netWorth: number;
+  currency: string;
+  /** Currencies that had no exchange rate and were counted unconverted */
+  unconverted: string[];
+  source: "lock" | "manual";
+  capturedAt: string; // ISO
+}
@@ -2,11 +2,13 @@ import type { CategoryName } from "../constants/categories";
 
 /**
  * Frequency for scheduled transactions
+ * Weekly and fortnightly repeat every 7 or 14 days from the start date; the
+ * others fall on the rule's day in every 1, 3, 12 or `intervalMonths` months.
  */
-export type ScheduledFrequency = "monthly" | "yearly";
+export type ScheduledFrequency = "weekly" | "fortnightly" | "monthly" | "quarterly" | "yearly" | "everyNMonths";
 
 /**
- * Rule for determining the execution day
+ * Rule for determining the execution day (month-based frequencies)
  */
 export type ScheduledRule = "dayOfMonth" | "endOfMonth";
 
@@ -20,6 +22,11 @@ export type ScheduledDirection = "out" | "in";
  */
 export type ScheduledMatchMode = "amountOnly" | "keyword" | "both";
 
+/**
+ * How an amount tolerance is measured: in money or as a percent of the expected amount
+ */
+export type ScheduledToleranceType = "absolute" | "percent";
+
 /**
  * Template for a scheduled transaction
  * Defines recurring transactions with flexible scheduling rules
@@ -46,15 +53,33 @@ export interface ScheduledTransactionTemplate {
   /** How often the transaction occurs */
   frequency: ScheduledFrequency;
 
+  /** Months between occurrences when frequency is everyNMonths */
+  intervalMonths?: number;
+
   /** Rule for determining execution day */
   rule: ScheduledRule;
 
   /** Day of month (1-31) when using dayOfMonth rule */
   day?: number;
 
+  /**
+   * First possible occurrence (YYYY-MM-DD). Anchors the weekday of weekly and
+   * fortnightly schedules and the month of quarterly, yearly and every-N-months ones.
+   */
+  startDate?: string;
+
+  /** Last possible occurrence (YYYY-MM-DD), e.g. the final instalment */
+  endDate?: string;
+
   /** Whether this scheduled transaction is active */
   active: boolean;
 
+  /** Post a pending transaction on each expected date while its period is open */
+  autoPost?: boolean;
+
+  /** Expected dates (YYYY-MM-DD) skipped for this template; nothing is expected or posted on them */
+  skippedDates?: string[];
+
   /** Optional note for the transaction */
   note?: string;
 
@@ -63,4 +88,19 @@ export interface ScheduledTransactionTemplate {
 
   /** Keyword to match for auto-categorization */
   matchKeyword?: string;
+
+  /** How far a matching amount may be from `amount`, for bills that vary (default: exact to the cent) */
+  amountTolerance?: number;
+
+  /** Whether amountTolerance is money or a percent of `amount` (default absolute) */
+  amountToleranceType?: ScheduledToleranceType;
+
+  /**
+   * Days either side of the expected date a match may fall on, crossing into
+   * other months if needed (0-31). Unset matches anywhere in the same month.
+   */
+  matchWindowDays?: number;
+
+  /** Loan this Debt payment repays; posted transactions carry the link */
+  liabilityId?: string;
 }
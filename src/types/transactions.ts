@@ -2,11 +2,36 @@ import type { CategoryName } from "../constants/categories";
 
 export type TransactionDirection = "out" | "in";
 
+/**
+ * One line of a split transaction; a split's line amounts sum to the transaction amount
+ */
+export type TransactionSplit = {
+  category: CategoryName;
+  subcategory?: CategoryName;
+  amount: number; // always positive, in the transaction's currency
+};
+
 export type MoneyTransaction = {
   id: string;
   date: string; // YYYY-MM-DD
-  category: CategoryName;
+  category: CategoryName; // top-level category (what plans allocate)
+  subcategory?: CategoryName; // optional subcategory of `category`, for reporting
   amount: number; // always positive
+  currency?: string; // e.g. "USD"; unset means the household base currency
   direction: TransactionDirection;
   note?: string;
+  externalId?: string; // bank reference (OFX FITID / CAMT.053 entry ref), makes re-import idempotent
+  liabilityId?: string; // loan this Debt payment repays
+  splits?: TransactionSplit[]; // two or more lines; `category` is then the first line's category
+  accountId?: string; // account the money left ("out") or arrived in ("in")
+  transferId?: string; // shared by the two legs of a transfer between own accounts
+  reconciliationId?: string; // statement reconciliation this row was cleared in; protected from edits
+  pending?: boolean; // posted automatically from a schedule and not confirmed yet; left out of actuals
+  scheduledTemplateId?: string; // scheduled template this row was posted from
+  scheduledDate?: string; // YYYY-MM-DD occurrence of that template the row stands for
 };
+
+/**
+ * A transaction to add; without a category, the first matching category rule supplies one
+ */
+export type NewTransactionInput = Omit<MoneyTransaction, "id" | "category"> & { category?: CategoryName };
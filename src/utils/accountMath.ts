@@ -0,0 +1,101 @@
+/**
+ * Account balances
+ * An account's balance is its opening balance plus the transactions assigned
+ * to it from the opening date ("in" adds, "out" subtracts), transfer legs included.
+ */
+
+import type { Account } from "../types/accounts";
+import type { MoneyTransaction } from "../types/transactions";
+import type { Asset, Liability, Valuation } from "../types/netWorth";
+
+function round2(value: number): number {
+  return Math.round((value + Number.EPSILON) * 100) / 100;
+}
+
+/**
+ * What a transaction adds to its account's balance
+ */
+export function signedAmount(t: MoneyTransaction): number {
+  return t.direction === "in" ? t.amount : -t.amount;
+}
+
+/**
+ * Transactions counted towards an account, oldest first
+ */
+export function accountMovements(account: Account, transactions: MoneyTransaction[]): MoneyTransaction[] {
+  return transactions
+    .filter((t) => t.accountId === account.id && t.date >= account.openingDate)
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * Signed balance of an account at the end of a date (defaults to all movements)
+ */
+export function accountBalance(account: Account, transactions: MoneyTransaction[], asOf?: string): number {
+  let balance = account.openingBalance;
+  for (const t of accountMovements(account, transactions)) {
+    if (asOf && t.date > asOf) break;
+    balance += signedAmount(t);
+  }
+  return round2(balance);
+}
+
+/**
+ * An account's movements, oldest first, each with the balance after it
+ */
+export function runningBalances(
+  account: Account,
+  transactions: MoneyTransaction[]
+): { transaction: MoneyTransaction; balance: number }[] {
+  let balance = account.openingBalance;
+  return accountMovements(account, transactions).map((transaction) => {
+    balance += signedAmount(transaction);
+    return { transaction, balance: round2(balance) };
+  });
+}
+
+/**
+ * Opening balance plus every movement already cleared in a reconciliation
+ */
+export function reconciledBalance(account: Account, transactions: MoneyTransaction[]): number {
+  return round2(
+    accountMovements(account, transactions)
+      .filter((t) => t.reconciliationId)
+      .reduce((sum, t) => sum + signedAmount(t), account.openingBalance)
+  );
+}
+
+/**
+ * Accounts as net worth items valued on their opening date and every date
+ * money moved: credit cards as liabilities (the amount owed), the rest as
+ * cash assets. Archived accounts still count while they hold a balance.
+ */
+export function accountsAsNetWorth(
+  accounts: Account[],
+  transactions: MoneyTransaction[]
+): { assets: Asset[]; liabilities: Liability[] } {
+  const assets: Asset[] = [];
+  const liabilities: Liability[] = [];
+
+  for (const account of accounts) {
+    const isCard = account.type === "creditCard";
+    const dates = new Set([account.openingDate, ...accountMovements(account, transactions).map((t) => t.date)]);
+    const valuations: Valuation[] = [...dates].sort().map((date) => {
+      const balance = accountBalance(account, transactions, date);
+      return { id: `${account.id}-${date}`, date, value: isCard ? -balance : balance };
+    });
+
+    const item = {
+      id: `account-${account.id}`,
+      name: account.name,
+      currency: account.currency,
+      valuations,
+      createdAt: account.createdAt,
+      updatedAt: account.updatedAt,
+    };
+    if (isCard) liabilities.push({ ...item, type: "creditCard" });
+    else assets.push({ ...item, type: "cash" });
+  }
+
+  return { assets, liabilities };
+}
@@ -0,0 +1,99 @@
+/**
+ * ISO 20022 CAMT.053 (bank-to-customer statement) parsing
+ * Uses the browser DOMParser; element lookups ignore namespaces so
+ * camt.053.001.02 through .08 all parse the same way.
+ */
+
+import type { CategoryName } from "../constants/categories";
+import type { ImportDraftRow } from "../types/import";
+
+/**
+ * Find the first descendant element by local name
+ */
+function child(parent: Element | Document, localName: string): Element | undefined {
+  return parent.getElementsByTagNameNS("*", localName)[0];
+}
+
+/**
+ * Text content of a descendant path, e.g. text(entry, "BookgDt", "Dt")
+ */
+function text(parent: Element | Document, ...path: string[]): string | undefined {
+  let node: Element | Document | undefined = parent;
+  for (const name of path) {
+    node = node ? child(node, name) : undefined;
+  }
+  const value = node?.textContent?.trim();
+  return value || undefined;
+}
+
+/**
+ * Check whether text looks like a CAMT.053 document
+ */
+export function isCamt053(text: string): boolean {
+  return /camt\.053|<BkToCstmrStmt/i.test(text.slice(0, 4000));
+}
+
+/**
+ * Parse CAMT.053 XML into import drafts.
+ * The servicer reference (AcctSvcrRef) or entry reference (NtryRef),
+ * scoped by account IBAN, becomes the externalId.
+ * Pending entries (status PDNG) are kept as invalid rows so the preview can explain them.
+ * @throws Error if the XML is malformed
+ */
+export function parseCamt053(xml: string, defaultCategory: CategoryName): ImportDraftRow[] {
+  const doc = new DOMParser().parseFromString(xml, "application/xml");
+  if (doc.getElementsByTagName("parsererror").length > 0) {
+    throw new Error("File is not valid XML");
+  }
+
+  const drafts: ImportDraftRow[] = [];
+  let line = 0;
+
+  for (const stmt of Array.from(doc.getElementsByTagNameNS("*", "Stmt"))) {
+    const acct = child(stmt, "Acct");
+    const accountId = (acct && (text(acct, "IBAN") ?? text(acct, "Id", "Othr", "Id"))) ?? "unknown";
+
+    for (const entry of Array.from(stmt.getElementsByTagNameNS("*", "Ntry"))) {
+      line++;
+
+      const date = text(entry, "BookgDt", "Dt") ?? text(entry, "BookgDt", "DtTm")?.slice(0, 10) ??
+        text(entry, "ValDt", "Dt");
+      const amount = Number(text(entry, "Amt") ?? NaN);
+      const indicator = text(entry, "CdtDbtInd");
+      // Sts is a plain code up to .001.08, then wrapped in <Cd>
+      const status = text(entry, "Sts", "Cd") ?? text(entry, "Sts");
+      const ref = text(entry, "AcctSvcrRef") ?? text(entry, "NtryRef");
+
+      const note =
+        text(entry, "RmtInf", "Ustrd") ??
+        text(entry, "AddtlTxInf") ??
+        text(entry, "AddtlNtryInf") ??
+        text(entry, "RltdPties", "Cdtr", "Nm") ??
+        text(entry, "RltdPties", "Dbtr", "Nm");
+
+      const base = {
+        line,
+        date: date && /^\d{4}-\d{2}-\d{2}$/.test(date) ? date : "",
+        amount: Number.isFinite(amount) ? Math.abs(amount) : 0,
+        direction: (indicator === "CRDT" ? "in" : "out") as ImportDraftRow["direction"],
+        category: defaultCategory,
+        note,
+        externalId: ref ? `camt:${accountId}:${ref}` : undefined,
+      };
+
+      if (status === "PDNG") {
+        drafts.push({ ...base, status: "invalid", reason: "Pending entry (not yet booked)" });
+      } else if (!base.date) {
+        drafts.push({ ...base, status: "invalid", reason: "Missing booking date" });
+      } else if (base.amount <= 0) {
+        drafts.push({ ...base, status: "invalid", reason: "Missing or zero amount" });
+      } else if (indicator !== "CRDT" && indicator !== "DBIT") {
+        drafts.push({ ...base, status: "invalid", reason: "Missing credit/debit indicator" });
+      } else {
+        drafts.push({ ...base, status: "new" });
+      }
+    }
+  }
+
+  return drafts;
+}
@@ -0,0 +1,242 @@
+/**
+ * Credit card statement cycles
+ * A card's statement closes on its statement day each month (clamped to the
+ * month's last day) and is due on the first due day after it closes. Payments
+ * are transfers into the card, Debt refunds recorded on the card, and Debt
+ * expenses from elsewhere that name the card or (failing that) match the
+ * unpaid balance, made after the statement closed and by its due date or the
+ * next closing, whichever is later. Payments from other accounts are taken
+ * off the balance carried into later statements.
+ */
+
+import type { Account, CardStatement } from "../types/accounts";
+import type { MoneyTransaction } from "../types/transactions";
+import { accountBalance, accountMovements } from "./accountMath";
+import { nextPeriod } from "./envelopeMath";
+import { periodEndDate } from "./netWorthMath";
+
+function round2(value: number): number {
+  return Math.round((value + Number.EPSILON) * 100) / 100;
+}
+
+/**
+ * A day in a period, clamped to the period's last day
+ */
+function dayInPeriod(period: string, day: number): string {
+  const last = periodEndDate(period);
+  return day >= Number(last.slice(8)) ? last : `${period}-${String(day).padStart(2, "0")}`;
+}
+
+function dayAfter(date: string): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + 1);
+  return d.toISOString().slice(0, 10);
+}
+
+/**
+ * Payment due date for a statement closing on a date
+ */
+export function cardDueDate(closingDate: string, dueDay: number): string {
+  const period = closingDate.slice(0, 7);
+  const sameMonth = dayInPeriod(period, dueDay);
+  return sameMonth > closingDate ? sameMonth : dayInPeriod(nextPeriod(period), dueDay);
+}
+
+/**
+ * Whether a transaction could be a payment towards this card
+ */
+function isCardPayment(card: Account, t: MoneyTransaction): boolean {
+  if (t.accountId === card.id) {
+    return t.direction === "in" && (Boolean(t.transferId) || t.category === "Debt");
+  }
+  return t.direction === "out" && t.category === "Debt" && !t.transferId && !t.liabilityId && !t.splits;
+}
+
+interface Cycle {
+  periodStart: string;
+  closingDate: string;
+  dueDate: string;
+  nextClosing: string;
+  /** Owed on the card's own ledger at closing, before payments made from other accounts */
+  owed: number;
+  balance: number;
+  charges: number;
+  payments: MoneyTransaction[];
+}
+
+/**
+ * Statement cycles of a card with a statement and due day, oldest first, up
+ * to and including the cycle that is still open on `today` (no payments yet)
+ */
+function cardCycles(card: Account, transactions: MoneyTransaction[], today: string): Cycle[] {
+  if (card.type !== "creditCard" || card.statementDay === undefined || card.dueDay === undefined) return [];
+  const statementDay = card.statementDay;
+  const dueDay = card.dueDay;
+
+  // Closing dates from the first one on or after the opening date, to the first one on or after today
+  const closingDates: string[] = [];
+  let period = card.openingDate.slice(0, 7);
+  if (dayInPeriod(period, statementDay) < card.openingDate) period = nextPeriod(period);
+  for (;;) {
+    const closing = dayInPeriod(period, statementDay);
+    closingDates.push(closing);
+    if (closing >= today) break;
+    period = nextPeriod(period);
+  }
+
+  const movements = accountMovements(card, transactions);
+  return closingDates.map((closingDate, i) => {
+    const periodStart = i === 0 ? card.openingDate : dayAfter(closingDates[i - 1]);
+    const nextClosing = dayInPeriod(nextPeriod(closingDate.slice(0, 7)), statementDay);
+    const dueDate = cardDueDate(closingDate, dueDay);
+    return {
+      periodStart,
+      closingDate,
+      dueDate,
+      nextClosing,
+      owed: -accountBalance(card, transactions, closingDate),
+      balance: 0,
+      charges: round2(
+        movements
+          .filter((t) => t.direction === "out" && t.date >= periodStart && t.date <= closingDate)
+          .reduce((sum, t) => sum + t.amount, 0)
+      ),
+      payments: [],
+    };
+  });
+}
+
+function paidTotal(cycle: Cycle): number {
+  return round2(cycle.payments.reduce((sum, t) => sum + t.amount, 0));
+}
+
+/**
+ * The card a note names; the longest name wins, so "Visa Gold" is not read as "Visa"
+ */
+function cardNamedIn(cards: Account[], t: MoneyTransaction): Account | null {
+  const note = (t.note ?? "").toLowerCase();
+  if (!note) return null;
+  let named: Account | null = null;
+  for (const card of cards) {
+    const name = card.name.toLowerCase();
+    if (name && note.includes(name) && (!named || name.length > named.name.length)) named = card;
+  }
+  return named;
+}
+
+/**
+ * Statements of every card, keyed by account id. Each payment counts towards
+ * one statement of one card: those on the card itself or whose note names the
+ * card, then, for statements still unpaid, a Debt expense from elsewhere that
+ * names no card and matches the unpaid balance. Payments from other accounts
+ * are not on the card's ledger, so they are taken off later statements' balances.
+ */
+export function allCardStatements(
+  cards: Account[],
+  transactions: MoneyTransaction[],
+  today: string
+): Map<string, CardStatement[]> {
+  const cycles = new Map(cards.map((card) => [card.id, cardCycles(card, transactions, today)]));
+  const creditCards = cards.filter((card) => (cycles.get(card.id) ?? []).length > 0);
+  const used = new Set<string>();
+  const oldestFirst = [...transactions].sort((a, b) => a.date.localeCompare(b.date));
+
+  const claim = (card: Account, cycle: Cycle, matches: (t: MoneyTransaction) => boolean) => {
+    for (const t of oldestFirst) {
+      if (used.has(t.id) || !isCardPayment(card, t) || t.date <= cycle.closingDate) continue;
+      // Payments count until the next closing, or until the due date if that is
+      // later (the next cycle's window then overlaps, so only while still unpaid)
+      const inWindow =
+        t.date <= cycle.nextClosing ||
+        (t.date <= cycle.dueDate && paidTotal(cycle) < cycle.balance - 0.005);
+      if (!inWindow || !matches(t)) continue;
+      cycle.payments.push(t);
+      used.add(t.id);
+    }
+  };
+
+  // Every card's cycles in closing order, so earlier claims are known when a balance is worked out
+  const ordered = creditCards
+    .flatMap((card) => (cycles.get(card.id) ?? []).map((cycle) => ({ card, cycle })))
+    .sort((a, b) => a.cycle.closingDate.localeCompare(b.cycle.closingDate));
+
+  for (const { card, cycle } of ordered) {
+    const paidElsewhere = (cycles.get(card.id) ?? [])
+      .flatMap((c) => c.payments)
+      .filter((t) => t.accountId !== card.id && t.date <= cycle.closingDate)
+      .reduce((sum, t) => sum + t.amount, 0);
+    cycle.balance = round2(Math.max(0, cycle.owed - paidElsewhere));
+    if (cycle.closingDate >= today) continue;
+
+    claim(card, cycle, (t) => t.accountId === card.id || cardNamedIn(creditCards, t)?.id === card.id);
+    claim(card, cycle, (t) => {
+      const unpaid = round2(cycle.balance - paidTotal(cycle));
+      if (t.accountId === card.id || cardNamedIn(creditCards, t)) return false;
+      return unpaid > 0 && Math.abs(t.amount - unpaid) < 0.01;
+    });
+  }
+
+  const statements = new Map<string, CardStatement[]>();
+  for (const card of cards) {
+    statements.set(
+      card.id,
+      (cycles.get(card.id) ?? []).map((cycle) => {
+        const paid = paidTotal(cycle);
+
+        let status: CardStatement["status"];
+        if (cycle.closingDate >= today) status = "open";
+        else if (paid >= cycle.balance - 0.005) status = "paid";
+        else status = today > cycle.dueDate ? "overdue" : "due";
+
+        return {
+          accountId: card.id,
+          periodStart: cycle.periodStart,
+          closingDate: cycle.closingDate,
+          dueDate: cycle.dueDate,
+          balance: cycle.balance,
+          charges: cycle.charges,
+          paid,
+          paymentIds: cycle.payments.map((t) => t.id),
+          status,
+        };
+      })
+    );
+  }
+  return statements;
+}
+
+/**
+ * Statements of one card, oldest first. Pass every account so a payment
+ * another card already accounts for is not counted again.
+ */
+export function cardStatements(
+  card: Account,
+  transactions: MoneyTransaction[],
+  today: string,
+  accounts: Account[] = [card]
+): CardStatement[] {
+  const cards = accounts.some((a) => a.id === card.id) ? accounts : [...accounts, card];
+  return allCardStatements(cards, transactions, today).get(card.id) ?? [];
+}
+
+/**
+ * Each card's latest closed statement if it is not paid off, soonest due
+ * first. Earlier statements are left out: their unpaid balance carries into
+ * the latest one.
+ */
+export function upcomingCardPayments(
+  accounts: Account[],
+  transactions: MoneyTransaction[],
+  today: string
+): { account: Account; statement: CardStatement; remaining: number }[] {
+  const statements = allCardStatements(accounts, transactions, today);
+  return accounts
+    .filter((a) => !a.archived)
+    .flatMap((account) => {
+      const statement = (statements.get(account.id) ?? []).filter((s) => s.status !== "open").pop();
+      return statement && (statement.status === "due" || statement.status === "overdue")
+        ? [{ account, statement, remaining: round2(statement.balance - statement.paid) }]
+        : [];
+    })
+    .sort((a, b) => a.statement.dueDate.localeCompare(b.statement.dueDate));
+}
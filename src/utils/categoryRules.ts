@@ -0,0 +1,103 @@
+/**
+ * Rule-based auto-categorisation
+ * Evaluates user-defined rules against transactions (or import drafts).
+ * The transactions store applies the rules to any row added without a
+ * category; the pages use them to suggest a category before saving.
+ */
+
+import type { CategoryName } from "../constants/categories";
+import type { CategoryRule, CategoryRuleConditions } from "../types/categoryRules";
+import type { MoneyTransaction } from "../types/transactions";
+
+/**
+ * The transaction fields rules look at
+ */
+export type RuleSubject = Pick<MoneyTransaction, "date" | "amount" | "direction" | "note">;
+
+/**
+ * Check a note against the rule's note pattern.
+ * An invalid regex never matches (validation happens when the rule is saved).
+ */
+function noteMatches(note: string | undefined, conditions: CategoryRuleConditions): boolean {
+  const pattern = conditions.notePattern?.trim();
+  if (!pattern) return true;
+
+  const text = note ?? "";
+  if (conditions.noteMatch === "regex") {
+    try {
+      return new RegExp(pattern, "i").test(text);
+    } catch {
+      return false;
+    }
+  }
+  return text.toLowerCase().includes(pattern.toLowerCase());
+}
+
+/**
+ * Check if a transaction meets every condition set on a rule
+ */
+export function ruleMatches(rule: CategoryRule, tx: RuleSubject): boolean {
+  const c = rule.conditions;
+
+  if (c.direction && tx.direction !== c.direction) return false;
+  if (c.minAmount !== undefined && tx.amount < c.minAmount) return false;
+  if (c.maxAmount !== undefined && tx.amount > c.maxAmount) return false;
+
+  if (c.dayFrom !== undefined || c.dayTo !== undefined) {
+    const day = parseInt(tx.date.slice(8, 10), 10);
+    if (isNaN(day)) return false;
+    if (c.dayFrom !== undefined && day < c.dayFrom) return false;
+    if (c.dayTo !== undefined && day > c.dayTo) return false;
+  }
+
+  return noteMatches(tx.note, c);
+}
+
+/**
+ * Find the first active rule matching a transaction
+ */
+export function findMatchingRule(rules: CategoryRule[], tx: RuleSubject): CategoryRule | null {
+  return rules.find((rule) => rule.active && ruleMatches(rule, tx)) ?? null;
+}
+
+/**
+ * Assign categories to rows using the rules; rows with no match keep their category
+ */
+export function applyCategoryRules<T extends RuleSubject & { category: CategoryName }>(
+  rows: T[],
+  rules: CategoryRule[]
+): T[] {
+  return rows.map((row) => {
+    const rule = findMatchingRule(rules, row);
+    return rule ? { ...row, category: rule.category } : row;
+  });
+}
+
+export interface RuleChange {
+  transaction: MoneyTransaction;
+  from: CategoryName;
+  to: CategoryName;
+  ruleId: string;
+}
+
+/**
+ * Preview what running the rules over existing history would change.
+ * Only transactions whose category would actually differ are returned.
+ */
+export function previewRuleChanges(
+  rules: CategoryRule[],
+  transactions: MoneyTransaction[]
+): RuleChange[] {
+  const changes: RuleChange[] = [];
+
+  for (const tx of transactions) {
+    // Split transactions keep the categories chosen for their lines; transfers have none
+    if (tx.splits || tx.transferId) continue;
+    const rule = findMatchingRule(rules, tx);
+    if (rule && rule.category !== tx.category) {
+      changes.push({ transaction: tx, from: tx.category, to: rule.category, ruleId: rule.id });
+    }
+  }
+
+  return changes;
+}
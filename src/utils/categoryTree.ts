@@ -0,0 +1,79 @@
+/**
+ * Category tree helpers
+ * Pure lookups over the category list (see categoriesStore) for pickers and labels.
+ */
+
+import type { CategoryName } from "../constants/categories";
+import type { Category } from "../types/categories";
+import type { MoneyTransaction } from "../types/transactions";
+
+/**
+ * Display name of a category id. Unknown ids (e.g. from another device) show as-is.
+ * Names frozen in a locked period's snapshot take precedence when given.
+ */
+export function categoryLabel(
+  categories: Category[],
+  id: CategoryName,
+  frozenNames?: Record<string, string>
+): string {
+  return frozenNames?.[id] ?? categories.find((c) => c.id === id)?.name ?? id;
+}
+
+/**
+ * "Parent › Child" for a transaction's category and optional subcategory
+ */
+export function categoryPathLabel(
+  categories: Category[],
+  categoryId: CategoryName,
+  subcategoryId?: CategoryName,
+  frozenNames?: Record<string, string>
+): string {
+  const parent = categoryLabel(categories, categoryId, frozenNames);
+  return subcategoryId ? `${parent} › ${categoryLabel(categories, subcategoryId, frozenNames)}` : parent;
+}
+
+/**
+ * A transaction's category path, or "Split: A, B" for a split transaction
+ */
+export function transactionCategoryLabel(
+  categories: Category[],
+  tx: Pick<MoneyTransaction, "category" | "subcategory" | "splits">,
+  frozenNames?: Record<string, string>
+): string {
+  if (!tx.splits) return categoryPathLabel(categories, tx.category, tx.subcategory, frozenNames);
+  const names = [...new Set(tx.splits.map((line) => categoryLabel(categories, line.category, frozenNames)))];
+  return `Split: ${names.join(", ")}`;
+}
+
+/**
+ * Whether a category can be picked: not archived and not under an archived parent
+ */
+export function isCategoryActive(categories: Category[], category: Category): boolean {
+  if (category.archived) return false;
+  const parent = category.parentId ? categories.find((c) => c.id === category.parentId) : undefined;
+  return !parent?.archived;
+}
+
+/**
+ * Top-level categories for a picker: active ones, plus `keep` (the current
+ * value of the record being edited) even if it has since been archived
+ */
+export function topLevelOptions(categories: Category[], keep?: CategoryName): Category[] {
+  return categories.filter((c) => !c.parentId && (isCategoryActive(categories, c) || c.id === keep));
+}
+
+/**
+ * Subcategories of a top-level category for a picker (active ones plus `keep`)
+ */
+export function subcategoryOptions(categories: Category[], parentId: CategoryName, keep?: CategoryName): Category[] {
+  return categories
+    .filter((c) => c.parentId === parentId && (isCategoryActive(categories, c) || c.id === keep))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Names of every category by id (frozen into period snapshots at lock time)
+ */
+export function categoryNameRecord(categories: Category[]): Record<string, string> {
+  return Object.fromEntries(categories.map((c) => [c.id, c.name]));
+}
@@ -0,0 +1,199 @@
+/**
+ * Bank CSV statement parsing
+ * Turns raw CSV text into transaction drafts using a user-defined column mapping.
+ */
+
+import type { CategoryName } from "../constants/categories";
+import type { CsvColumnMapping, CsvDateFormat, ImportDraftRow } from "../types/import";
+
+/**
+ * Parse CSV text into rows of cells.
+ * Supports quoted cells, escaped quotes ("") and CRLF line endings.
+ * Blank lines are dropped.
+ */
+export function parseCsv(text: string, delimiter: CsvColumnMapping["delimiter"] = ","): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let inQuotes = false;
+
+  const input = text.replace(/^\uFEFF/, ""); // Strip BOM from Excel exports
+
+  for (let i = 0; i < input.length; i++) {
+    const ch = input[i];
+
+    if (inQuotes) {
+      if (ch === '"') {
+        if (input[i + 1] === '"') {
+          cell += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        cell += ch;
+      }
+      continue;
+    }
+
+    if (ch === '"') {
+      inQuotes = true;
+    } else if (ch === delimiter) {
+      row.push(cell);
+      cell = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && input[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += ch;
+    }
+  }
+
+  // Flush last cell/row (file may not end with a newline)
+  if (cell !== "" || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows
+    .map((r) => r.map((c) => c.trim()))
+    .filter((r) => r.some((c) => c !== ""));
+}
+
+/**
+ * Parse a bank amount string into a signed number.
+ * Handles currency symbols, thousands separators and accounting negatives "(12.50)".
+ * The decimal separator is the last "," or "." when 1-2 digits follow it, so
+ * "1.234,56" and "12,50" read as 1234.56 and 12.5; any other separator groups thousands.
+ * @returns signed number or null if unparseable
+ */
+export function parseAmount(value: string): number | null {
+  let s = value.trim();
+  if (!s) return null;
+
+  let negative = false;
+  if (s.startsWith("(") && s.endsWith(")")) {
+    negative = true;
+    s = s.slice(1, -1);
+  }
+  if (s.endsWith("-")) {
+    negative = true;
+    s = s.slice(0, -1);
+  }
+
+  s = s.replace(/[^0-9.,-]/g, "");
+  if (s.startsWith("-")) {
+    negative = !negative;
+    s = s.slice(1);
+  }
+
+  const decimal = /[.,](\d{1,2})$/.exec(s);
+  const whole = (decimal ? s.slice(0, decimal.index) : s).replace(/[.,]/g, "");
+  s = decimal ? `${whole}.${decimal[1]}` : whole;
+
+  if (!s || !/^\d*\.?\d+$/.test(s)) return null;
+
+  const n = Number(s);
+  if (!Number.isFinite(n)) return null;
+  return negative ? -n : n;
+}
+
+/**
+ * Parse a date string in the given layout into ISO YYYY-MM-DD.
+ * @returns ISO date or null if invalid
+ */
+export function parseDate(value: string, format: CsvDateFormat): string | null {
+  const s = value.trim();
+  let year: number;
+  let month: number;
+  let day: number;
+
+  if (format === "YYYY-MM-DD") {
+    const m = /^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})/.exec(s);
+    if (!m) return null;
+    [year, month, day] = [Number(m[1]), Number(m[2]), Number(m[3])];
+  } else {
+    const m = /^(\d{1,2})[-/.](\d{1,2})[-/.](\d{2,4})/.exec(s);
+    if (!m) return null;
+    const first = Number(m[1]);
+    const second = Number(m[2]);
+    year = Number(m[3]);
+    if (year < 100) year += 2000;
+    if (format === "DD/MM/YYYY") {
+      day = first;
+      month = second;
+    } else {
+      month = first;
+      day = second;
+    }
+  }
+
+  if (month < 1 || month > 12 || day < 1) return null;
+  const daysInMonth = new Date(year, month, 0).getDate();
+  if (day > daysInMonth) return null;
+
+  return `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+}
+
+/**
+ * Map parsed CSV rows to import drafts.
+ * Rows that cannot be parsed are kept with status "invalid" so the preview can explain them.
+ * Duplicate and lock checks are applied separately (see reviewImportRows).
+ */
+export function mapCsvRows(
+  rows: string[][],
+  mapping: CsvColumnMapping,
+  defaultCategory: CategoryName
+): ImportDraftRow[] {
+  const drafts: ImportDraftRow[] = [];
+  const startIndex = mapping.hasHeader ? 1 : 0;
+
+  for (let i = startIndex; i < rows.length; i++) {
+    const cells = rows[i];
+    const line = i + 1;
+
+    const date = parseDate(cells[mapping.dateColumn] ?? "", mapping.dateFormat);
+    const signed = parseAmount(cells[mapping.amountColumn] ?? "");
+    const noteRaw = mapping.noteColumn !== undefined ? cells[mapping.noteColumn] ?? "" : "";
+    const note = noteRaw.trim() || undefined;
+
+    if (!date || signed === null || signed === 0) {
+      drafts.push({
+        line,
+        date: date ?? "",
+        amount: Math.abs(signed ?? 0),
+        direction: "out",
+        category: defaultCategory,
+        note,
+        status: "invalid",
+        reason: !date ? "Unreadable date" : "Missing or zero amount",
+      });
+      continue;
+    }
+
+    let direction: ImportDraftRow["direction"];
+    if (mapping.signMode === "column" && mapping.directionColumn !== undefined) {
+      const marker = (cells[mapping.directionColumn] ?? "").trim().toLowerCase();
+      const outflow = (mapping.outflowValue ?? "").trim().toLowerCase();
+      direction = outflow && marker === outflow ? "out" : "in";
+    } else {
+      const value = mapping.invertSign ? -signed : signed;
+      direction = value < 0 ? "out" : "in";
+    }
+
+    drafts.push({
+      line,
+      date,
+      amount: Math.abs(signed),
+      direction,
+      category: defaultCategory,
+      note,
+      status: "new",
+    });
+  }
+
+  return drafts;
+}
@@ -0,0 +1,102 @@
+/**
+ * Envelope math
+ * In envelope mode a category's available money is its planned allocation
+ * plus whatever it carried in from the previous period, less its outflows.
+ * Overspending carries in full; caps only limit unspent money carried over.
+ */
+
+import type { CategoryName } from "../constants/categories";
+import type { DistributionTarget, EnvelopeBalance, EnvelopeSettings } from "../types/distribution";
+import { computeAllocations } from "./distributionMath";
+
+function round2(value: number): number {
+  return Math.round((value + Number.EPSILON) * 100) / 100;
+}
+
+function isCategory(value: unknown): value is CategoryName {
+  return typeof value === "string" && value !== "";
+}
+
+/**
+ * The period after a YYYY-MM key
+ */
+export function nextPeriod(period: string): string {
+  const [year, month] = period.split("-").map(Number);
+  return month === 12 ? `${year + 1}-01` : `${year}-${String(month + 1).padStart(2, "0")}`;
+}
+
+/**
+ * Normalize stored envelope settings; undefined means envelope mode is off
+ */
+export function normalizeEnvelopeSettings(value: unknown): EnvelopeSettings | undefined {
+  if (!value || typeof value !== "object") return undefined;
+  const raw = value as Record<string, unknown>;
+  if (typeof raw.startPeriod !== "string" || !/^\d{4}-(?:0[1-9]|1[0-2])$/.test(raw.startPeriod)) return undefined;
+
+  const caps: Partial<Record<CategoryName, number>> = {};
+  if (raw.caps && typeof raw.caps === "object") {
+    for (const [category, cap] of Object.entries(raw.caps as Record<string, unknown>)) {
+      const n = Number(cap);
+      if (isCategory(category) && cap !== null && Number.isFinite(n) && n >= 0) caps[category] = n;
+    }
+  }
+  return { startPeriod: raw.startPeriod, caps };
+}
+
+/**
+ * Normalize balances frozen in a period snapshot, or undefined if there are none
+ */
+export function normalizeEnvelopeBalances(value: unknown): EnvelopeBalance[] | undefined {
+  if (!Array.isArray(value)) return undefined;
+  const num = (v: unknown) => (Number.isFinite(Number(v)) ? Number(v) : 0);
+  return value
+    .filter((b): b is Record<string, unknown> => Boolean(b) && typeof b === "object" && isCategory(b.category))
+    .map((b) => ({
+      category: b.category as CategoryName,
+      carriedIn: num(b.carriedIn),
+      planned: num(b.planned),
+      spent: num(b.spent),
+      capped: num(b.capped),
+      closing: num(b.closing),
+    }));
+}
+
+/**
+ * One period of envelopes: planned amounts from the plan's targets and the
+ * period's income, outflows by category, and the balances carried in
+ */
+export function rollEnvelopes(
+  carriedIn: Map<CategoryName, number>,
+  targets: DistributionTarget[],
+  income: number,
+  spentByCategory: Map<CategoryName, number>,
+  caps: EnvelopeSettings["caps"] = {}
+): EnvelopeBalance[] {
+  const planned = new Map(
+    computeAllocations({ id: "envelopes", name: "", currency: "", targets, updatedAt: "" }, income).map((line) => [
+      line.category,
+      line.amount,
+    ])
+  );
+
+  // Plan categories, plus any category still carrying a balance
+  const categories = [...new Set([...targets.map((t) => t.category), ...carriedIn.keys()])];
+
+  return categories.map((category) => {
+    const carried = carriedIn.get(category) ?? 0;
+    const plannedAmount = planned.get(category) ?? 0;
+    const spent = round2(spentByCategory.get(category) ?? 0);
+    const balance = round2(carried + plannedAmount - spent);
+    const cap = caps[category];
+    const capped = cap !== undefined && balance > cap ? round2(balance - cap) : 0;
+
+    return {
+      category,
+      carriedIn: carried,
+      planned: plannedAmount,
+      spent,
+      capped,
+      closing: round2(balance - capped),
+    };
+  });
+}
@@ -0,0 +1,98 @@
+/**
+ * Currency conversion using the dated FX rate table
+ */
+
+import type { FxRate } from "../types/fx";
+
+/**
+ * Converts amounts into one base currency
+ */
+export interface FxConverter {
+  base: string;
+  /**
+   * Amount in the base currency, or null when no rate is known on or
+   * before the date. A missing currency means the base currency.
+   */
+  convert(amount: number, currency: string | undefined, date: string): number | null;
+}
+
+/**
+ * Rate from one currency to another on a date: the latest rate dated on or
+ * before it, using the inverse of a reverse-pair rate if that is newer.
+ * Returns null if no rate applies yet.
+ */
+export function findFxRate(rates: FxRate[], from: string, to: string, date: string): number | null {
+  if (from === to) return 1;
+
+  let best: { date: string; rate: number } | null = null;
+  for (const r of rates) {
+    if (r.date > date) continue;
+    let rate: number | null = null;
+    if (r.from === from && r.to === to) rate = r.rate;
+    else if (r.from === to && r.to === from) rate = 1 / r.rate;
+    if (rate !== null && (!best || r.date > best.date)) {
+      best = { date: r.date, rate };
+    }
+  }
+  return best ? best.rate : null;
+}
+
+export function createFxConverter(base: string, rates: FxRate[]): FxConverter {
+  return {
+    base,
+    convert(amount, currency, date) {
+      const rate = findFxRate(rates, currency || base, base, date);
+      return rate === null ? null : amount * rate;
+    },
+  };
+}
+
+/**
+ * Amount of a dated record in the converter's base currency.
+ * Without a converter, or without a known rate, the raw amount is used.
+ */
+export function amountInBase(
+  item: { amount: number; currency?: string; date: string },
+  fx?: FxConverter
+): number {
+  if (!fx) return item.amount;
+  return fx.convert(item.amount, item.currency, item.date) ?? item.amount;
+}
+
+/**
+ * Currencies in the records that have no rate into the base currency
+ * (their raw amounts are used as-is), sorted
+ */
+export function findUnconvertedCurrencies(
+  items: { amount: number; currency?: string; date: string }[],
+  fx: FxConverter
+): string[] {
+  const missing = new Set<string>();
+  for (const item of items) {
+    if (item.currency && fx.convert(item.amount, item.currency, item.date) === null) {
+      missing.add(item.currency);
+    }
+  }
+  return [...missing].sort();
+}
+
+/**
+ * The rates a period's conversions depend on: every rate dated in the
+ * period plus the latest rate before it for each pair (what a locked
+ * period freezes in its snapshot)
+ */
+export function fxRatesForPeriod(rates: FxRate[], period: string): FxRate[] {
+  const start = `${period}-01`;
+  const end = `${period}-31`;
+
+  const inPeriod = rates.filter((r) => r.date >= start && r.date <= end);
+  const latestBefore = new Map<string, FxRate>();
+  for (const r of rates) {
+    if (r.date >= start) continue;
+    const pair = `${r.from}/${r.to}`;
+    const current = latestBefore.get(pair);
+    if (!current || r.date > current.date) latestBefore.set(pair, r);
+  }
+
+  return [...latestBefore.values(), ...inPeriod].map((r) => ({ ...r }));
+}
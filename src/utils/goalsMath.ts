@@ -0,0 +1,130 @@
+/**
+ * Savings goal progress
+ * A goal's progress is the net of its funding category's transactions since
+ * its start date (shared with other goals funded from the same category, in
+ * proportion to their targets). The monthly contribution it needs is compared with what
+ * the distribution plan allocates to that category (computeAllocations).
+ */
+
+import type { CategoryName } from "../constants/categories";
+import type { SavingsGoal } from "../types/goals";
+import type { MoneyTransaction } from "../types/transactions";
+import type { AllocationLine } from "./distributionMath";
+import type { FxConverter } from "./fxMath";
+import { categoryLines, lineAmountInBase } from "./transactionsMath";
+
+export type GoalStatus = "reached" | "onTrack" | "behind" | "overdue";
+
+export interface GoalProgressRow {
+  goal: SavingsGoal;
+  saved: number;
+  remaining: number;
+  pct: number; // 0–100
+  /** Months left including the period, 0 once the target month has passed */
+  monthsLeft: number;
+  /** Needed each month from the period on, based on progress before it */
+  requiredMonthly: number;
+  /** This goal's share of the plan's allocation to its category */
+  allocated: number;
+  /** Whether the plan has a target for the goal's category at all */
+  inPlan: boolean;
+  status: GoalStatus;
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Number of months from one period to another, inclusive (0 if `to` is earlier)
+ */
+function monthsThrough(from: string, to: string): number {
+  const [fromYear, fromMonth] = from.split("-").map(Number);
+  const [toYear, toMonth] = to.split("-").map(Number);
+  return Math.max(0, (toYear - fromYear) * 12 + (toMonth - fromMonth) + 1);
+}
+
+/**
+ * Net amount put towards each goal (category outflows less inflows) dated
+ * from its start date up to an optional date (exclusive), keyed by goal id.
+ * Goals sharing a category split each of its transactions in proportion to
+ * their targets, so together they never count more than was saved.
+ */
+export function goalsSaved(
+  goals: SavingsGoal[],
+  transactions: MoneyTransaction[],
+  fx?: FxConverter,
+  before?: string
+): Map<string, number> {
+  const saved = new Map(goals.map((goal) => [goal.id, 0]));
+  for (const t of transactions) {
+    if (before && t.date >= before) continue;
+    for (const line of categoryLines(t)) {
+      const sharing = goals.filter((goal) => goal.category === line.category && t.date >= goal.startDate);
+      const totalTarget = sharing.reduce((sum, goal) => sum + goal.targetAmount, 0);
+      if (totalTarget <= 0) continue;
+
+      const amount = lineAmountInBase(t, line, fx);
+      const net = t.direction === "out" ? amount : -amount;
+      for (const goal of sharing) {
+        saved.set(goal.id, saved.get(goal.id)! + (net * goal.targetAmount) / totalTarget);
+      }
+    }
+  }
+
+  for (const [id, value] of saved) saved.set(id, round2(Math.max(0, value)));
+  return saved;
+}
+
+/**
+ * Progress and status of each goal for a period (YYYY-MM).
+ * Goals sharing a category share what was saved in it in proportion to their
+ * targets, and its allocation in proportion to what they still need; they
+ * are on track while the allocation covers all of them.
+ */
+export function goalProgress(
+  goals: SavingsGoal[],
+  transactions: MoneyTransaction[],
+  allocations: AllocationLine[],
+  period: string,
+  fx?: FxConverter
+): GoalProgressRow[] {
+  const savedByGoal = goalsSaved(goals, transactions, fx);
+  const savedBeforeByGoal = goalsSaved(goals, transactions, fx, `${period}-01`);
+
+  const rows = goals.map((goal) => {
+    const saved = savedByGoal.get(goal.id) ?? 0;
+    const savedBefore = savedBeforeByGoal.get(goal.id) ?? 0;
+    const monthsLeft = monthsThrough(period, goal.targetDate.slice(0, 7));
+    const stillNeeded = Math.max(0, goal.targetAmount - savedBefore);
+
+    return {
+      goal,
+      saved,
+      remaining: round2(Math.max(0, goal.targetAmount - saved)),
+      pct: Math.min(100, Math.round((saved / goal.targetAmount) * 1000) / 10),
+      monthsLeft,
+      requiredMonthly: saved >= goal.targetAmount ? 0 : round2(monthsLeft > 0 ? stillNeeded / monthsLeft : stillNeeded),
+    };
+  });
+
+  // Total monthly need per category, across goals still in progress
+  const neededByCategory = new Map<CategoryName, number>();
+  for (const row of rows) {
+    neededByCategory.set(row.goal.category, (neededByCategory.get(row.goal.category) ?? 0) + row.requiredMonthly);
+  }
+
+  return rows.map((row) => {
+    const line = allocations.find((a) => a.category === row.goal.category);
+    const categoryAllocation = line?.amount ?? 0;
+    const categoryNeed = neededByCategory.get(row.goal.category) ?? 0;
+    const allocated = categoryNeed > 0 ? round2((categoryAllocation * row.requiredMonthly) / categoryNeed) : 0;
+
+    let status: GoalStatus;
+    if (row.remaining === 0) status = "reached";
+    else if (row.monthsLeft === 0) status = "overdue";
+    else status = categoryNeed <= categoryAllocation + 0.005 ? "onTrack" : "behind";
+
+    return { ...row, allocated, inPlan: Boolean(line), status };
+  });
+}
@@ -0,0 +1,74 @@
+/**
+ * Statement import review
+ * Flags likely duplicates and rows in locked periods before anything is saved.
+ */
+
+import type { ImportDraftRow } from "../types/import";
+import type { MoneyTransaction } from "../types/transactions";
+import { assertPeriodUnlocked, getPeriodKeyFromDate } from "./lockGuard";
+
+/**
+ * Normalise a note for comparison (case, surrounding and repeated whitespace)
+ */
+function normalizeNote(note: string | undefined): string {
+  return (note ?? "").trim().toLowerCase().replace(/\s+/g, " ");
+}
+
+/**
+ * Check if a draft row is likely already recorded.
+ * Matches on same date, same amount (within 0.01) and same note.
+ */
+export function isLikelyDuplicate(
+  row: Pick<ImportDraftRow, "date" | "amount" | "note">,
+  tx: MoneyTransaction
+): boolean {
+  return (
+    tx.date === row.date &&
+    Math.abs(tx.amount - row.amount) < 0.01 &&
+    normalizeNote(tx.note) === normalizeNote(row.note)
+  );
+}
+
+/**
+ * Classify parsed rows against existing transactions and period locks.
+ * Invalid rows are left untouched. Rows carrying an externalId that is
+ * already recorded (or repeated in the same file) are exact duplicates.
+ * Otherwise each existing transaction can only be claimed by one draft,
+ * so two identical statement lines against one recorded transaction
+ * leave the second as new.
+ */
+export function reviewImportRows(
+  rows: ImportDraftRow[],
+  existing: MoneyTransaction[]
+): ImportDraftRow[] {
+  const claimed = new Set<string>();
+  const seenExternalIds = new Set(existing.map((tx) => tx.externalId).filter(Boolean));
+
+  return rows.map((row) => {
+    if (row.status === "invalid") return row;
+
+    if (row.externalId) {
+      if (seenExternalIds.has(row.externalId)) {
+        return { ...row, status: "duplicate", reason: `Already imported (reference ${row.externalId})` };
+      }
+      seenExternalIds.add(row.externalId);
+    }
+
+    const lockCheck = assertPeriodUnlocked(getPeriodKeyFromDate(row.date));
+    if (!lockCheck.ok) {
+      return { ...row, status: "locked", reason: lockCheck.reason };
+    }
+
+    const dup = existing.find((tx) => !claimed.has(tx.id) && isLikelyDuplicate(row, tx));
+    if (dup) {
+      claimed.add(dup.id);
+      return {
+        ...row,
+        status: "duplicate",
+        reason: `Matches transaction on ${dup.date}${dup.note ? ` (${dup.note})` : ""}`,
+      };
+    }
+
+    return { ...row, status: "new", reason: undefined };
+  });
+}
@@ -1,4 +1,5 @@
 import type { IncomeRecord } from "../types/income";
+import { amountInBase, type FxConverter } from "./fxMath";
 
 export function getPeriodKeyFromDate(dateISO: string): string {
   return dateISO.slice(0, 7);
@@ -14,10 +15,10 @@ export function filterIncomeByPeriod(
   return items.filter((record) => getPeriodKeyFromDate(record.date) === periodKey);
 }
 
-export function sumIncome(items: IncomeRecord[]): number {
+export function sumIncome(items: IncomeRecord[], fx?: FxConverter): number {
   return items
     .filter((record) => record.status === "active")
-    .reduce((sum, record) => sum + record.amount, 0);
+    .reduce((sum, record) => sum + amountInBase(record, fx), 0);
 }
 
 export function sumIncomeByPeriod(items: IncomeRecord[], periodKey: string): number {
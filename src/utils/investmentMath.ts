@@ -0,0 +1,177 @@
+/**
+ * Investment position math
+ * Replays a holding's lots and sales in date order: sales consume the oldest
+ * lots first (FIFO), fees are added to a lot's cost and deducted from sale
+ * proceeds. Market value uses the latest price on or before the valuation date.
+ */
+
+import type { Holding, InvestmentAccount, SecurityPrice } from "../types/investments";
+import type { Asset, Valuation } from "../types/netWorth";
+
+export interface OpenLot {
+  lotId: string;
+  date: string;
+  quantity: number; // still held
+  unitCost: number; // including the lot's fees
+}
+
+export interface HoldingPosition {
+  quantity: number;
+  costBasis: number;
+  /** Latest price on or before the date, or null if none is recorded */
+  price: SecurityPrice | null;
+  /** Priced at market, or at cost when there is no price */
+  marketValue: number;
+  unrealisedGain: number;
+  realisedGain: number;
+  openLots: OpenLot[];
+  /** Date of a sale that sold more than was held, if any */
+  oversoldOn: string | null;
+}
+
+/** Quantities below this are treated as zero */
+const EPSILON = 1e-9;
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Latest price for a symbol on or before a date (defaults to the latest overall)
+ */
+export function latestPrice(prices: SecurityPrice[], symbol: string, date?: string): SecurityPrice | null {
+  let best: SecurityPrice | null = null;
+  for (const p of prices) {
+    if (p.symbol !== symbol || (date && p.date > date)) continue;
+    if (!best || p.date > best.date) best = p;
+  }
+  return best;
+}
+
+/**
+ * Position of a holding as of a date (defaults to everything recorded)
+ */
+export function holdingPosition(holding: Holding, prices: SecurityPrice[], date?: string): HoldingPosition {
+  // Lots before sales on the same day, so a same-day buy can be sold
+  const events = [
+    ...holding.lots.map((lot) => ({ kind: "buy" as const, date: lot.date, lot })),
+    ...holding.sales.map((sale) => ({ kind: "sell" as const, date: sale.date, sale })),
+  ]
+    .filter((e) => !date || e.date <= date)
+    .sort((a, b) => (a.date !== b.date ? a.date.localeCompare(b.date) : a.kind === "buy" ? -1 : 1));
+
+  const open: OpenLot[] = [];
+  let realisedGain = 0;
+  let oversoldOn: string | null = null;
+
+  for (const event of events) {
+    if (event.kind === "buy") {
+      const { lot } = event;
+      open.push({
+        lotId: lot.id,
+        date: lot.date,
+        quantity: lot.quantity,
+        unitCost: lot.quantity > 0 ? lot.unitCost + lot.fees / lot.quantity : lot.unitCost,
+      });
+      continue;
+    }
+
+    const { sale } = event;
+    let remaining = sale.quantity;
+    let cost = 0;
+    while (remaining > EPSILON && open.length > 0) {
+      const lot = open[0];
+      const used = Math.min(lot.quantity, remaining);
+      cost += used * lot.unitCost;
+      lot.quantity -= used;
+      remaining -= used;
+      if (lot.quantity <= EPSILON) open.shift();
+    }
+    if (remaining > EPSILON && !oversoldOn) oversoldOn = sale.date;
+    realisedGain += (sale.quantity - remaining) * sale.unitPrice - sale.fees - cost;
+  }
+
+  const quantity = open.reduce((sum, lot) => sum + lot.quantity, 0);
+  const costBasis = open.reduce((sum, lot) => sum + lot.quantity * lot.unitCost, 0);
+  const price = latestPrice(prices, holding.symbol, date);
+  const marketValue = price ? quantity * price.price : costBasis;
+
+  return {
+    quantity,
+    costBasis: round2(costBasis),
+    price,
+    marketValue: round2(marketValue),
+    unrealisedGain: round2(marketValue - costBasis),
+    realisedGain: round2(realisedGain),
+    openLots: open,
+    oversoldOn,
+  };
+}
+
+/**
+ * Totals across holdings as of a date
+ */
+export function investmentTotals(
+  holdings: Holding[],
+  prices: SecurityPrice[],
+  date?: string
+): { costBasis: number; marketValue: number; unrealisedGain: number; realisedGain: number; unpriced: string[] } {
+  const totals = { costBasis: 0, marketValue: 0, unrealisedGain: 0, realisedGain: 0, unpriced: [] as string[] };
+  for (const holding of holdings) {
+    const position = holdingPosition(holding, prices, date);
+    totals.costBasis += position.costBasis;
+    totals.marketValue += position.marketValue;
+    totals.unrealisedGain += position.unrealisedGain;
+    totals.realisedGain += position.realisedGain;
+    if (!position.price && position.quantity > EPSILON) totals.unpriced.push(holding.symbol);
+  }
+  return {
+    costBasis: round2(totals.costBasis),
+    marketValue: round2(totals.marketValue),
+    unrealisedGain: round2(totals.unrealisedGain),
+    realisedGain: round2(totals.realisedGain),
+    unpriced: totals.unpriced.sort(),
+  };
+}
+
+/**
+ * Investment accounts as net worth assets, valued at market on every date
+ * a lot, sale or price changes (so net worth history can value them as of any date)
+ */
+export function investmentAccountsAsAssets(
+  accounts: InvestmentAccount[],
+  holdings: Holding[],
+  prices: SecurityPrice[]
+): Asset[] {
+  return accounts.map((account) => {
+    const accountHoldings = holdings.filter((h) => h.accountId === account.id);
+    const symbols = new Set(accountHoldings.map((h) => h.symbol));
+
+    const dates = new Set<string>();
+    for (const h of accountHoldings) {
+      h.lots.forEach((lot) => dates.add(lot.date));
+      h.sales.forEach((sale) => dates.add(sale.date));
+    }
+    const firstDate = [...dates].sort()[0];
+    for (const p of prices) {
+      if (symbols.has(p.symbol) && firstDate && p.date > firstDate) dates.add(p.date);
+    }
+
+    const valuations: Valuation[] = [...dates].sort().map((date) => ({
+      id: `${account.id}-${date}`,
+      date,
+      value: investmentTotals(accountHoldings, prices, date).marketValue,
+    }));
+
+    const updatedAt = accountHoldings.reduce((latest, h) => (h.updatedAt > latest ? h.updatedAt : latest), account.createdAt);
+    return {
+      id: `investment-${account.id}`,
+      name: account.name,
+      type: "investment",
+      currency: account.currency,
+      valuations,
+      createdAt: account.createdAt,
+      updatedAt,
+    };
+  });
+}
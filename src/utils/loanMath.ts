@@ -0,0 +1,194 @@
+/**
+ * Loan amortisation math
+ * Builds the contractual schedule from loan terms, and the actual balance from
+ * linked Debt payments (each month accrues interest on the outstanding balance;
+ * the rest of the payment reduces principal). Payments are taken at face value
+ * in the loan's currency.
+ */
+
+import type { LoanScheduleRow, LoanTerms } from "../types/loans";
+import type { Liability, Valuation } from "../types/netWorth";
+import type { MoneyTransaction } from "../types/transactions";
+import type { ScheduledTransactionTemplate } from "../types/scheduled";
+import { periodEndDate } from "./netWorthMath";
+
+/** Upper bound on projected months, for payments that never clear the balance */
+const MAX_PROJECTED_MONTHS = 1200;
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function nextPeriod(period: string): string {
+  const [year, month] = period.split("-").map(Number);
+  return month === 12 ? `${year + 1}-01` : `${year}-${String(month + 1).padStart(2, "0")}`;
+}
+
+function currentPeriod(): string {
+  const d = new Date();
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}`;
+}
+
+function monthlyRate(terms: LoanTerms): number {
+  return terms.annualRate / 100 / 12;
+}
+
+/**
+ * Period of the first repayment (the month after the start date)
+ */
+export function firstPaymentPeriod(terms: LoanTerms): string {
+  return nextPeriod(terms.startDate.slice(0, 7));
+}
+
+/**
+ * Fixed monthly repayment that clears the principal over the term
+ */
+export function loanPayment(terms: LoanTerms): number {
+  const r = monthlyRate(terms);
+  if (r === 0) return round2(terms.principal / terms.termMonths);
+  return round2((terms.principal * r) / (1 - Math.pow(1 + r, -terms.termMonths)));
+}
+
+/**
+ * Contractual amortisation schedule: one fixed payment per month over the term
+ */
+export function amortisationSchedule(terms: LoanTerms): LoanScheduleRow[] {
+  const r = monthlyRate(terms);
+  const payment = loanPayment(terms);
+  const rows: LoanScheduleRow[] = [];
+  let balance = terms.principal;
+  let period = firstPaymentPeriod(terms);
+
+  for (let i = 0; i < terms.termMonths && balance > 0; i++) {
+    const interest = round2(balance * r);
+    // The last payment absorbs rounding
+    const paid = i === terms.termMonths - 1 ? round2(balance + interest) : Math.min(payment, round2(balance + interest));
+    balance = Math.max(0, round2(balance - (paid - interest)));
+    rows.push({ period, payment: paid, interest, principal: round2(paid - interest), balance, kind: "scheduled" });
+    period = nextPeriod(period);
+  }
+  return rows;
+}
+
+/**
+ * Outgoing Debt transactions linked to a liability
+ */
+export function linkedLoanPayments(liabilityId: string, transactions: MoneyTransaction[]): MoneyTransaction[] {
+  return transactions.filter((t) => t.liabilityId === liabilityId && t.direction === "out");
+}
+
+/**
+ * Expected monthly payment: active monthly templates linked to the loan,
+ * otherwise the contractual repayment
+ */
+export function expectedLoanPayment(terms: LoanTerms, templates: ScheduledTransactionTemplate[]): number {
+  const linked = templates.filter(
+    (t) => t.active && t.liabilityId === terms.liabilityId && t.frequency === "monthly"
+  );
+  if (linked.length === 0) return loanPayment(terms);
+  return round2(linked.reduce((sum, t) => sum + t.amount, 0));
+}
+
+/**
+ * Actual months up to `throughPeriod` from linked payments, then projected
+ * months at `expectedPayment` until the balance is cleared.
+ * Payments made in the start month count towards the first repayment.
+ */
+export function projectLoan(
+  terms: LoanTerms,
+  payments: Pick<MoneyTransaction, "date" | "amount">[],
+  options: { expectedPayment: number; throughPeriod?: string }
+): LoanScheduleRow[] {
+  const r = monthlyRate(terms);
+  const first = firstPaymentPeriod(terms);
+  const throughPeriod = options.throughPeriod ?? currentPeriod();
+
+  const paidByPeriod = new Map<string, number>();
+  for (const p of payments) {
+    if (p.date < terms.startDate) continue;
+    const period = p.date.slice(0, 7) < first ? first : p.date.slice(0, 7);
+    paidByPeriod.set(period, (paidByPeriod.get(period) ?? 0) + p.amount);
+  }
+
+  const rows: LoanScheduleRow[] = [];
+  let balance = terms.principal;
+  let period = first;
+
+  const step = (payment: number, kind: LoanScheduleRow["kind"]) => {
+    const interest = round2(balance * r);
+    const paid = Math.min(round2(payment), round2(balance + interest));
+    balance = Math.max(0, round2(balance - (paid - interest)));
+    rows.push({ period, payment: paid, interest, principal: round2(paid - interest), balance, kind });
+    period = nextPeriod(period);
+  };
+
+  while (period <= throughPeriod && balance > 0) {
+    step(paidByPeriod.get(period) ?? 0, "actual");
+  }
+
+  // Stop projecting once payments can no longer reduce the balance
+  const expected = options.expectedPayment;
+  let projected = 0;
+  while (balance > 0 && projected < MAX_PROJECTED_MONTHS && expected > round2(balance * r)) {
+    step(expected, "projected");
+    projected++;
+  }
+
+  return rows;
+}
+
+/**
+ * Interest and principal paid in actual months, and when the projection clears the loan
+ */
+export function loanTotals(rows: LoanScheduleRow[]): {
+  interestPaid: number;
+  principalPaid: number;
+  payoffPeriod: string | null;
+} {
+  const actual = rows.filter((row) => row.kind === "actual");
+  const last = rows[rows.length - 1];
+  return {
+    interestPaid: round2(actual.reduce((sum, row) => sum + row.interest, 0)),
+    principalPaid: round2(actual.reduce((sum, row) => sum + row.principal, 0)),
+    payoffPeriod: last && last.balance === 0 ? last.period : null,
+  };
+}
+
+/**
+ * Replace the balance history of liabilities with loan terms by the balances
+ * derived from their linked payments, so net worth follows repayments.
+ * `throughPeriod` limits which payments count (defaults to the current period).
+ */
+export function withLoanBalances(
+  liabilities: Liability[],
+  loans: LoanTerms[],
+  transactions: MoneyTransaction[],
+  throughPeriod?: string
+): Liability[] {
+  const loansById = new Map(loans.map((loan) => [loan.liabilityId, loan]));
+
+  return liabilities.map((liability) => {
+    const terms = loansById.get(liability.id);
+    if (!terms) return liability;
+
+    const payments = linkedLoanPayments(liability.id, transactions);
+    const rows = projectLoan(terms, payments, { expectedPayment: 0, throughPeriod });
+
+    const valuations: Valuation[] = [
+      { id: `${liability.id}-loan-start`, date: terms.startDate, value: terms.principal },
+    ];
+    for (const row of rows) {
+      // Date the balance at the month's last payment, so current-month payments count today
+      const lastPayment = payments
+        .filter((p) => p.date.slice(0, 7) === row.period && p.date >= terms.startDate)
+        .reduce<string | null>((latest, p) => (latest === null || p.date > latest ? p.date : latest), null);
+      valuations.push({
+        id: `${liability.id}-loan-${row.period}`,
+        date: lastPayment ?? periodEndDate(row.period),
+        value: row.balance,
+      });
+    }
+
+    return { ...liability, valuations };
+  });
+}
@@ -0,0 +1,93 @@
+/**
+ * Net worth valuation math
+ */
+
+import type { NetWorthItem, NetWorthSnapshot, Valuation } from "../types/netWorth";
+import type { FxConverter } from "./fxMath";
+
+/**
+ * Latest valuation on or before a date (defaults to the latest overall)
+ */
+export function valuationAsOf<T extends string>(item: NetWorthItem<T>, date?: string): Valuation | null {
+  let latest: Valuation | null = null;
+  for (const v of item.valuations) {
+    if (date && v.date > date) continue;
+    if (!latest || v.date >= latest.date) latest = v;
+  }
+  return latest;
+}
+
+/**
+ * Total value of items on a date (defaults to their latest values),
+ * converted into the converter's base currency.
+ * Items without a valuation yet are skipped; items without a rate are
+ * counted unconverted and their currencies reported.
+ */
+export function totalValue<T extends string>(
+  items: NetWorthItem<T>[],
+  fx: FxConverter,
+  date?: string
+): { total: number; unconverted: string[] } {
+  let total = 0;
+  const unconverted = new Set<string>();
+
+  for (const item of items) {
+    const valuation = valuationAsOf(item, date);
+    if (!valuation) continue;
+
+    const converted = fx.convert(valuation.value, item.currency, date ?? valuation.date);
+    if (converted === null) unconverted.add(item.currency);
+    total += converted ?? valuation.value;
+  }
+
+  return { total, unconverted: [...unconverted].sort() };
+}
+
+/**
+ * Last day of a period (YYYY-MM -> YYYY-MM-DD)
+ */
+export function periodEndDate(period: string): string {
+  const [year, month] = period.split("-").map(Number);
+  const day = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  return `${period}-${String(day).padStart(2, "0")}`;
+}
+
+/**
+ * Period key shifted by a number of months
+ */
+function shiftPeriod(period: string, months: number): string {
+  const [year, month] = period.split("-").map(Number);
+  const d = new Date(Date.UTC(year, month - 1 + months, 1));
+  return `${d.getUTCFullYear()}-${String(d.getUTCMonth() + 1).padStart(2, "0")}`;
+}
+
+export interface NetWorthChange {
+  amount: number;
+  /** Percentage of the earlier net worth (null if that was 0) */
+  pct: number | null;
+}
+
+export interface NetWorthHistoryRow extends NetWorthSnapshot {
+  /** Change from the previous month, if recorded */
+  mom: NetWorthChange | null;
+  /** Change from the same month a year earlier, if recorded */
+  yoy: NetWorthChange | null;
+}
+
+function change(current: number, earlier: NetWorthSnapshot | undefined): NetWorthChange | null {
+  if (!earlier) return null;
+  const amount = current - earlier.netWorth;
+  return { amount, pct: earlier.netWorth !== 0 ? (amount / Math.abs(earlier.netWorth)) * 100 : null };
+}
+
+/**
+ * Add month-over-month and year-over-year change to each recorded period
+ */
+export function withNetWorthChanges(history: NetWorthSnapshot[]): NetWorthHistoryRow[] {
+  const byPeriod = new Map(history.map((s) => [s.period, s]));
+  return history.map((s) => ({
+    ...s,
+    mom: change(s.netWorth, byPeriod.get(shiftPeriod(s.period, -1))),
+    yoy: change(s.netWorth, byPeriod.get(shiftPeriod(s.period, -12))),
+  }));
+}
@@ -0,0 +1,134 @@
+/**
+ * OFX / QFX statement parsing
+ * Handles both OFX 1.x (SGML, unclosed leaf tags) and OFX 2.x (XML).
+ * QFX is Quicken-branded OFX and parses identically.
+ */
+
+import type { CategoryName } from "../constants/categories";
+import type { ImportDraftRow } from "../types/import";
+
+/**
+ * Decode the handful of entities OFX files use
+ */
+function decodeEntities(value: string): string {
+  return value
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+}
+
+/**
+ * Read a leaf element value from an OFX block.
+ * Works with SGML (<TAG>value) and XML (<TAG>value</TAG>) forms.
+ */
+function readTag(block: string, tag: string): string | undefined {
+  const m = new RegExp(`<${tag}>([^<\\r\\n]*)`, "i").exec(block);
+  if (!m) return undefined;
+  const value = decodeEntities(m[1].trim());
+  return value || undefined;
+}
+
+/**
+ * Convert an OFX date (YYYYMMDD[HHMMSS[.XXX]][[+-]TZ:NAME]) to ISO YYYY-MM-DD
+ */
+function parseOfxDate(value: string | undefined): string | null {
+  if (!value) return null;
+  const m = /^(\d{4})(\d{2})(\d{2})/.exec(value);
+  if (!m) return null;
+  const month = Number(m[2]);
+  const day = Number(m[3]);
+  if (month < 1 || month > 12 || day < 1 || day > new Date(Number(m[1]), month, 0).getDate()) {
+    return null;
+  }
+  return `${m[1]}-${m[2]}-${m[3]}`;
+}
+
+/**
+ * Check whether text looks like an OFX/QFX document
+ */
+export function isOfx(text: string): boolean {
+  return /OFXHEADER|<OFX>/i.test(text.slice(0, 2000));
+}
+
+/**
+ * FNV-1a hash of a string, for reference ids of entries without a FITID
+ */
+function hashText(text: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16);
+}
+
+/**
+ * Parse OFX/QFX text into import drafts.
+ * Each statement (bank STMTRS or credit card CCSTMTRS) is read with its own
+ * ACCTID. The FITID, scoped by account, becomes the externalId so re-importing
+ * the same file is a no-op; entries without one fall back to a hash of their
+ * date, amount and name, numbered when the same entry repeats in a statement.
+ */
+export function parseOfx(text: string, defaultCategory: CategoryName): ImportDraftRow[] {
+  const drafts: ImportDraftRow[] = [];
+  const statements = text.match(/<(CC)?STMTRS>[\s\S]*?<\/(CC)?STMTRS>/gi) ?? [text];
+
+  for (const statement of statements) {
+    // Read before the transaction list: transfer entries name the other account's ACCTID
+    const accountId = readTag(statement.split(/<BANKTRANLIST>/i)[0], "ACCTID") ?? "unknown";
+    const seen = new Map<string, number>();
+
+    for (const block of statement.match(/<STMTTRN>[\s\S]*?<\/STMTTRN>/gi) ?? []) {
+      const line = drafts.length + 1;
+      const postedRaw = readTag(block, "DTPOSTED");
+      const date = parseOfxDate(postedRaw);
+      const amountRaw = readTag(block, "TRNAMT");
+      const signed = amountRaw !== undefined ? Number(amountRaw.replace(",", ".")) : NaN;
+      const fitId = readTag(block, "FITID");
+
+      const name = readTag(block, "NAME") ?? readTag(block, "PAYEE");
+      const memo = readTag(block, "MEMO");
+      const note = [name, memo].filter((v, idx, arr) => v && arr.indexOf(v) === idx).join(" - ") || undefined;
+
+      let externalId: string | undefined;
+      if (fitId) {
+        externalId = `ofx:${accountId}:${fitId}`;
+      } else if (postedRaw && amountRaw) {
+        const key = hashText(`${postedRaw.slice(0, 8)}|${amountRaw}|${name ?? ""}`);
+        const occurrence = (seen.get(key) ?? 0) + 1;
+        seen.set(key, occurrence);
+        externalId = `ofx:${accountId}:h${key}${occurrence > 1 ? `-${occurrence}` : ""}`;
+      }
+
+      if (!date || !Number.isFinite(signed) || signed === 0) {
+        drafts.push({
+          line,
+          date: date ?? "",
+          amount: Number.isFinite(signed) ? Math.abs(signed) : 0,
+          direction: "out",
+          category: defaultCategory,
+          note,
+          externalId,
+          status: "invalid",
+          reason: !date ? "Unreadable DTPOSTED" : "Missing or zero TRNAMT",
+        });
+        continue;
+      }
+
+      drafts.push({
+        line,
+        date,
+        amount: Math.abs(signed),
+        direction: signed < 0 ? "out" : "in",
+        category: defaultCategory,
+        note,
+        externalId,
+        status: "new",
+      });
+    }
+  }
+
+  return drafts;
+}
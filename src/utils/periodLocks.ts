@@ -1,3 +1,6 @@
+import { normalizeLocks } from "../state/periodLocksStore";
+import { householdKey } from "../state/householdStore";
+
 const KEY = "stewardly_period_locks";
 
 /**
@@ -6,7 +9,7 @@ const KEY = "stewardly_period_locks";
  */
 export function isPeriodLocked(period: string): boolean {
   try {
-    const raw = localStorage.getItem(KEY);
+    const raw = localStorage.getItem(householdKey(KEY));
     if (!raw) return false;
 
     // Support both array format ["2025-01", ...] and object format {"2025-01": true, ...}
@@ -22,16 +25,23 @@ export function isPeriodLocked(period: string): boolean {
 
 export function getLocks(): Set<string> {
   try {
-    const raw = localStorage.getItem(KEY);
-    return new Set(JSON.parse(raw || "[]"));
+    const raw = localStorage.getItem(householdKey(KEY));
+    return new Set(Object.keys(normalizeLocks(JSON.parse(raw || "{}"))));
   } catch {
     return new Set();
   }
 }
 
+/**
+ * Save locks in the same object format as periodLocksStore
+ */
 export function saveLocks(locks: Set<string>): void {
   try {
-    localStorage.setItem(KEY, JSON.stringify(Array.from(locks)));
+    const record: Record<string, boolean> = {};
+    locks.forEach((period) => {
+      record[period] = true;
+    });
+    localStorage.setItem(householdKey(KEY), JSON.stringify(record));
   } catch {
     // Silent fail
   }
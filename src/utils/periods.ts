@@ -6,6 +6,7 @@
  */
 
 import { isPeriodLocked as isPeriodLockedInStore } from "../state/periodLocksStore";
+import { householdKey } from "../state/householdStore";
 
 /**
  * Get current period in YYYY-MM format
@@ -55,7 +56,7 @@ export function isPeriodLocked(period: string): boolean {
  */
 export function getLockedPeriods(): Set<string> {
   try {
-    const raw = localStorage.getItem("stewardly_period_locks");
+    const raw = localStorage.getItem(householdKey("stewardly_period_locks"));
     if (!raw) return new Set();
 
     const parsed = JSON.parse(raw);
@@ -78,7 +79,7 @@ export function saveLockedPeriods(periods: Set<string>): void {
     periods.forEach((p) => {
       obj[p] = true;
     });
-    localStorage.setItem("stewardly_period_locks", JSON.stringify(obj));
+    localStorage.setItem(householdKey("stewardly_period_locks"), JSON.stringify(obj));
   } catch {
     // Silent fail
   }
@@ -111,7 +112,7 @@ export function filterByPeriod(
 }
 
 /**
- * Sum amounts by direction (in/out)
+ * Sum amounts by direction (in/out), leaving out transfers between own accounts
  */
 export function sumByDirection(
   transactions: any[]
@@ -120,6 +121,7 @@ export function sumByDirection(
   let totalOut = 0;
 
   for (const t of transactions) {
+    if (t.transferId) continue; // transfers between own accounts are neither
     if (t.direction === "in") {
       totalIn += t.amount || 0;
     } else if (t.direction === "out") {
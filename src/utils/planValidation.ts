@@ -1,4 +1,5 @@
 import type { DistributionPlan } from "../types/distribution";
+import { householdKey } from "../state/householdStore";
 
 export type PlanValidation = {
   totalPct: number;
@@ -26,7 +27,7 @@ function getPeriodFromDate(dateStr: string): string {
 
 function getLocks(): Set<string> {
   try {
-    const raw = localStorage.getItem("stewardly_period_locks");
+    const raw = localStorage.getItem(householdKey("stewardly_period_locks"));
     return new Set(JSON.parse(raw || "[]"));
   } catch {
     return new Set();
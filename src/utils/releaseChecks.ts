@@ -9,6 +9,15 @@ import { listTransactions } from "../state/transactionsStore";
 import { getLocks } from "../state/periodLocksStore";
 import { getEffectiveIncomeForPeriod } from "../utils/incomeRecurrence";
 import { getCurrentPeriod } from "../utils/periods";
+import { runMigrations, getSchemaVersion, CURRENT_SCHEMA_VERSION } from "../state/migrations";
+import { MIGRATION_FIXTURES, createFixtureStorage } from "../state/migrationFixtures";
+import { householdKey, HOUSEHOLD_SCOPED_KEYS } from "../state/householdStore";
+import { captureLocalChanges, runSyncCycle } from "../state/syncService";
+import type { CollectionBinding, SyncConflict, SyncRecord, SyncRun } from "../state/syncService";
+import { createMemoryRemote } from "../api/syncRemote";
+import { goalProgress } from "./goalsMath";
+import type { SavingsGoal } from "../types/goals";
+import type { MoneyTransaction } from "../types/transactions";
 
 export interface CheckResult {
   status: "pass" | "fail" | "not_applicable";
@@ -30,6 +39,26 @@ export const STEWARDLY_STORAGE_KEYS = [
   "stewardly_period_plan_snapshots",
   "stewardly_release_readiness",
   "stewardly_release_checklist",  // QA system state
+  "stewardly_import_profiles",  // CSV import column mappings
+  "stewardly_category_rules",  // Auto-categorisation rules
+  "stewardly_schema_version",  // Applied storage migrations
+  "stewardly_storage_backend",  // Set once transactions/income move to IndexedDB
+  "stewardly_sync_settings",  // Cloud sync opt-in
+  "stewardly_sync_queue",  // Changes waiting to be pushed
+  "stewardly_sync_state",  // Last synced record hashes per household
+  "stewardly_households",  // Households on this device
+  "stewardly_household_id",  // Selected household
+  "stewardly_fx_rates",  // Dated exchange rates
+  "stewardly_assets",  // Assets with valuation history
+  "stewardly_liabilities",  // Liabilities with balance history
+  "stewardly_net_worth_history",  // Net worth recorded per period
+  "stewardly_loans",  // Loan terms per liability
+  "stewardly_investments",  // Investment accounts, holdings and lots
+  "stewardly_security_prices",  // Dated security prices
+  "stewardly_savings_goals",  // Savings goals and their funding categories
+  "stewardly_categories",  // Custom categories, subcategories and renamed built-ins
+  "stewardly_accounts",  // Bank, card and cash accounts with opening balances
+  "stewardly_reconciliations",  // Statements reconciled per account
 ] as const;
 
 /**
@@ -45,6 +74,16 @@ const KNOWN_KEYS = {
   RELEASE_CHECKLIST: "stewardly_release_readiness",
 } as const;
 
+/**
+ * Allowlisted key, or a household's copy of a household-scoped key
+ * (`${key}@${household_id}`)
+ */
+function isAllowedStorageKey(key: string): boolean {
+  if ((STEWARDLY_STORAGE_KEYS as readonly string[]).includes(key)) return true;
+  const base = key.split("@")[0];
+  return key.includes("@") && (HOUSEHOLD_SCOPED_KEYS as readonly string[]).includes(base);
+}
+
 /**
  * Run data integrity checks on localStorage keys
  *
@@ -60,7 +99,7 @@ export function runDataIntegrityChecks(): CheckResult {
 
   // Check distribution plans
   try {
-    const plansStr = localStorage.getItem(KNOWN_KEYS.DISTRIBUTION_PLANS);
+    const plansStr = localStorage.getItem(householdKey(KNOWN_KEYS.DISTRIBUTION_PLANS));
     if (plansStr !== null) {
       const plans = JSON.parse(plansStr);
       if (!Array.isArray(plans)) {
@@ -75,7 +114,7 @@ export function runDataIntegrityChecks(): CheckResult {
 
   // Check active plan ID
   try {
-    const activePlanIdStr = localStorage.getItem(KNOWN_KEYS.ACTIVE_PLAN_ID);
+    const activePlanIdStr = localStorage.getItem(householdKey(KNOWN_KEYS.ACTIVE_PLAN_ID));
     if (activePlanIdStr !== null) {
       const activePlanId = JSON.parse(activePlanIdStr);
       if (typeof activePlanId !== "string" && activePlanId !== null) {
@@ -90,7 +129,7 @@ export function runDataIntegrityChecks(): CheckResult {
 
   // Check income records
   try {
-    const incomeStr = localStorage.getItem(KNOWN_KEYS.INCOME);
+    const incomeStr = localStorage.getItem(householdKey(KNOWN_KEYS.INCOME));
     if (incomeStr !== null) {
       const income = JSON.parse(incomeStr);
       if (!Array.isArray(income)) {
@@ -103,7 +142,7 @@ export function runDataIntegrityChecks(): CheckResult {
 
   // Check transactions
   try {
-    const transactionsStr = localStorage.getItem(KNOWN_KEYS.TRANSACTIONS);
+    const transactionsStr = localStorage.getItem(householdKey(KNOWN_KEYS.TRANSACTIONS));
     if (transactionsStr !== null) {
       const transactions = JSON.parse(transactionsStr);
       if (!Array.isArray(transactions)) {
@@ -116,7 +155,7 @@ export function runDataIntegrityChecks(): CheckResult {
 
   // Check period locks
   try {
-    const locksStr = localStorage.getItem(KNOWN_KEYS.PERIOD_LOCKS);
+    const locksStr = localStorage.getItem(householdKey(KNOWN_KEYS.PERIOD_LOCKS));
     if (locksStr !== null) {
       const locks = JSON.parse(locksStr);
       if (typeof locks !== "object" || locks === null) {
@@ -131,7 +170,7 @@ export function runDataIntegrityChecks(): CheckResult {
 
   // Check period plan snapshots
   try {
-    const snapshotsStr = localStorage.getItem(KNOWN_KEYS.PERIOD_PLAN_SNAPSHOTS);
+    const snapshotsStr = localStorage.getItem(householdKey(KNOWN_KEYS.PERIOD_PLAN_SNAPSHOTS));
     if (snapshotsStr !== null) {
       const snapshots = JSON.parse(snapshotsStr);
       if (typeof snapshots !== "object" || snapshots === null) {
@@ -518,7 +557,6 @@ export function runStorageKeysStableChecks(): CheckResult {
   const checkedAt = new Date().toISOString();
 
   try {
-    const allowedKeys: Set<string> = new Set(Array.from(STEWARDLY_STORAGE_KEYS));
     const unexpectedKeys: string[] = [];
 
     // Scan all localStorage keys
@@ -528,7 +566,7 @@ export function runStorageKeysStableChecks(): CheckResult {
 
       // Check all Stewardly-prefixed keys
       if (key.startsWith("stewardly_")) {
-        if (!allowedKeys.has(key)) {
+        if (!isAllowedStorageKey(key)) {
           unexpectedKeys.push(key);
         }
       }
@@ -619,7 +657,7 @@ export function runNoSecretsInStorageChecks(): CheckResult {
       }
 
       // Only scan Stewardly business-domain keys
-      if (!businessDomainKeys.has(key)) {
+      if (!businessDomainKeys.has(key.split("@")[0])) {
         continue;
       }
 
@@ -750,6 +788,242 @@ export function runNoSecretsInStorageChecks(): CheckResult {
   }
 }
 
+/**
+ * Check 10: Storage Migrations
+ * - Every fixture of old-format data migrates to the expected shape
+ * - Migrating already-migrated fixture data changes nothing
+ * - Local storage is at the current schema version
+ */
+export function runMigrationChecks(): CheckResult {
+  const errors: string[] = [];
+  const checkedAt = new Date().toISOString();
+
+  for (const fixture of MIGRATION_FIXTURES) {
+    try {
+      const storage = createFixtureStorage(fixture.storage);
+      const report = runMigrations({ storage });
+      if (report.error) {
+        errors.push(`${fixture.name}: ${report.error}`);
+        continue;
+      }
+
+      for (const problem of fixture.verify(storage)) {
+        errors.push(`${fixture.name}: ${problem}`);
+      }
+
+      // Re-running every step over migrated data must be a no-op
+      const rerun = createFixtureStorage({});
+      for (const key of Object.keys(fixture.storage)) {
+        const value = storage.getItem(key);
+        if (value !== null) rerun.setItem(key, value);
+      }
+      const second = runMigrations({ storage: rerun });
+      const changed = second.steps.filter((step) => step.changes.length > 0);
+      if (changed.length > 0) {
+        errors.push(`${fixture.name}: not idempotent (${changed.map((s) => s.id).join(", ")})`);
+      }
+    } catch (err) {
+      errors.push(`${fixture.name}: threw ${(err as Error).message}`);
+    }
+  }
+
+  try {
+    const { version } = getSchemaVersion();
+    if (version < CURRENT_SCHEMA_VERSION) {
+      errors.push(`Local storage is at schema version ${version}, expected ${CURRENT_SCHEMA_VERSION}`);
+    }
+  } catch (err) {
+    errors.push(`Schema version check threw: ${(err as Error).message}`);
+  }
+
+  return {
+    status: errors.length === 0 ? "pass" : "fail",
+    checkedAt,
+    ...(errors.length > 0 && { errors }),
+  };
+}
+
+/**
+ * One simulated device for the sync checks: in-memory period locks and
+ * transactions, its own queue storage, and the conflicts it recorded
+ */
+function createSyncDevice(householdId: string) {
+  const data: Record<"periodLocks" | "transactions", SyncRecord[]> = { periodLocks: [], transactions: [] };
+  const binding = (name: "periodLocks" | "transactions"): CollectionBinding => ({
+    name,
+    list: () => data[name].map((r) => ({ ...r })),
+    replace: (records) => {
+      data[name] = records.map((r) => ({ ...r }));
+    },
+    subscribe: () => () => undefined,
+    ...(name === "transactions" && { periodOf: (r: SyncRecord) => String(r.date).slice(0, 7) }),
+  });
+
+  const conflicts: SyncConflict[] = [];
+  const run: SyncRun = {
+    householdId,
+    bindings: [binding("periodLocks"), binding("transactions")],
+    storage: createFixtureStorage({}),
+    canEdit: true,
+    onConflict: (conflict) => conflicts.push(conflict),
+  };
+
+  return {
+    data,
+    conflicts,
+    /** Change a transaction's amount (adding it if needed) and queue the change */
+    edit(id: string, amount: number) {
+      data.transactions = [
+        ...data.transactions.filter((t) => t.id !== id),
+        { id, date: "2025-01-03", amount, direction: "out", category: "Expenses" },
+      ];
+      captureLocalChanges(run);
+    },
+    lock(period: string) {
+      data.periodLocks = [...data.periodLocks, { id: period }];
+      captureLocalChanges(run);
+    },
+    amountOf: (id: string) => data.transactions.find((t) => t.id === id)?.amount,
+    run,
+  };
+}
+
+/**
+ * Check 16: Sync Queue and Conflicts
+ * Two simulated devices sync through an in-memory remote (no local data is touched):
+ * - A change queued while the remote is unreachable is pushed on the next sync
+ * - The newer of two edits to one record wins, on both devices
+ * - A period locked on another device discards this device's queued edits in it
+ */
+export async function runSyncChecks(): Promise<CheckResult> {
+  const errors: string[] = [];
+  const checkedAt = new Date().toISOString();
+  // Queued edits are stamped with the clock; keep them apart
+  const later = () => new Promise((resolve) => setTimeout(resolve, 5));
+  const expect = (label: string, actual: unknown, expected: unknown) => {
+    if (JSON.stringify(actual) !== JSON.stringify(expected)) {
+      errors.push(`${label}: expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`);
+    }
+  };
+
+  try {
+    const remote = createMemoryRemote();
+    const householdId = "release-check-household";
+    const a = createSyncDevice(householdId);
+    const b = createSyncDevice(householdId);
+
+    // Offline edits stay queued until a sync succeeds
+    a.edit("t1", 10);
+    remote.offline = true;
+    const failed = await runSyncCycle(remote, a.run).then(
+      () => false,
+      () => true
+    );
+    expect("Sync while offline fails", failed, true);
+    remote.offline = false;
+    expect("Queued after reconnecting", await runSyncCycle(remote, a.run), 0);
+    await runSyncCycle(remote, b.run);
+    expect("Queued edit reaches the other device", b.amountOf("t1"), 10);
+
+    // Newer remote edit replaces an older queued one
+    b.edit("t1", 20);
+    await later();
+    a.edit("t1", 30);
+    await runSyncCycle(remote, a.run);
+    await runSyncCycle(remote, b.run);
+    expect("Older local edit loses", b.amountOf("t1"), 30);
+    expect("Conflict recorded", b.conflicts.map((c) => c.resolution), ["Took remote version: newer than local"]);
+
+    // Newer queued edit is kept and pushed
+    a.edit("t1", 40);
+    await runSyncCycle(remote, a.run);
+    await later();
+    b.edit("t1", 50);
+    await runSyncCycle(remote, b.run);
+    await runSyncCycle(remote, a.run);
+    expect("Newer local edit is kept", b.amountOf("t1"), 50);
+    expect("Newer edit reaches the other device", a.amountOf("t1"), 50);
+
+    // A lock from another device wins over queued edits
+    a.lock("2025-01");
+    await runSyncCycle(remote, a.run);
+    b.edit("t1", 60);
+    expect("Edit in locked period is dropped", await runSyncCycle(remote, b.run), 0);
+    expect(
+      "Lock conflict recorded",
+      b.conflicts.at(-1)?.resolution,
+      "Discarded local edit: period was locked on another device"
+    );
+    await runSyncCycle(remote, a.run);
+    expect("Locked data unchanged on the locking device", a.amountOf("t1"), 50);
+  } catch (err) {
+    errors.push(`Sync checks threw: ${(err as Error).message}`);
+  }
+
+  return {
+    status: errors.length === 0 ? "pass" : "fail",
+    checkedAt,
+    ...(errors.length > 0 && { errors }),
+  };
+}
+
+/**
+ * Check 17: Savings Goals Sharing a Category
+ * Two goals funded from one category (fixture data, nothing stored):
+ * - Together they count exactly what was saved in the category
+ * - Each counts a share in proportion to its target
+ * - Their allocations add up to the category's allocation
+ */
+export function runSavingsGoalChecks(): CheckResult {
+  const errors: string[] = [];
+  const checkedAt = new Date().toISOString();
+
+  try {
+    const goal = (id: string, targetAmount: number): SavingsGoal => ({
+      id,
+      name: id,
+      category: "Savings",
+      targetAmount,
+      targetDate: "2025-12-31",
+      startDate: "2025-01-01",
+      createdAt: "2025-01-01T00:00:00.000Z",
+      updatedAt: "2025-01-01T00:00:00.000Z",
+    });
+    const transactions: MoneyTransaction[] = [
+      { id: "t1", date: "2025-01-05", category: "Savings", amount: 400, direction: "out" },
+      { id: "t2", date: "2025-02-05", category: "Savings", amount: 400, direction: "out" },
+      { id: "t3", date: "2025-02-06", category: "Savings", amount: 80, direction: "in" },
+    ];
+    const rows = goalProgress(
+      [goal("Emergency fund", 1000), goal("House", 3000)],
+      transactions,
+      [{ category: "Savings", targetPct: 20, amount: 500 }],
+      "2025-02"
+    );
+
+    const saved = rows.map((r) => r.saved);
+    if (JSON.stringify(saved) !== JSON.stringify([180, 540])) {
+      errors.push(`Saved per goal: expected [180,540], got ${JSON.stringify(saved)}`);
+    }
+    const totalSaved = saved.reduce((sum, x) => sum + x, 0);
+    if (Math.abs(totalSaved - 720) > 0.005) {
+      errors.push(`Goals count ${totalSaved} saved; the category saved 720`);
+    }
+    const totalAllocated = rows.reduce((sum, r) => sum + r.allocated, 0);
+    if (Math.abs(totalAllocated - 500) > 0.01) {
+      errors.push(`Goal allocations add up to ${totalAllocated}; the category is allocated 500`);
+    }
+  } catch (err) {
+    errors.push(`Savings goal checks threw: ${(err as Error).message}`);
+  }
+
+  return {
+    status: errors.length === 0 ? "pass" : "fail",
+    checkedAt,
+    ...(errors.length > 0 && { errors }),
+  };
+}
+
 /**
  * DEV-ONLY: Clean up legacy localStorage keys
  *
@@ -770,7 +1044,6 @@ export function cleanupLegacyStorageKeys(): {
   timestamp: string;
 } {
   const removedKeys: Array<{ key: string; reason: string }> = [];
-  const allowedKeys: Set<string> = new Set(Array.from(STEWARDLY_STORAGE_KEYS));
 
   const legacyKeys = [
     { key: "stewardly_user", reason: "Legacy auth - not used in MVP" },
@@ -803,7 +1076,7 @@ export function cleanupLegacyStorageKeys(): {
   }
 
   for (const key of keysToCheck) {
-    if (!allowedKeys.has(key) && !legacyKeys.some((lk) => lk.key === key)) {
+    if (!isAllowedStorageKey(key) && !legacyKeys.some((lk) => lk.key === key)) {
       localStorage.removeItem(key);
       removedKeys.push({
         key,
@@ -0,0 +1,82 @@
+import { getHouseholdRole, type HouseholdRole } from "../state/householdStore";
+
+/**
+ * Actions gated by household role
+ * - edit: add/change/delete transactions, income, plans, templates, rules
+ * - lock: lock a period (snapshot the plan)
+ * - unlock: unlock a period
+ */
+export type HouseholdAction = "edit" | "lock" | "unlock";
+
+const ALLOWED_ROLES: Record<HouseholdAction, HouseholdRole[]> = {
+  edit: ["owner", "editor"],
+  lock: ["owner", "editor"],
+  unlock: ["owner"],
+};
+
+/**
+ * Check whether a role allows an action
+ */
+export function roleAllows(role: HouseholdRole, action: HouseholdAction): boolean {
+  return ALLOWED_ROLES[action].includes(role);
+}
+
+/**
+ * Check whether the current role (in the selected household, unless given) allows an action
+ */
+export function canPerform(action: HouseholdAction, householdId?: string | null): boolean {
+  return roleAllows(getHouseholdRole(householdId), action);
+}
+
+/**
+ * Consistent title for controls and banners disabled by role
+ */
+export function getRestrictedTitle(action: HouseholdAction = "edit"): string {
+  return action === "unlock" ? "Owner only — unlocking disabled" : "View only — changes disabled";
+}
+
+/**
+ * Readable explanation of why the current role cannot perform an action
+ */
+export function getRoleRestrictionMessage(action: HouseholdAction, householdId?: string | null): string {
+  const role = getHouseholdRole(householdId);
+  if (action === "unlock") {
+    return `Only household owners can unlock periods (your role: ${role}).`;
+  }
+  if (action === "lock") {
+    return `Viewers cannot lock periods (your role: ${role}).`;
+  }
+  return `Viewers have read-only access (your role: ${role}).`;
+}
+
+/**
+ * Check that the current role allows an action.
+ * Returns error result if not.
+ *
+ * This is the non-throwing version used by stores that need to return result objects.
+ */
+export function assertRoleAllows(
+  action: HouseholdAction,
+  actionLabel?: string,
+  householdId?: string | null
+): { ok: true } | { ok: false; reason: string } {
+  if (!canPerform(action, householdId)) {
+    const label = actionLabel ? ` Action blocked: ${actionLabel}.` : "";
+    return { ok: false, reason: `${getRoleRestrictionMessage(action, householdId)}${label}` };
+  }
+  return { ok: true };
+}
+
+/**
+ * Assert that the current role allows an action, throwing if not.
+ *
+ * @param action - Gated action
+ * @param actionLabel - Optional description of the action (e.g., "add income")
+ * @throws Error with readable message if the role does not allow it
+ */
+export function assertRoleAllowsOrThrow(action: HouseholdAction, actionLabel?: string): void {
+  const result = assertRoleAllows(action, actionLabel);
+  if (!result.ok) {
+    throw new Error(result.reason);
+  }
+}
@@ -1,6 +1,10 @@
 /**
  * Scheduled Transaction Projection and Matching
  * Computes expected vs. actual transactions for a period based on templates.
+ * A transaction posted from a template stands for the occurrence it was
+ * posted for; while it is pending it counts as expected, not matched. Other
+ * transactions are scored against every occurrence they could match and
+ * the closest pairs win.
  */
 
 import type { ScheduledTransactionTemplate } from "../types/scheduled";
@@ -11,7 +15,9 @@ export interface ScheduledProjectionRow {
   expectedDateISO: string;
   matchedTransactionId?: string;
   matchedAmount?: number;
-  status: "matched" | "missing" | "inactive";
+  /** Matched (or pending) amount minus the expected amount */
+  variance?: number;
+  status: "matched" | "pending" | "missing" | "skipped" | "inactive";
 }
 
 /**
@@ -22,38 +28,92 @@ function getDaysInMonth(year: number, month: number): number {
 }
 
 /**
- * Compute the expected date for a template in a given period
+ * Months between occurrences of a month-based frequency
+ */
+function monthInterval(template: ScheduledTransactionTemplate): number {
+  switch (template.frequency) {
+    case "quarterly":
+      return 3;
+    case "yearly":
+      return 12;
+    case "everyNMonths":
+      return template.intervalMonths ?? 1;
+    default:
+      return 1;
+  }
+}
+
+/**
+ * Add days to an ISO date (YYYY-MM-DD)
+ */
+function addDays(dateISO: string, days: number): string {
+  const d = new Date(`${dateISO}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+}
+
+/**
+ * Compute the expected dates for a template in a given period
+ * Weekly and fortnightly templates step 7 or 14 days from their start date.
+ * Month-based templates fall on their rule's day in every month that is a
+ * whole interval after the start date's month; yearly templates saved before
+ * start dates existed have no anchor and stay expected every month.
  * @param template - The scheduled template
  * @param period - Period in YYYY-MM format
- * @returns ISO date string (YYYY-MM-DD) or null if invalid
+ * @returns ISO date strings (YYYY-MM-DD) in date order, empty if none fall in the period
  */
-function computeExpectedDate(
+function computeExpectedDates(
   template: ScheduledTransactionTemplate,
   period: string
-): string | null {
-  try {
-    const [yearStr, monthStr] = period.split("-");
-    const year = parseInt(yearStr, 10);
-    const month = parseInt(monthStr, 10);
-
-    if (isNaN(year) || isNaN(month) || month < 1 || month > 12) {
-      return null;
-    }
+): string[] {
+  const [yearStr, monthStr] = period.split("-");
+  const year = parseInt(yearStr, 10);
+  const month = parseInt(monthStr, 10);
+
+  if (isNaN(year) || isNaN(month) || month < 1 || month > 12) {
+    return [];
+  }
+
+  const periodStart = `${period}-01`;
+  const periodEnd = `${period}-${String(getDaysInMonth(year, month)).padStart(2, "0")}`;
+  const inBounds = (date: string) =>
+    (!template.startDate || date >= template.startDate) && (!template.endDate || date <= template.endDate);
 
-    if (template.rule === "endOfMonth") {
-      const daysInMonth = getDaysInMonth(year, month);
-      return `${year}-${String(month).padStart(2, "0")}-${String(daysInMonth).padStart(2, "0")}`;
+  if (template.frequency === "weekly" || template.frequency === "fortnightly") {
+    if (!template.startDate) return [];
+    const step = template.frequency === "weekly" ? 7 : 14;
+    const dates: string[] = [];
+    let date = template.startDate;
+    if (date < periodStart) {
+      const gapDays = Math.round(
+        (Date.parse(`${periodStart}T00:00:00Z`) - Date.parse(`${date}T00:00:00Z`)) / 86400000
+      );
+      date = addDays(date, Math.ceil(gapDays / step) * step);
     }
+    for (; date <= periodEnd; date = addDays(date, step)) {
+      if (inBounds(date)) dates.push(date);
+    }
+    return dates;
+  }
 
-    if (template.rule === "dayOfMonth" && template.day) {
-      const day = Math.min(template.day, getDaysInMonth(year, month));
-      return `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+  if (template.startDate) {
+    const startYear = parseInt(template.startDate.slice(0, 4), 10);
+    const startMonth = parseInt(template.startDate.slice(5, 7), 10);
+    const monthsSinceStart = (year - startYear) * 12 + (month - startMonth);
+    if (monthsSinceStart < 0 || monthsSinceStart % monthInterval(template) !== 0) {
+      return [];
     }
+  }
 
-    return null;
-  } catch {
-    return null;
+  let date: string | null = null;
+  if (template.rule === "endOfMonth") {
+    date = periodEnd;
+  } else if (template.rule === "dayOfMonth" && template.day) {
+    const day = Math.min(template.day, getDaysInMonth(year, month));
+    date = `${period}-${String(day).padStart(2, "0")}`;
   }
+
+  return date && inBounds(date) ? [date] : [];
 }
 
 /**
@@ -64,10 +124,52 @@ function getPeriodFromDate(dateISO: string): string {
 }
 
 /**
- * Check if amounts are approximately equal (within 0.01 tolerance)
+ * Shift a period (YYYY-MM) by a number of months
+ */
+function shiftPeriod(period: string, months: number): string {
+  const d = new Date(`${period}-01T00:00:00Z`);
+  d.setUTCMonth(d.getUTCMonth() + months);
+  return d.toISOString().slice(0, 7);
+}
+
+/**
+ * Whole days between two ISO dates, either order
+ */
+function daysBetween(a: string, b: string): number {
+  return Math.round(Math.abs(Date.parse(`${a}T00:00:00Z`) - Date.parse(`${b}T00:00:00Z`)) / 86400000);
+}
+
+/**
+ * Check if an amount is within the template's tolerance of the expected amount
  */
-function amountsEqual(a: number, b: number): boolean {
-  return Math.abs(a - b) < 0.01;
+function amountWithinTolerance(amount: number, template: ScheduledTransactionTemplate): boolean {
+  const tolerance =
+    template.amountToleranceType === "percent"
+      ? (template.amount * (template.amountTolerance ?? 0)) / 100
+      : (template.amountTolerance ?? 0);
+  return Math.round(Math.abs(amount - template.amount) * 100) / 100 <= Math.round(tolerance * 100) / 100;
+}
+
+/**
+ * Check if a transaction date can match an occurrence: within the template's
+ * window of days, or in the same month when it has none
+ */
+function withinMatchWindow(dateISO: string, expectedDateISO: string, template: ScheduledTransactionTemplate): boolean {
+  if (template.matchWindowDays === undefined) {
+    return getPeriodFromDate(dateISO) === getPeriodFromDate(expectedDateISO);
+  }
+  return daysBetween(dateISO, expectedDateISO) <= template.matchWindowDays;
+}
+
+/**
+ * Score a candidate for an occurrence; lower is better. Adds the days from
+ * the expected date, as a share of the window (or a month), to the amount's
+ * difference as a share of the expected amount.
+ */
+function matchScore(tx: MoneyTransaction, expectedDateISO: string, template: ScheduledTransactionTemplate): number {
+  const dayScore = daysBetween(tx.date, expectedDateISO) / ((template.matchWindowDays ?? 31) + 1);
+  const amountScore = Math.abs(tx.amount - template.amount) / Math.max(template.amount, 0.01);
+  return dayScore + amountScore;
 }
 
 /**
@@ -82,8 +184,8 @@ function transactionMatches(
     return false;
   }
 
-  // Category must match
-  if (tx.category !== template.category) {
+  // Category must match (any line of a split); amounts compare the whole transaction
+  if (tx.category !== template.category && !tx.splits?.some((line) => line.category === template.category)) {
     return false;
   }
 
@@ -91,7 +193,7 @@ function transactionMatches(
   const mode = template.matchMode ?? "amountOnly";
 
   if (mode === "amountOnly") {
-    return amountsEqual(tx.amount, template.amount);
+    return amountWithinTolerance(tx.amount, template);
   }
 
   if (mode === "keyword") {
@@ -103,7 +205,7 @@ function transactionMatches(
 
   if (mode === "both") {
     if (!template.matchKeyword) return false;
-    const amountOk = amountsEqual(tx.amount, template.amount);
+    const amountOk = amountWithinTolerance(tx.amount, template);
     const keyword = template.matchKeyword.toLowerCase();
     const note = (tx.note ?? "").toLowerCase();
     const keywordOk = note.includes(keyword);
@@ -116,9 +218,10 @@ function transactionMatches(
 /**
  * Project scheduled transactions against actual transactions for a period
  * @param templates - Array of scheduled transaction templates
- * @param transactions - Array of actual money transactions
+ * @param transactions - Array of money transactions, pending scheduled entries included
  * @param period - Period in YYYY-MM format
- * @returns Array of projection rows showing expected vs. matched state
+ * @returns Array of projection rows showing expected vs. matched state, one
+ *   per occurrence; templates with no occurrence in the period have no rows
  */
 export function projectScheduledTransactions(
   templates: ScheduledTransactionTemplate[],
@@ -128,53 +231,81 @@ export function projectScheduledTransactions(
   const rows: ScheduledProjectionRow[] = [];
   const usedTxIds = new Set<string>();
 
+  // Rows posted from a template belong to their occurrence, even if their date was edited
+  const posted = new Map<string, MoneyTransaction>();
+  for (const tx of transactions) {
+    if (tx.scheduledTemplateId && tx.scheduledDate) {
+      posted.set(`${tx.scheduledTemplateId}|${tx.scheduledDate}`, tx);
+    }
+  }
+
+  // Confirmed transactions not posted from a template are open to matching; a
+  // neighbouring month's occurrence reaches at most a 31-day window past its month
+  const from = `${shiftPeriod(period, -2)}-01`;
+  const until = `${shiftPeriod(period, 3)}-01`;
+  const unlinkedTransactions = transactions.filter(
+    (tx) => !tx.pending && !tx.scheduledTemplateId && tx.date >= from && tx.date < until
+  );
+
   for (const template of templates) {
+    const expectedDates = computeExpectedDates(template, period);
+
     // Skip inactive templates
     if (!template.active) {
-      rows.push({
-        template,
-        expectedDateISO: computeExpectedDate(template, period) ?? "",
-        status: "inactive",
-      });
+      for (const expectedDateISO of expectedDates) {
+        rows.push({ template, expectedDateISO, status: "inactive" });
+      }
       continue;
     }
 
-    // Compute expected date
-    const expectedDateISO = computeExpectedDate(template, period);
-    if (!expectedDateISO) {
-      rows.push({
-        template,
-        expectedDateISO: "",
-        status: "missing",
-      });
-      continue;
-    }
+    const skipped = new Set(template.skippedDates ?? []);
+    const isOpen = (date: string) => !skipped.has(date) && !posted.has(`${template.id}|${date}`);
 
-    // Find matching transactions in the same period
-    const periodTransactions = transactions.filter(
-      (tx) => getPeriodFromDate(tx.date) === period
-    );
+    // Occurrences in the neighbouring months compete for the same transactions,
+    // so a bill paid early or late goes to the same occurrence whichever month is shown
+    const occurrences = [shiftPeriod(period, -1), period, shiftPeriod(period, 1)]
+      .flatMap((p) => (p === period ? expectedDates : computeExpectedDates(template, p)))
+      .filter(isOpen);
 
-    // Find first matching transaction (earliest)
-    const matchedTx = periodTransactions.find(
+    // Score every possible pair and take the best ones first
+    const candidates = unlinkedTransactions.filter(
       (tx) => !usedTxIds.has(tx.id) && transactionMatches(tx, template)
     );
+    const pairs = occurrences
+      .flatMap((expectedDateISO) =>
+        candidates
+          .filter((tx) => withinMatchWindow(tx.date, expectedDateISO, template))
+          .map((tx) => ({ expectedDateISO, tx, score: matchScore(tx, expectedDateISO, template) }))
+      )
+      .sort((a, b) => a.score - b.score);
+    const matches = new Map<string, MoneyTransaction>();
+    for (const pair of pairs) {
+      if (matches.has(pair.expectedDateISO) || usedTxIds.has(pair.tx.id)) continue;
+      matches.set(pair.expectedDateISO, pair.tx);
+      usedTxIds.add(pair.tx.id);
+    }
 
-    if (matchedTx) {
-      usedTxIds.add(matchedTx.id);
-      rows.push({
-        template,
-        expectedDateISO,
-        matchedTransactionId: matchedTx.id,
-        matchedAmount: matchedTx.amount,
-        status: "matched",
-      });
-    } else {
-      rows.push({
-        template,
-        expectedDateISO,
-        status: "missing",
-      });
+    for (const expectedDateISO of expectedDates) {
+      const postedTx = posted.get(`${template.id}|${expectedDateISO}`);
+      const matchedTx = postedTx ?? matches.get(expectedDateISO);
+      if (skipped.has(expectedDateISO)) {
+        rows.push({ template, expectedDateISO, status: "skipped" });
+      } else if (matchedTx) {
+        rows.push({
+          template,
+          expectedDateISO,
+          matchedTransactionId: matchedTx.id,
+          matchedAmount: matchedTx.amount,
+          variance: Math.round((matchedTx.amount - template.amount) * 100) / 100,
+          status: matchedTx.pending ? "pending" : "matched",
+        });
+      } else {
+        rows.push({
+          template,
+          expectedDateISO,
+          status: "missing",
+        });
+      }
     }
   }
 
@@ -186,10 +317,19 @@ export function projectScheduledTransactions(
  */
 export function expectedTotal(rows: ScheduledProjectionRow[]): number {
   return rows
-    .filter((row) => row.status !== "inactive")
+    .filter((row) => row.status !== "inactive" && row.status !== "skipped")
     .reduce((sum, row) => sum + row.template.amount, 0);
 }
 
+/**
+ * Calculate total of pending scheduled entries from projection rows
+ */
+export function pendingTotal(rows: ScheduledProjectionRow[]): number {
+  return rows
+    .filter((row) => row.status === "pending")
+    .reduce((sum, row) => sum + (row.matchedAmount ?? 0), 0);
+}
+
 /**
  * Calculate total matched amount from projection rows
  */
@@ -4,13 +4,16 @@
  */
 
 import type { DistributionTarget } from "../types/distribution";
+import type { FxRate } from "../types/fx";
 import { isPeriodLocked } from "../state/periodLocksStore";
 import { getSnapshot } from "../state/periodSnapshotStore";
 import { getDistributionPlan } from "../state/distributionPlanStore";
+import { listFxRates } from "../state/fxRatesStore";
 
 export interface PeriodPlan {
   currency: string;
   targets: DistributionTarget[];
+  fxRates: FxRate[];
   source: "snapshot" | "live";
   lockedAt?: string;
 }
@@ -28,6 +31,7 @@ export function getPlanForPeriod(period: string | null): PeriodPlan | null {
     return {
       currency: plan.currency,
       targets: plan.targets,
+      fxRates: listFxRates(),
       source: "live",
     };
   }
@@ -39,6 +43,7 @@ export function getPlanForPeriod(period: string | null): PeriodPlan | null {
       return {
         currency: snapshot.currency,
         targets: snapshot.targets,
+        fxRates: snapshot.fxRates ?? listFxRates(),
         source: "snapshot",
         lockedAt: snapshot.lockedAt,
       };
@@ -53,6 +58,18 @@ export function getPlanForPeriod(period: string | null): PeriodPlan | null {
   return {
     currency: plan.currency,
     targets: plan.targets,
+    fxRates: listFxRates(),
     source: "live",
   };
 }
+
+/**
+ * Get the exchange rates for a period (frozen in the snapshot if locked, live otherwise).
+ * Snapshots taken before rates were frozen fall back to the live rates.
+ * @param period - YYYY-MM format period key, or null for all-time
+ * @param liveRates - Current rate table (defaults to the stored rates)
+ */
+export function getFxRatesForPeriod(period: string | null, liveRates: FxRate[] = listFxRates()): FxRate[] {
+  if (!period || !isPeriodLocked(period)) return liveRates;
+  return getSnapshot(period)?.fxRates ?? liveRates;
+}
@@ -1,25 +1,72 @@
 import type { CategoryName } from "../constants/categories";
-import type { MoneyTransaction } from "../types/transactions";
+import type { MoneyTransaction, TransactionSplit } from "../types/transactions";
+import { amountInBase, type FxConverter } from "./fxMath";
 
-export function sumByCategory(transactions: MoneyTransaction[]) {
+/**
+ * Whether a transaction is one leg of a transfer between own accounts
+ * (neither income nor spending)
+ */
+export function isTransfer(t: Pick<MoneyTransaction, "transferId">): boolean {
+  return Boolean(t.transferId);
+}
+
+/**
+ * The category lines a transaction counts towards: its split lines, or the
+ * whole amount under its own category. Transfers count towards none.
+ */
+export function categoryLines(t: MoneyTransaction): TransactionSplit[] {
+  if (isTransfer(t)) return [];
+  return t.splits ?? [{ category: t.category, subcategory: t.subcategory, amount: t.amount }];
+}
+
+/**
+ * A transaction line's amount in the base currency (same currency and date as its transaction)
+ */
+export function lineAmountInBase(t: MoneyTransaction, line: TransactionSplit, fx?: FxConverter): number {
+  return amountInBase({ amount: line.amount, currency: t.currency, date: t.date }, fx);
+}
+
+export function sumByCategory(transactions: MoneyTransaction[], fx?: FxConverter) {
   const map = new Map<CategoryName, number>();
 
   for (const t of transactions) {
     if (t.direction !== "out") continue;
-    const prev = map.get(t.category) ?? 0;
-    map.set(t.category, prev + t.amount);
+    for (const line of categoryLines(t)) {
+      const prev = map.get(line.category) ?? 0;
+      map.set(line.category, prev + lineAmountInBase(t, line, fx));
+    }
+  }
+
+  return map;
+}
+
+/**
+ * Outflows by subcategory, grouped under their top-level category
+ */
+export function sumBySubcategory(transactions: MoneyTransaction[], fx?: FxConverter) {
+  const map = new Map<CategoryName, Map<CategoryName, number>>();
+
+  for (const t of transactions) {
+    if (t.direction !== "out") continue;
+    for (const line of categoryLines(t)) {
+      if (!line.subcategory) continue;
+      const subs = map.get(line.category) ?? new Map<CategoryName, number>();
+      subs.set(line.subcategory, (subs.get(line.subcategory) ?? 0) + lineAmountInBase(t, line, fx));
+      map.set(line.category, subs);
+    }
   }
 
   return map;
 }
 
-export function sumTotals(transactions: MoneyTransaction[]) {
+export function sumTotals(transactions: MoneyTransaction[], fx?: FxConverter) {
   let totalIn = 0;
   let totalOut = 0;
 
   for (const t of transactions) {
-    if (t.direction === "in") totalIn += t.amount;
-    else totalOut += t.amount;
+    if (isTransfer(t)) continue;
+    if (t.direction === "in") totalIn += amountInBase(t, fx);
+    else totalOut += amountInBase(t, fx);
   }
 
   return { totalIn, totalOut, net: totalIn - totalOut };
@@ -0,0 +1,79 @@
+-- Household cloud sync tables (see src/api/syncRemote.ts)
+--
+-- One table per synced store, keyed by (household_id, id). `data` holds the
+-- record exactly as the app stores it; `updated_at` is stamped by the editing
+-- client and used for conflict resolution; `synced_at` is stamped here and is
+-- what clients page on when pulling.
+--
+-- Access is limited to members of the household via household_members.
+-- Apply with `supabase db push`, or against a local stack started with
+-- `supabase start` (point VITE_SUPABASE_URL / VITE_SUPABASE_ANON_KEY at it).
+
+create table if not exists public.household_members (
+  household_id uuid not null,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  role text not null default 'owner',
+  primary key (household_id, user_id)
+);
+
+alter table public.household_members enable row level security;
+
+drop policy if exists "members read own memberships" on public.household_members;
+create policy "members read own memberships" on public.household_members
+  for select using (user_id = auth.uid());
+
+create or replace function public.stewardly_touch_synced_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.synced_at := now();
+  return new;
+end;
+$$;
+
+do $$
+declare
+  t text;
+begin
+  foreach t in array array[
+    'period_locks',
+    'period_snapshots',
+    'transactions',
+    'income',
+    'distribution_plans',
+    'scheduled_templates',
+    'category_rules'
+  ]
+  loop
+    execute format(
+      'create table if not exists public.%I (
+         household_id uuid not null,
+         id text not null,
+         data jsonb,
+         deleted boolean not null default false,
+         updated_at timestamptz not null,
+         synced_at timestamptz not null default now(),
+         primary key (household_id, id)
+       )', t);
+
+    execute format(
+      'create index if not exists %I on public.%I (household_id, synced_at)',
+      t || '_household_synced_at_idx', t);
+
+    execute format('drop trigger if exists touch_synced_at on public.%I', t);
+    execute format(
+      'create trigger touch_synced_at before insert or update on public.%I
+         for each row execute function public.stewardly_touch_synced_at()', t);
+
+    execute format('alter table public.%I enable row level security', t);
+    execute format('drop policy if exists "household members" on public.%I', t);
+    execute format(
+      'create policy "household members" on public.%I
+         for all
+         using (household_id in (select household_id from public.household_members where user_id = auth.uid()))
+         with check (household_id in (select household_id from public.household_members where user_id = auth.uid()))',
+      t);
+  end loop;
+end;
+$$;
@@ -0,0 +1,49 @@
+-- Household member roles (see src/utils/roleGuard.ts)
+--
+-- owner:  everything, including unlocking periods
+-- editor: edit data and lock periods
+-- viewer: read-only
+--
+-- Members of any role can read their household's rows; only owners and
+-- editors can write them. Unlocking is enforced by the client.
+
+alter table public.household_members
+  drop constraint if exists household_members_role_check;
+alter table public.household_members
+  add constraint household_members_role_check check (role in ('owner', 'editor', 'viewer'));
+
+do $$
+declare
+  t text;
+begin
+  foreach t in array array[
+    'period_locks',
+    'period_snapshots',
+    'transactions',
+    'income',
+    'distribution_plans',
+    'scheduled_templates',
+    'category_rules'
+  ]
+  loop
+    execute format('drop policy if exists "household members" on public.%I', t);
+
+    execute format('drop policy if exists "household members read" on public.%I', t);
+    execute format(
+      'create policy "household members read" on public.%I
+         for select
+         using (household_id in (select household_id from public.household_members where user_id = auth.uid()))',
+      t);
+
+    execute format('drop policy if exists "household editors write" on public.%I', t);
+    execute format(
+      'create policy "household editors write" on public.%I
+         for all
+         using (household_id in (select household_id from public.household_members
+                                 where user_id = auth.uid() and role in (''owner'', ''editor'')))
+         with check (household_id in (select household_id from public.household_members
+                                      where user_id = auth.uid() and role in (''owner'', ''editor'')))',
+      t);
+  end loop;
+end;
+$$;
@@ -0,0 +1,115 @@
+-- Asset and liability sync tables, plus ways to join a household
+-- (see src/api/syncRemote.ts)
+--
+-- stewardly_create_sync_table creates a synced store's table with the same
+-- shape, trigger and role policies as the tables in the earlier migrations.
+--
+-- household_members has no insert policy: rows are added only through
+--   stewardly_claim_household   the first device to sync a household becomes its owner
+--   stewardly_add_household_member   owners add or change members' roles
+
+create or replace function public.stewardly_create_sync_table(t text)
+returns void
+language plpgsql
+as $$
+begin
+  execute format(
+    'create table if not exists public.%I (
+       household_id uuid not null,
+       id text not null,
+       data jsonb,
+       deleted boolean not null default false,
+       updated_at timestamptz not null,
+       synced_at timestamptz not null default now(),
+       primary key (household_id, id)
+     )', t);
+
+  execute format(
+    'create index if not exists %I on public.%I (household_id, synced_at)',
+    t || '_household_synced_at_idx', t);
+
+  execute format('drop trigger if exists touch_synced_at on public.%I', t);
+  execute format(
+    'create trigger touch_synced_at before insert or update on public.%I
+       for each row execute function public.stewardly_touch_synced_at()', t);
+
+  execute format('alter table public.%I enable row level security', t);
+
+  execute format('drop policy if exists "household members read" on public.%I', t);
+  execute format(
+    'create policy "household members read" on public.%I
+       for select
+       using (household_id in (select household_id from public.household_members where user_id = auth.uid()))',
+    t);
+
+  execute format('drop policy if exists "household editors write" on public.%I', t);
+  execute format(
+    'create policy "household editors write" on public.%I
+       for all
+       using (household_id in (select household_id from public.household_members
+                               where user_id = auth.uid() and role in (''owner'', ''editor'')))
+       with check (household_id in (select household_id from public.household_members
+                                    where user_id = auth.uid() and role in (''owner'', ''editor'')))',
+    t);
+end;
+$$;
+
+revoke execute on function public.stewardly_create_sync_table(text) from public;
+
+select public.stewardly_create_sync_table('assets');
+select public.stewardly_create_sync_table('liabilities');
+
+-- Owner of a household nobody has claimed yet; returns the caller's role
+create or replace function public.stewardly_claim_household(p_household_id uuid)
+returns text
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if auth.uid() is null then
+    raise exception 'Sign in to sync a household';
+  end if;
+
+  -- Serialize claims of the same household
+  perform pg_advisory_xact_lock(hashtext(p_household_id::text));
+
+  if not exists (select 1 from household_members where household_id = p_household_id) then
+    insert into household_members (household_id, user_id, role)
+    values (p_household_id, auth.uid(), 'owner');
+  end if;
+
+  return (select role from household_members
+          where household_id = p_household_id and user_id = auth.uid());
+end;
+$$;
+
+-- Add a member, or change a member's role (owners only)
+create or replace function public.stewardly_add_household_member(
+  p_household_id uuid,
+  p_user_id uuid,
+  p_role text
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not exists (
+    select 1 from household_members
+    where household_id = p_household_id and user_id = auth.uid() and role = 'owner'
+  ) then
+    raise exception 'Only household owners can add members';
+  end if;
+
+  insert into household_members (household_id, user_id, role)
+  values (p_household_id, p_user_id, p_role)
+  on conflict (household_id, user_id) do update set role = excluded.role;
+end;
+$$;
+
+revoke execute on function public.stewardly_claim_household(uuid) from public, anon;
+revoke execute on function public.stewardly_add_household_member(uuid, uuid, text) from public, anon;
+grant execute on function public.stewardly_claim_household(uuid) to authenticated;
+grant execute on function public.stewardly_add_household_member(uuid, uuid, text) to authenticated;
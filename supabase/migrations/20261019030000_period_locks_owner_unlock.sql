@@ -0,0 +1,46 @@
+-- Only owners can unlock periods (see src/utils/roleGuard.ts)
+--
+-- Editors could write period_locks through "household editors write" (for all),
+-- so they could unlock by deleting a row or pushing it as deleted. Editors now
+-- keep only what locking needs: inserting a lock, and re-locking a period
+-- whose row was unlocked earlier (an update from deleted to not deleted).
+-- Owners can insert, update and delete freely.
+
+drop policy if exists "household editors write" on public.period_locks;
+
+drop policy if exists "household editors lock" on public.period_locks;
+create policy "household editors lock" on public.period_locks
+  for insert
+  with check (deleted = false
+              and household_id in (select household_id from public.household_members
+                                   where user_id = auth.uid() and role = 'editor'));
+
+drop policy if exists "household owners insert" on public.period_locks;
+create policy "household owners insert" on public.period_locks
+  for insert
+  with check (household_id in (select household_id from public.household_members
+                               where user_id = auth.uid() and role = 'owner'));
+
+drop policy if exists "household editors relock" on public.period_locks;
+create policy "household editors relock" on public.period_locks
+  for update
+  using (deleted = true
+         and household_id in (select household_id from public.household_members
+                              where user_id = auth.uid() and role = 'editor'))
+  with check (deleted = false
+              and household_id in (select household_id from public.household_members
+                                   where user_id = auth.uid() and role = 'editor'));
+
+drop policy if exists "household owners update" on public.period_locks;
+create policy "household owners update" on public.period_locks
+  for update
+  using (household_id in (select household_id from public.household_members
+                          where user_id = auth.uid() and role = 'owner'))
+  with check (household_id in (select household_id from public.household_members
+                               where user_id = auth.uid() and role = 'owner'));
+
+drop policy if exists "household owners delete" on public.period_locks;
+create policy "household owners delete" on public.period_locks
+  for delete
+  using (household_id in (select household_id from public.household_members
+                          where user_id = auth.uid() and role = 'owner'));
@@ -0,0 +1,22 @@
+-- Sync tables for the remaining household stores (see src/api/syncRemote.ts):
+-- net worth history, loans, FX rates, investments, security prices, savings
+-- goals, categories, accounts, reconciliations and import profiles.
+-- Envelope settings are part of distribution_plans.
+--
+-- Same shape, trigger and role policies as every other synced table
+-- (see stewardly_create_sync_table).
+
+select public.stewardly_create_sync_table(t)
+from unnest(array[
+  'net_worth_history',
+  'loans',
+  'fx_rates',
+  'investment_accounts',
+  'holdings',
+  'security_prices',
+  'savings_goals',
+  'categories',
+  'accounts',
+  'reconciliations',
+  'import_profiles'
+]) as t;
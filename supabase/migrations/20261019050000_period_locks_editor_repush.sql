@@ -0,0 +1,16 @@
+-- Editors can push a period lock the remote already has
+--
+-- Sync pushes a lock as an upsert, so pushing one that is already live is an
+-- update of a live row. "household editors relock" only allowed updates of
+-- unlocked rows, so that push was rejected and the sync queue never drained.
+-- Editors may now update any lock row as long as it stays locked; unlocking
+-- (deleted = true) is still left to owners.
+
+drop policy if exists "household editors relock" on public.period_locks;
+create policy "household editors relock" on public.period_locks
+  for update
+  using (household_id in (select household_id from public.household_members
+                          where user_id = auth.uid() and role = 'editor'))
+  with check (deleted = false
+              and household_id in (select household_id from public.household_members
+                                   where user_id = auth.uid() and role = 'editor'));